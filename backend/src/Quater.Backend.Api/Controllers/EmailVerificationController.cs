@@ -48,7 +48,7 @@ public sealed class EmailVerificationController(
 
         if (user.EmailConfirmed)
         {
-            return Ok(new { message = "Email already verified" });
+            return Ok(new { message = "Email already verified", alreadyVerified = true });
         }
 
         var result = await _userManager.ConfirmEmailAsync(user, request.Code);
@@ -76,7 +76,7 @@ public sealed class EmailVerificationController(
             // Don't fail verification if welcome email fails
         }
 
-        return Ok(new { message = "Email verified successfully" });
+        return Ok(new { message = "Email verified successfully", alreadyVerified = false });
     }
 
     /// <summary>
@@ -62,6 +62,7 @@ public sealed class EmailVerificationControllerTests(ApiTestFixture fixture) : I
         });
 
         result.GetProperty("message").GetString().Should().Be("Email verified successfully");
+        result.GetProperty("alreadyVerified").GetBoolean().Should().BeFalse();
 
         // Verify database state
         var updatedUser = await GetUserByIdAsync(user.Id);
@@ -202,6 +203,7 @@ public sealed class EmailVerificationControllerTests(ApiTestFixture fixture) : I
         });
 
         result.GetProperty("message").GetString().Should().Be("Email already verified");
+        result.GetProperty("alreadyVerified").GetBoolean().Should().BeTrue();
     }
 
     [Fact]
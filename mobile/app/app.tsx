@@ -25,6 +25,8 @@ import { KeyboardProvider } from "react-native-keyboard-controller"
 import { initialWindowMetrics, SafeAreaProvider } from "react-native-safe-area-context"
 
 import { AuthProvider } from "./context/AuthContext"
+import { ServerCompatibilityProvider } from "./context/ServerCompatibilityContext"
+import { SyncProvider } from "./context/SyncContext"
 import { initI18n } from "./i18n"
 import { AppNavigator } from "./navigators/AppNavigator"
 import { useNavigationPersistence } from "./navigators/navigationUtilities"
@@ -43,6 +45,10 @@ const config = {
       path: "",
     },
     Welcome: "welcome",
+    SampleList: "samples",
+    SampleDetail: "samples/:sampleId",
+    ResetPassword: "reset-password",
+    VerifyEmail: "verify-email",
     Demo: {
       screens: {
         DemoShowroom: {
@@ -97,13 +103,17 @@ export function App() {
     <SafeAreaProvider initialMetrics={initialWindowMetrics}>
       <KeyboardProvider>
         <AuthProvider>
-          <ThemeProvider>
-            <AppNavigator
-              linking={linking}
-              initialState={initialNavigationState}
-              onStateChange={onNavigationStateChange}
-            />
-          </ThemeProvider>
+          <ServerCompatibilityProvider>
+            <SyncProvider>
+              <ThemeProvider>
+                <AppNavigator
+                  linking={linking}
+                  initialState={initialNavigationState}
+                  onStateChange={onNavigationStateChange}
+                />
+              </ThemeProvider>
+            </SyncProvider>
+          </ServerCompatibilityProvider>
         </AuthProvider>
       </KeyboardProvider>
     </SafeAreaProvider>
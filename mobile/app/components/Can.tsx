@@ -0,0 +1,30 @@
+import { ReactNode } from "react"
+
+import type { Permission } from "@/utils/permissions"
+import { usePermission } from "@/utils/usePermission"
+
+export interface CanProps {
+  /**
+   * The action the children perform, e.g. `"sample:delete"`.
+   */
+  permission: Permission
+  /**
+   * Rendered instead of the children when the action isn't allowed.
+   */
+  fallback?: ReactNode
+  /**
+   * Rendered when the user's role in the current lab allows the action.
+   */
+  children: ReactNode
+}
+
+/**
+ * Renders its children only when the user's role allows `permission`, e.g. to hide an
+ * edit button from Viewers.
+ * @param {CanProps} props - The props for the `Can` component.
+ * @returns {JSX.Element} The children, the fallback, or nothing.
+ */
+export function Can(props: CanProps) {
+  const { permission, fallback = null, children } = props
+  return <>{usePermission(permission) ? children : fallback}</>
+}
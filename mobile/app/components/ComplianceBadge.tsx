@@ -0,0 +1,42 @@
+import { StyleProp, ViewStyle } from "react-native"
+
+import { translate } from "@/i18n/translate"
+import {
+  appearanceOf,
+  COMPLIANCE_STATUS_APPEARANCE,
+  ComplianceStatuses,
+} from "@/services/api/enums"
+import type { ComplianceStatus } from "@/services/api/types"
+
+import { StatusBadge } from "./StatusBadge"
+
+export interface ComplianceBadgeProps {
+  status: ComplianceStatus
+  /**
+   * Marks the status as a client-side prediction rather than the server's verdict.
+   */
+  predicted?: boolean
+  /**
+   * Style override for the container.
+   */
+  style?: StyleProp<ViewStyle>
+}
+
+/**
+ * A small pill showing a test result's Pass/Fail/Warning status.
+ * @param {ComplianceBadgeProps} props - The props for the `ComplianceBadge` component.
+ * @returns {JSX.Element} The rendered `ComplianceBadge` component.
+ */
+export function ComplianceBadge(props: ComplianceBadgeProps) {
+  const { status, predicted, style } = props
+  const tx = ComplianceStatuses.tx(status)
+
+  return (
+    <StatusBadge
+      appearance={appearanceOf(COMPLIANCE_STATUS_APPEARANCE, status)}
+      tx={predicted ? "complianceStatus:predicted" : tx}
+      txOptions={predicted ? { status: translate(tx) } : undefined}
+      style={style}
+    />
+  )
+}
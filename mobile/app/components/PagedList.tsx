@@ -0,0 +1,76 @@
+import { ActivityIndicator, FlatList, FlatListProps } from "react-native"
+
+import type { TxKeyPath } from "@/i18n"
+import type { Identified } from "@/utils/pagedList"
+import type { PagedListState } from "@/utils/usePagedList"
+
+import { EmptyState } from "./EmptyState"
+
+export interface PagedListProps<T extends Identified> extends Omit<
+  FlatListProps<T>,
+  "data" | "refreshing" | "onRefresh" | "onEndReached" | "ListEmptyComponent"
+> {
+  /**
+   * The pages loaded so far, from `usePagedList`.
+   */
+  list: PagedListState<T>
+  /**
+   * Heading shown when the endpoint has no records at all.
+   */
+  emptyHeadingTx: TxKeyPath
+  /**
+   * Shown under the heading when there are no records.
+   */
+  emptyContentTx?: TxKeyPath
+  /**
+   * Heading shown instead when the first page failed to load.
+   */
+  failedHeadingTx: TxKeyPath
+}
+
+/**
+ * A `FlatList` over a `usePagedList` list: loads the next page near the end, starts over
+ * on pull-to-refresh and shows an `EmptyState` when there is nothing to list.
+ * Items are keyed by `id` unless a `keyExtractor` is given.
+ * @param {PagedListProps} props - The props for the `PagedList` component.
+ * @returns {JSX.Element} The rendered `PagedList` component.
+ */
+export function PagedList<T extends Identified>(props: PagedListProps<T>) {
+  const {
+    list,
+    emptyHeadingTx,
+    emptyContentTx,
+    failedHeadingTx,
+    keyExtractor = defaultKeyExtractor,
+    ListFooterComponent,
+    ...flatListProps
+  } = props
+  const isEmpty = list.totalCount === 0 || (list.items.length === 0 && !!list.problem)
+
+  return (
+    <FlatList<T>
+      onEndReachedThreshold={0.5}
+      {...flatListProps}
+      data={list.items}
+      keyExtractor={keyExtractor}
+      refreshing={list.isRefreshing}
+      onRefresh={list.refresh}
+      onEndReached={list.loadMore}
+      ListEmptyComponent={
+        isEmpty && !list.isRefreshing ? (
+          <EmptyState
+            preset="generic"
+            headingTx={list.problem ? failedHeadingTx : emptyHeadingTx}
+            contentTx={emptyContentTx}
+            buttonOnPress={list.refresh}
+          />
+        ) : null
+      }
+      ListFooterComponent={list.isLoadingMore ? <ActivityIndicator /> : ListFooterComponent}
+    />
+  )
+}
+
+function defaultKeyExtractor(item: Identified, index: number): string {
+  return item.id ?? String(index)
+}
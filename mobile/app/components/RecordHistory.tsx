@@ -0,0 +1,186 @@
+import { useCallback, useEffect, useRef } from "react"
+import {
+  ActivityIndicator,
+  StyleProp,
+  TextStyle,
+  TouchableOpacity,
+  View,
+  ViewStyle,
+} from "react-native"
+
+import { translate } from "@/i18n/translate"
+import { api } from "@/services/api"
+import { AuditActions, TRUNCATED_APPEARANCE } from "@/services/api/enums"
+import type { AuditLogDto } from "@/services/api/types"
+import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+import { type AuditValue, diffAuditValues } from "@/utils/auditDiff"
+import { formatDate } from "@/utils/formatDate"
+import { usePagedList } from "@/utils/usePagedList"
+
+import { Button } from "./Button"
+import { StatusBadge } from "./StatusBadge"
+import { Text } from "./Text"
+
+const PAGE_SIZE = 10
+
+export interface RecordHistoryProps {
+  /**
+   * The sample or test result whose audit entries are shown.
+   */
+  entityId: string
+  /**
+   * Reloads the history whenever it changes; pass the record's `version`.
+   */
+  revision?: number
+  /**
+   * Whether an entry offers "Restore this version". Defaults to never.
+   */
+  canRestore?: (entry: AuditLogDto) => boolean
+  /**
+   * Called when "Restore this version" is pressed.
+   */
+  onRestore?: (entry: AuditLogDto) => void
+  /**
+   * Called when an entry is tapped, typically to open its full diff.
+   */
+  onPressEntry?: (entry: AuditLogDto) => void
+  /**
+   * Style override for the container.
+   */
+  style?: StyleProp<ViewStyle>
+}
+
+/**
+ * A record's audit trail as a timeline, newest first, with a compact diff per entry.
+ * The audit routes are admin-only, so render it inside `<Can permission="audit:view">`.
+ * @param {RecordHistoryProps} props - The props for the `RecordHistory` component.
+ * @returns {JSX.Element} The rendered `RecordHistory` component.
+ */
+export function RecordHistory(props: RecordHistoryProps) {
+  const { entityId, revision, canRestore, onRestore, onPressEntry, style: $styleOverride } = props
+  const { themed } = useAppTheme()
+
+  const list = usePagedList(
+    useCallback(
+      (page, pageSize, options) => api.getAuditLogsByEntity(entityId, page, pageSize, options),
+      [entityId],
+    ),
+    { pageSize: PAGE_SIZE },
+  )
+  const isLoading = list.isRefreshing || list.isLoadingMore
+
+  // The first page loads with the screen; a new revision adds an entry on top of it.
+  const { refresh } = list
+  const loadedRevision = useRef(revision)
+  useEffect(() => {
+    if (revision === loadedRevision.current) return
+    loadedRevision.current = revision
+    void refresh()
+  }, [refresh, revision])
+
+  return (
+    <View style={[themed($container), $styleOverride]}>
+      <Text preset="formLabel" tx="recordHistory:title" />
+      {list.problem && <Text size="xs" tx="recordHistory:loadFailed" style={themed($error)} />}
+      {!list.problem && list.totalCount === 0 && (
+        <Text size="xs" tx="recordHistory:empty" style={themed($dim)} />
+      )}
+
+      {list.items.map((entry, index) => (
+        <TouchableOpacity
+          key={entry.id ?? index}
+          accessibilityRole="button"
+          disabled={!onPressEntry}
+          onPress={() => onPressEntry?.(entry)}
+          style={themed($entry)}
+        >
+          <View style={themed($titleRow)}>
+            <Text weight="medium" size="sm" tx={AuditActions.tx(entry.action)} />
+            {entry.isTruncated && (
+              <StatusBadge appearance={TRUNCATED_APPEARANCE} tx="auditLogFields:truncated" />
+            )}
+          </View>
+          <Text size="xs" style={themed($dim)}>
+            {[
+              entry.timestamp ? formatDate(entry.timestamp, "MMM dd, yyyy HH:mm") : undefined,
+              entry.userEmail,
+            ]
+              .filter(Boolean)
+              .join(" · ")}
+          </Text>
+          <CompactDiff entry={entry} />
+          {canRestore?.(entry) && (
+            <Button
+              tx="recordHistory:restore"
+              style={themed($restoreButton)}
+              onPress={() => onRestore?.(entry)}
+            />
+          )}
+        </TouchableOpacity>
+      ))}
+
+      {isLoading && <ActivityIndicator />}
+      {list.hasNextPage && !list.problem && !isLoading && (
+        <Button tx="recordHistory:older" onPress={list.loadMore} />
+      )}
+    </View>
+  )
+}
+
+/** One line per changed property; the audit entry screen has the full detail. */
+function CompactDiff({ entry }: { entry: AuditLogDto }) {
+  // Creates and deletes record every property, which is too much for a timeline.
+  if (entry.action !== AuditActions.byKey.update) return null
+
+  const changes = diffAuditValues(entry.oldValue, entry.newValue)
+  if (!changes?.length) return null
+
+  const show = (value: AuditValue | undefined) =>
+    !value?.text
+      ? translate("auditLogDetailScreen:empty")
+      : value.text + (value.truncated ? "…" : "")
+
+  return (
+    <View>
+      {changes.map((change) => (
+        <Text key={change.field} size="xs" numberOfLines={1}>
+          {`${change.field}: ${show(change.before)} → ${show(change.after)}`}
+        </Text>
+      ))}
+    </View>
+  )
+}
+
+const $container: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  gap: spacing.xs,
+})
+
+const $entry: ThemedStyle<ViewStyle> = ({ colors, spacing }) => ({
+  paddingVertical: spacing.xs,
+  borderLeftWidth: 2,
+  borderLeftColor: colors.separator,
+  paddingLeft: spacing.sm,
+  gap: spacing.xxxs,
+})
+
+const $titleRow: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  flexDirection: "row",
+  alignItems: "center",
+  gap: spacing.xs,
+})
+
+const $restoreButton: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  alignSelf: "flex-start",
+  minHeight: 36,
+  paddingVertical: spacing.xxs,
+  marginTop: spacing.xxs,
+})
+
+const $dim: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
+
+const $error: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.error,
+})
@@ -0,0 +1,60 @@
+import { StyleProp, View, ViewStyle } from "react-native"
+
+import { type StatusAppearance, toneColors } from "@/services/api/enums"
+import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+
+import { Icon } from "./Icon"
+import { Text, TextProps } from "./Text"
+
+export interface StatusBadgeProps {
+  /**
+   * The icon and color tone, usually from one of the `*_APPEARANCE` maps in `@/services/api/enums`.
+   */
+  appearance: StatusAppearance
+  /**
+   * Label which is looked up via i18n.
+   */
+  tx: TextProps["tx"]
+  /**
+   * Optional options to pass to i18n. Useful for interpolation
+   * as well as explicitly setting locale or translation fallbacks.
+   */
+  txOptions?: TextProps["txOptions"]
+  /**
+   * Style override for the container.
+   */
+  style?: StyleProp<ViewStyle>
+}
+
+/**
+ * A small pill showing a status-like enum value with its icon and color.
+ * @param {StatusBadgeProps} props - The props for the `StatusBadge` component.
+ * @returns {JSX.Element} The rendered `StatusBadge` component.
+ */
+export function StatusBadge(props: StatusBadgeProps) {
+  const { appearance, tx, txOptions, style: $styleOverride } = props
+  const {
+    themed,
+    theme: { colors },
+  } = useAppTheme()
+
+  const { color, backgroundColor } = toneColors(appearance.tone, colors)
+
+  return (
+    <View style={[themed($container), { backgroundColor }, $styleOverride]}>
+      <Icon icon={appearance.icon} size={12} color={color} />
+      <Text size="xxs" weight="semiBold" tx={tx} txOptions={txOptions} style={{ color }} />
+    </View>
+  )
+}
+
+const $container: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  flexDirection: "row",
+  alignItems: "center",
+  alignSelf: "flex-start",
+  gap: spacing.xxs,
+  borderRadius: spacing.xs,
+  paddingHorizontal: spacing.xs,
+  paddingVertical: spacing.xxxs,
+})
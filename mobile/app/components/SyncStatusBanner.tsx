@@ -0,0 +1,73 @@
+import { ActivityIndicator, StyleProp, TouchableOpacity, View, ViewStyle } from "react-native"
+
+import { useSync } from "@/context/SyncContext"
+import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+
+import { Text } from "./Text"
+
+export interface SyncStatusBannerProps {
+  /**
+   * Called when the banner is tapped, typically to open the pending changes screen.
+   */
+  onPress?: () => void
+  /**
+   * Style override for the container.
+   */
+  style?: StyleProp<ViewStyle>
+}
+
+/**
+ * Shows connectivity and outbox state. Renders nothing while online with an empty outbox.
+ * @param {SyncStatusBannerProps} props - The props for the `SyncStatusBanner` component.
+ * @returns {JSX.Element | null} The rendered `SyncStatusBanner` component.
+ */
+export function SyncStatusBanner(props: SyncStatusBannerProps) {
+  const { onPress, style: $styleOverride } = props
+  const { isOnline, isSyncing, pendingCount, failedCount } = useSync()
+  const {
+    themed,
+    theme: { colors },
+  } = useAppTheme()
+
+  if (isOnline && !isSyncing && pendingCount === 0 && failedCount === 0) return null
+
+  const hasFailures = failedCount > 0
+
+  return (
+    <TouchableOpacity
+      accessibilityRole="button"
+      onPress={onPress}
+      disabled={!onPress}
+      style={[themed($container), hasFailures && themed($failedContainer), $styleOverride]}
+    >
+      {isSyncing && <ActivityIndicator size="small" color={colors.text} />}
+      <View style={$messages}>
+        {!isOnline && <Text size="xs" tx="syncStatus:offline" />}
+        {pendingCount > 0 && (
+          <Text size="xs" tx="syncStatus:pending" txOptions={{ count: pendingCount }} />
+        )}
+        {hasFailures && (
+          <Text size="xs" tx="syncStatus:failed" txOptions={{ count: failedCount }} />
+        )}
+      </View>
+    </TouchableOpacity>
+  )
+}
+
+const $container: ThemedStyle<ViewStyle> = ({ colors, spacing }) => ({
+  flexDirection: "row",
+  alignItems: "center",
+  gap: spacing.xs,
+  paddingHorizontal: spacing.md,
+  paddingVertical: spacing.xs,
+  backgroundColor: colors.palette.accent200,
+})
+
+const $failedContainer: ThemedStyle<ViewStyle> = ({ colors }) => ({
+  backgroundColor: colors.errorBackground,
+})
+
+const $messages: ViewStyle = {
+  flex: 1,
+}
@@ -11,6 +11,11 @@ export interface ConfigBaseProps {
   OAUTH_REDIRECT_PATH: string
   /** OAuth2 scopes requested during authorization */
   OAUTH_SCOPES: string[]
+  /**
+   * Backend releases this build works with, checked against `/api/version` after sign-in.
+   * `minVersion` is inclusive and `maxVersion` exclusive; prerelease tags are ignored.
+   */
+  SUPPORTED_SERVER: { minVersion: string; maxVersion: string; apiVersion: string }
 }
 
 export type PersistNavigationConfig = ConfigBaseProps["persistNavigation"]
@@ -29,7 +34,7 @@ const BaseConfig: Omit<ConfigBaseProps, "API_URL"> = {
    * This is a list of all the route names that will exit the app if the back button
    * is pressed while in that screen. Only affects Android.
    */
-  exitRoutes: ["Welcome"],
+  exitRoutes: ["SampleList", "Welcome"],
 
   /**
    * OAuth2 / OpenIddict configuration.
@@ -40,6 +45,12 @@ const BaseConfig: Omit<ConfigBaseProps, "API_URL"> = {
   OAUTH_REDIRECT_SCHEME: "quater",
   OAUTH_REDIRECT_PATH: "oauth/callback",
   OAUTH_SCOPES: ["openid", "email", "profile", "offline_access", "api"],
+
+  /**
+   * Raise `minVersion` when the app starts relying on a backend change, and `maxVersion`
+   * when a backend release has been tested with this build.
+   */
+  SUPPORTED_SERVER: { minVersion: "0.1.0", maxVersion: "1.0.0", apiVersion: "v1" },
 }
 
 export default BaseConfig
@@ -0,0 +1,42 @@
+import type { PropsWithChildren } from "react"
+import { act, renderHook } from "@testing-library/react-native"
+
+import { UserRoles } from "@/services/api/enums"
+import { queryCache } from "@/services/query/queryCache"
+import { authStore } from "@/stores/authStore"
+import { storage } from "@/utils/storage"
+import { secureStorage } from "@/utils/storage/secureStorage"
+
+import { AuthProvider, useAuth } from "./AuthContext"
+
+const wrapper = ({ children }: PropsWithChildren) => <AuthProvider>{children}</AuthProvider>
+
+describe("AuthProvider", () => {
+  beforeEach(() => {
+    storage.clearAll()
+    secureStorage.clearAll()
+    queryCache.clear()
+    authStore.setAccessToken("access")
+    authStore.setUserId("user-1")
+    authStore.setLabId("lab-1")
+  })
+
+  it("drops the previous lab's cached records when switching labs", async () => {
+    const key = ["getActiveParameters"] as const
+    await queryCache.fetch(key, async () => ({ kind: "ok", data: ["pH"] }), { persist: true })
+    const { result } = renderHook(() => useAuth(), { wrapper })
+
+    act(() => {
+      result.current.switchLab({
+        labId: "lab-2",
+        labName: "Second Lab",
+        role: UserRoles.byKey.technician,
+      })
+    })
+
+    expect(result.current.labId).toBe("lab-2")
+    expect(result.current.labRole).toBe(UserRoles.byKey.technician)
+    expect(queryCache.getState(key).data).toBeUndefined()
+    expect(storage.getAllKeys()).toEqual([])
+  })
+})
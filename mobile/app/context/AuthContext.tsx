@@ -8,31 +8,58 @@ import {
   useMemo,
   useState,
 } from "react"
+import { AppState } from "react-native"
+import NetInfo from "@react-native-community/netinfo"
 
-import { api } from "@/services/api"
+import { api, type TokenRefreshResult } from "@/services/api"
+import type { UserLabDto, UserRole } from "@/services/api/types"
+import { queryCache } from "@/services/query/queryCache"
 import { authStore } from "@/stores/authStore"
+import { outboxStore } from "@/stores/outboxStore"
+import { type ServerProfile, serverProfileStore } from "@/stores/serverProfileStore"
+import { createRefreshScheduler } from "@/utils/tokenRefresh"
 
 export type AuthContextType = {
+  /** The server everything below belongs to */
+  server: ServerProfile
   isAuthenticated: boolean
+  /** The signed-in user; the offline outbox is kept per user */
+  userId?: string
   authToken?: string
   refreshToken?: string
   labId?: string
-  /** User role within the current lab: "Admin" | "Technician" | "Viewer" */
-  labRole?: string
+  /** User role within the current lab */
+  labRole?: UserRole
+  /** Every lab the user is a member of; `labId` is one of these once chosen */
+  labs: UserLabDto[]
   /** Unix timestamp (ms) when the current access token expires */
   tokenExpiry?: number
   setAuthToken: (token?: string) => void
+  setUserId: (userId?: string) => void
   setRefreshToken: (token?: string) => void
   setLabId: (labId?: string) => void
-  setLabRole: (role?: string) => void
+  setLabRole: (role?: UserRole) => void
+  setLabs: (labs?: UserLabDto[]) => void
+  /**
+   * Makes `lab` the current lab: subsequent requests send its `X-Lab-Id` and the
+   * user's role there applies. Screens holding the previous lab's records should be
+   * unmounted by the caller, e.g. by resetting navigation.
+   */
+  switchLab: (lab: UserLabDto) => void
   setTokenExpiry: (expiry?: number) => void
   /**
    * Attempts to refresh the access token using the stored refresh token.
    * Updates all token state on success.
-   * Returns true if the refresh succeeded, false otherwise.
+   * Returns `ok` if the refresh succeeded, otherwise the problem it ran into.
    */
-  refresh: () => Promise<boolean>
+  refresh: () => Promise<TokenRefreshResult>
   logout: () => void
+  /**
+   * Makes the profile `profileId` the active server and loads the session stored for it,
+   * so the user is signed in there if they were before. Like `switchLab`, the caller
+   * should unmount screens holding the previous server's records.
+   */
+  switchServer: (profileId: string) => void
 }
 
 export const AuthContext = createContext<AuthContextType | null>(null)
@@ -40,16 +67,19 @@ export const AuthContext = createContext<AuthContextType | null>(null)
 export interface AuthProviderProps {}
 
 export const AuthProvider: FC<PropsWithChildren<AuthProviderProps>> = ({ children }) => {
+  const [server, setServer] = useState<ServerProfile>(() => serverProfileStore.getActiveProfile())
   const [authToken, setAuthTokenState] = useState<string | undefined>(
     authStore.getAccessToken() ?? undefined,
   )
+  const [userId, setUserIdState] = useState<string | undefined>(authStore.getUserId() ?? undefined)
   const [refreshToken, setRefreshTokenState] = useState<string | undefined>(
     authStore.getRefreshToken() ?? undefined,
   )
   const [labId, setLabIdState] = useState<string | undefined>(authStore.getLabId() ?? undefined)
-  const [labRole, setLabRoleState] = useState<string | undefined>(
+  const [labRole, setLabRoleState] = useState<UserRole | undefined>(
     authStore.getLabRole() ?? undefined,
   )
+  const [labs, setLabsState] = useState<UserLabDto[]>(() => authStore.getLabs())
   const [tokenExpiry, setTokenExpiryState] = useState<number | undefined>(
     authStore.getTokenExpiry() ?? undefined,
   )
@@ -59,6 +89,11 @@ export const AuthProvider: FC<PropsWithChildren<AuthProviderProps>> = ({ childre
     setAuthTokenState(token)
   }, [])
 
+  const setUserId = useCallback((nextUserId?: string) => {
+    authStore.setUserId(nextUserId)
+    setUserIdState(nextUserId)
+  }, [])
+
   const setRefreshToken = useCallback((token?: string) => {
     authStore.setRefreshToken(token)
     setRefreshTokenState(token)
@@ -69,11 +104,26 @@ export const AuthProvider: FC<PropsWithChildren<AuthProviderProps>> = ({ childre
     setLabIdState(nextLabId)
   }, [])
 
-  const setLabRole = useCallback((role?: string) => {
+  const setLabRole = useCallback((role?: UserRole) => {
     authStore.setLabRole(role)
     setLabRoleState(role)
   }, [])
 
+  const setLabs = useCallback((nextLabs?: UserLabDto[]) => {
+    authStore.setLabs(nextLabs)
+    setLabsState(nextLabs ?? [])
+  }, [])
+
+  const switchLab = useCallback(
+    (lab: UserLabDto) => {
+      // Cached records belong to the lab they were fetched for.
+      queryCache.clear()
+      setLabId(lab.labId)
+      setLabRole(lab.role)
+    },
+    [setLabId, setLabRole],
+  )
+
   const setTokenExpiry = useCallback((expiry?: number) => {
     authStore.setTokenExpiry(expiry)
     setTokenExpiryState(expiry)
@@ -82,20 +132,42 @@ export const AuthProvider: FC<PropsWithChildren<AuthProviderProps>> = ({ childre
   const logout = useCallback(() => {
     // Fire-and-forget: revoke tokens on the server. We clear local state regardless.
     api.logout().catch(() => {})
+    // Without a user id the outbox isn't split per user yet, and the next account to
+    // sign in would replay it. Otherwise it waits for this user to come back.
+    if (!authStore.getUserId()) outboxStore.clear()
     authStore.clear()
+    queryCache.clear()
     setAuthTokenState(undefined)
+    setUserIdState(undefined)
     setRefreshTokenState(undefined)
     setLabIdState(undefined)
     setLabRoleState(undefined)
+    setLabsState([])
     setTokenExpiryState(undefined)
   }, [])
 
-  const refresh = useCallback(async (): Promise<boolean> => {
+  const switchServer = useCallback((profileId: string) => {
+    serverProfileStore.setActiveProfileId(profileId)
+    const next = serverProfileStore.getActiveProfile()
+    api.setBaseUrl(next.url)
+    queryCache.clear()
+    setServer(next)
+    // authStore now reads the new profile's keys.
+    setAuthTokenState(authStore.getAccessToken() ?? undefined)
+    setUserIdState(authStore.getUserId() ?? undefined)
+    setRefreshTokenState(authStore.getRefreshToken() ?? undefined)
+    setLabIdState(authStore.getLabId() ?? undefined)
+    setLabRoleState(authStore.getLabRole() ?? undefined)
+    setLabsState(authStore.getLabs())
+    setTokenExpiryState(authStore.getTokenExpiry() ?? undefined)
+  }, [])
+
+  const refresh = useCallback(async (): Promise<TokenRefreshResult> => {
     const storedRefreshToken = authStore.getRefreshToken()
-    if (!storedRefreshToken) return false
+    if (!storedRefreshToken) return { kind: "unauthorized" }
 
     const result = await api.refreshToken(storedRefreshToken)
-    if (result.kind !== "ok") return false
+    if (result.kind !== "ok") return result
 
     const { access_token, refresh_token, expires_in } = result.data
 
@@ -111,44 +183,89 @@ export const AuthProvider: FC<PropsWithChildren<AuthProviderProps>> = ({ childre
     authStore.setTokenExpiry(expiresAt)
     setTokenExpiryState(expiresAt)
 
-    return true
+    return { kind: "ok" }
   }, [])
 
-  // Register the refresh + logout callbacks on the API client once on mount.
-  // The axios interceptor uses these to auto-retry requests on 401.
+  // Sessions signed in before the user id was stored learn it on the next launch.
+  useEffect(() => {
+    if (!authToken || userId) return
+    void api.getCurrentUser().then((result) => {
+      if (result.kind === "ok" && result.data.id) setUserId(result.data.id)
+    })
+  }, [authToken, userId, setUserId])
+
+  // Register the refresh + logout callbacks on the API client. The axios interceptor
+  // uses these to auto-retry requests on 401; it is only added once, re-runs swap callbacks.
   useEffect(() => {
     api.setAuthCallbacks({ onRefreshToken: refresh, onLogout: logout })
   }, [refresh, logout])
 
+  // Refresh shortly before the access token expires, so a long data entry session doesn't
+  // hit a 401 mid-submit. Timers don't run in the background, so re-arm on foreground, and
+  // skip the rest of the backoff once back online. Shares the in-flight refresh with the
+  // 401 interceptor; a success changes `tokenExpiry`, which schedules the next one.
+  useEffect(() => {
+    if (!authToken || !tokenExpiry) return
+
+    const scheduler = createRefreshScheduler(tokenExpiry, () => api.refreshAccessToken())
+    scheduler.arm()
+    const appState = AppState.addEventListener("change", (status) => {
+      if (status === "active") scheduler.arm()
+    })
+    const unsubscribeNetInfo = NetInfo.addEventListener((state) => {
+      if (state.isConnected && state.isInternetReachable !== false) scheduler.arm()
+    })
+
+    return () => {
+      scheduler.cancel()
+      appState.remove()
+      unsubscribeNetInfo()
+    }
+  }, [authToken, tokenExpiry])
+
   const value = useMemo<AuthContextType>(
     () => ({
+      server,
       isAuthenticated: !!authToken,
+      userId,
       authToken,
       refreshToken,
       labId,
       labRole,
+      labs,
       tokenExpiry,
       setAuthToken,
+      setUserId,
       setRefreshToken,
       setLabId,
       setLabRole,
+      setLabs,
+      switchLab,
       setTokenExpiry,
       refresh,
       logout,
+      switchServer,
     }),
     [
+      server,
+      userId,
       authToken,
       refreshToken,
       labId,
       labRole,
+      labs,
       tokenExpiry,
       setAuthToken,
+      setUserId,
       setRefreshToken,
       setLabId,
       setLabRole,
+      setLabs,
+      switchLab,
       setTokenExpiry,
       refresh,
       logout,
+      switchServer,
     ],
   )
 
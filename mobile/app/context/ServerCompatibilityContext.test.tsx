@@ -0,0 +1,79 @@
+import type { PropsWithChildren } from "react"
+import { act, renderHook } from "@testing-library/react-native"
+
+import { api, DEFAULT_API_CONFIG } from "@/services/api"
+import type { GeneralApiProblem } from "@/services/api/apiProblem"
+import type { VersionResponse } from "@/services/api/types"
+import { authStore } from "@/stores/authStore"
+import { DEFAULT_PROFILE_ID, serverProfileStore } from "@/stores/serverProfileStore"
+import { storage } from "@/utils/storage"
+import { secureStorage } from "@/utils/storage/secureStorage"
+
+import { AuthProvider, useAuth } from "./AuthContext"
+import { ServerCompatibilityProvider, useServerCompatibility } from "./ServerCompatibilityContext"
+
+type VersionResult = { kind: "ok"; data: VersionResponse } | GeneralApiProblem
+
+function version(number: string): VersionResult {
+  return {
+    kind: "ok",
+    data: { version: number, apiVersion: "v1", buildDate: "2026-01-01", environment: "Test" },
+  }
+}
+
+const wrapper = ({ children }: PropsWithChildren) => (
+  <AuthProvider>
+    <ServerCompatibilityProvider>{children}</ServerCompatibilityProvider>
+  </AuthProvider>
+)
+
+describe("ServerCompatibilityProvider", () => {
+  beforeEach(() => {
+    storage.clearAll()
+    secureStorage.clearAll()
+    authStore.setAccessToken("access")
+    authStore.setUserId("user-1")
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+    api.setBaseUrl(DEFAULT_API_CONFIG.url)
+  })
+
+  it("drops a version check that was still out when the server changed", async () => {
+    const other = serverProfileStore.addProfile({
+      name: "Field Lab",
+      url: "https://quater.field.example.org",
+    })
+    serverProfileStore.setActiveProfileId(other.id)
+    authStore.setAccessToken("other-access")
+    serverProfileStore.setActiveProfileId(DEFAULT_PROFILE_ID)
+    const checks: { signal?: AbortSignal; respond: (result: VersionResult) => void }[] = []
+    jest.spyOn(api, "getServerVersion").mockImplementation(
+      (options) =>
+        new Promise((respond) => {
+          checks.push({ signal: options?.signal, respond })
+        }),
+    )
+    const { result } = renderHook(
+      () => ({ auth: useAuth(), compatibility: useServerCompatibility() }),
+      { wrapper },
+    )
+    expect(result.current.compatibility.isChecking).toBe(true)
+
+    act(() => result.current.auth.switchServer(other.id))
+    expect(checks[0].signal?.aborted).toBe(true)
+
+    await act(async () => {
+      checks[0].respond(version("0.0.1"))
+    })
+    expect(result.current.compatibility.server).toBeUndefined()
+    expect(result.current.compatibility.isChecking).toBe(true)
+
+    await act(async () => {
+      checks[1].respond(version("0.5.0"))
+    })
+    expect(result.current.compatibility.server?.version).toBe("0.5.0")
+    expect(result.current.compatibility.isChecking).toBe(false)
+  })
+})
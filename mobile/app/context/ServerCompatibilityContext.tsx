@@ -0,0 +1,98 @@
+import {
+  createContext,
+  FC,
+  PropsWithChildren,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react"
+
+import Config from "@/config"
+import { api } from "@/services/api"
+import type { VersionResponse } from "@/services/api/types"
+import { type ServerCompatibility, serverCompatibility } from "@/utils/serverCompatibility"
+
+import { useAuth } from "./AuthContext"
+
+export type ServerCompatibilityContextType = {
+  /**
+   * The outcome of the last version check. `undefined` while signed out and when the
+   * server couldn't be asked, e.g. offline: only a known mismatch blocks the app.
+   */
+  compatibility?: ServerCompatibility
+  /** What the server reported in the last successful check. */
+  server?: VersionResponse
+  isChecking: boolean
+  /** Asks the server for its version again. */
+  check: () => Promise<void>
+}
+
+export const ServerCompatibilityContext = createContext<ServerCompatibilityContextType | null>(null)
+
+export interface ServerCompatibilityProviderProps {}
+
+/**
+ * Checks the server's version against `Config.SUPPORTED_SERVER` once the user is signed
+ * in, since `/api/version` needs a token. Must be rendered inside an `AuthProvider`.
+ */
+export const ServerCompatibilityProvider: FC<
+  PropsWithChildren<ServerCompatibilityProviderProps>
+> = ({ children }) => {
+  const {
+    isAuthenticated,
+    server: { id: serverId },
+  } = useAuth()
+  const [compatibility, setCompatibility] = useState<ServerCompatibility | undefined>()
+  const [server, setServer] = useState<VersionResponse | undefined>()
+  const [isChecking, setIsChecking] = useState(false)
+  const controller = useRef<AbortController | undefined>(undefined)
+
+  const check = useCallback(async () => {
+    controller.current?.abort()
+    const current = new AbortController()
+    controller.current = current
+    const url = api.config.url
+
+    setIsChecking(true)
+    const result = await api.getServerVersion({ signal: current.signal })
+    // The answer describes the server it came from, which may no longer be the one in use.
+    if (current.signal.aborted || api.config.url !== url) return
+    controller.current = undefined
+    setIsChecking(false)
+    if (result.kind !== "ok") return
+    setServer(result.data)
+    setCompatibility(serverCompatibility(result.data, Config.SUPPORTED_SERVER))
+  }, [])
+
+  useEffect(() => {
+    // Another account may sign in to another server next, and switching servers
+    // invalidates what the last one reported.
+    setCompatibility(undefined)
+    setServer(undefined)
+    setIsChecking(false)
+    if (isAuthenticated) void check()
+    return () => controller.current?.abort()
+  }, [isAuthenticated, serverId, check])
+
+  const value = useMemo<ServerCompatibilityContextType>(
+    () => ({ compatibility, server, isChecking, check }),
+    [compatibility, server, isChecking, check],
+  )
+
+  return (
+    <ServerCompatibilityContext.Provider value={value}>
+      {children}
+    </ServerCompatibilityContext.Provider>
+  )
+}
+
+export const useServerCompatibility = () => {
+  const context = useContext(ServerCompatibilityContext)
+  if (!context) {
+    throw new Error("useServerCompatibility must be used within a ServerCompatibilityProvider")
+  }
+  return context
+}
@@ -0,0 +1,66 @@
+import type { PropsWithChildren } from "react"
+import { act, renderHook } from "@testing-library/react-native"
+
+import { api } from "@/services/api"
+import type { CreateSampleDto, SampleDto } from "@/services/api/types"
+import { authStore } from "@/stores/authStore"
+import { outboxStore } from "@/stores/outboxStore"
+import { storage } from "@/utils/storage"
+import { secureStorage } from "@/utils/storage/secureStorage"
+
+import { AuthProvider } from "./AuthContext"
+import { type SyncMutationResult, SyncProvider, useSync } from "./SyncContext"
+
+const SAMPLE: CreateSampleDto = {
+  type: 0,
+  locationLatitude: 34.02,
+  locationLongitude: -6.83,
+  collectionDate: "2026-01-01T08:00:00Z",
+  collectorName: "Field Collector",
+  labId: "lab-1",
+}
+
+const wrapper = ({ children }: PropsWithChildren) => (
+  <AuthProvider>
+    <SyncProvider>{children}</SyncProvider>
+  </AuthProvider>
+)
+
+/** Creates `SAMPLE` through the provider, letting the replay it starts settle. */
+async function createSample() {
+  const { result } = renderHook(() => useSync(), { wrapper })
+  let outcome: SyncMutationResult<SampleDto> | undefined
+  await act(async () => {
+    outcome = await result.current.createSample(SAMPLE)
+  })
+  return outcome
+}
+
+describe("SyncProvider", () => {
+  beforeEach(() => {
+    storage.clearAll()
+    secureStorage.clearAll()
+    authStore.setAccessToken("access")
+    authStore.setUserId("user-1")
+    jest.spyOn(api, "createSample").mockResolvedValue({ kind: "cannot-connect", temporary: true })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it("queues a write the server could not be reached for", async () => {
+    authStore.setLabId("lab-1")
+
+    expect((await createSample())?.kind).toBe("queued")
+    expect(outboxStore.getEntries()).toHaveLength(1)
+  })
+
+  it("reports a write it has no queue for instead of dropping it", async () => {
+    expect(await createSample()).toEqual({
+      kind: "cannot-connect",
+      temporary: true,
+    })
+    expect(outboxStore.getEntries()).toEqual([])
+  })
+})
@@ -0,0 +1,264 @@
+import {
+  createContext,
+  FC,
+  PropsWithChildren,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react"
+import { AppState } from "react-native"
+import NetInfo from "@react-native-community/netinfo"
+
+import { api } from "@/services/api"
+import type { GeneralApiProblem } from "@/services/api/apiProblem"
+import type {
+  CreateSampleDto,
+  CreateTestResultDto,
+  SampleDto,
+  TestResultDto,
+  UpdateSampleDto,
+  UpdateTestResultDto,
+  VersionConflict,
+} from "@/services/api/types"
+import { queryCache } from "@/services/query/queryCache"
+import { replayOutbox } from "@/services/sync/replayOutbox"
+import { isLocalId, type OutboxEntry, type OutboxMutation, outboxStore } from "@/stores/outboxStore"
+
+import { useAuth } from "./AuthContext"
+
+/**
+ * Outcome of an offline-aware mutation. "queued" means the change was stored in the
+ * outbox and `data` is the optimistic local copy (with `isSynced: false`).
+ */
+export type SyncMutationResult<T> =
+  | { kind: "ok"; data: T }
+  | { kind: "queued"; data: T }
+  | VersionConflict<T>
+  | GeneralApiProblem
+
+export type SyncContextType = {
+  isOnline: boolean
+  isSyncing: boolean
+  /** Every queued mutation, oldest first. */
+  entries: OutboxEntry[]
+  pendingCount: number
+  failedCount: number
+  createSample: (dto: CreateSampleDto) => Promise<SyncMutationResult<SampleDto>>
+  updateSample: (id: string, dto: UpdateSampleDto) => Promise<SyncMutationResult<SampleDto>>
+  createTestResult: (dto: CreateTestResultDto) => Promise<SyncMutationResult<TestResultDto>>
+  updateTestResult: (
+    id: string,
+    dto: UpdateTestResultDto,
+  ) => Promise<SyncMutationResult<TestResultDto>>
+  /** Replays the outbox now if the device is online. */
+  sync: () => Promise<void>
+  retryFailed: () => void
+  discard: (entryId: string) => void
+}
+
+/** Answers a write that could neither be sent nor queued, e.g. offline before a lab is chosen. */
+const OFFLINE: GeneralApiProblem = { kind: "cannot-connect", temporary: true }
+
+export const SyncContext = createContext<SyncContextType | null>(null)
+
+export interface SyncProviderProps {}
+
+export const SyncProvider: FC<PropsWithChildren<SyncProviderProps>> = ({ children }) => {
+  const {
+    isAuthenticated,
+    labId,
+    userId,
+    server: { id: serverId },
+  } = useAuth()
+
+  const [entries, setEntries] = useState<OutboxEntry[]>(() => outboxStore.getEntries())
+  const [isOnline, setIsOnline] = useState(true)
+  const [isSyncing, setIsSyncing] = useState(false)
+
+  useEffect(() => outboxStore.subscribe(setEntries), [])
+
+  // The outbox is kept per server, user and lab; show the one for this session.
+  useEffect(() => {
+    setEntries(outboxStore.getEntries())
+  }, [isAuthenticated, labId, userId, serverId])
+
+  const sync = useCallback(async () => {
+    // Writes replay with the current `X-Lab-Id`, so a lab has to be chosen first.
+    if (!isAuthenticated || !labId || !isOnline) return
+    if (!outboxStore.getEntries().some((entry) => entry.status === "pending")) return
+
+    setIsSyncing(true)
+    try {
+      await replayOutbox()
+      // Replayed writes show up in the server's copies; pending ones were merged in before.
+      void queryCache.invalidate(["getSampleById"])
+      void queryCache.invalidate(["getTestResultsBySample"])
+    } finally {
+      setIsSyncing(false)
+    }
+  }, [isAuthenticated, labId, isOnline])
+
+  useEffect(() => {
+    return NetInfo.addEventListener((state) => {
+      setIsOnline(!!state.isConnected && state.isInternetReachable !== false)
+    })
+  }, [])
+
+  // Replay whenever we come back online, sign in, or return to the foreground.
+  useEffect(() => {
+    void sync()
+    const subscription = AppState.addEventListener("change", (status) => {
+      if (status === "active") void sync()
+    })
+    return () => subscription.remove()
+  }, [sync])
+
+  /**
+   * Writes go straight to the server only when the device is online and nothing is
+   * waiting in the outbox; otherwise they are queued so they replay in order.
+   */
+  const shouldQueue = useCallback(
+    (...ids: string[]) =>
+      !isOnline ||
+      ids.some(isLocalId) ||
+      outboxStore.getEntries().some((entry) => entry.status === "pending"),
+    [isOnline],
+  )
+
+  /**
+   * Queues `mutation` for replay. `undefined` when there is no queue to keep it in, e.g.
+   * before a lab is chosen; the write is lost then, so callers report it as a problem.
+   */
+  const enqueue = useCallback(
+    <M extends OutboxMutation>(mutation: M) => {
+      const entry = outboxStore.enqueue(mutation)
+      if (entry) void sync()
+      return entry
+    },
+    [sync],
+  )
+
+  const createSample = useCallback(
+    async (dto: CreateSampleDto): Promise<SyncMutationResult<SampleDto>> => {
+      let problem: GeneralApiProblem = OFFLINE
+      if (!shouldQueue()) {
+        const result = await api.createSample(dto)
+        if (result.kind === "ok" || !("temporary" in result)) return result
+        problem = result
+      }
+      const entry = enqueue({
+        type: "createSample",
+        localId: outboxStore.newLocalId(),
+        dto,
+      })
+      if (!entry) return problem
+      const data = outboxStore.getPendingSamples().find((sample) => sample.id === entry.localId)
+      return { kind: "queued", data: data ?? { ...dto, isSynced: false } }
+    },
+    [shouldQueue, enqueue],
+  )
+
+  const updateSample = useCallback(
+    async (
+      localOrServerId: string,
+      dto: UpdateSampleDto,
+    ): Promise<SyncMutationResult<SampleDto>> => {
+      const id = outboxStore.resolveId(localOrServerId)
+      let problem: GeneralApiProblem = OFFLINE
+      if (!shouldQueue(id)) {
+        const result = await api.updateSample(id, dto)
+        if (result.kind === "ok" || !("temporary" in result)) return result
+        problem = result
+      }
+      if (!enqueue({ type: "updateSample", id, dto })) return problem
+      return { kind: "queued", data: { ...dto, id, isSynced: false } }
+    },
+    [shouldQueue, enqueue],
+  )
+
+  const createTestResult = useCallback(
+    async (input: CreateTestResultDto): Promise<SyncMutationResult<TestResultDto>> => {
+      const dto = { ...input, sampleId: outboxStore.resolveId(input.sampleId) }
+      let problem: GeneralApiProblem = OFFLINE
+      if (!shouldQueue(dto.sampleId)) {
+        const result = await api.createTestResult(dto)
+        if (result.kind === "ok" || !("temporary" in result)) return result
+        problem = result
+      }
+      const entry = enqueue({
+        type: "createTestResult",
+        localId: outboxStore.newLocalId(),
+        dto,
+      })
+      if (!entry) return problem
+      return { kind: "queued", data: { ...dto, id: entry.localId, version: 0, isSynced: false } }
+    },
+    [shouldQueue, enqueue],
+  )
+
+  const updateTestResult = useCallback(
+    async (
+      localOrServerId: string,
+      dto: UpdateTestResultDto,
+    ): Promise<SyncMutationResult<TestResultDto>> => {
+      const id = outboxStore.resolveId(localOrServerId)
+      let problem: GeneralApiProblem = OFFLINE
+      if (!shouldQueue(id)) {
+        const result = await api.updateTestResult(id, dto)
+        if (result.kind === "ok" || !("temporary" in result)) return result
+        problem = result
+      }
+      if (!enqueue({ type: "updateTestResult", id, dto })) return problem
+      return { kind: "queued", data: { ...dto, id, isSynced: false } }
+    },
+    [shouldQueue, enqueue],
+  )
+
+  const retryFailed = useCallback(() => {
+    outboxStore.retryFailed()
+    void sync()
+  }, [sync])
+
+  const discard = useCallback((entryId: string) => {
+    outboxStore.remove(entryId)
+  }, [])
+
+  const value = useMemo<SyncContextType>(
+    () => ({
+      isOnline,
+      isSyncing,
+      entries,
+      pendingCount: entries.filter((entry) => entry.status === "pending").length,
+      failedCount: entries.filter((entry) => entry.status === "failed").length,
+      createSample,
+      updateSample,
+      createTestResult,
+      updateTestResult,
+      sync,
+      retryFailed,
+      discard,
+    }),
+    [
+      isOnline,
+      isSyncing,
+      entries,
+      createSample,
+      updateSample,
+      createTestResult,
+      updateTestResult,
+      sync,
+      retryFailed,
+      discard,
+    ],
+  )
+
+  return <SyncContext.Provider value={value}>{children}</SyncContext.Provider>
+}
+
+export const useSync = () => {
+  const context = useContext(SyncContext)
+  if (!context) throw new Error("useSync must be used within a SyncProvider")
+  return context
+}
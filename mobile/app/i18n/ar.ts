@@ -7,6 +7,7 @@ const ar: Translations = {
     cancel: "حذف",
     back: "خلف",
     logOut: "تسجيل خروج",
+    unknown: "غير معروف",
   },
   welcomeScreen: {
     postscript:
@@ -43,6 +44,10 @@ const ar: Translations = {
     passwordFieldPlaceholder: "كلمة السر هنا فائقة السر",
     tapToLogIn: "انقر لتسجيل الدخول!",
     hint: "(: تلميح: يمكنك استخدام اي عنوان بريد الكتروني وكلمة السر المفضلة لديك",
+    forgotPassword: "هل نسيت كلمة المرور؟",
+    diagnostics: "هل تواجه مشكلة في الاتصال؟",
+    server: "الخادم: {{name}} ({{url}})",
+    changeServer: "تغيير الخادم",
   },
   demoNavigator: {
     componentsTab: "عناصر",
@@ -118,6 +123,507 @@ const ar: Translations = {
         "لم تتم اضافة اي مفضلات حتى الان. اضغط على القلب في إحدى الحلقات لإضافته الى المفضلة.",
     },
   },
+  syncStatus: {
+    offline: "أنت غير متصل. يتم حفظ التغييرات على هذا الجهاز.",
+    pending: "تغييرات بانتظار المزامنة: {{count}}",
+    failed: "تغييرات تعذرت مزامنتها: {{count}}",
+  },
+  pendingChangesScreen: {
+    title: "التغييرات المعلقة",
+    emptyHeading: "كل شيء محدث",
+    emptyContent: "تم إرسال جميع التغييرات التي أجريت على هذا الجهاز إلى الخادم.",
+    syncNow: "مزامنة الآن",
+    retryFailed: "إعادة محاولة التغييرات الفاشلة",
+    discard: "تجاهل",
+    resolve: "حل",
+    lastError: "آخر خطأ: {{error}}",
+    mutation: {
+      createSample: "عينة جديدة",
+      updateSample: "تعديل عينة",
+      createTestResult: "نتيجة اختبار جديدة",
+      updateTestResult: "تعديل نتيجة اختبار",
+    },
+  },
+  sampleFields: {
+    type: "نوع العينة",
+    status: "الحالة",
+    collectionDate: "تاريخ الجمع",
+    collectorName: "الجامع",
+    locationLatitude: "خط العرض",
+    locationLongitude: "خط الطول",
+    locationDescription: "الموقع",
+    locationHierarchy: "تسلسل الموقع",
+    notes: "ملاحظات",
+  },
+  testResultFields: {
+    parameterName: "المعيار",
+    value: "القيمة",
+    unit: "الوحدة",
+    testDate: "تاريخ الاختبار",
+    technicianName: "الفني",
+    testMethod: "طريقة الاختبار",
+  },
+  conflictResolutionScreen: {
+    title: "حل التعارض",
+    heading: "قام شخص آخر بتعديل هذا السجل",
+    description:
+      "اختر القيمة التي تريد الاحتفاظ بها لكل حقل ثم احفظ. سيتم إرسال النسخة المدمجة مقابل أحدث نسخة على الخادم.",
+    mine: "قيمتي: {{value}}",
+    theirs: "الخادم: {{value}}",
+    keepAllMine: "الاحتفاظ بقيمي",
+    useAllTheirs: "استخدام قيم الخادم",
+    saveMerged: "حفظ النسخة المدمجة",
+    noDifferences: "تغييراتك مطابقة لنسخة الخادم. سيؤدي الحفظ إلى تحديث الإصدار فقط.",
+    loadFailed: "تعذر تحميل نسخة الخادم. تحقق من الاتصال وحاول مرة أخرى.",
+    changedAgain: "تغير السجل مرة أخرى أثناء الحل. راجع أحدث القيم.",
+    saveFailed: "تعذر حفظ التغييرات. يرجى المحاولة مرة أخرى.",
+  },
+  sampleType: {
+    drinkingWater: "مياه الشرب",
+    wastewater: "مياه الصرف",
+    surfaceWater: "المياه السطحية",
+    groundwater: "المياه الجوفية",
+    industrialWater: "المياه الصناعية",
+  },
+  sampleStatus: {
+    pending: "قيد الانتظار",
+    completed: "مكتملة",
+    archived: "مؤرشفة",
+  },
+  sampleListScreen: {
+    title: "العينات",
+    newSample: "عينة جديدة",
+    loadFailed: "تعذر تحميل العينات",
+    switchLab: "تبديل المختبر",
+    administration: "الإدارة",
+    emptyHeading: "لا توجد عينات بعد",
+    emptyContent: "ستظهر هنا العينات التي تم جمعها لهذا المختبر. اضغط للتحديث.",
+    pendingSync: "غير متزامنة",
+    settings: "الإعدادات",
+  },
+  sampleDetailScreen: {
+    title: "العينة",
+    loadFailed: "تعذر تحميل هذه العينة.",
+    coordinates: "الإحداثيات",
+    edit: "تعديل",
+    delete: "حذف",
+    deleteTitle: "حذف العينة؟",
+    deleteMessage: "سيتم حذف العينة ونتائج تحاليلها.",
+    deleteFailed: "تعذر حذف هذه العينة. يرجى المحاولة مرة أخرى.",
+    testResults: "نتائج التحاليل",
+    noTestResults: "لم يتم تسجيل أي نتائج بعد.",
+    addTestResult: "تسجيل نتيجة",
+  },
+  sampleEditScreen: {
+    createTitle: "عينة جديدة",
+    editTitle: "تعديل العينة",
+    loadFailed: "تعذر تحميل هذه العينة.",
+    noLab: "حسابك غير مرتبط بأي مختبر بعد.",
+    saveFailed: "تعذر حفظ العينة. يرجى المحاولة مرة أخرى.",
+    saveInvalid: "رفض الخادم بعض الحقول. تحقق من القيم المميزة.",
+    save: "حفظ",
+    datePlaceholder: "YYYY-MM-DD HH:MM",
+    errors: {
+      collectorRequired: "اسم جامع العينة مطلوب",
+      tooLong: "هذا النص طويل جدًا",
+      latitude: "أدخل خط عرض بين -90 و 90",
+      longitude: "أدخل خط طول بين -180 و 180",
+      dateFormat: "استخدم التنسيق YYYY-MM-DD HH:MM",
+      dateInFuture: "لا يمكن أن يكون تاريخ الجمع في المستقبل",
+    },
+  },
+  testMethod: {
+    titration: "المعايرة",
+    spectrophotometry: "القياس الطيفي الضوئي",
+    chromatography: "الكروماتوغرافيا",
+    microscopy: "الفحص المجهري",
+    electrode: "القطب الكهربائي",
+    culture: "الاستزراع",
+    other: "أخرى",
+  },
+  complianceStatus: {
+    pass: "مطابق",
+    fail: "غير مطابق",
+    warning: "تحذير",
+    predicted: "متوقع: {{status}}",
+  },
+  testResultEntryScreen: {
+    title: "تسجيل نتيجة",
+    parametersFailed: "تعذر تحميل المعايير. تحقق من اتصالك وحاول مرة أخرى.",
+    whoThreshold: "حد منظمة الصحة العالمية: {{value}} {{unit}}",
+    outOfRange: "خارج النطاق المقبول ({{min}} إلى {{max}})",
+    save: "حفظ النتيجة",
+    saveFailed: "تعذر حفظ النتيجة. يرجى المحاولة مرة أخرى.",
+    saveInvalid: "رفض الخادم بعض الحقول. تحقق من القيم المميزة.",
+    savedHeading: "تم حفظ النتيجة",
+    awaitingSync: "سيحدد الخادم الحالة النهائية بعد مزامنة هذه النتيجة.",
+    enterAnother: "تسجيل نتيجة أخرى",
+    done: "تم",
+    errors: {
+      parameterRequired: "اختر معيارًا",
+      valueRequired: "أدخل رقمًا",
+      unitRequired: "الوحدة مطلوبة",
+      technicianRequired: "اسم الفني مطلوب",
+      tooLong: "هذا النص طويل جدًا",
+      dateFormat: "استخدم التنسيق YYYY-MM-DD HH:MM",
+      dateInFuture: "لا يمكن أن يكون تاريخ التحليل في المستقبل",
+    },
+  },
+  userRole: {
+    viewer: "مشاهد",
+    technician: "فني",
+    admin: "مسؤول",
+  },
+  auditAction: {
+    create: "تم الإنشاء",
+    update: "تم التحديث",
+    softDelete: "نُقل إلى المهملات",
+    delete: "تم الحذف",
+    restore: "تمت الاستعادة",
+    conflictResolution: "تم حل التعارض",
+  },
+  entityType: {
+    lab: "مختبر",
+    sample: "عينة",
+    testResult: "نتيجة تحليل",
+    parameter: "معيار",
+    auditLog: "سجل التدقيق",
+    auditLogArchive: "سجل تدقيق مؤرشف",
+  },
+  labPickerScreen: {
+    title: "اختر مختبرًا",
+    switchTitle: "تبديل المختبر",
+    description: "تُحفظ العينات والنتائج لكل مختبر على حدة. اختر المختبر الذي تعمل فيه.",
+    loadFailed: "تعذر تحميل مختبراتك. اسحب للمحاولة مرة أخرى.",
+    pendingChanges:
+      "قم بمزامنة تغييراتك المعلقة أو تجاهلها قبل تبديل المختبر حتى لا تُرسل إلى مختبر خاطئ.",
+    reviewPendingChanges: "مراجعة التغييرات المعلقة",
+    emptyHeading: "لا توجد مختبرات بعد",
+    emptyContent: "حسابك ليس عضوًا في أي مختبر. اطلب من مسؤول المختبر إضافتك.",
+    retry: "حاول مرة أخرى",
+  },
+  adminScreen: {
+    title: "الإدارة",
+    parameters: "المعايير",
+    parametersDescription: "الوحدات وحدود منظمة الصحة العالمية والنطاقات المقبولة لتقييم النتائج",
+    labs: "المختبرات",
+    labsDescription: "أسماء المختبرات ومواقعها وبيانات الاتصال بها",
+    users: "المستخدمون",
+    usersDescription: "حسابات الموظفين ومختبراتهم وأدوارهم",
+    auditLog: "سجل التدقيق",
+    auditLogDescription: "من غيّر ماذا ومتى",
+  },
+  parameterFields: {
+    name: "الاسم",
+    unit: "الوحدة",
+    whoThreshold: "حد منظمة الصحة العالمية",
+    minValue: "الحد الأدنى",
+    maxValue: "الحد الأقصى",
+    description: "الوصف",
+  },
+  parameterListScreen: {
+    title: "المعايير",
+    new: "جديد",
+    inactive: "غير نشط",
+    whoThreshold: "منظمة الصحة {{value}}",
+    range: "{{min}} إلى {{max}}",
+    loadFailed: "تعذر تحميل المعايير.",
+    emptyHeading: "لا توجد معايير بعد",
+    emptyContent: "أضف المعايير التي يسجل الفنيون نتائجها.",
+  },
+  parameterEditScreen: {
+    createTitle: "معيار جديد",
+    editTitle: "تعديل المعيار",
+    loadFailed: "تعذر تحميل هذا المعيار.",
+    save: "حفظ",
+    saveFailed: "تعذر حفظ المعيار. يرجى المحاولة مرة أخرى.",
+    saveInvalid: "رفض الخادم بعض الحقول. تحقق من القيم المميزة.",
+    duplicateName: "يوجد معيار آخر يستخدم هذا الاسم.",
+    inactiveNotice: "هذا المعيار غير نشط ولا يُعرض عند تسجيل النتائج.",
+    deactivate: "إلغاء التفعيل",
+    reactivate: "إعادة التفعيل",
+    deactivateTitle: "إلغاء تفعيل المعيار؟",
+    deactivateMessage:
+      "لن يُعرض عند تسجيل النتائج، وستُعلَّم النتائج الجديدة المسجلة باسمه كتحذير. تبقى النتائج الحالية محفوظة.",
+    limitsChangedTitle: "تغيير الحدود؟",
+    limitsChangedMessage:
+      "تحتفظ النتائج الحالية بحالة المطابقة التي سُجلت بها. تُقيَّم النتائج المسجلة من الآن وفق الحدود الجديدة، لذا قد تُقيَّم القيمة نفسها بشكل مختلف.",
+    errors: {
+      nameRequired: "الاسم مطلوب",
+      unitRequired: "الوحدة مطلوبة",
+      tooLong: "هذا طويل جدًا",
+      number: "أدخل رقمًا",
+      negativeThreshold: "لا يمكن أن يكون الحد سالبًا",
+      minAboveMax: "لا يمكن أن يكون الحد الأقصى أقل من الحد الأدنى",
+    },
+  },
+  labFields: {
+    name: "الاسم",
+    location: "الموقع",
+    contactInfo: "معلومات الاتصال",
+    created: "تاريخ الإنشاء",
+    updated: "آخر تحديث",
+  },
+  labListScreen: {
+    title: "المختبرات",
+    new: "جديد",
+    inactive: "غير نشط",
+    loadFailed: "تعذر تحميل المختبرات.",
+    emptyHeading: "لا توجد مختبرات بعد",
+    emptyContent: "أنشئ مختبرًا للبدء في جمع العينات.",
+  },
+  labEditScreen: {
+    createTitle: "مختبر جديد",
+    editTitle: "تعديل المختبر",
+    loadFailed: "تعذر تحميل هذا المختبر.",
+    save: "حفظ",
+    saveFailed: "تعذر حفظ المختبر. يرجى المحاولة مرة أخرى.",
+    saveInvalid: "رفض الخادم بعض الحقول. تحقق من القيم المميزة.",
+    duplicateName: "يوجد مختبر آخر يستخدم هذا الاسم.",
+    inactiveNotice: "هذا المختبر غير نشط.",
+    deactivate: "إلغاء التفعيل",
+    reactivate: "إعادة التفعيل",
+    deactivateTitle: "إلغاء تفعيل المختبر؟",
+    deactivateMessage: "لن يتمكن أعضاؤه من العمل فيه بعد الآن. تبقى العينات والنتائج محفوظة.",
+    deactivateCurrentMessage:
+      "أنت تعمل حاليًا في هذا المختبر. لن يتمكن أعضاؤه، بمن فيهم أنت، من العمل فيه بعد الآن. تبقى العينات والنتائج محفوظة.",
+    changedBy: "{{date}} بواسطة {{user}}",
+    unknownUser: "مستخدم غير معروف",
+    errors: {
+      nameRequired: "الاسم مطلوب",
+      locationRequired: "الموقع مطلوب",
+      tooLong: "هذا طويل جدًا",
+    },
+  },
+  userFields: {
+    userName: "اسم المستخدم",
+    email: "البريد الإلكتروني",
+    temporaryPassword: "كلمة مرور مؤقتة",
+    role: "الدور",
+  },
+  userListScreen: {
+    title: "المستخدمون",
+    new: "جديد",
+    inactive: "غير نشط",
+    loadFailed: "تعذر تحميل المستخدمين.",
+    emptyHeading: "لا يوجد مستخدمون بعد",
+    emptyContent: "أنشئ حسابات للأشخاص الذين يعملون في هذا المختبر.",
+  },
+  userCreateScreen: {
+    title: "مستخدم جديد",
+    description: "يبدأ الحساب عضوًا في {{lab}}. شارك كلمة المرور المؤقتة مع صاحبه.",
+    save: "إنشاء المستخدم",
+    saveFailed: "تعذر إنشاء المستخدم. يرجى المحاولة مرة أخرى.",
+    saveInvalid: "رفض الخادم بعض الحقول. تحقق من القيم المميزة.",
+    errors: {
+      userNameRequired: "اسم المستخدم مطلوب",
+      userNameSpaces: "لا يمكن أن يحتوي اسم المستخدم على مسافات",
+      email: "أدخل بريدًا إلكترونيًا صالحًا",
+      passwordTooShort: "استخدم 8 أحرف على الأقل",
+      passwordWeak: "استخدم أحرفًا كبيرة وصغيرة ورقمًا ورمزًا",
+    },
+  },
+  userDetailScreen: {
+    title: "المستخدم",
+    loadFailed: "تعذر تحميل هذا المستخدم.",
+    inactive: "غير نشط",
+    lastLogin: "آخر تسجيل دخول {{date}}",
+    neverLoggedIn: "لم يسجل الدخول قط",
+    selfNotice: "هذا حسابك. اطلب من مسؤول آخر تغيير صلاحياتك.",
+    memberships: "المختبرات",
+    noMemberships: "ليس عضوًا في أي مختبر.",
+    remove: "إزالة",
+    removeTitle: "إزالة من المختبر؟",
+    removeMessage: "سيفقد الوصول إلى {{lab}}. تبقى السجلات التي أنشأها محفوظة.",
+    removeFailed: "تعذرت إزالة المستخدم من المختبر.",
+    roleFailed: "تعذر تغيير الدور.",
+    addToLab: "إضافة إلى مختبر",
+    add: "إضافة",
+    addFailed: "تعذرت إضافة المستخدم إلى المختبر.",
+    account: "الحساب",
+    deactivate: "إلغاء تفعيل الحساب",
+    reactivate: "إعادة تفعيل الحساب",
+    deactivateTitle: "إلغاء تفعيل الحساب؟",
+    deactivateMessage: "لن يتمكن من تسجيل الدخول. تبقى عضويته في المختبرات وسجلاته محفوظة.",
+    statusFailed: "تعذر تغيير حالة الحساب.",
+  },
+  auditLogFields: {
+    entityType: "نوع السجل",
+    action: "الإجراء",
+    entityId: "معرّف السجل",
+    userId: "معرّف المستخدم",
+    startDate: "من (UTC)",
+    endDate: "إلى (UTC)",
+    includeArchived: "تضمين الإدخالات المؤرشفة",
+    archived: "مؤرشف",
+    truncated: "مقتطع",
+    timestamp: "الوقت",
+    user: "المستخدم",
+    ipAddress: "عنوان IP",
+  },
+  auditLogListScreen: {
+    title: "سجل التدقيق",
+    showFilters: "عوامل التصفية ({{count}})",
+    hideFilters: "إخفاء عوامل التصفية",
+    any: "الكل",
+    apply: "تطبيق",
+    clear: "مسح عوامل التصفية",
+    loadFailed: "تعذر تحميل سجل التدقيق.",
+    emptyHeading: "لا توجد إدخالات",
+    emptyContent: "ستظهر هنا التغييرات على العينات والنتائج والكتالوج.",
+    emptyFilteredContent: "لا شيء يطابق عوامل التصفية هذه.",
+    errors: {
+      id: "أدخل معرّفًا كاملًا، مثل 3f2a…-…",
+      dateFormat: "استخدم الصيغة YYYY-MM-DD",
+      endBeforeStart: "تاريخ النهاية قبل تاريخ البداية",
+    },
+  },
+  auditLogDetailScreen: {
+    title: "إدخال التدقيق",
+    loadFailed: "تعذر تحميل هذا الإدخال.",
+    archivedNotice: "نُقل هذا الإدخال إلى الأرشيف.",
+    truncatedNotice: "كانت بعض القيم طويلة جدًا فاقتُطعت عند تسجيلها.",
+    changes: "التغييرات",
+    unreadable: "تعذرت قراءة القيم المسجلة، لذا تُعرض كما خُزنت.",
+    before: "قبل",
+    after: "بعد",
+    noChanges: "لم تُسجل أي تغييرات في الحقول.",
+    notRecorded: "غير مسجل",
+    empty: "فارغ",
+  },
+  recordHistory: {
+    title: "السجل",
+    loadFailed: "تعذر تحميل السجل.",
+    empty: "لم تُسجل أي تغييرات بعد.",
+    restore: "استعادة هذا الإصدار",
+    older: "عرض التغييرات الأقدم",
+    restoreTitle: "استعادة هذا الإصدار؟",
+    restoreMessage:
+      "تعود الحقول التي غيّرها هذا الإدخال إلى قيمها السابقة. تُسجل الاستعادة كتغيير جديد.",
+    restoreFailed: "تعذرت استعادة هذا الإصدار. يرجى المحاولة مرة أخرى.",
+  },
+  testResultDetailScreen: {
+    title: "نتيجة الاختبار",
+    loadFailed: "تعذر تحميل هذه النتيجة.",
+  },
+  passwordFields: {
+    currentPassword: "كلمة المرور الحالية",
+    newPassword: "كلمة المرور الجديدة",
+    confirmPassword: "تأكيد كلمة المرور الجديدة",
+    email: "البريد الإلكتروني",
+    code: "رمز إعادة التعيين",
+    saveInvalid: "تحقق من الحقول المميزة.",
+    saveFailed: "تعذر تغيير كلمة المرور. يرجى المحاولة مرة أخرى.",
+    rateLimited: "محاولات كثيرة جدًا. انتظر دقيقة ثم حاول مرة أخرى.",
+    errors: {
+      currentRequired: "أدخل كلمة المرور الحالية",
+      mismatch: "كلمتا المرور غير متطابقتين",
+      unchanged: "اختر كلمة مرور مختلفة عن الحالية",
+      codeRequired: "أدخل الرمز الوارد في البريد",
+    },
+  },
+  settingsScreen: {
+    title: "الإعدادات",
+    changePassword: "تغيير كلمة المرور",
+    changePasswordDescription: "تعيين كلمة مرور جديدة لحسابك.",
+    diagnostics: "التشخيص",
+    diagnosticsDescription: "تحقق من الاتصال بالخادم لطلبات الدعم.",
+    server: "الخادم",
+  },
+  changePasswordScreen: {
+    title: "تغيير كلمة المرور",
+    save: "تغيير كلمة المرور",
+    saved: "تم تغيير كلمة المرور.",
+    rejected: "كلمة المرور الحالية خاطئة، أو أن الجديدة غير مسموح بها.",
+  },
+  forgotPasswordScreen: {
+    title: "نسيت كلمة المرور",
+    description: "أدخل البريد الإلكتروني لحسابك وسنرسل لك رابطًا لإعادة تعيين كلمة المرور.",
+    send: "إرسال الرابط",
+    sent: "إذا كان هناك حساب يستخدم هذا العنوان، فرابط إعادة التعيين في الطريق. افتحه على هذا الجهاز أو أدخل الرمز يدويًا.",
+    enterCode: "إدخال الرمز",
+    sendFailed: "تعذر إرسال الرابط. يرجى المحاولة مرة أخرى.",
+  },
+  resetPasswordScreen: {
+    title: "إعادة تعيين كلمة المرور",
+    description: "اختر كلمة مرور جديدة لحسابك.",
+    save: "إعادة التعيين",
+    saved: "تمت إعادة تعيين كلمة المرور. سجّل الدخول بالكلمة الجديدة.",
+    rejected: "هذا الرمز غير صالح أو منتهي الصلاحية. اطلب رابطًا جديدًا.",
+  },
+  verifyEmailScreen: {
+    title: "تأكيد البريد الإلكتروني",
+    continue: "متابعة",
+    logIn: "الانتقال إلى تسجيل الدخول",
+    retry: "إعادة المحاولة",
+    resendHeading: "تحتاج إلى رابط جديد؟",
+    resendDescription: "أدخل العنوان الذي أُرسل إليه بريد التأكيد.",
+    resend: "إرسال رابط جديد",
+    resendIn: "إعادة الإرسال بعد {{seconds}} ث",
+    resent: "إذا كان هذا العنوان لحساب غير مؤكد، فالرابط الجديد في الطريق.",
+    resendFailed: "تعذر إرسال رابط جديد. يرجى المحاولة مرة أخرى.",
+    states: {
+      missingLink: "افتح الرابط الموجود في بريد التأكيد على هذا الجهاز لتأكيد عنوانك.",
+      verifying: "جارٍ تأكيد بريدك الإلكتروني…",
+      verified: "تم تأكيد بريدك الإلكتروني.",
+      alreadyVerified: "بريدك الإلكتروني مؤكد مسبقًا. سبق استخدام هذا الرابط.",
+      invalidCode: "رابط التأكيد هذا غير صالح أو منتهي الصلاحية.",
+      unknownUser: "هذا الرابط لا يطابق أي حساب.",
+      rateLimited: "محاولات كثيرة جدًا. انتظر دقيقة ثم حاول مرة أخرى.",
+      failed: "تعذر الوصول إلى الخادم لتأكيد بريدك الإلكتروني.",
+    },
+  },
+  serverIncompatibleScreen: {
+    updateRequiredTitle: "التحديث مطلوب",
+    updateRequiredMessage:
+      "يعمل هذا الخادم بإصدار أحدث مما يدعمه هذا الإصدار من التطبيق. حدّث التطبيق لمواصلة العمل.",
+    incompatibleTitle: "الخادم غير مدعوم",
+    incompatibleMessage:
+      "يعمل هذا الخادم بإصدار لا يمكن لهذا الإصدار من التطبيق العمل معه. اطلب من المسؤول ترقية الخادم.",
+    serverVersion: "إصدار الخادم",
+    supportedVersions: "الإصدارات المدعومة",
+    appVersion: "إصدار التطبيق",
+    server: "الخادم",
+    checkAgain: "التحقق مرة أخرى",
+    diagnostics: "التشخيص",
+    changeServer: "استخدام خادم آخر",
+  },
+  diagnosticsScreen: {
+    title: "التشخيص",
+    server: "الخادم",
+    appVersion: "إصدار التطبيق",
+    runAgain: "التشغيل مرة أخرى",
+    share: "مشاركة التقرير",
+    versionNeedsSignIn: "يُتحقق من إصدار الخادم بعد تسجيل الدخول.",
+    checks: {
+      live: "الخادم يستجيب",
+      startup: "الخادم بدأ التشغيل",
+      ready: "جاهز (قاعدة البيانات)",
+      version: "إصدار الخادم",
+    },
+  },
+  serverSelectScreen: {
+    title: "الخادم",
+    description: "اختر خادم Quater الذي يستخدمه مختبرك. يحتفظ كل خادم بتسجيل دخول خاص به.",
+    pendingChanges:
+      "زامن تغييراتك المعلقة أو تجاهلها قبل تبديل الخادم، حتى لا تُرسل إلى الخادم الخطأ.",
+    reviewPendingChanges: "مراجعة التغييرات المعلقة",
+    remove: "إزالة",
+    removeTitle: "إزالة الخادم؟",
+    removeMessage: "ستتم إزالة {{name}} من هذا الجهاز وتسجيل خروجك منه.",
+    addTitle: "إضافة خادم",
+    name: "الاسم",
+    namePlaceholder: "مثال: المختبر الشريك",
+    url: "عنوان URL للخادم",
+    add: "إضافة الخادم",
+    checking: "جارٍ التحقق من الخادم…",
+    unreachable: "تعذّر الوصول إلى الخادم. تحقق من العنوان ومن اتصالك.",
+    errors: {
+      nameRequired: "أدخل اسمًا للخادم.",
+      url: "أدخل عنوانًا يبدأ بـ http:// أو https://.",
+      duplicate: "تمت إضافة هذا الخادم بالفعل.",
+    },
+  },
 
   ...demoAr,
 }
@@ -6,6 +6,7 @@ const en = {
     cancel: "Cancel",
     back: "Back",
     logOut: "Log Out",
+    unknown: "Unknown",
   },
   welcomeScreen: {
     postscript:
@@ -42,6 +43,10 @@ const en = {
     passwordFieldPlaceholder: "Super secret password here",
     tapToLogIn: "Tap to log in!",
     hint: "Hint: you can use any email address and your favorite password :)",
+    forgotPassword: "Forgot your password?",
+    diagnostics: "Having trouble connecting?",
+    server: "Server: {{name}} ({{url}})",
+    changeServer: "Change server",
   },
   demoNavigator: {
     componentsTab: "Components",
@@ -121,6 +126,510 @@ const en = {
         "No favorites have been added yet. Tap the heart on an episode to add it to your favorites!",
     },
   },
+  syncStatus: {
+    offline: "You're offline. Changes are saved on this device.",
+    pending: "Changes waiting to sync: {{count}}",
+    failed: "Changes that could not be synced: {{count}}",
+  },
+  pendingChangesScreen: {
+    title: "Pending changes",
+    emptyHeading: "All caught up",
+    emptyContent: "Every change made on this device has been sent to the server.",
+    syncNow: "Sync now",
+    retryFailed: "Retry failed changes",
+    discard: "Discard",
+    resolve: "Resolve",
+    lastError: "Last error: {{error}}",
+    mutation: {
+      createSample: "New sample",
+      updateSample: "Sample edit",
+      createTestResult: "New test result",
+      updateTestResult: "Test result edit",
+    },
+  },
+  sampleFields: {
+    type: "Sample type",
+    status: "Status",
+    collectionDate: "Collection date",
+    collectorName: "Collector",
+    locationLatitude: "Latitude",
+    locationLongitude: "Longitude",
+    locationDescription: "Location",
+    locationHierarchy: "Location hierarchy",
+    notes: "Notes",
+  },
+  testResultFields: {
+    parameterName: "Parameter",
+    value: "Value",
+    unit: "Unit",
+    testDate: "Test date",
+    technicianName: "Technician",
+    testMethod: "Test method",
+  },
+  conflictResolutionScreen: {
+    title: "Resolve conflict",
+    heading: "Someone else changed this record",
+    description:
+      "Pick the value to keep for each field, then save. Your merged version is submitted against the latest server copy.",
+    mine: "Mine: {{value}}",
+    theirs: "Server: {{value}}",
+    keepAllMine: "Keep all mine",
+    useAllTheirs: "Use all server",
+    saveMerged: "Save merged version",
+    noDifferences: "Your changes match the server copy. Saving will only update the version.",
+    loadFailed: "Could not load the server copy. Check your connection and try again.",
+    changedAgain: "The record changed again while you were resolving. Review the latest values.",
+    saveFailed: "Could not save your changes. Please try again.",
+  },
+  sampleType: {
+    drinkingWater: "Drinking water",
+    wastewater: "Wastewater",
+    surfaceWater: "Surface water",
+    groundwater: "Groundwater",
+    industrialWater: "Industrial water",
+  },
+  sampleStatus: {
+    pending: "Pending",
+    completed: "Completed",
+    archived: "Archived",
+  },
+  sampleListScreen: {
+    title: "Samples",
+    newSample: "New sample",
+    loadFailed: "Couldn't load samples",
+    switchLab: "Switch lab",
+    administration: "Administration",
+    emptyHeading: "No samples yet",
+    emptyContent: "Samples collected for this lab will show up here. Tap to refresh.",
+    pendingSync: "Not synced",
+    settings: "Settings",
+  },
+  sampleDetailScreen: {
+    title: "Sample",
+    loadFailed: "Couldn't load this sample.",
+    coordinates: "Coordinates",
+    edit: "Edit",
+    delete: "Delete",
+    deleteTitle: "Delete sample?",
+    deleteMessage: "The sample and its test results will be removed.",
+    deleteFailed: "Couldn't delete this sample. Please try again.",
+    testResults: "Test results",
+    noTestResults: "No results recorded yet.",
+    addTestResult: "Record result",
+  },
+  sampleEditScreen: {
+    createTitle: "New sample",
+    editTitle: "Edit sample",
+    loadFailed: "Couldn't load this sample.",
+    noLab: "Your account isn't assigned to a lab yet.",
+    saveFailed: "Couldn't save the sample. Please try again.",
+    saveInvalid: "The server rejected some fields. Check the highlighted values.",
+    save: "Save",
+    datePlaceholder: "YYYY-MM-DD HH:MM",
+    errors: {
+      collectorRequired: "Collector name is required",
+      tooLong: "This is too long",
+      latitude: "Enter a latitude between -90 and 90",
+      longitude: "Enter a longitude between -180 and 180",
+      dateFormat: "Use the format YYYY-MM-DD HH:MM",
+      dateInFuture: "Collection date can't be in the future",
+    },
+  },
+  testMethod: {
+    titration: "Titration",
+    spectrophotometry: "Spectrophotometry",
+    chromatography: "Chromatography",
+    microscopy: "Microscopy",
+    electrode: "Electrode",
+    culture: "Culture",
+    other: "Other",
+  },
+  complianceStatus: {
+    pass: "Pass",
+    fail: "Fail",
+    warning: "Warning",
+    predicted: "Predicted: {{status}}",
+  },
+  testResultEntryScreen: {
+    title: "Record result",
+    parametersFailed: "Couldn't load parameters. Check your connection and try again.",
+    whoThreshold: "WHO limit: {{value}} {{unit}}",
+    outOfRange: "Outside the accepted range ({{min}} to {{max}})",
+    save: "Save result",
+    saveFailed: "Couldn't save the result. Please try again.",
+    saveInvalid: "The server rejected some fields. Check the highlighted values.",
+    savedHeading: "Result saved",
+    awaitingSync: "The final status will be set by the server once this result syncs.",
+    enterAnother: "Record another",
+    done: "Done",
+    errors: {
+      parameterRequired: "Pick a parameter",
+      valueRequired: "Enter a number",
+      unitRequired: "Unit is required",
+      technicianRequired: "Technician name is required",
+      tooLong: "This is too long",
+      dateFormat: "Use the format YYYY-MM-DD HH:MM",
+      dateInFuture: "Test date can't be in the future",
+    },
+  },
+  userRole: {
+    viewer: "Viewer",
+    technician: "Technician",
+    admin: "Admin",
+  },
+  auditAction: {
+    create: "Created",
+    update: "Updated",
+    softDelete: "Moved to trash",
+    delete: "Deleted",
+    restore: "Restored",
+    conflictResolution: "Conflict resolved",
+  },
+  entityType: {
+    lab: "Lab",
+    sample: "Sample",
+    testResult: "Test result",
+    parameter: "Parameter",
+    auditLog: "Audit log",
+    auditLogArchive: "Archived audit log",
+  },
+  labPickerScreen: {
+    title: "Choose a lab",
+    switchTitle: "Switch lab",
+    description: "Samples and results are kept per lab. Choose the lab you're working in.",
+    loadFailed: "Couldn't load your labs. Pull to try again.",
+    pendingChanges:
+      "Sync or discard your pending changes before switching labs, so they aren't sent to the wrong lab.",
+    reviewPendingChanges: "Review pending changes",
+    emptyHeading: "No labs yet",
+    emptyContent: "Your account isn't a member of any lab. Ask a lab administrator to add you.",
+    retry: "Try again",
+  },
+  adminScreen: {
+    title: "Administration",
+    parameters: "Parameters",
+    parametersDescription: "Units, WHO thresholds and accepted ranges used to judge results",
+    labs: "Labs",
+    labsDescription: "Names, locations and contact details of the labs",
+    users: "Users",
+    usersDescription: "Staff accounts, their labs and roles",
+    auditLog: "Audit trail",
+    auditLogDescription: "Who changed what, and when",
+  },
+  parameterFields: {
+    name: "Name",
+    unit: "Unit",
+    whoThreshold: "WHO threshold",
+    minValue: "Minimum",
+    maxValue: "Maximum",
+    description: "Description",
+  },
+  parameterListScreen: {
+    title: "Parameters",
+    new: "New",
+    inactive: "Inactive",
+    whoThreshold: "WHO {{value}}",
+    range: "{{min}} to {{max}}",
+    loadFailed: "Couldn't load parameters.",
+    emptyHeading: "No parameters yet",
+    emptyContent: "Add the parameters technicians record results for.",
+  },
+  parameterEditScreen: {
+    createTitle: "New parameter",
+    editTitle: "Edit parameter",
+    loadFailed: "Couldn't load this parameter.",
+    save: "Save",
+    saveFailed: "Couldn't save the parameter. Please try again.",
+    saveInvalid: "The server rejected some fields. Check the highlighted values.",
+    duplicateName: "Another parameter already uses this name.",
+    inactiveNotice: "This parameter is inactive and isn't offered when recording results.",
+    deactivate: "Deactivate",
+    reactivate: "Reactivate",
+    deactivateTitle: "Deactivate parameter?",
+    deactivateMessage:
+      "It won't be offered when recording results, and new results recorded under its name will be marked as warnings. Existing results are kept.",
+    limitsChangedTitle: "Change limits?",
+    limitsChangedMessage:
+      "Existing results keep the compliance they were recorded with. Results recorded from now on are judged against the new limits, so the same value may pass or fail differently.",
+    errors: {
+      nameRequired: "Name is required",
+      unitRequired: "Unit is required",
+      tooLong: "This is too long",
+      number: "Enter a number",
+      negativeThreshold: "The threshold can't be negative",
+      minAboveMax: "The maximum can't be below the minimum",
+    },
+  },
+  labFields: {
+    name: "Name",
+    location: "Location",
+    contactInfo: "Contact info",
+    created: "Created",
+    updated: "Last updated",
+  },
+  labListScreen: {
+    title: "Labs",
+    new: "New",
+    inactive: "Inactive",
+    loadFailed: "Couldn't load labs.",
+    emptyHeading: "No labs yet",
+    emptyContent: "Create a lab to start collecting samples.",
+  },
+  labEditScreen: {
+    createTitle: "New lab",
+    editTitle: "Edit lab",
+    loadFailed: "Couldn't load this lab.",
+    save: "Save",
+    saveFailed: "Couldn't save the lab. Please try again.",
+    saveInvalid: "The server rejected some fields. Check the highlighted values.",
+    duplicateName: "Another lab already uses this name.",
+    inactiveNotice: "This lab is inactive.",
+    deactivate: "Deactivate",
+    reactivate: "Reactivate",
+    deactivateTitle: "Deactivate lab?",
+    deactivateMessage: "Its members can no longer work in it. Samples and results are kept.",
+    deactivateCurrentMessage:
+      "You're currently working in this lab. Its members, including you, can no longer work in it. Samples and results are kept.",
+    changedBy: "{{date}} by {{user}}",
+    unknownUser: "an unknown user",
+    errors: {
+      nameRequired: "Name is required",
+      locationRequired: "Location is required",
+      tooLong: "This is too long",
+    },
+  },
+  userFields: {
+    userName: "User name",
+    email: "Email",
+    temporaryPassword: "Temporary password",
+    role: "Role",
+  },
+  userListScreen: {
+    title: "Users",
+    new: "New",
+    inactive: "Inactive",
+    loadFailed: "Couldn't load users.",
+    emptyHeading: "No users yet",
+    emptyContent: "Create accounts for the people working in this lab.",
+  },
+  userCreateScreen: {
+    title: "New user",
+    description:
+      "The account starts as a member of {{lab}}. Share the temporary password with its owner.",
+    save: "Create user",
+    saveFailed: "Couldn't create the user. Please try again.",
+    saveInvalid: "The server rejected some fields. Check the highlighted values.",
+    errors: {
+      userNameRequired: "User name is required",
+      userNameSpaces: "User names can't contain spaces",
+      email: "Enter a valid email address",
+      passwordTooShort: "Use at least 8 characters",
+      passwordWeak: "Use upper and lowercase letters, a digit and a symbol",
+    },
+  },
+  userDetailScreen: {
+    title: "User",
+    loadFailed: "Couldn't load this user.",
+    inactive: "Inactive",
+    lastLogin: "Last signed in {{date}}",
+    neverLoggedIn: "Has never signed in",
+    selfNotice: "This is your account. Ask another admin to change your access.",
+    memberships: "Labs",
+    noMemberships: "Not a member of any lab.",
+    remove: "Remove",
+    removeTitle: "Remove from lab?",
+    removeMessage: "They'll lose access to {{lab}}. Records they created are kept.",
+    removeFailed: "Couldn't remove the user from the lab.",
+    roleFailed: "Couldn't change the role.",
+    addToLab: "Add to lab",
+    add: "Add",
+    addFailed: "Couldn't add the user to the lab.",
+    account: "Account",
+    deactivate: "Deactivate account",
+    reactivate: "Reactivate account",
+    deactivateTitle: "Deactivate account?",
+    deactivateMessage: "They won't be able to sign in. Their lab memberships and records are kept.",
+    statusFailed: "Couldn't change the account status.",
+  },
+  auditLogFields: {
+    entityType: "Record type",
+    action: "Action",
+    entityId: "Record ID",
+    userId: "User ID",
+    startDate: "From (UTC)",
+    endDate: "To (UTC)",
+    includeArchived: "Include archived entries",
+    archived: "Archived",
+    truncated: "Truncated",
+    timestamp: "When",
+    user: "User",
+    ipAddress: "IP address",
+  },
+  auditLogListScreen: {
+    title: "Audit trail",
+    showFilters: "Filters ({{count}})",
+    hideFilters: "Hide filters",
+    any: "Any",
+    apply: "Apply filters",
+    clear: "Clear filters",
+    loadFailed: "Couldn't load the audit trail.",
+    emptyHeading: "No entries",
+    emptyContent: "Changes to samples, results and the catalogue will appear here.",
+    emptyFilteredContent: "Nothing matches these filters.",
+    errors: {
+      id: "Enter a full ID, e.g. 3f2a…-…",
+      dateFormat: "Use YYYY-MM-DD",
+      endBeforeStart: "The end date is before the start date",
+    },
+  },
+  auditLogDetailScreen: {
+    title: "Audit entry",
+    loadFailed: "Couldn't load this entry.",
+    archivedNotice: "This entry has been moved to the archive.",
+    truncatedNotice: "Some values were too long and were cut short when recorded.",
+    changes: "Changes",
+    unreadable: "The recorded values couldn't be read, so they're shown as stored.",
+    before: "Before",
+    after: "After",
+    noChanges: "No field changes were recorded.",
+    notRecorded: "Not recorded",
+    empty: "Empty",
+  },
+  recordHistory: {
+    title: "History",
+    loadFailed: "Couldn't load the history.",
+    empty: "No changes recorded yet.",
+    restore: "Restore this version",
+    older: "Show older changes",
+    restoreTitle: "Restore this version?",
+    restoreMessage:
+      "The fields changed by this entry go back to their earlier values. The restore is recorded as a new change.",
+    restoreFailed: "Couldn't restore this version. Please try again.",
+  },
+  testResultDetailScreen: {
+    title: "Test result",
+    loadFailed: "Couldn't load this result.",
+  },
+  passwordFields: {
+    currentPassword: "Current password",
+    newPassword: "New password",
+    confirmPassword: "Confirm new password",
+    email: "Email",
+    code: "Reset code",
+    saveInvalid: "Check the highlighted fields.",
+    saveFailed: "Couldn't change your password. Please try again.",
+    rateLimited: "Too many attempts. Wait a minute and try again.",
+    errors: {
+      currentRequired: "Enter your current password",
+      mismatch: "The passwords don't match",
+      unchanged: "Choose a password different from the current one",
+      codeRequired: "Enter the code from the email",
+    },
+  },
+  settingsScreen: {
+    title: "Settings",
+    changePassword: "Change password",
+    changePasswordDescription: "Set a new password for your account.",
+    diagnostics: "Diagnostics",
+    diagnosticsDescription: "Check the connection to the server for support calls.",
+    server: "Server",
+  },
+  changePasswordScreen: {
+    title: "Change password",
+    save: "Change password",
+    saved: "Your password has been changed.",
+    rejected: "Your current password is wrong, or the new one isn't allowed.",
+  },
+  forgotPasswordScreen: {
+    title: "Forgot password",
+    description:
+      "Enter the email address of your account and we'll send you a link to reset your password.",
+    send: "Send reset link",
+    sent: "If an account uses this address, a reset link is on its way. Open it on this device, or enter the code by hand.",
+    enterCode: "Enter the code",
+    sendFailed: "Couldn't send the reset link. Please try again.",
+  },
+  resetPasswordScreen: {
+    title: "Reset password",
+    description: "Choose a new password for your account.",
+    save: "Reset password",
+    saved: "Your password has been reset. Log in with the new one.",
+    rejected: "This reset code is invalid or has expired. Request a new link.",
+  },
+  verifyEmailScreen: {
+    title: "Verify email",
+    continue: "Continue",
+    logIn: "Go to log in",
+    retry: "Try again",
+    resendHeading: "Need a new link?",
+    resendDescription: "Enter the address the verification email was sent to.",
+    resend: "Send a new link",
+    resendIn: "Send again in {{seconds}} s",
+    resent: "If this address belongs to an unverified account, a new link is on its way.",
+    resendFailed: "Couldn't send a new link. Please try again.",
+    states: {
+      missingLink:
+        "Open the link in your verification email on this device to verify your address.",
+      verifying: "Verifying your email…",
+      verified: "Your email is verified.",
+      alreadyVerified: "Your email was already verified. This link has been used before.",
+      invalidCode: "This verification link is invalid or has expired.",
+      unknownUser: "This link doesn't match any account.",
+      rateLimited: "Too many attempts. Wait a minute and try again.",
+      failed: "Couldn't reach the server to verify your email.",
+    },
+  },
+  serverIncompatibleScreen: {
+    updateRequiredTitle: "Update required",
+    updateRequiredMessage:
+      "This server runs a newer release than this version of the app supports. Update the app to keep working.",
+    incompatibleTitle: "Server not supported",
+    incompatibleMessage:
+      "This server runs a release this version of the app can't work with. Ask your administrator to upgrade the server.",
+    serverVersion: "Server version",
+    supportedVersions: "Supported versions",
+    appVersion: "App version",
+    server: "Server",
+    checkAgain: "Check again",
+    diagnostics: "Diagnostics",
+    changeServer: "Use another server",
+  },
+  diagnosticsScreen: {
+    title: "Diagnostics",
+    server: "Server",
+    appVersion: "App version",
+    runAgain: "Run again",
+    share: "Share report",
+    versionNeedsSignIn: "The server version is checked once you're signed in.",
+    checks: {
+      live: "Server responding",
+      startup: "Server started",
+      ready: "Ready (database)",
+      version: "Server version",
+    },
+  },
+  serverSelectScreen: {
+    title: "Server",
+    description: "Choose the Quater server your lab uses. Each server keeps its own sign-in.",
+    pendingChanges:
+      "Sync or discard your pending changes before switching servers, so they aren't sent to the wrong one.",
+    reviewPendingChanges: "Review pending changes",
+    remove: "Remove",
+    removeTitle: "Remove server?",
+    removeMessage: "{{name}} will be removed from this device and you'll be signed out of it.",
+    addTitle: "Add a server",
+    name: "Name",
+    namePlaceholder: "e.g. Partner lab",
+    url: "Server URL",
+    add: "Add server",
+    checking: "Checking server…",
+    unreachable: "The server couldn't be reached. Check the URL and your connection.",
+    errors: {
+      nameRequired: "Enter a name for the server.",
+      url: "Enter a URL starting with http:// or https://.",
+      duplicate: "This server has already been added.",
+    },
+  },
 
   ...demoEn,
 }
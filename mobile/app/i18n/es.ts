@@ -7,6 +7,7 @@ const es: Translations = {
     cancel: "Cancelar",
     back: "Volver",
     logOut: "Cerrar sesión",
+    unknown: "Desconocido",
   },
   welcomeScreen: {
     postscript:
@@ -44,6 +45,10 @@ const es: Translations = {
     passwordFieldPlaceholder: "Contraseña super secreta aquí",
     tapToLogIn: "¡Presiona acá para iniciar sesión!",
     hint: "Consejo: puedes usar cualquier email y tu contraseña preferida :)",
+    forgotPassword: "¿Olvidaste tu contraseña?",
+    diagnostics: "¿Problemas para conectarte?",
+    server: "Servidor: {{name}} ({{url}})",
+    changeServer: "Cambiar de servidor",
   },
   demoNavigator: {
     componentsTab: "Componentes",
@@ -124,6 +129,520 @@ const es: Translations = {
         "No se han agregado episodios favoritos todavía. ¡Presiona el corazón dentro de un episodio para agregarlo a tus favoritos!",
     },
   },
+  syncStatus: {
+    offline: "Estás sin conexión. Los cambios se guardan en este dispositivo.",
+    pending: "Cambios pendientes de sincronizar: {{count}}",
+    failed: "Cambios que no se pudieron sincronizar: {{count}}",
+  },
+  pendingChangesScreen: {
+    title: "Cambios pendientes",
+    emptyHeading: "Todo al día",
+    emptyContent: "Todos los cambios hechos en este dispositivo se enviaron al servidor.",
+    syncNow: "Sincronizar ahora",
+    retryFailed: "Reintentar cambios fallidos",
+    discard: "Descartar",
+    resolve: "Resolver",
+    lastError: "Último error: {{error}}",
+    mutation: {
+      createSample: "Nueva muestra",
+      updateSample: "Edición de muestra",
+      createTestResult: "Nuevo resultado de prueba",
+      updateTestResult: "Edición de resultado de prueba",
+    },
+  },
+  sampleFields: {
+    type: "Tipo de muestra",
+    status: "Estado",
+    collectionDate: "Fecha de recolección",
+    collectorName: "Recolector",
+    locationLatitude: "Latitud",
+    locationLongitude: "Longitud",
+    locationDescription: "Ubicación",
+    locationHierarchy: "Jerarquía de ubicación",
+    notes: "Notas",
+  },
+  testResultFields: {
+    parameterName: "Parámetro",
+    value: "Valor",
+    unit: "Unidad",
+    testDate: "Fecha de prueba",
+    technicianName: "Técnico",
+    testMethod: "Método de prueba",
+  },
+  conflictResolutionScreen: {
+    title: "Resolver conflicto",
+    heading: "Otra persona modificó este registro",
+    description:
+      "Elige el valor que quieres conservar en cada campo y guarda. La versión combinada se envía contra la copia más reciente del servidor.",
+    mine: "Mío: {{value}}",
+    theirs: "Servidor: {{value}}",
+    keepAllMine: "Conservar los míos",
+    useAllTheirs: "Usar los del servidor",
+    saveMerged: "Guardar versión combinada",
+    noDifferences:
+      "Tus cambios coinciden con la copia del servidor. Guardar solo actualizará la versión.",
+    loadFailed: "No se pudo cargar la copia del servidor. Revisa tu conexión e inténtalo de nuevo.",
+    changedAgain:
+      "El registro cambió de nuevo mientras lo resolvías. Revisa los valores más recientes.",
+    saveFailed: "No se pudieron guardar los cambios. Inténtalo de nuevo.",
+  },
+  sampleType: {
+    drinkingWater: "Agua potable",
+    wastewater: "Aguas residuales",
+    surfaceWater: "Agua superficial",
+    groundwater: "Agua subterránea",
+    industrialWater: "Agua industrial",
+  },
+  sampleStatus: {
+    pending: "Pendiente",
+    completed: "Completada",
+    archived: "Archivada",
+  },
+  sampleListScreen: {
+    title: "Muestras",
+    newSample: "Nueva muestra",
+    loadFailed: "No se pudieron cargar las muestras",
+    switchLab: "Cambiar laboratorio",
+    administration: "Administración",
+    emptyHeading: "Aún no hay muestras",
+    emptyContent:
+      "Las muestras recogidas para este laboratorio aparecerán aquí. Toca para actualizar.",
+    pendingSync: "Sin sincronizar",
+    settings: "Ajustes",
+  },
+  sampleDetailScreen: {
+    title: "Muestra",
+    loadFailed: "No se pudo cargar esta muestra.",
+    coordinates: "Coordenadas",
+    edit: "Editar",
+    delete: "Eliminar",
+    deleteTitle: "¿Eliminar la muestra?",
+    deleteMessage: "Se eliminarán la muestra y sus resultados de análisis.",
+    deleteFailed: "No se pudo eliminar esta muestra. Inténtalo de nuevo.",
+    testResults: "Resultados de análisis",
+    noTestResults: "Aún no hay resultados registrados.",
+    addTestResult: "Registrar resultado",
+  },
+  sampleEditScreen: {
+    createTitle: "Nueva muestra",
+    editTitle: "Editar muestra",
+    loadFailed: "No se pudo cargar esta muestra.",
+    noLab: "Tu cuenta aún no está asignada a ningún laboratorio.",
+    saveFailed: "No se pudo guardar la muestra. Inténtalo de nuevo.",
+    saveInvalid: "El servidor rechazó algunos campos. Revisa los valores resaltados.",
+    save: "Guardar",
+    datePlaceholder: "AAAA-MM-DD HH:MM",
+    errors: {
+      collectorRequired: "El nombre del recolector es obligatorio",
+      tooLong: "Este texto es demasiado largo",
+      latitude: "Introduce una latitud entre -90 y 90",
+      longitude: "Introduce una longitud entre -180 y 180",
+      dateFormat: "Usa el formato AAAA-MM-DD HH:MM",
+      dateInFuture: "La fecha de recogida no puede ser futura",
+    },
+  },
+  testMethod: {
+    titration: "Titulación",
+    spectrophotometry: "Espectrofotometría",
+    chromatography: "Cromatografía",
+    microscopy: "Microscopía",
+    electrode: "Electrodo",
+    culture: "Cultivo",
+    other: "Otro",
+  },
+  complianceStatus: {
+    pass: "Conforme",
+    fail: "No conforme",
+    warning: "Advertencia",
+    predicted: "Previsto: {{status}}",
+  },
+  testResultEntryScreen: {
+    title: "Registrar resultado",
+    parametersFailed:
+      "No se pudieron cargar los parámetros. Revisa tu conexión e inténtalo de nuevo.",
+    whoThreshold: "Límite OMS: {{value}} {{unit}}",
+    outOfRange: "Fuera del rango aceptado ({{min}} a {{max}})",
+    save: "Guardar resultado",
+    saveFailed: "No se pudo guardar el resultado. Inténtalo de nuevo.",
+    saveInvalid: "El servidor rechazó algunos campos. Revisa los valores resaltados.",
+    savedHeading: "Resultado guardado",
+    awaitingSync: "El servidor asignará el estado definitivo cuando se sincronice este resultado.",
+    enterAnother: "Registrar otro",
+    done: "Listo",
+    errors: {
+      parameterRequired: "Elige un parámetro",
+      valueRequired: "Introduce un número",
+      unitRequired: "La unidad es obligatoria",
+      technicianRequired: "El nombre del técnico es obligatorio",
+      tooLong: "Este texto es demasiado largo",
+      dateFormat: "Usa el formato AAAA-MM-DD HH:MM",
+      dateInFuture: "La fecha del análisis no puede ser futura",
+    },
+  },
+  userRole: {
+    viewer: "Lector",
+    technician: "Técnico",
+    admin: "Administrador",
+  },
+  auditAction: {
+    create: "Creado",
+    update: "Actualizado",
+    softDelete: "Movido a la papelera",
+    delete: "Eliminado",
+    restore: "Restaurado",
+    conflictResolution: "Conflicto resuelto",
+  },
+  entityType: {
+    lab: "Laboratorio",
+    sample: "Muestra",
+    testResult: "Resultado de análisis",
+    parameter: "Parámetro",
+    auditLog: "Registro de auditoría",
+    auditLogArchive: "Registro de auditoría archivado",
+  },
+  labPickerScreen: {
+    title: "Elige un laboratorio",
+    switchTitle: "Cambiar de laboratorio",
+    description:
+      "Las muestras y los resultados se guardan por laboratorio. Elige el laboratorio en el que trabajas.",
+    loadFailed: "No se pudieron cargar tus laboratorios. Desliza para reintentar.",
+    pendingChanges:
+      "Sincroniza o descarta tus cambios pendientes antes de cambiar de laboratorio, para que no se envíen al laboratorio equivocado.",
+    reviewPendingChanges: "Revisar cambios pendientes",
+    emptyHeading: "Aún no hay laboratorios",
+    emptyContent:
+      "Tu cuenta no pertenece a ningún laboratorio. Pide a un administrador que te añada.",
+    retry: "Reintentar",
+  },
+  adminScreen: {
+    title: "Administración",
+    parameters: "Parámetros",
+    parametersDescription:
+      "Unidades, umbrales de la OMS y rangos aceptados para evaluar resultados",
+    labs: "Laboratorios",
+    labsDescription: "Nombres, ubicaciones y datos de contacto de los laboratorios",
+    users: "Usuarios",
+    usersDescription: "Cuentas del personal, sus laboratorios y roles",
+    auditLog: "Registro de auditoría",
+    auditLogDescription: "Quién cambió qué y cuándo",
+  },
+  parameterFields: {
+    name: "Nombre",
+    unit: "Unidad",
+    whoThreshold: "Umbral OMS",
+    minValue: "Mínimo",
+    maxValue: "Máximo",
+    description: "Descripción",
+  },
+  parameterListScreen: {
+    title: "Parámetros",
+    new: "Nuevo",
+    inactive: "Inactivo",
+    whoThreshold: "OMS {{value}}",
+    range: "{{min}} a {{max}}",
+    loadFailed: "No se pudieron cargar los parámetros.",
+    emptyHeading: "Aún no hay parámetros",
+    emptyContent: "Añade los parámetros para los que los técnicos registran resultados.",
+  },
+  parameterEditScreen: {
+    createTitle: "Nuevo parámetro",
+    editTitle: "Editar parámetro",
+    loadFailed: "No se pudo cargar este parámetro.",
+    save: "Guardar",
+    saveFailed: "No se pudo guardar el parámetro. Inténtalo de nuevo.",
+    saveInvalid: "El servidor rechazó algunos campos. Revisa los valores resaltados.",
+    duplicateName: "Otro parámetro ya usa este nombre.",
+    inactiveNotice: "Este parámetro está inactivo y no se ofrece al registrar resultados.",
+    deactivate: "Desactivar",
+    reactivate: "Reactivar",
+    deactivateTitle: "¿Desactivar el parámetro?",
+    deactivateMessage:
+      "No se ofrecerá al registrar resultados, y los nuevos resultados registrados con su nombre se marcarán como advertencia. Los resultados existentes se conservan.",
+    limitsChangedTitle: "¿Cambiar los límites?",
+    limitsChangedMessage:
+      "Los resultados existentes conservan el cumplimiento con el que se registraron. Los que se registren a partir de ahora se evaluarán con los nuevos límites, así que un mismo valor puede juzgarse de forma distinta.",
+    errors: {
+      nameRequired: "El nombre es obligatorio",
+      unitRequired: "La unidad es obligatoria",
+      tooLong: "Es demasiado largo",
+      number: "Introduce un número",
+      negativeThreshold: "El umbral no puede ser negativo",
+      minAboveMax: "El máximo no puede ser menor que el mínimo",
+    },
+  },
+  labFields: {
+    name: "Nombre",
+    location: "Ubicación",
+    contactInfo: "Contacto",
+    created: "Creado",
+    updated: "Última actualización",
+  },
+  labListScreen: {
+    title: "Laboratorios",
+    new: "Nuevo",
+    inactive: "Inactivo",
+    loadFailed: "No se pudieron cargar los laboratorios.",
+    emptyHeading: "Aún no hay laboratorios",
+    emptyContent: "Crea un laboratorio para empezar a recoger muestras.",
+  },
+  labEditScreen: {
+    createTitle: "Nuevo laboratorio",
+    editTitle: "Editar laboratorio",
+    loadFailed: "No se pudo cargar este laboratorio.",
+    save: "Guardar",
+    saveFailed: "No se pudo guardar el laboratorio. Inténtalo de nuevo.",
+    saveInvalid: "El servidor rechazó algunos campos. Revisa los valores resaltados.",
+    duplicateName: "Otro laboratorio ya usa este nombre.",
+    inactiveNotice: "Este laboratorio está inactivo.",
+    deactivate: "Desactivar",
+    reactivate: "Reactivar",
+    deactivateTitle: "¿Desactivar el laboratorio?",
+    deactivateMessage:
+      "Sus miembros ya no podrán trabajar en él. Las muestras y los resultados se conservan.",
+    deactivateCurrentMessage:
+      "Estás trabajando en este laboratorio. Sus miembros, incluido tú, ya no podrán trabajar en él. Las muestras y los resultados se conservan.",
+    changedBy: "{{date}} por {{user}}",
+    unknownUser: "un usuario desconocido",
+    errors: {
+      nameRequired: "El nombre es obligatorio",
+      locationRequired: "La ubicación es obligatoria",
+      tooLong: "Es demasiado largo",
+    },
+  },
+  userFields: {
+    userName: "Nombre de usuario",
+    email: "Correo electrónico",
+    temporaryPassword: "Contraseña temporal",
+    role: "Rol",
+  },
+  userListScreen: {
+    title: "Usuarios",
+    new: "Nuevo",
+    inactive: "Inactivo",
+    loadFailed: "No se pudieron cargar los usuarios.",
+    emptyHeading: "Aún no hay usuarios",
+    emptyContent: "Crea cuentas para las personas que trabajan en este laboratorio.",
+  },
+  userCreateScreen: {
+    title: "Nuevo usuario",
+    description:
+      "La cuenta empieza como miembro de {{lab}}. Comparte la contraseña temporal con su titular.",
+    save: "Crear usuario",
+    saveFailed: "No se pudo crear el usuario. Inténtalo de nuevo.",
+    saveInvalid: "El servidor rechazó algunos campos. Revisa los valores resaltados.",
+    errors: {
+      userNameRequired: "El nombre de usuario es obligatorio",
+      userNameSpaces: "El nombre de usuario no puede tener espacios",
+      email: "Introduce un correo electrónico válido",
+      passwordTooShort: "Usa al menos 8 caracteres",
+      passwordWeak: "Usa mayúsculas, minúsculas, un número y un símbolo",
+    },
+  },
+  userDetailScreen: {
+    title: "Usuario",
+    loadFailed: "No se pudo cargar este usuario.",
+    inactive: "Inactivo",
+    lastLogin: "Último acceso el {{date}}",
+    neverLoggedIn: "Nunca ha iniciado sesión",
+    selfNotice: "Esta es tu cuenta. Pide a otro administrador que cambie tu acceso.",
+    memberships: "Laboratorios",
+    noMemberships: "No es miembro de ningún laboratorio.",
+    remove: "Quitar",
+    removeTitle: "¿Quitar del laboratorio?",
+    removeMessage: "Perderá el acceso a {{lab}}. Los registros que creó se conservan.",
+    removeFailed: "No se pudo quitar al usuario del laboratorio.",
+    roleFailed: "No se pudo cambiar el rol.",
+    addToLab: "Añadir a un laboratorio",
+    add: "Añadir",
+    addFailed: "No se pudo añadir al usuario al laboratorio.",
+    account: "Cuenta",
+    deactivate: "Desactivar cuenta",
+    reactivate: "Reactivar cuenta",
+    deactivateTitle: "¿Desactivar la cuenta?",
+    deactivateMessage: "No podrá iniciar sesión. Sus laboratorios y registros se conservan.",
+    statusFailed: "No se pudo cambiar el estado de la cuenta.",
+  },
+  auditLogFields: {
+    entityType: "Tipo de registro",
+    action: "Acción",
+    entityId: "ID del registro",
+    userId: "ID del usuario",
+    startDate: "Desde (UTC)",
+    endDate: "Hasta (UTC)",
+    includeArchived: "Incluir entradas archivadas",
+    archived: "Archivada",
+    truncated: "Truncada",
+    timestamp: "Fecha",
+    user: "Usuario",
+    ipAddress: "Dirección IP",
+  },
+  auditLogListScreen: {
+    title: "Registro de auditoría",
+    showFilters: "Filtros ({{count}})",
+    hideFilters: "Ocultar filtros",
+    any: "Cualquiera",
+    apply: "Aplicar filtros",
+    clear: "Borrar filtros",
+    loadFailed: "No se pudo cargar el registro de auditoría.",
+    emptyHeading: "Sin entradas",
+    emptyContent: "Aquí aparecerán los cambios en muestras, resultados y el catálogo.",
+    emptyFilteredContent: "Nada coincide con estos filtros.",
+    errors: {
+      id: "Introduce un ID completo, p. ej. 3f2a…-…",
+      dateFormat: "Usa AAAA-MM-DD",
+      endBeforeStart: "La fecha final es anterior a la inicial",
+    },
+  },
+  auditLogDetailScreen: {
+    title: "Entrada de auditoría",
+    loadFailed: "No se pudo cargar esta entrada.",
+    archivedNotice: "Esta entrada se ha movido al archivo.",
+    truncatedNotice: "Algunos valores eran demasiado largos y se recortaron al guardarse.",
+    changes: "Cambios",
+    unreadable: "No se pudieron leer los valores guardados, así que se muestran tal cual.",
+    before: "Antes",
+    after: "Después",
+    noChanges: "No se registraron cambios de campos.",
+    notRecorded: "No registrado",
+    empty: "Vacío",
+  },
+  recordHistory: {
+    title: "Historial",
+    loadFailed: "No se pudo cargar el historial.",
+    empty: "Aún no hay cambios registrados.",
+    restore: "Restaurar esta versión",
+    older: "Mostrar cambios anteriores",
+    restoreTitle: "¿Restaurar esta versión?",
+    restoreMessage:
+      "Los campos modificados en esta entrada vuelven a sus valores anteriores. La restauración se registra como un cambio nuevo.",
+    restoreFailed: "No se pudo restaurar esta versión. Inténtalo de nuevo.",
+  },
+  testResultDetailScreen: {
+    title: "Resultado de análisis",
+    loadFailed: "No se pudo cargar este resultado.",
+  },
+  passwordFields: {
+    currentPassword: "Contraseña actual",
+    newPassword: "Nueva contraseña",
+    confirmPassword: "Confirmar nueva contraseña",
+    email: "Correo electrónico",
+    code: "Código de restablecimiento",
+    saveInvalid: "Revisa los campos resaltados.",
+    saveFailed: "No se pudo cambiar la contraseña. Inténtalo de nuevo.",
+    rateLimited: "Demasiados intentos. Espera un minuto e inténtalo de nuevo.",
+    errors: {
+      currentRequired: "Introduce tu contraseña actual",
+      mismatch: "Las contraseñas no coinciden",
+      unchanged: "Elige una contraseña distinta de la actual",
+      codeRequired: "Introduce el código del correo",
+    },
+  },
+  settingsScreen: {
+    title: "Ajustes",
+    changePassword: "Cambiar contraseña",
+    changePasswordDescription: "Establece una nueva contraseña para tu cuenta.",
+    diagnostics: "Diagnóstico",
+    diagnosticsDescription: "Comprueba la conexión con el servidor para el soporte.",
+    server: "Servidor",
+  },
+  changePasswordScreen: {
+    title: "Cambiar contraseña",
+    save: "Cambiar contraseña",
+    saved: "Tu contraseña se ha cambiado.",
+    rejected: "Tu contraseña actual es incorrecta o la nueva no está permitida.",
+  },
+  forgotPasswordScreen: {
+    title: "Contraseña olvidada",
+    description:
+      "Introduce el correo de tu cuenta y te enviaremos un enlace para restablecer la contraseña.",
+    send: "Enviar enlace",
+    sent: "Si alguna cuenta usa esta dirección, el enlace está en camino. Ábrelo en este dispositivo o introduce el código a mano.",
+    enterCode: "Introducir el código",
+    sendFailed: "No se pudo enviar el enlace. Inténtalo de nuevo.",
+  },
+  resetPasswordScreen: {
+    title: "Restablecer contraseña",
+    description: "Elige una nueva contraseña para tu cuenta.",
+    save: "Restablecer contraseña",
+    saved: "Tu contraseña se ha restablecido. Inicia sesión con la nueva.",
+    rejected: "Este código no es válido o ha caducado. Solicita un enlace nuevo.",
+  },
+  verifyEmailScreen: {
+    title: "Verificar correo",
+    continue: "Continuar",
+    logIn: "Ir a iniciar sesión",
+    retry: "Reintentar",
+    resendHeading: "¿Necesitas un enlace nuevo?",
+    resendDescription: "Introduce la dirección a la que se envió el correo de verificación.",
+    resend: "Enviar un enlace nuevo",
+    resendIn: "Reenviar en {{seconds}} s",
+    resent:
+      "Si esta dirección pertenece a una cuenta sin verificar, el enlace nuevo está en camino.",
+    resendFailed: "No se pudo enviar un enlace nuevo. Inténtalo de nuevo.",
+    states: {
+      missingLink:
+        "Abre en este dispositivo el enlace del correo de verificación para verificar tu dirección.",
+      verifying: "Verificando tu correo…",
+      verified: "Tu correo está verificado.",
+      alreadyVerified: "Tu correo ya estaba verificado. Este enlace ya se había usado.",
+      invalidCode: "Este enlace de verificación no es válido o ha caducado.",
+      unknownUser: "Este enlace no corresponde a ninguna cuenta.",
+      rateLimited: "Demasiados intentos. Espera un minuto e inténtalo de nuevo.",
+      failed: "No se pudo contactar con el servidor para verificar tu correo.",
+    },
+  },
+  serverIncompatibleScreen: {
+    updateRequiredTitle: "Actualización necesaria",
+    updateRequiredMessage:
+      "Este servidor ejecuta una versión más reciente de la que admite esta versión de la app. Actualiza la app para seguir trabajando.",
+    incompatibleTitle: "Servidor no compatible",
+    incompatibleMessage:
+      "Este servidor ejecuta una versión con la que esta versión de la app no puede trabajar. Pide a tu administrador que actualice el servidor.",
+    serverVersion: "Versión del servidor",
+    supportedVersions: "Versiones compatibles",
+    appVersion: "Versión de la app",
+    server: "Servidor",
+    checkAgain: "Comprobar de nuevo",
+    diagnostics: "Diagnóstico",
+    changeServer: "Usar otro servidor",
+  },
+  diagnosticsScreen: {
+    title: "Diagnóstico",
+    server: "Servidor",
+    appVersion: "Versión de la app",
+    runAgain: "Volver a ejecutar",
+    share: "Compartir informe",
+    versionNeedsSignIn: "La versión del servidor se comprueba al iniciar sesión.",
+    checks: {
+      live: "Servidor responde",
+      startup: "Servidor iniciado",
+      ready: "Listo (base de datos)",
+      version: "Versión del servidor",
+    },
+  },
+  serverSelectScreen: {
+    title: "Servidor",
+    description:
+      "Elige el servidor de Quater que usa tu laboratorio. Cada servidor conserva su propio inicio de sesión.",
+    pendingChanges:
+      "Sincroniza o descarta tus cambios pendientes antes de cambiar de servidor, para que no se envíen al equivocado.",
+    reviewPendingChanges: "Revisar cambios pendientes",
+    remove: "Quitar",
+    removeTitle: "¿Quitar servidor?",
+    removeMessage: "{{name}} se quitará de este dispositivo y se cerrará tu sesión en él.",
+    addTitle: "Añadir un servidor",
+    name: "Nombre",
+    namePlaceholder: "p. ej. Laboratorio asociado",
+    url: "URL del servidor",
+    add: "Añadir servidor",
+    checking: "Comprobando el servidor…",
+    unreachable: "No se pudo conectar con el servidor. Revisa la URL y tu conexión.",
+    errors: {
+      nameRequired: "Introduce un nombre para el servidor.",
+      url: "Introduce una URL que empiece por http:// o https://.",
+      duplicate: "Este servidor ya se ha añadido.",
+    },
+  },
 
   ...demoEs,
 }
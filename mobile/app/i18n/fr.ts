@@ -7,6 +7,7 @@ const fr: Translations = {
     cancel: "Annuler",
     back: "Retour",
     logOut: "Déconnexion",
+    unknown: "Inconnu",
   },
   welcomeScreen: {
     postscript:
@@ -44,6 +45,10 @@ const fr: Translations = {
     passwordFieldPlaceholder: "Mot de passe super secret ici",
     tapToLogIn: "Appuyez pour vous connecter!",
     hint: "Astuce : vous pouvez utiliser n'importe quelle adresse e-mail et votre mot de passe préféré :)",
+    forgotPassword: "Mot de passe oublié ?",
+    diagnostics: "Problème de connexion ?",
+    server: "Serveur : {{name}} ({{url}})",
+    changeServer: "Changer de serveur",
   },
   demoNavigator: {
     componentsTab: "Composants",
@@ -124,6 +129,521 @@ const fr: Translations = {
         "Aucun favori n'a été ajouté pour le moment. Appuyez sur le cœur d'un épisode pour l'ajouter à vos favoris !",
     },
   },
+  syncStatus: {
+    offline: "Vous êtes hors ligne. Les modifications sont enregistrées sur cet appareil.",
+    pending: "Modifications en attente de synchronisation : {{count}}",
+    failed: "Modifications non synchronisées : {{count}}",
+  },
+  pendingChangesScreen: {
+    title: "Modifications en attente",
+    emptyHeading: "Tout est à jour",
+    emptyContent: "Toutes les modifications faites sur cet appareil ont été envoyées au serveur.",
+    syncNow: "Synchroniser",
+    retryFailed: "Réessayer les modifications échouées",
+    discard: "Abandonner",
+    resolve: "Résoudre",
+    lastError: "Dernière erreur : {{error}}",
+    mutation: {
+      createSample: "Nouvel échantillon",
+      updateSample: "Modification d'échantillon",
+      createTestResult: "Nouveau résultat d'analyse",
+      updateTestResult: "Modification de résultat d'analyse",
+    },
+  },
+  sampleFields: {
+    type: "Type d'échantillon",
+    status: "Statut",
+    collectionDate: "Date de prélèvement",
+    collectorName: "Préleveur",
+    locationLatitude: "Latitude",
+    locationLongitude: "Longitude",
+    locationDescription: "Lieu",
+    locationHierarchy: "Hiérarchie du lieu",
+    notes: "Notes",
+  },
+  testResultFields: {
+    parameterName: "Paramètre",
+    value: "Valeur",
+    unit: "Unité",
+    testDate: "Date d'analyse",
+    technicianName: "Technicien",
+    testMethod: "Méthode d'analyse",
+  },
+  conflictResolutionScreen: {
+    title: "Résoudre le conflit",
+    heading: "Quelqu'un d'autre a modifié cet enregistrement",
+    description:
+      "Choisissez la valeur à conserver pour chaque champ, puis enregistrez. La version fusionnée est envoyée sur la base de la dernière copie du serveur.",
+    mine: "La mienne : {{value}}",
+    theirs: "Serveur : {{value}}",
+    keepAllMine: "Garder les miennes",
+    useAllTheirs: "Tout prendre du serveur",
+    saveMerged: "Enregistrer la version fusionnée",
+    noDifferences:
+      "Vos modifications correspondent à la copie du serveur. L'enregistrement mettra seulement la version à jour.",
+    loadFailed: "Impossible de charger la copie du serveur. Vérifiez votre connexion et réessayez.",
+    changedAgain:
+      "L'enregistrement a encore changé pendant la résolution. Vérifiez les dernières valeurs.",
+    saveFailed: "Impossible d'enregistrer vos modifications. Veuillez réessayer.",
+  },
+  sampleType: {
+    drinkingWater: "Eau potable",
+    wastewater: "Eaux usées",
+    surfaceWater: "Eau de surface",
+    groundwater: "Eau souterraine",
+    industrialWater: "Eau industrielle",
+  },
+  sampleStatus: {
+    pending: "En attente",
+    completed: "Terminé",
+    archived: "Archivé",
+  },
+  sampleListScreen: {
+    title: "Échantillons",
+    newSample: "Nouvel échantillon",
+    loadFailed: "Impossible de charger les échantillons",
+    switchLab: "Changer de labo",
+    administration: "Administration",
+    emptyHeading: "Aucun échantillon",
+    emptyContent:
+      "Les échantillons prélevés pour ce laboratoire apparaîtront ici. Touchez pour actualiser.",
+    pendingSync: "Non synchronisé",
+    settings: "Paramètres",
+  },
+  sampleDetailScreen: {
+    title: "Échantillon",
+    loadFailed: "Impossible de charger cet échantillon.",
+    coordinates: "Coordonnées",
+    edit: "Modifier",
+    delete: "Supprimer",
+    deleteTitle: "Supprimer l'échantillon ?",
+    deleteMessage: "L'échantillon et ses résultats d'analyse seront supprimés.",
+    deleteFailed: "Impossible de supprimer cet échantillon. Veuillez réessayer.",
+    testResults: "Résultats d'analyse",
+    noTestResults: "Aucun résultat enregistré pour l'instant.",
+    addTestResult: "Saisir un résultat",
+  },
+  sampleEditScreen: {
+    createTitle: "Nouvel échantillon",
+    editTitle: "Modifier l'échantillon",
+    loadFailed: "Impossible de charger cet échantillon.",
+    noLab: "Votre compte n'est encore rattaché à aucun laboratoire.",
+    saveFailed: "Impossible d'enregistrer l'échantillon. Veuillez réessayer.",
+    saveInvalid: "Le serveur a refusé certains champs. Vérifiez les valeurs signalées.",
+    save: "Enregistrer",
+    datePlaceholder: "AAAA-MM-JJ HH:MM",
+    errors: {
+      collectorRequired: "Le nom du préleveur est obligatoire",
+      tooLong: "Ce texte est trop long",
+      latitude: "Saisissez une latitude entre -90 et 90",
+      longitude: "Saisissez une longitude entre -180 et 180",
+      dateFormat: "Utilisez le format AAAA-MM-JJ HH:MM",
+      dateInFuture: "La date de prélèvement ne peut pas être dans le futur",
+    },
+  },
+  testMethod: {
+    titration: "Titrage",
+    spectrophotometry: "Spectrophotométrie",
+    chromatography: "Chromatographie",
+    microscopy: "Microscopie",
+    electrode: "Électrode",
+    culture: "Culture",
+    other: "Autre",
+  },
+  complianceStatus: {
+    pass: "Conforme",
+    fail: "Non conforme",
+    warning: "Avertissement",
+    predicted: "Prévision : {{status}}",
+  },
+  testResultEntryScreen: {
+    title: "Saisir un résultat",
+    parametersFailed:
+      "Impossible de charger les paramètres. Vérifiez votre connexion et réessayez.",
+    whoThreshold: "Seuil OMS : {{value}} {{unit}}",
+    outOfRange: "Hors de la plage acceptée ({{min}} à {{max}})",
+    save: "Enregistrer le résultat",
+    saveFailed: "Impossible d'enregistrer le résultat. Veuillez réessayer.",
+    saveInvalid: "Le serveur a refusé certains champs. Vérifiez les valeurs signalées.",
+    savedHeading: "Résultat enregistré",
+    awaitingSync: "Le statut définitif sera attribué par le serveur après la synchronisation.",
+    enterAnother: "Saisir un autre",
+    done: "Terminé",
+    errors: {
+      parameterRequired: "Choisissez un paramètre",
+      valueRequired: "Saisissez un nombre",
+      unitRequired: "L'unité est obligatoire",
+      technicianRequired: "Le nom du technicien est obligatoire",
+      tooLong: "Ce texte est trop long",
+      dateFormat: "Utilisez le format AAAA-MM-JJ HH:MM",
+      dateInFuture: "La date d'analyse ne peut pas être dans le futur",
+    },
+  },
+  userRole: {
+    viewer: "Lecteur",
+    technician: "Technicien",
+    admin: "Administrateur",
+  },
+  auditAction: {
+    create: "Créé",
+    update: "Modifié",
+    softDelete: "Mis à la corbeille",
+    delete: "Supprimé",
+    restore: "Restauré",
+    conflictResolution: "Conflit résolu",
+  },
+  entityType: {
+    lab: "Laboratoire",
+    sample: "Échantillon",
+    testResult: "Résultat d'analyse",
+    parameter: "Paramètre",
+    auditLog: "Journal d'audit",
+    auditLogArchive: "Journal d'audit archivé",
+  },
+  labPickerScreen: {
+    title: "Choisissez un laboratoire",
+    switchTitle: "Changer de laboratoire",
+    description:
+      "Les échantillons et résultats sont conservés par laboratoire. Choisissez celui dans lequel vous travaillez.",
+    loadFailed: "Impossible de charger vos laboratoires. Tirez pour réessayer.",
+    pendingChanges:
+      "Synchronisez ou supprimez vos modifications en attente avant de changer de laboratoire, pour qu'elles ne soient pas envoyées au mauvais laboratoire.",
+    reviewPendingChanges: "Voir les modifications en attente",
+    emptyHeading: "Aucun laboratoire",
+    emptyContent:
+      "Votre compte n'appartient à aucun laboratoire. Demandez à un administrateur de vous ajouter.",
+    retry: "Réessayer",
+  },
+  adminScreen: {
+    title: "Administration",
+    parameters: "Paramètres",
+    parametersDescription: "Unités, seuils OMS et plages acceptées pour évaluer les résultats",
+    labs: "Laboratoires",
+    labsDescription: "Noms, emplacements et coordonnées des laboratoires",
+    users: "Utilisateurs",
+    usersDescription: "Comptes du personnel, leurs laboratoires et rôles",
+    auditLog: "Journal d'audit",
+    auditLogDescription: "Qui a modifié quoi, et quand",
+  },
+  parameterFields: {
+    name: "Nom",
+    unit: "Unité",
+    whoThreshold: "Seuil OMS",
+    minValue: "Minimum",
+    maxValue: "Maximum",
+    description: "Description",
+  },
+  parameterListScreen: {
+    title: "Paramètres",
+    new: "Nouveau",
+    inactive: "Inactif",
+    whoThreshold: "OMS {{value}}",
+    range: "{{min}} à {{max}}",
+    loadFailed: "Impossible de charger les paramètres.",
+    emptyHeading: "Aucun paramètre",
+    emptyContent: "Ajoutez les paramètres pour lesquels les techniciens saisissent des résultats.",
+  },
+  parameterEditScreen: {
+    createTitle: "Nouveau paramètre",
+    editTitle: "Modifier le paramètre",
+    loadFailed: "Impossible de charger ce paramètre.",
+    save: "Enregistrer",
+    saveFailed: "Impossible d'enregistrer le paramètre. Veuillez réessayer.",
+    saveInvalid: "Le serveur a refusé certains champs. Vérifiez les valeurs en surbrillance.",
+    duplicateName: "Un autre paramètre utilise déjà ce nom.",
+    inactiveNotice:
+      "Ce paramètre est inactif et n'est pas proposé lors de la saisie des résultats.",
+    deactivate: "Désactiver",
+    reactivate: "Réactiver",
+    deactivateTitle: "Désactiver le paramètre ?",
+    deactivateMessage:
+      "Il ne sera plus proposé lors de la saisie des résultats, et les nouveaux résultats enregistrés sous son nom seront marqués en avertissement. Les résultats existants sont conservés.",
+    limitsChangedTitle: "Modifier les limites ?",
+    limitsChangedMessage:
+      "Les résultats existants gardent la conformité avec laquelle ils ont été enregistrés. Les résultats saisis désormais seront évalués selon les nouvelles limites ; une même valeur peut donc être jugée différemment.",
+    errors: {
+      nameRequired: "Le nom est obligatoire",
+      unitRequired: "L'unité est obligatoire",
+      tooLong: "C'est trop long",
+      number: "Saisissez un nombre",
+      negativeThreshold: "Le seuil ne peut pas être négatif",
+      minAboveMax: "Le maximum ne peut pas être inférieur au minimum",
+    },
+  },
+  labFields: {
+    name: "Nom",
+    location: "Emplacement",
+    contactInfo: "Coordonnées",
+    created: "Créé",
+    updated: "Dernière modification",
+  },
+  labListScreen: {
+    title: "Laboratoires",
+    new: "Nouveau",
+    inactive: "Inactif",
+    loadFailed: "Impossible de charger les laboratoires.",
+    emptyHeading: "Aucun laboratoire",
+    emptyContent: "Créez un laboratoire pour commencer à collecter des échantillons.",
+  },
+  labEditScreen: {
+    createTitle: "Nouveau laboratoire",
+    editTitle: "Modifier le laboratoire",
+    loadFailed: "Impossible de charger ce laboratoire.",
+    save: "Enregistrer",
+    saveFailed: "Impossible d'enregistrer le laboratoire. Veuillez réessayer.",
+    saveInvalid: "Le serveur a refusé certains champs. Vérifiez les valeurs en surbrillance.",
+    duplicateName: "Un autre laboratoire utilise déjà ce nom.",
+    inactiveNotice: "Ce laboratoire est inactif.",
+    deactivate: "Désactiver",
+    reactivate: "Réactiver",
+    deactivateTitle: "Désactiver le laboratoire ?",
+    deactivateMessage:
+      "Ses membres ne pourront plus y travailler. Les échantillons et résultats sont conservés.",
+    deactivateCurrentMessage:
+      "Vous travaillez actuellement dans ce laboratoire. Ses membres, vous compris, ne pourront plus y travailler. Les échantillons et résultats sont conservés.",
+    changedBy: "{{date}} par {{user}}",
+    unknownUser: "un utilisateur inconnu",
+    errors: {
+      nameRequired: "Le nom est obligatoire",
+      locationRequired: "L'emplacement est obligatoire",
+      tooLong: "C'est trop long",
+    },
+  },
+  userFields: {
+    userName: "Nom d'utilisateur",
+    email: "E-mail",
+    temporaryPassword: "Mot de passe temporaire",
+    role: "Rôle",
+  },
+  userListScreen: {
+    title: "Utilisateurs",
+    new: "Nouveau",
+    inactive: "Inactif",
+    loadFailed: "Impossible de charger les utilisateurs.",
+    emptyHeading: "Aucun utilisateur",
+    emptyContent: "Créez des comptes pour les personnes qui travaillent dans ce laboratoire.",
+  },
+  userCreateScreen: {
+    title: "Nouvel utilisateur",
+    description:
+      "Le compte est d'abord membre de {{lab}}. Transmettez le mot de passe temporaire à son titulaire.",
+    save: "Créer l'utilisateur",
+    saveFailed: "Impossible de créer l'utilisateur. Veuillez réessayer.",
+    saveInvalid: "Le serveur a refusé certains champs. Vérifiez les valeurs en surbrillance.",
+    errors: {
+      userNameRequired: "Le nom d'utilisateur est obligatoire",
+      userNameSpaces: "Le nom d'utilisateur ne peut pas contenir d'espaces",
+      email: "Saisissez une adresse e-mail valide",
+      passwordTooShort: "Utilisez au moins 8 caractères",
+      passwordWeak: "Utilisez des majuscules, des minuscules, un chiffre et un symbole",
+    },
+  },
+  userDetailScreen: {
+    title: "Utilisateur",
+    loadFailed: "Impossible de charger cet utilisateur.",
+    inactive: "Inactif",
+    lastLogin: "Dernière connexion le {{date}}",
+    neverLoggedIn: "Ne s'est jamais connecté",
+    selfNotice: "C'est votre compte. Demandez à un autre administrateur de modifier vos accès.",
+    memberships: "Laboratoires",
+    noMemberships: "Membre d'aucun laboratoire.",
+    remove: "Retirer",
+    removeTitle: "Retirer du laboratoire ?",
+    removeMessage: "Il perdra l'accès à {{lab}}. Les enregistrements qu'il a créés sont conservés.",
+    removeFailed: "Impossible de retirer l'utilisateur du laboratoire.",
+    roleFailed: "Impossible de modifier le rôle.",
+    addToLab: "Ajouter à un laboratoire",
+    add: "Ajouter",
+    addFailed: "Impossible d'ajouter l'utilisateur au laboratoire.",
+    account: "Compte",
+    deactivate: "Désactiver le compte",
+    reactivate: "Réactiver le compte",
+    deactivateTitle: "Désactiver le compte ?",
+    deactivateMessage:
+      "Il ne pourra plus se connecter. Ses laboratoires et enregistrements sont conservés.",
+    statusFailed: "Impossible de modifier le statut du compte.",
+  },
+  auditLogFields: {
+    entityType: "Type d'enregistrement",
+    action: "Action",
+    entityId: "ID de l'enregistrement",
+    userId: "ID de l'utilisateur",
+    startDate: "Du (UTC)",
+    endDate: "Au (UTC)",
+    includeArchived: "Inclure les entrées archivées",
+    archived: "Archivée",
+    truncated: "Tronquée",
+    timestamp: "Date",
+    user: "Utilisateur",
+    ipAddress: "Adresse IP",
+  },
+  auditLogListScreen: {
+    title: "Journal d'audit",
+    showFilters: "Filtres ({{count}})",
+    hideFilters: "Masquer les filtres",
+    any: "Tous",
+    apply: "Appliquer",
+    clear: "Effacer les filtres",
+    loadFailed: "Impossible de charger le journal d'audit.",
+    emptyHeading: "Aucune entrée",
+    emptyContent: "Les modifications des échantillons, résultats et du catalogue apparaîtront ici.",
+    emptyFilteredContent: "Aucune entrée ne correspond à ces filtres.",
+    errors: {
+      id: "Saisissez un ID complet, p. ex. 3f2a…-…",
+      dateFormat: "Utilisez AAAA-MM-JJ",
+      endBeforeStart: "La date de fin précède la date de début",
+    },
+  },
+  auditLogDetailScreen: {
+    title: "Entrée d'audit",
+    loadFailed: "Impossible de charger cette entrée.",
+    archivedNotice: "Cette entrée a été déplacée dans l'archive.",
+    truncatedNotice:
+      "Certaines valeurs étaient trop longues et ont été tronquées à l'enregistrement.",
+    changes: "Modifications",
+    unreadable: "Les valeurs enregistrées sont illisibles ; elles sont affichées telles quelles.",
+    before: "Avant",
+    after: "Après",
+    noChanges: "Aucune modification de champ enregistrée.",
+    notRecorded: "Non enregistré",
+    empty: "Vide",
+  },
+  recordHistory: {
+    title: "Historique",
+    loadFailed: "Impossible de charger l'historique.",
+    empty: "Aucune modification enregistrée pour l'instant.",
+    restore: "Restaurer cette version",
+    older: "Afficher les modifications plus anciennes",
+    restoreTitle: "Restaurer cette version ?",
+    restoreMessage:
+      "Les champs modifiés par cette entrée reprennent leurs valeurs précédentes. La restauration est enregistrée comme une nouvelle modification.",
+    restoreFailed: "Impossible de restaurer cette version. Veuillez réessayer.",
+  },
+  testResultDetailScreen: {
+    title: "Résultat d'analyse",
+    loadFailed: "Impossible de charger ce résultat.",
+  },
+  passwordFields: {
+    currentPassword: "Mot de passe actuel",
+    newPassword: "Nouveau mot de passe",
+    confirmPassword: "Confirmer le nouveau mot de passe",
+    email: "E-mail",
+    code: "Code de réinitialisation",
+    saveInvalid: "Vérifiez les champs en surbrillance.",
+    saveFailed: "Impossible de modifier votre mot de passe. Veuillez réessayer.",
+    rateLimited: "Trop de tentatives. Patientez une minute puis réessayez.",
+    errors: {
+      currentRequired: "Saisissez votre mot de passe actuel",
+      mismatch: "Les mots de passe ne correspondent pas",
+      unchanged: "Choisissez un mot de passe différent de l'actuel",
+      codeRequired: "Saisissez le code reçu par e-mail",
+    },
+  },
+  settingsScreen: {
+    title: "Paramètres",
+    changePassword: "Changer le mot de passe",
+    changePasswordDescription: "Définir un nouveau mot de passe pour votre compte.",
+    diagnostics: "Diagnostic",
+    diagnosticsDescription: "Vérifier la connexion au serveur pour l'assistance.",
+    server: "Serveur",
+  },
+  changePasswordScreen: {
+    title: "Changer le mot de passe",
+    save: "Changer le mot de passe",
+    saved: "Votre mot de passe a été modifié.",
+    rejected: "Votre mot de passe actuel est incorrect, ou le nouveau n'est pas autorisé.",
+  },
+  forgotPasswordScreen: {
+    title: "Mot de passe oublié",
+    description:
+      "Saisissez l'adresse e-mail de votre compte pour recevoir un lien de réinitialisation.",
+    send: "Envoyer le lien",
+    sent: "Si un compte utilise cette adresse, un lien de réinitialisation est en route. Ouvrez-le sur cet appareil ou saisissez le code à la main.",
+    enterCode: "Saisir le code",
+    sendFailed: "Impossible d'envoyer le lien. Veuillez réessayer.",
+  },
+  resetPasswordScreen: {
+    title: "Réinitialiser le mot de passe",
+    description: "Choisissez un nouveau mot de passe pour votre compte.",
+    save: "Réinitialiser",
+    saved: "Votre mot de passe a été réinitialisé. Connectez-vous avec le nouveau.",
+    rejected: "Ce code est invalide ou a expiré. Demandez un nouveau lien.",
+  },
+  verifyEmailScreen: {
+    title: "Vérifier l'e-mail",
+    continue: "Continuer",
+    logIn: "Aller à la connexion",
+    retry: "Réessayer",
+    resendHeading: "Besoin d'un nouveau lien ?",
+    resendDescription: "Saisissez l'adresse à laquelle l'e-mail de vérification a été envoyé.",
+    resend: "Envoyer un nouveau lien",
+    resendIn: "Renvoyer dans {{seconds}} s",
+    resent: "Si cette adresse appartient à un compte non vérifié, un nouveau lien est en route.",
+    resendFailed: "Impossible d'envoyer un nouveau lien. Veuillez réessayer.",
+    states: {
+      missingLink:
+        "Ouvrez le lien de l'e-mail de vérification sur cet appareil pour vérifier votre adresse.",
+      verifying: "Vérification de votre e-mail…",
+      verified: "Votre e-mail est vérifié.",
+      alreadyVerified: "Votre e-mail était déjà vérifié. Ce lien a déjà été utilisé.",
+      invalidCode: "Ce lien de vérification est invalide ou a expiré.",
+      unknownUser: "Ce lien ne correspond à aucun compte.",
+      rateLimited: "Trop de tentatives. Patientez une minute puis réessayez.",
+      failed: "Impossible de joindre le serveur pour vérifier votre e-mail.",
+    },
+  },
+  serverIncompatibleScreen: {
+    updateRequiredTitle: "Mise à jour requise",
+    updateRequiredMessage:
+      "Ce serveur exécute une version plus récente que celle prise en charge par cette version de l'application. Mettez l'application à jour pour continuer.",
+    incompatibleTitle: "Serveur non pris en charge",
+    incompatibleMessage:
+      "Ce serveur exécute une version avec laquelle cette version de l'application ne peut pas fonctionner. Demandez à votre administrateur de mettre le serveur à jour.",
+    serverVersion: "Version du serveur",
+    supportedVersions: "Versions prises en charge",
+    appVersion: "Version de l'application",
+    server: "Serveur",
+    checkAgain: "Vérifier à nouveau",
+    diagnostics: "Diagnostic",
+    changeServer: "Utiliser un autre serveur",
+  },
+  diagnosticsScreen: {
+    title: "Diagnostic",
+    server: "Serveur",
+    appVersion: "Version de l'application",
+    runAgain: "Relancer",
+    share: "Partager le rapport",
+    versionNeedsSignIn: "La version du serveur est vérifiée une fois connecté.",
+    checks: {
+      live: "Serveur joignable",
+      startup: "Serveur démarré",
+      ready: "Prêt (base de données)",
+      version: "Version du serveur",
+    },
+  },
+  serverSelectScreen: {
+    title: "Serveur",
+    description:
+      "Choisissez le serveur Quater utilisé par votre laboratoire. Chaque serveur conserve sa propre connexion.",
+    pendingChanges:
+      "Synchronisez ou supprimez vos modifications en attente avant de changer de serveur, afin qu'elles ne soient pas envoyées au mauvais.",
+    reviewPendingChanges: "Voir les modifications en attente",
+    remove: "Retirer",
+    removeTitle: "Retirer le serveur ?",
+    removeMessage: "{{name}} sera retiré de cet appareil et vous en serez déconnecté.",
+    addTitle: "Ajouter un serveur",
+    name: "Nom",
+    namePlaceholder: "ex. Laboratoire partenaire",
+    url: "URL du serveur",
+    add: "Ajouter le serveur",
+    checking: "Vérification du serveur…",
+    unreachable: "Le serveur est injoignable. Vérifiez l'URL et votre connexion.",
+    errors: {
+      nameRequired: "Saisissez un nom pour le serveur.",
+      url: "Saisissez une URL commençant par http:// ou https://.",
+      duplicate: "Ce serveur a déjà été ajouté.",
+    },
+  },
 
   ...demoFr,
 }
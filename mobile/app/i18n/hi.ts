@@ -7,6 +7,7 @@ const hi: Translations = {
     cancel: "रद्द करें",
     back: "वापस",
     logOut: "लॉग आउट",
+    unknown: "अज्ञात",
   },
   welcomeScreen: {
     postscript:
@@ -43,6 +44,10 @@ const hi: Translations = {
     passwordFieldPlaceholder: "सुपर सीक्रेट पासवर्ड यहाँ",
     tapToLogIn: "लॉग इन करने के लिए टैप करें!",
     hint: "संकेत: आप किसी भी ईमेल पते और अपने पसंदीदा पासवर्ड का उपयोग कर सकते हैं :)",
+    forgotPassword: "पासवर्ड भूल गए?",
+    diagnostics: "कनेक्ट करने में समस्या?",
+    server: "सर्वर: {{name}} ({{url}})",
+    changeServer: "सर्वर बदलें",
   },
   demoNavigator: {
     componentsTab: "कंपोनेंट्स",
@@ -122,6 +127,511 @@ const hi: Translations = {
         "अभी तक कोई पसंदीदा नहीं जोड़ा गया है। इसे अपने पसंदीदा में जोड़ने के लिए किसी एपिसोड पर दिल पर टैप करें!",
     },
   },
+  syncStatus: {
+    offline: "आप ऑफ़लाइन हैं। बदलाव इस डिवाइस पर सहेजे जा रहे हैं।",
+    pending: "सिंक होने की प्रतीक्षा में बदलाव: {{count}}",
+    failed: "बदलाव जो सिंक नहीं हो सके: {{count}}",
+  },
+  pendingChangesScreen: {
+    title: "लंबित बदलाव",
+    emptyHeading: "सब कुछ अद्यतन है",
+    emptyContent: "इस डिवाइस पर किए गए सभी बदलाव सर्वर पर भेज दिए गए हैं।",
+    syncNow: "अभी सिंक करें",
+    retryFailed: "विफल बदलाव फिर से आज़माएँ",
+    discard: "हटाएँ",
+    resolve: "सुलझाएँ",
+    lastError: "अंतिम त्रुटि: {{error}}",
+    mutation: {
+      createSample: "नया नमूना",
+      updateSample: "नमूना संपादन",
+      createTestResult: "नया परीक्षण परिणाम",
+      updateTestResult: "परीक्षण परिणाम संपादन",
+    },
+  },
+  sampleFields: {
+    type: "नमूना प्रकार",
+    status: "स्थिति",
+    collectionDate: "संग्रह तिथि",
+    collectorName: "संग्रहकर्ता",
+    locationLatitude: "अक्षांश",
+    locationLongitude: "देशांतर",
+    locationDescription: "स्थान",
+    locationHierarchy: "स्थान पदानुक्रम",
+    notes: "टिप्पणियाँ",
+  },
+  testResultFields: {
+    parameterName: "पैरामीटर",
+    value: "मान",
+    unit: "इकाई",
+    testDate: "परीक्षण तिथि",
+    technicianName: "तकनीशियन",
+    testMethod: "परीक्षण विधि",
+  },
+  conflictResolutionScreen: {
+    title: "टकराव सुलझाएँ",
+    heading: "किसी और ने यह रिकॉर्ड बदल दिया है",
+    description:
+      "हर फ़ील्ड के लिए रखने वाला मान चुनें, फिर सहेजें। आपका मिला हुआ संस्करण सर्वर की नवीनतम प्रति के आधार पर भेजा जाएगा।",
+    mine: "मेरा: {{value}}",
+    theirs: "सर्वर: {{value}}",
+    keepAllMine: "सभी मेरे रखें",
+    useAllTheirs: "सभी सर्वर वाले लें",
+    saveMerged: "मिला हुआ संस्करण सहेजें",
+    noDifferences: "आपके बदलाव सर्वर की प्रति से मेल खाते हैं। सहेजने से केवल संस्करण अपडेट होगा।",
+    loadFailed: "सर्वर की प्रति लोड नहीं हो सकी। अपना कनेक्शन जाँचें और फिर से प्रयास करें।",
+    changedAgain: "सुलझाते समय रिकॉर्ड फिर से बदल गया। नवीनतम मान देखें।",
+    saveFailed: "आपके बदलाव सहेजे नहीं जा सके। कृपया फिर से प्रयास करें।",
+  },
+  sampleType: {
+    drinkingWater: "पेयजल",
+    wastewater: "अपशिष्ट जल",
+    surfaceWater: "सतही जल",
+    groundwater: "भूजल",
+    industrialWater: "औद्योगिक जल",
+  },
+  sampleStatus: {
+    pending: "लंबित",
+    completed: "पूर्ण",
+    archived: "संग्रहीत",
+  },
+  sampleListScreen: {
+    title: "नमूने",
+    newSample: "नया नमूना",
+    loadFailed: "नमूने लोड नहीं हो सके",
+    switchLab: "प्रयोगशाला बदलें",
+    administration: "प्रशासन",
+    emptyHeading: "अभी कोई नमूना नहीं",
+    emptyContent: "इस लैब के लिए एकत्र किए गए नमूने यहाँ दिखेंगे। रीफ़्रेश करने के लिए टैप करें।",
+    pendingSync: "सिंक नहीं हुआ",
+    settings: "सेटिंग्स",
+  },
+  sampleDetailScreen: {
+    title: "नमूना",
+    loadFailed: "यह नमूना लोड नहीं हो सका।",
+    coordinates: "निर्देशांक",
+    edit: "संपादित करें",
+    delete: "हटाएँ",
+    deleteTitle: "नमूना हटाएँ?",
+    deleteMessage: "नमूना और उसके परीक्षण परिणाम हटा दिए जाएँगे।",
+    deleteFailed: "यह नमूना हटाया नहीं जा सका। कृपया फिर से प्रयास करें।",
+    testResults: "परीक्षण परिणाम",
+    noTestResults: "अभी तक कोई परिणाम दर्ज नहीं।",
+    addTestResult: "परिणाम दर्ज करें",
+  },
+  sampleEditScreen: {
+    createTitle: "नया नमूना",
+    editTitle: "नमूना संपादित करें",
+    loadFailed: "यह नमूना लोड नहीं हो सका।",
+    noLab: "आपका खाता अभी किसी लैब से नहीं जुड़ा है।",
+    saveFailed: "नमूना सहेजा नहीं जा सका। कृपया फिर से प्रयास करें।",
+    saveInvalid: "सर्वर ने कुछ फ़ील्ड अस्वीकार कर दिए। हाइलाइट किए गए मान जाँचें।",
+    save: "सहेजें",
+    datePlaceholder: "YYYY-MM-DD HH:MM",
+    errors: {
+      collectorRequired: "संग्रहकर्ता का नाम आवश्यक है",
+      tooLong: "यह बहुत लंबा है",
+      latitude: "-90 और 90 के बीच अक्षांश दर्ज करें",
+      longitude: "-180 और 180 के बीच देशांतर दर्ज करें",
+      dateFormat: "YYYY-MM-DD HH:MM प्रारूप का उपयोग करें",
+      dateInFuture: "संग्रह तिथि भविष्य में नहीं हो सकती",
+    },
+  },
+  testMethod: {
+    titration: "अनुमापन",
+    spectrophotometry: "स्पेक्ट्रोफोटोमेट्री",
+    chromatography: "क्रोमैटोग्राफी",
+    microscopy: "सूक्ष्मदर्शी",
+    electrode: "इलेक्ट्रोड",
+    culture: "कल्चर",
+    other: "अन्य",
+  },
+  complianceStatus: {
+    pass: "पास",
+    fail: "फ़ेल",
+    warning: "चेतावनी",
+    predicted: "अनुमानित: {{status}}",
+  },
+  testResultEntryScreen: {
+    title: "परिणाम दर्ज करें",
+    parametersFailed: "पैरामीटर लोड नहीं हो सके। अपना कनेक्शन जाँचें और फिर से प्रयास करें।",
+    whoThreshold: "WHO सीमा: {{value}} {{unit}}",
+    outOfRange: "स्वीकृत सीमा से बाहर ({{min}} से {{max}})",
+    save: "परिणाम सहेजें",
+    saveFailed: "परिणाम सहेजा नहीं जा सका। कृपया फिर से प्रयास करें।",
+    saveInvalid: "सर्वर ने कुछ फ़ील्ड अस्वीकार कर दिए। हाइलाइट किए गए मान जाँचें।",
+    savedHeading: "परिणाम सहेजा गया",
+    awaitingSync: "यह परिणाम सिंक होने पर सर्वर अंतिम स्थिति तय करेगा।",
+    enterAnother: "एक और दर्ज करें",
+    done: "हो गया",
+    errors: {
+      parameterRequired: "एक पैरामीटर चुनें",
+      valueRequired: "एक संख्या दर्ज करें",
+      unitRequired: "इकाई आवश्यक है",
+      technicianRequired: "तकनीशियन का नाम आवश्यक है",
+      tooLong: "यह बहुत लंबा है",
+      dateFormat: "YYYY-MM-DD HH:MM प्रारूप का उपयोग करें",
+      dateInFuture: "परीक्षण तिथि भविष्य में नहीं हो सकती",
+    },
+  },
+  userRole: {
+    viewer: "दर्शक",
+    technician: "तकनीशियन",
+    admin: "व्यवस्थापक",
+  },
+  auditAction: {
+    create: "बनाया गया",
+    update: "अपडेट किया गया",
+    softDelete: "ट्रैश में भेजा गया",
+    delete: "हटाया गया",
+    restore: "पुनर्स्थापित किया गया",
+    conflictResolution: "विरोध सुलझाया गया",
+  },
+  entityType: {
+    lab: "लैब",
+    sample: "नमूना",
+    testResult: "परीक्षण परिणाम",
+    parameter: "पैरामीटर",
+    auditLog: "ऑडिट लॉग",
+    auditLogArchive: "संग्रहीत ऑडिट लॉग",
+  },
+  labPickerScreen: {
+    title: "प्रयोगशाला चुनें",
+    switchTitle: "प्रयोगशाला बदलें",
+    description:
+      "नमूने और परिणाम हर प्रयोगशाला के लिए अलग रखे जाते हैं। जिस प्रयोगशाला में आप काम कर रहे हैं उसे चुनें।",
+    loadFailed: "आपकी प्रयोगशालाएँ लोड नहीं हो सकीं। फिर से कोशिश करने के लिए खींचें।",
+    pendingChanges:
+      "प्रयोगशाला बदलने से पहले अपने लंबित बदलाव सिंक करें या हटाएँ, ताकि वे गलत प्रयोगशाला में न भेजे जाएँ।",
+    reviewPendingChanges: "लंबित बदलाव देखें",
+    emptyHeading: "अभी कोई प्रयोगशाला नहीं",
+    emptyContent:
+      "आपका खाता किसी प्रयोगशाला का सदस्य नहीं है। किसी प्रयोगशाला व्यवस्थापक से आपको जोड़ने के लिए कहें।",
+    retry: "फिर से कोशिश करें",
+  },
+  adminScreen: {
+    title: "प्रशासन",
+    parameters: "पैरामीटर",
+    parametersDescription: "परिणामों को आंकने के लिए इकाइयाँ, WHO सीमाएँ और स्वीकृत रेंज",
+    labs: "लैब",
+    labsDescription: "लैब के नाम, स्थान और संपर्क विवरण",
+    users: "उपयोगकर्ता",
+    usersDescription: "स्टाफ़ खाते, उनकी लैब और भूमिकाएँ",
+    auditLog: "ऑडिट ट्रेल",
+    auditLogDescription: "किसने क्या बदला, और कब",
+  },
+  parameterFields: {
+    name: "नाम",
+    unit: "इकाई",
+    whoThreshold: "WHO सीमा",
+    minValue: "न्यूनतम",
+    maxValue: "अधिकतम",
+    description: "विवरण",
+  },
+  parameterListScreen: {
+    title: "पैरामीटर",
+    new: "नया",
+    inactive: "निष्क्रिय",
+    whoThreshold: "WHO {{value}}",
+    range: "{{min}} से {{max}}",
+    loadFailed: "पैरामीटर लोड नहीं हो सके।",
+    emptyHeading: "अभी कोई पैरामीटर नहीं",
+    emptyContent: "वे पैरामीटर जोड़ें जिनके परिणाम तकनीशियन दर्ज करते हैं।",
+  },
+  parameterEditScreen: {
+    createTitle: "नया पैरामीटर",
+    editTitle: "पैरामीटर संपादित करें",
+    loadFailed: "यह पैरामीटर लोड नहीं हो सका।",
+    save: "सहेजें",
+    saveFailed: "पैरामीटर सहेजा नहीं जा सका। कृपया फिर से प्रयास करें।",
+    saveInvalid: "सर्वर ने कुछ फ़ील्ड अस्वीकार कर दिए। हाइलाइट किए गए मान जाँचें।",
+    duplicateName: "यह नाम पहले से किसी अन्य पैरामीटर का है।",
+    inactiveNotice: "यह पैरामीटर निष्क्रिय है और परिणाम दर्ज करते समय नहीं दिखाया जाता।",
+    deactivate: "निष्क्रिय करें",
+    reactivate: "फिर से सक्रिय करें",
+    deactivateTitle: "पैरामीटर निष्क्रिय करें?",
+    deactivateMessage:
+      "परिणाम दर्ज करते समय यह नहीं दिखाया जाएगा, और इसके नाम से दर्ज नए परिणाम चेतावनी के रूप में चिह्नित होंगे। मौजूदा परिणाम बने रहेंगे।",
+    limitsChangedTitle: "सीमाएँ बदलें?",
+    limitsChangedMessage:
+      "मौजूदा परिणाम उसी अनुपालन स्थिति के साथ रहते हैं जिसके साथ वे दर्ज हुए थे। अब से दर्ज परिणाम नई सीमाओं से आंके जाएँगे, इसलिए एक ही मान का निर्णय अलग हो सकता है।",
+    errors: {
+      nameRequired: "नाम आवश्यक है",
+      unitRequired: "इकाई आवश्यक है",
+      tooLong: "यह बहुत लंबा है",
+      number: "एक संख्या दर्ज करें",
+      negativeThreshold: "सीमा ऋणात्मक नहीं हो सकती",
+      minAboveMax: "अधिकतम, न्यूनतम से कम नहीं हो सकता",
+    },
+  },
+  labFields: {
+    name: "नाम",
+    location: "स्थान",
+    contactInfo: "संपर्क जानकारी",
+    created: "बनाया गया",
+    updated: "अंतिम अपडेट",
+  },
+  labListScreen: {
+    title: "लैब",
+    new: "नया",
+    inactive: "निष्क्रिय",
+    loadFailed: "लैब लोड नहीं हो सकीं।",
+    emptyHeading: "अभी कोई लैब नहीं",
+    emptyContent: "नमूने एकत्र करना शुरू करने के लिए एक लैब बनाएँ।",
+  },
+  labEditScreen: {
+    createTitle: "नई लैब",
+    editTitle: "लैब संपादित करें",
+    loadFailed: "यह लैब लोड नहीं हो सकी।",
+    save: "सहेजें",
+    saveFailed: "लैब सहेजी नहीं जा सकी। कृपया फिर से प्रयास करें।",
+    saveInvalid: "सर्वर ने कुछ फ़ील्ड अस्वीकार कर दिए। हाइलाइट किए गए मान जाँचें।",
+    duplicateName: "यह नाम पहले से किसी अन्य लैब का है।",
+    inactiveNotice: "यह लैब निष्क्रिय है।",
+    deactivate: "निष्क्रिय करें",
+    reactivate: "फिर से सक्रिय करें",
+    deactivateTitle: "लैब निष्क्रिय करें?",
+    deactivateMessage: "इसके सदस्य अब इसमें काम नहीं कर पाएँगे। नमूने और परिणाम बने रहेंगे।",
+    deactivateCurrentMessage:
+      "आप अभी इसी लैब में काम कर रहे हैं। आप सहित इसके सदस्य अब इसमें काम नहीं कर पाएँगे। नमूने और परिणाम बने रहेंगे।",
+    changedBy: "{{date}}, {{user}} द्वारा",
+    unknownUser: "अज्ञात उपयोगकर्ता",
+    errors: {
+      nameRequired: "नाम आवश्यक है",
+      locationRequired: "स्थान आवश्यक है",
+      tooLong: "यह बहुत लंबा है",
+    },
+  },
+  userFields: {
+    userName: "उपयोगकर्ता नाम",
+    email: "ईमेल",
+    temporaryPassword: "अस्थायी पासवर्ड",
+    role: "भूमिका",
+  },
+  userListScreen: {
+    title: "उपयोगकर्ता",
+    new: "नया",
+    inactive: "निष्क्रिय",
+    loadFailed: "उपयोगकर्ता लोड नहीं हो सके।",
+    emptyHeading: "अभी कोई उपयोगकर्ता नहीं",
+    emptyContent: "इस लैब में काम करने वाले लोगों के लिए खाते बनाएँ।",
+  },
+  userCreateScreen: {
+    title: "नया उपयोगकर्ता",
+    description:
+      "खाता {{lab}} के सदस्य के रूप में शुरू होता है। अस्थायी पासवर्ड उसके मालिक को दें।",
+    save: "उपयोगकर्ता बनाएँ",
+    saveFailed: "उपयोगकर्ता नहीं बनाया जा सका। कृपया फिर से प्रयास करें।",
+    saveInvalid: "सर्वर ने कुछ फ़ील्ड अस्वीकार कर दिए। हाइलाइट किए गए मान जाँचें।",
+    errors: {
+      userNameRequired: "उपयोगकर्ता नाम आवश्यक है",
+      userNameSpaces: "उपयोगकर्ता नाम में रिक्त स्थान नहीं हो सकते",
+      email: "एक मान्य ईमेल पता दर्ज करें",
+      passwordTooShort: "कम से कम 8 अक्षरों का उपयोग करें",
+      passwordWeak: "बड़े और छोटे अक्षर, एक अंक और एक चिह्न का उपयोग करें",
+    },
+  },
+  userDetailScreen: {
+    title: "उपयोगकर्ता",
+    loadFailed: "यह उपयोगकर्ता लोड नहीं हो सका।",
+    inactive: "निष्क्रिय",
+    lastLogin: "अंतिम साइन इन {{date}}",
+    neverLoggedIn: "कभी साइन इन नहीं किया",
+    selfNotice: "यह आपका खाता है। अपनी पहुँच बदलने के लिए किसी अन्य एडमिन से कहें।",
+    memberships: "लैब",
+    noMemberships: "किसी लैब का सदस्य नहीं।",
+    remove: "हटाएँ",
+    removeTitle: "लैब से हटाएँ?",
+    removeMessage: "उनकी {{lab}} तक पहुँच समाप्त हो जाएगी। उनके बनाए रिकॉर्ड बने रहेंगे।",
+    removeFailed: "उपयोगकर्ता को लैब से हटाया नहीं जा सका।",
+    roleFailed: "भूमिका नहीं बदली जा सकी।",
+    addToLab: "लैब में जोड़ें",
+    add: "जोड़ें",
+    addFailed: "उपयोगकर्ता को लैब में जोड़ा नहीं जा सका।",
+    account: "खाता",
+    deactivate: "खाता निष्क्रिय करें",
+    reactivate: "खाता फिर से सक्रिय करें",
+    deactivateTitle: "खाता निष्क्रिय करें?",
+    deactivateMessage: "वे साइन इन नहीं कर पाएँगे। उनकी लैब सदस्यताएँ और रिकॉर्ड बने रहेंगे।",
+    statusFailed: "खाते की स्थिति नहीं बदली जा सकी।",
+  },
+  auditLogFields: {
+    entityType: "रिकॉर्ड प्रकार",
+    action: "कार्रवाई",
+    entityId: "रिकॉर्ड ID",
+    userId: "उपयोगकर्ता ID",
+    startDate: "से (UTC)",
+    endDate: "तक (UTC)",
+    includeArchived: "संग्रहीत प्रविष्टियाँ शामिल करें",
+    archived: "संग्रहीत",
+    truncated: "छोटा किया गया",
+    timestamp: "समय",
+    user: "उपयोगकर्ता",
+    ipAddress: "IP पता",
+  },
+  auditLogListScreen: {
+    title: "ऑडिट ट्रेल",
+    showFilters: "फ़िल्टर ({{count}})",
+    hideFilters: "फ़िल्टर छिपाएँ",
+    any: "कोई भी",
+    apply: "फ़िल्टर लागू करें",
+    clear: "फ़िल्टर साफ़ करें",
+    loadFailed: "ऑडिट ट्रेल लोड नहीं हो सका।",
+    emptyHeading: "कोई प्रविष्टि नहीं",
+    emptyContent: "नमूनों, परिणामों और कैटलॉग में बदलाव यहाँ दिखेंगे।",
+    emptyFilteredContent: "इन फ़िल्टर से कुछ मेल नहीं खाता।",
+    errors: {
+      id: "पूरा ID दर्ज करें, जैसे 3f2a…-…",
+      dateFormat: "YYYY-MM-DD का उपयोग करें",
+      endBeforeStart: "समाप्ति तिथि आरंभ तिथि से पहले है",
+    },
+  },
+  auditLogDetailScreen: {
+    title: "ऑडिट प्रविष्टि",
+    loadFailed: "यह प्रविष्टि लोड नहीं हो सकी।",
+    archivedNotice: "यह प्रविष्टि संग्रह में ले जाई गई है।",
+    truncatedNotice: "कुछ मान बहुत लंबे थे और दर्ज करते समय छोटे कर दिए गए।",
+    changes: "बदलाव",
+    unreadable: "दर्ज मान पढ़े नहीं जा सके, इसलिए वे जैसे संग्रहीत हैं वैसे दिखाए गए हैं।",
+    before: "पहले",
+    after: "बाद में",
+    noChanges: "किसी फ़ील्ड में बदलाव दर्ज नहीं हुआ।",
+    notRecorded: "दर्ज नहीं",
+    empty: "खाली",
+  },
+  recordHistory: {
+    title: "इतिहास",
+    loadFailed: "इतिहास लोड नहीं हो सका।",
+    empty: "अभी तक कोई बदलाव दर्ज नहीं हुआ।",
+    restore: "यह संस्करण बहाल करें",
+    older: "पुराने बदलाव दिखाएँ",
+    restoreTitle: "यह संस्करण बहाल करें?",
+    restoreMessage:
+      "इस प्रविष्टि द्वारा बदले गए फ़ील्ड अपने पिछले मानों पर लौट आएँगे। बहाली एक नए बदलाव के रूप में दर्ज होगी।",
+    restoreFailed: "यह संस्करण बहाल नहीं हो सका। कृपया फिर से प्रयास करें।",
+  },
+  testResultDetailScreen: {
+    title: "परीक्षण परिणाम",
+    loadFailed: "यह परिणाम लोड नहीं हो सका।",
+  },
+  passwordFields: {
+    currentPassword: "वर्तमान पासवर्ड",
+    newPassword: "नया पासवर्ड",
+    confirmPassword: "नए पासवर्ड की पुष्टि करें",
+    email: "ईमेल",
+    code: "रीसेट कोड",
+    saveInvalid: "हाइलाइट किए गए फ़ील्ड जाँचें।",
+    saveFailed: "पासवर्ड नहीं बदला जा सका। कृपया फिर से प्रयास करें।",
+    rateLimited: "बहुत अधिक प्रयास। एक मिनट रुककर फिर से प्रयास करें।",
+    errors: {
+      currentRequired: "अपना वर्तमान पासवर्ड दर्ज करें",
+      mismatch: "पासवर्ड मेल नहीं खाते",
+      unchanged: "वर्तमान से अलग पासवर्ड चुनें",
+      codeRequired: "ईमेल में मिला कोड दर्ज करें",
+    },
+  },
+  settingsScreen: {
+    title: "सेटिंग्स",
+    changePassword: "पासवर्ड बदलें",
+    changePasswordDescription: "अपने खाते के लिए नया पासवर्ड सेट करें।",
+    diagnostics: "निदान",
+    diagnosticsDescription: "सहायता कॉल के लिए सर्वर से कनेक्शन जाँचें।",
+    server: "सर्वर",
+  },
+  changePasswordScreen: {
+    title: "पासवर्ड बदलें",
+    save: "पासवर्ड बदलें",
+    saved: "आपका पासवर्ड बदल दिया गया है।",
+    rejected: "आपका वर्तमान पासवर्ड गलत है, या नया पासवर्ड मान्य नहीं है।",
+  },
+  forgotPasswordScreen: {
+    title: "पासवर्ड भूल गए",
+    description: "अपने खाते का ईमेल पता दर्ज करें, हम पासवर्ड रीसेट करने का लिंक भेजेंगे।",
+    send: "रीसेट लिंक भेजें",
+    sent: "यदि कोई खाता इस पते का उपयोग करता है, तो रीसेट लिंक भेजा जा रहा है। इसे इसी डिवाइस पर खोलें या कोड स्वयं दर्ज करें।",
+    enterCode: "कोड दर्ज करें",
+    sendFailed: "रीसेट लिंक नहीं भेजा जा सका। कृपया फिर से प्रयास करें।",
+  },
+  resetPasswordScreen: {
+    title: "पासवर्ड रीसेट करें",
+    description: "अपने खाते के लिए नया पासवर्ड चुनें।",
+    save: "पासवर्ड रीसेट करें",
+    saved: "आपका पासवर्ड रीसेट हो गया है। नए पासवर्ड से लॉग इन करें।",
+    rejected: "यह कोड अमान्य है या समाप्त हो चुका है। नया लिंक माँगें।",
+  },
+  verifyEmailScreen: {
+    title: "ईमेल सत्यापित करें",
+    continue: "जारी रखें",
+    logIn: "लॉग इन पर जाएँ",
+    retry: "फिर से प्रयास करें",
+    resendHeading: "नया लिंक चाहिए?",
+    resendDescription: "वह पता दर्ज करें जिस पर सत्यापन ईमेल भेजा गया था।",
+    resend: "नया लिंक भेजें",
+    resendIn: "{{seconds}} सेकंड में फिर भेजें",
+    resent: "यदि यह पता किसी असत्यापित खाते का है, तो नया लिंक भेजा जा रहा है।",
+    resendFailed: "नया लिंक नहीं भेजा जा सका। कृपया फिर से प्रयास करें।",
+    states: {
+      missingLink: "अपना पता सत्यापित करने के लिए सत्यापन ईमेल का लिंक इसी डिवाइस पर खोलें।",
+      verifying: "आपका ईमेल सत्यापित किया जा रहा है…",
+      verified: "आपका ईमेल सत्यापित हो गया है।",
+      alreadyVerified: "आपका ईमेल पहले से सत्यापित है। यह लिंक पहले इस्तेमाल हो चुका है।",
+      invalidCode: "यह सत्यापन लिंक अमान्य है या समाप्त हो चुका है।",
+      unknownUser: "यह लिंक किसी खाते से मेल नहीं खाता।",
+      rateLimited: "बहुत अधिक प्रयास। एक मिनट रुककर फिर से प्रयास करें।",
+      failed: "ईमेल सत्यापित करने के लिए सर्वर से संपर्क नहीं हो सका।",
+    },
+  },
+  serverIncompatibleScreen: {
+    updateRequiredTitle: "अपडेट आवश्यक",
+    updateRequiredMessage:
+      "यह सर्वर ऐप के इस संस्करण द्वारा समर्थित से नया रिलीज़ चला रहा है। काम जारी रखने के लिए ऐप अपडेट करें।",
+    incompatibleTitle: "सर्वर समर्थित नहीं",
+    incompatibleMessage:
+      "यह सर्वर ऐसा रिलीज़ चला रहा है जिसके साथ ऐप का यह संस्करण काम नहीं कर सकता। अपने व्यवस्थापक से सर्वर अपग्रेड करने को कहें।",
+    serverVersion: "सर्वर संस्करण",
+    supportedVersions: "समर्थित संस्करण",
+    appVersion: "ऐप संस्करण",
+    server: "सर्वर",
+    checkAgain: "फिर से जाँचें",
+    diagnostics: "निदान",
+    changeServer: "दूसरा सर्वर उपयोग करें",
+  },
+  diagnosticsScreen: {
+    title: "निदान",
+    server: "सर्वर",
+    appVersion: "ऐप संस्करण",
+    runAgain: "फिर से चलाएँ",
+    share: "रिपोर्ट साझा करें",
+    versionNeedsSignIn: "साइन इन करने के बाद सर्वर संस्करण जाँचा जाता है।",
+    checks: {
+      live: "सर्वर प्रतिक्रिया दे रहा है",
+      startup: "सर्वर शुरू हो गया",
+      ready: "तैयार (डेटाबेस)",
+      version: "सर्वर संस्करण",
+    },
+  },
+  serverSelectScreen: {
+    title: "सर्वर",
+    description:
+      "वह Quater सर्वर चुनें जिसे आपकी लैब उपयोग करती है। हर सर्वर अपना साइन-इन अलग रखता है।",
+    pendingChanges:
+      "सर्वर बदलने से पहले अपने लंबित बदलाव सिंक करें या हटाएँ, ताकि वे गलत सर्वर पर न भेजे जाएँ।",
+    reviewPendingChanges: "लंबित बदलाव देखें",
+    remove: "हटाएँ",
+    removeTitle: "सर्वर हटाएँ?",
+    removeMessage: "{{name}} इस डिवाइस से हटा दिया जाएगा और आप उससे साइन आउट हो जाएँगे।",
+    addTitle: "सर्वर जोड़ें",
+    name: "नाम",
+    namePlaceholder: "उदा. साझेदार लैब",
+    url: "सर्वर URL",
+    add: "सर्वर जोड़ें",
+    checking: "सर्वर जाँचा जा रहा है…",
+    unreachable: "सर्वर तक नहीं पहुँचा जा सका। URL और अपना कनेक्शन जाँचें।",
+    errors: {
+      nameRequired: "सर्वर के लिए नाम दर्ज करें।",
+      url: "http:// या https:// से शुरू होने वाला URL दर्ज करें।",
+      duplicate: "यह सर्वर पहले ही जोड़ा जा चुका है।",
+    },
+  },
 
   ...demoHi,
 }
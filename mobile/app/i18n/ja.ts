@@ -7,6 +7,7 @@ const ja: Translations = {
     cancel: "キャンセル",
     back: "戻る",
     logOut: "ログアウト",
+    unknown: "不明",
   },
   welcomeScreen: {
     postscript:
@@ -44,6 +45,10 @@ const ja: Translations = {
     passwordFieldPlaceholder: "パスワードを入力してください",
     tapToLogIn: "タップしてログインしよう！",
     hint: "ヒント: お好みのメールアドレスとパスワードを使ってください :)",
+    forgotPassword: "パスワードをお忘れですか?",
+    diagnostics: "接続できませんか?",
+    server: "サーバー: {{name}} ({{url}})",
+    changeServer: "サーバーを変更",
   },
   demoNavigator: {
     componentsTab: "コンポーネント",
@@ -122,6 +127,511 @@ const ja: Translations = {
         "お気に入りのエピソードがまだありません。エピソードにあるハートマークにタップして、お気に入りに追加しましょう！",
     },
   },
+  syncStatus: {
+    offline: "オフラインです。変更はこの端末に保存されています。",
+    pending: "同期待ちの変更: {{count}}",
+    failed: "同期できなかった変更: {{count}}",
+  },
+  pendingChangesScreen: {
+    title: "保留中の変更",
+    emptyHeading: "すべて同期済みです",
+    emptyContent: "この端末で行った変更はすべてサーバーに送信されました。",
+    syncNow: "今すぐ同期",
+    retryFailed: "失敗した変更を再試行",
+    discard: "破棄",
+    resolve: "解決",
+    lastError: "最後のエラー: {{error}}",
+    mutation: {
+      createSample: "新しいサンプル",
+      updateSample: "サンプルの編集",
+      createTestResult: "新しい検査結果",
+      updateTestResult: "検査結果の編集",
+    },
+  },
+  sampleFields: {
+    type: "サンプル種別",
+    status: "ステータス",
+    collectionDate: "採取日",
+    collectorName: "採取者",
+    locationLatitude: "緯度",
+    locationLongitude: "経度",
+    locationDescription: "場所",
+    locationHierarchy: "場所の階層",
+    notes: "メモ",
+  },
+  testResultFields: {
+    parameterName: "項目",
+    value: "値",
+    unit: "単位",
+    testDate: "検査日",
+    technicianName: "検査担当者",
+    testMethod: "検査方法",
+  },
+  conflictResolutionScreen: {
+    title: "競合の解決",
+    heading: "このレコードは他のユーザーによって変更されました",
+    description:
+      "各フィールドで残す値を選んで保存してください。統合した内容はサーバーの最新版に対して送信されます。",
+    mine: "自分の値: {{value}}",
+    theirs: "サーバー: {{value}}",
+    keepAllMine: "すべて自分の値を使う",
+    useAllTheirs: "すべてサーバーの値を使う",
+    saveMerged: "統合した内容を保存",
+    noDifferences: "変更内容はサーバーと一致しています。保存するとバージョンのみ更新されます。",
+    loadFailed: "サーバーのデータを読み込めませんでした。接続を確認して再試行してください。",
+    changedAgain: "解決中にレコードが再度変更されました。最新の値を確認してください。",
+    saveFailed: "変更を保存できませんでした。もう一度お試しください。",
+  },
+  sampleType: {
+    drinkingWater: "飲料水",
+    wastewater: "排水",
+    surfaceWater: "地表水",
+    groundwater: "地下水",
+    industrialWater: "工業用水",
+  },
+  sampleStatus: {
+    pending: "保留中",
+    completed: "完了",
+    archived: "アーカイブ済み",
+  },
+  sampleListScreen: {
+    title: "サンプル",
+    newSample: "新しいサンプル",
+    loadFailed: "サンプルを読み込めませんでした",
+    switchLab: "ラボ切替",
+    administration: "管理",
+    emptyHeading: "サンプルはまだありません",
+    emptyContent: "このラボで採取したサンプルがここに表示されます。タップして更新してください。",
+    pendingSync: "未同期",
+    settings: "設定",
+  },
+  sampleDetailScreen: {
+    title: "サンプル",
+    loadFailed: "このサンプルを読み込めませんでした。",
+    coordinates: "座標",
+    edit: "編集",
+    delete: "削除",
+    deleteTitle: "サンプルを削除しますか？",
+    deleteMessage: "サンプルとその検査結果が削除されます。",
+    deleteFailed: "このサンプルを削除できませんでした。もう一度お試しください。",
+    testResults: "検査結果",
+    noTestResults: "まだ結果は記録されていません。",
+    addTestResult: "結果を記録",
+  },
+  sampleEditScreen: {
+    createTitle: "新しいサンプル",
+    editTitle: "サンプルを編集",
+    loadFailed: "このサンプルを読み込めませんでした。",
+    noLab: "アカウントがまだラボに割り当てられていません。",
+    saveFailed: "サンプルを保存できませんでした。もう一度お試しください。",
+    saveInvalid: "サーバーが一部の項目を受け付けませんでした。強調表示された値を確認してください。",
+    save: "保存",
+    datePlaceholder: "YYYY-MM-DD HH:MM",
+    errors: {
+      collectorRequired: "採取者名は必須です",
+      tooLong: "文字数が多すぎます",
+      latitude: "-90〜90の緯度を入力してください",
+      longitude: "-180〜180の経度を入力してください",
+      dateFormat: "YYYY-MM-DD HH:MM の形式で入力してください",
+      dateInFuture: "採取日時を未来にすることはできません",
+    },
+  },
+  testMethod: {
+    titration: "滴定",
+    spectrophotometry: "分光光度法",
+    chromatography: "クロマトグラフィー",
+    microscopy: "顕微鏡検査",
+    electrode: "電極法",
+    culture: "培養",
+    other: "その他",
+  },
+  complianceStatus: {
+    pass: "適合",
+    fail: "不適合",
+    warning: "警告",
+    predicted: "予測: {{status}}",
+  },
+  testResultEntryScreen: {
+    title: "結果を記録",
+    parametersFailed: "パラメータを読み込めませんでした。接続を確認して再試行してください。",
+    whoThreshold: "WHO基準値: {{value}} {{unit}}",
+    outOfRange: "許容範囲外です（{{min}}〜{{max}}）",
+    save: "結果を保存",
+    saveFailed: "結果を保存できませんでした。もう一度お試しください。",
+    saveInvalid: "サーバーが一部の項目を受け付けませんでした。強調表示された値を確認してください。",
+    savedHeading: "結果を保存しました",
+    awaitingSync: "同期後にサーバーが最終的なステータスを設定します。",
+    enterAnother: "続けて記録",
+    done: "完了",
+    errors: {
+      parameterRequired: "パラメータを選択してください",
+      valueRequired: "数値を入力してください",
+      unitRequired: "単位は必須です",
+      technicianRequired: "技術者名は必須です",
+      tooLong: "文字数が多すぎます",
+      dateFormat: "YYYY-MM-DD HH:MM の形式で入力してください",
+      dateInFuture: "検査日時を未来にすることはできません",
+    },
+  },
+  userRole: {
+    viewer: "閲覧者",
+    technician: "技術者",
+    admin: "管理者",
+  },
+  auditAction: {
+    create: "作成",
+    update: "更新",
+    softDelete: "ゴミ箱へ移動",
+    delete: "削除",
+    restore: "復元",
+    conflictResolution: "競合を解決",
+  },
+  entityType: {
+    lab: "ラボ",
+    sample: "サンプル",
+    testResult: "検査結果",
+    parameter: "パラメータ",
+    auditLog: "監査ログ",
+    auditLogArchive: "アーカイブ済み監査ログ",
+  },
+  labPickerScreen: {
+    title: "ラボを選択",
+    switchTitle: "ラボを切り替え",
+    description: "サンプルと結果はラボごとに管理されます。作業するラボを選択してください。",
+    loadFailed: "ラボを読み込めませんでした。引っ張って再試行してください。",
+    pendingChanges:
+      "誤ったラボに送信されないよう、ラボを切り替える前に保留中の変更を同期または破棄してください。",
+    reviewPendingChanges: "保留中の変更を確認",
+    emptyHeading: "ラボがありません",
+    emptyContent:
+      "このアカウントはどのラボにも所属していません。ラボ管理者に追加を依頼してください。",
+    retry: "再試行",
+  },
+  adminScreen: {
+    title: "管理",
+    parameters: "パラメータ",
+    parametersDescription: "結果の判定に使う単位、WHO基準値、許容範囲",
+    labs: "ラボ",
+    labsDescription: "ラボの名前、所在地、連絡先",
+    users: "ユーザー",
+    usersDescription: "スタッフのアカウント、所属ラボ、ロール",
+    auditLog: "監査ログ",
+    auditLogDescription: "誰が何をいつ変更したか",
+  },
+  parameterFields: {
+    name: "名前",
+    unit: "単位",
+    whoThreshold: "WHO基準値",
+    minValue: "最小値",
+    maxValue: "最大値",
+    description: "説明",
+  },
+  parameterListScreen: {
+    title: "パラメータ",
+    new: "新規",
+    inactive: "無効",
+    whoThreshold: "WHO {{value}}",
+    range: "{{min}}〜{{max}}",
+    loadFailed: "パラメータを読み込めませんでした。",
+    emptyHeading: "パラメータはまだありません",
+    emptyContent: "技術者が結果を記録するパラメータを追加してください。",
+  },
+  parameterEditScreen: {
+    createTitle: "新しいパラメータ",
+    editTitle: "パラメータを編集",
+    loadFailed: "このパラメータを読み込めませんでした。",
+    save: "保存",
+    saveFailed: "パラメータを保存できませんでした。もう一度お試しください。",
+    saveInvalid: "サーバーが一部の項目を受け付けませんでした。強調表示された値を確認してください。",
+    duplicateName: "この名前は別のパラメータで使われています。",
+    inactiveNotice: "このパラメータは無効のため、結果の記録時に表示されません。",
+    deactivate: "無効にする",
+    reactivate: "再度有効にする",
+    deactivateTitle: "パラメータを無効にしますか?",
+    deactivateMessage:
+      "結果の記録時に表示されなくなり、この名前で新たに記録された結果は警告になります。既存の結果は残ります。",
+    limitsChangedTitle: "基準を変更しますか?",
+    limitsChangedMessage:
+      "既存の結果は記録時の適合状況のまま残ります。今後記録される結果は新しい基準で判定されるため、同じ値でも判定が変わることがあります。",
+    errors: {
+      nameRequired: "名前は必須です",
+      unitRequired: "単位は必須です",
+      tooLong: "長すぎます",
+      number: "数値を入力してください",
+      negativeThreshold: "基準値は負の値にできません",
+      minAboveMax: "最大値は最小値より小さくできません",
+    },
+  },
+  labFields: {
+    name: "名前",
+    location: "所在地",
+    contactInfo: "連絡先",
+    created: "作成",
+    updated: "最終更新",
+  },
+  labListScreen: {
+    title: "ラボ",
+    new: "新規",
+    inactive: "無効",
+    loadFailed: "ラボを読み込めませんでした。",
+    emptyHeading: "ラボはまだありません",
+    emptyContent: "サンプルの採取を始めるにはラボを作成してください。",
+  },
+  labEditScreen: {
+    createTitle: "新しいラボ",
+    editTitle: "ラボを編集",
+    loadFailed: "このラボを読み込めませんでした。",
+    save: "保存",
+    saveFailed: "ラボを保存できませんでした。もう一度お試しください。",
+    saveInvalid: "サーバーが一部の項目を受け付けませんでした。強調表示された値を確認してください。",
+    duplicateName: "この名前は別のラボで使われています。",
+    inactiveNotice: "このラボは無効です。",
+    deactivate: "無効にする",
+    reactivate: "再度有効にする",
+    deactivateTitle: "ラボを無効にしますか?",
+    deactivateMessage: "メンバーはこのラボで作業できなくなります。サンプルと結果は残ります。",
+    deactivateCurrentMessage:
+      "現在このラボで作業中です。あなたを含むメンバーはこのラボで作業できなくなります。サンプルと結果は残ります。",
+    changedBy: "{{date}}({{user}})",
+    unknownUser: "不明なユーザー",
+    errors: {
+      nameRequired: "名前は必須です",
+      locationRequired: "所在地は必須です",
+      tooLong: "長すぎます",
+    },
+  },
+  userFields: {
+    userName: "ユーザー名",
+    email: "メールアドレス",
+    temporaryPassword: "仮パスワード",
+    role: "ロール",
+  },
+  userListScreen: {
+    title: "ユーザー",
+    new: "新規",
+    inactive: "無効",
+    loadFailed: "ユーザーを読み込めませんでした。",
+    emptyHeading: "ユーザーはまだいません",
+    emptyContent: "このラボで働く人のアカウントを作成してください。",
+  },
+  userCreateScreen: {
+    title: "新しいユーザー",
+    description:
+      "アカウントは{{lab}}のメンバーとして作成されます。仮パスワードを本人に伝えてください。",
+    save: "ユーザーを作成",
+    saveFailed: "ユーザーを作成できませんでした。もう一度お試しください。",
+    saveInvalid: "サーバーが一部の項目を受け付けませんでした。強調表示された値を確認してください。",
+    errors: {
+      userNameRequired: "ユーザー名は必須です",
+      userNameSpaces: "ユーザー名に空白は使えません",
+      email: "有効なメールアドレスを入力してください",
+      passwordTooShort: "8文字以上にしてください",
+      passwordWeak: "大文字、小文字、数字、記号を含めてください",
+    },
+  },
+  userDetailScreen: {
+    title: "ユーザー",
+    loadFailed: "このユーザーを読み込めませんでした。",
+    inactive: "無効",
+    lastLogin: "最終サインイン: {{date}}",
+    neverLoggedIn: "サインインしたことがありません",
+    selfNotice: "あなたのアカウントです。権限の変更は別の管理者に依頼してください。",
+    memberships: "ラボ",
+    noMemberships: "どのラボにも所属していません。",
+    remove: "外す",
+    removeTitle: "ラボから外しますか?",
+    removeMessage: "{{lab}}にアクセスできなくなります。作成した記録は残ります。",
+    removeFailed: "ユーザーをラボから外せませんでした。",
+    roleFailed: "ロールを変更できませんでした。",
+    addToLab: "ラボに追加",
+    add: "追加",
+    addFailed: "ユーザーをラボに追加できませんでした。",
+    account: "アカウント",
+    deactivate: "アカウントを無効にする",
+    reactivate: "アカウントを再度有効にする",
+    deactivateTitle: "アカウントを無効にしますか?",
+    deactivateMessage: "サインインできなくなります。所属ラボと記録は残ります。",
+    statusFailed: "アカウントの状態を変更できませんでした。",
+  },
+  auditLogFields: {
+    entityType: "レコードの種類",
+    action: "操作",
+    entityId: "レコードID",
+    userId: "ユーザーID",
+    startDate: "開始日 (UTC)",
+    endDate: "終了日 (UTC)",
+    includeArchived: "アーカイブ済みを含める",
+    archived: "アーカイブ済み",
+    truncated: "切り詰め",
+    timestamp: "日時",
+    user: "ユーザー",
+    ipAddress: "IPアドレス",
+  },
+  auditLogListScreen: {
+    title: "監査ログ",
+    showFilters: "フィルター ({{count}})",
+    hideFilters: "フィルターを隠す",
+    any: "すべて",
+    apply: "フィルターを適用",
+    clear: "フィルターをクリア",
+    loadFailed: "監査ログを読み込めませんでした。",
+    emptyHeading: "エントリはありません",
+    emptyContent: "サンプル、結果、カタログへの変更がここに表示されます。",
+    emptyFilteredContent: "条件に一致するエントリはありません。",
+    errors: {
+      id: "完全なIDを入力してください (例: 3f2a…-…)",
+      dateFormat: "YYYY-MM-DD の形式で入力してください",
+      endBeforeStart: "終了日が開始日より前です",
+    },
+  },
+  auditLogDetailScreen: {
+    title: "監査エントリ",
+    loadFailed: "このエントリを読み込めませんでした。",
+    archivedNotice: "このエントリはアーカイブに移動されました。",
+    truncatedNotice: "一部の値は長すぎたため、記録時に切り詰められました。",
+    changes: "変更内容",
+    unreadable: "記録された値を読み取れなかったため、保存されたまま表示しています。",
+    before: "変更前",
+    after: "変更後",
+    noChanges: "項目の変更は記録されていません。",
+    notRecorded: "記録なし",
+    empty: "空",
+  },
+  recordHistory: {
+    title: "履歴",
+    loadFailed: "履歴を読み込めませんでした。",
+    empty: "まだ変更は記録されていません。",
+    restore: "このバージョンに戻す",
+    older: "以前の変更を表示",
+    restoreTitle: "このバージョンに戻しますか?",
+    restoreMessage:
+      "このエントリで変更された項目が以前の値に戻ります。復元は新しい変更として記録されます。",
+    restoreFailed: "このバージョンに戻せませんでした。もう一度お試しください。",
+  },
+  testResultDetailScreen: {
+    title: "検査結果",
+    loadFailed: "この結果を読み込めませんでした。",
+  },
+  passwordFields: {
+    currentPassword: "現在のパスワード",
+    newPassword: "新しいパスワード",
+    confirmPassword: "新しいパスワード(確認)",
+    email: "メールアドレス",
+    code: "リセットコード",
+    saveInvalid: "強調表示された項目を確認してください。",
+    saveFailed: "パスワードを変更できませんでした。もう一度お試しください。",
+    rateLimited: "試行回数が多すぎます。1分ほど待ってから再度お試しください。",
+    errors: {
+      currentRequired: "現在のパスワードを入力してください",
+      mismatch: "パスワードが一致しません",
+      unchanged: "現在とは異なるパスワードを選んでください",
+      codeRequired: "メールに記載されたコードを入力してください",
+    },
+  },
+  settingsScreen: {
+    title: "設定",
+    changePassword: "パスワードの変更",
+    changePasswordDescription: "アカウントの新しいパスワードを設定します。",
+    diagnostics: "診断",
+    diagnosticsDescription: "サポート用にサーバーへの接続を確認します。",
+    server: "サーバー",
+  },
+  changePasswordScreen: {
+    title: "パスワードの変更",
+    save: "パスワードを変更",
+    saved: "パスワードを変更しました。",
+    rejected: "現在のパスワードが間違っているか、新しいパスワードが使用できません。",
+  },
+  forgotPasswordScreen: {
+    title: "パスワードをお忘れの場合",
+    description:
+      "アカウントのメールアドレスを入力すると、パスワード再設定用のリンクをお送りします。",
+    send: "リンクを送信",
+    sent: "このアドレスのアカウントがあれば、再設定リンクが送信されます。この端末で開くか、コードを手動で入力してください。",
+    enterCode: "コードを入力",
+    sendFailed: "リンクを送信できませんでした。もう一度お試しください。",
+  },
+  resetPasswordScreen: {
+    title: "パスワードの再設定",
+    description: "アカウントの新しいパスワードを選んでください。",
+    save: "パスワードを再設定",
+    saved: "パスワードを再設定しました。新しいパスワードでログインしてください。",
+    rejected: "このコードは無効か期限切れです。新しいリンクをリクエストしてください。",
+  },
+  verifyEmailScreen: {
+    title: "メールアドレスの確認",
+    continue: "続ける",
+    logIn: "ログインへ",
+    retry: "再試行",
+    resendHeading: "新しいリンクが必要ですか?",
+    resendDescription: "確認メールの送信先アドレスを入力してください。",
+    resend: "新しいリンクを送信",
+    resendIn: "{{seconds}}秒後に再送信できます",
+    resent: "このアドレスが未確認のアカウントのものであれば、新しいリンクが送信されます。",
+    resendFailed: "新しいリンクを送信できませんでした。もう一度お試しください。",
+    states: {
+      missingLink: "この端末で確認メールのリンクを開いて、アドレスを確認してください。",
+      verifying: "メールアドレスを確認しています…",
+      verified: "メールアドレスを確認しました。",
+      alreadyVerified: "メールアドレスは確認済みです。このリンクは使用済みです。",
+      invalidCode: "この確認リンクは無効か期限切れです。",
+      unknownUser: "このリンクに対応するアカウントがありません。",
+      rateLimited: "試行回数が多すぎます。1分ほど待ってから再度お試しください。",
+      failed: "サーバーに接続できず、メールアドレスを確認できませんでした。",
+    },
+  },
+  serverIncompatibleScreen: {
+    updateRequiredTitle: "アップデートが必要です",
+    updateRequiredMessage:
+      "このサーバーは、このバージョンのアプリが対応するより新しいリリースで動作しています。引き続き使うにはアプリをアップデートしてください。",
+    incompatibleTitle: "サポートされていないサーバー",
+    incompatibleMessage:
+      "このサーバーは、このバージョンのアプリでは利用できないリリースで動作しています。管理者にサーバーのアップグレードを依頼してください。",
+    serverVersion: "サーバーのバージョン",
+    supportedVersions: "対応バージョン",
+    appVersion: "アプリのバージョン",
+    server: "サーバー",
+    checkAgain: "再確認",
+    diagnostics: "診断",
+    changeServer: "別のサーバーを使う",
+  },
+  diagnosticsScreen: {
+    title: "診断",
+    server: "サーバー",
+    appVersion: "アプリのバージョン",
+    runAgain: "再実行",
+    share: "レポートを共有",
+    versionNeedsSignIn: "サーバーのバージョンはサインイン後に確認されます。",
+    checks: {
+      live: "サーバー応答",
+      startup: "サーバー起動",
+      ready: "準備完了(データベース)",
+      version: "サーバーのバージョン",
+    },
+  },
+  serverSelectScreen: {
+    title: "サーバー",
+    description:
+      "ラボで使用している Quater サーバーを選択してください。サインイン状態はサーバーごとに保持されます。",
+    pendingChanges:
+      "誤ったサーバーに送信されないよう、サーバーを切り替える前に保留中の変更を同期するか破棄してください。",
+    reviewPendingChanges: "保留中の変更を確認",
+    remove: "削除",
+    removeTitle: "サーバーを削除しますか?",
+    removeMessage: "{{name}} をこの端末から削除し、サインアウトします。",
+    addTitle: "サーバーを追加",
+    name: "名前",
+    namePlaceholder: "例: 提携ラボ",
+    url: "サーバーの URL",
+    add: "サーバーを追加",
+    checking: "サーバーを確認しています…",
+    unreachable: "サーバーに接続できませんでした。URL と接続状況を確認してください。",
+    errors: {
+      nameRequired: "サーバーの名前を入力してください。",
+      url: "http:// または https:// で始まる URL を入力してください。",
+      duplicate: "このサーバーはすでに追加されています。",
+    },
+  },
 
   ...demoJa,
 }
@@ -7,6 +7,7 @@ const ko: Translations = {
     cancel: "취소",
     back: "뒤로",
     logOut: "로그아웃",
+    unknown: "알 수 없음",
   },
   welcomeScreen: {
     postscript:
@@ -43,6 +44,10 @@ const ko: Translations = {
     passwordFieldPlaceholder: "엄청 비밀스러운 암호를 입력하세요",
     tapToLogIn: "눌러서 로그인 하기!",
     hint: "힌트: 가장 좋아하는 암호와 아무런 아무 이메일 주소나 사용할 수 있어요 :)",
+    forgotPassword: "비밀번호를 잊으셨나요?",
+    diagnostics: "연결에 문제가 있나요?",
+    server: "서버: {{name}} ({{url}})",
+    changeServer: "서버 변경",
   },
   demoNavigator: {
     componentsTab: "컴포넌트",
@@ -121,6 +126,510 @@ const ko: Translations = {
       content: "즐겨찾기가 없습니다. 에피소드에 있는 하트를 눌러서 즐겨찾기에 추가하세요.",
     },
   },
+  syncStatus: {
+    offline: "오프라인 상태입니다. 변경 사항은 이 기기에 저장됩니다.",
+    pending: "동기화 대기 중인 변경 사항: {{count}}",
+    failed: "동기화하지 못한 변경 사항: {{count}}",
+  },
+  pendingChangesScreen: {
+    title: "대기 중인 변경 사항",
+    emptyHeading: "모두 최신 상태입니다",
+    emptyContent: "이 기기에서 만든 모든 변경 사항이 서버로 전송되었습니다.",
+    syncNow: "지금 동기화",
+    retryFailed: "실패한 변경 사항 다시 시도",
+    discard: "삭제",
+    resolve: "해결",
+    lastError: "마지막 오류: {{error}}",
+    mutation: {
+      createSample: "새 시료",
+      updateSample: "시료 수정",
+      createTestResult: "새 검사 결과",
+      updateTestResult: "검사 결과 수정",
+    },
+  },
+  sampleFields: {
+    type: "시료 유형",
+    status: "상태",
+    collectionDate: "채취일",
+    collectorName: "채취자",
+    locationLatitude: "위도",
+    locationLongitude: "경도",
+    locationDescription: "위치",
+    locationHierarchy: "위치 계층",
+    notes: "메모",
+  },
+  testResultFields: {
+    parameterName: "항목",
+    value: "값",
+    unit: "단위",
+    testDate: "검사일",
+    technicianName: "검사자",
+    testMethod: "검사 방법",
+  },
+  conflictResolutionScreen: {
+    title: "충돌 해결",
+    heading: "다른 사용자가 이 기록을 변경했습니다",
+    description:
+      "각 필드에서 유지할 값을 선택한 뒤 저장하세요. 병합된 내용은 서버의 최신 버전을 기준으로 제출됩니다.",
+    mine: "내 값: {{value}}",
+    theirs: "서버: {{value}}",
+    keepAllMine: "모두 내 값 유지",
+    useAllTheirs: "모두 서버 값 사용",
+    saveMerged: "병합된 버전 저장",
+    noDifferences: "변경 사항이 서버와 같습니다. 저장하면 버전만 갱신됩니다.",
+    loadFailed: "서버 데이터를 불러오지 못했습니다. 연결을 확인하고 다시 시도하세요.",
+    changedAgain: "해결하는 동안 기록이 다시 변경되었습니다. 최신 값을 확인하세요.",
+    saveFailed: "변경 사항을 저장하지 못했습니다. 다시 시도하세요.",
+  },
+  sampleType: {
+    drinkingWater: "음용수",
+    wastewater: "폐수",
+    surfaceWater: "지표수",
+    groundwater: "지하수",
+    industrialWater: "공업용수",
+  },
+  sampleStatus: {
+    pending: "대기 중",
+    completed: "완료",
+    archived: "보관됨",
+  },
+  sampleListScreen: {
+    title: "시료",
+    newSample: "새 시료",
+    loadFailed: "시료를 불러오지 못했습니다",
+    switchLab: "실험실 전환",
+    administration: "관리",
+    emptyHeading: "아직 시료가 없습니다",
+    emptyContent: "이 실험실에서 채취한 시료가 여기에 표시됩니다. 탭하여 새로고침하세요.",
+    pendingSync: "동기화 안 됨",
+    settings: "설정",
+  },
+  sampleDetailScreen: {
+    title: "시료",
+    loadFailed: "이 시료를 불러오지 못했습니다.",
+    coordinates: "좌표",
+    edit: "편집",
+    delete: "삭제",
+    deleteTitle: "시료를 삭제할까요?",
+    deleteMessage: "시료와 해당 검사 결과가 삭제됩니다.",
+    deleteFailed: "이 시료를 삭제하지 못했습니다. 다시 시도해 주세요.",
+    testResults: "검사 결과",
+    noTestResults: "아직 기록된 결과가 없습니다.",
+    addTestResult: "결과 기록",
+  },
+  sampleEditScreen: {
+    createTitle: "새 시료",
+    editTitle: "시료 편집",
+    loadFailed: "이 시료를 불러오지 못했습니다.",
+    noLab: "계정이 아직 실험실에 배정되지 않았습니다.",
+    saveFailed: "시료를 저장하지 못했습니다. 다시 시도해 주세요.",
+    saveInvalid: "서버에서 일부 항목을 거부했습니다. 강조 표시된 값을 확인하세요.",
+    save: "저장",
+    datePlaceholder: "YYYY-MM-DD HH:MM",
+    errors: {
+      collectorRequired: "채취자 이름은 필수입니다",
+      tooLong: "너무 깁니다",
+      latitude: "-90에서 90 사이의 위도를 입력하세요",
+      longitude: "-180에서 180 사이의 경도를 입력하세요",
+      dateFormat: "YYYY-MM-DD HH:MM 형식을 사용하세요",
+      dateInFuture: "채취 일시는 미래일 수 없습니다",
+    },
+  },
+  testMethod: {
+    titration: "적정법",
+    spectrophotometry: "분광광도법",
+    chromatography: "크로마토그래피",
+    microscopy: "현미경 검사",
+    electrode: "전극법",
+    culture: "배양",
+    other: "기타",
+  },
+  complianceStatus: {
+    pass: "적합",
+    fail: "부적합",
+    warning: "경고",
+    predicted: "예상: {{status}}",
+  },
+  testResultEntryScreen: {
+    title: "결과 기록",
+    parametersFailed: "항목을 불러오지 못했습니다. 연결을 확인하고 다시 시도하세요.",
+    whoThreshold: "WHO 기준: {{value}} {{unit}}",
+    outOfRange: "허용 범위를 벗어났습니다 ({{min}}~{{max}})",
+    save: "결과 저장",
+    saveFailed: "결과를 저장하지 못했습니다. 다시 시도해 주세요.",
+    saveInvalid: "서버에서 일부 항목을 거부했습니다. 강조 표시된 값을 확인하세요.",
+    savedHeading: "결과가 저장되었습니다",
+    awaitingSync: "이 결과가 동기화되면 서버가 최종 상태를 지정합니다.",
+    enterAnother: "계속 기록",
+    done: "완료",
+    errors: {
+      parameterRequired: "항목을 선택하세요",
+      valueRequired: "숫자를 입력하세요",
+      unitRequired: "단위는 필수입니다",
+      technicianRequired: "기술자 이름은 필수입니다",
+      tooLong: "너무 깁니다",
+      dateFormat: "YYYY-MM-DD HH:MM 형식을 사용하세요",
+      dateInFuture: "검사 일시는 미래일 수 없습니다",
+    },
+  },
+  userRole: {
+    viewer: "조회자",
+    technician: "기술자",
+    admin: "관리자",
+  },
+  auditAction: {
+    create: "생성됨",
+    update: "수정됨",
+    softDelete: "휴지통으로 이동됨",
+    delete: "삭제됨",
+    restore: "복원됨",
+    conflictResolution: "충돌 해결됨",
+  },
+  entityType: {
+    lab: "실험실",
+    sample: "시료",
+    testResult: "검사 결과",
+    parameter: "항목",
+    auditLog: "감사 로그",
+    auditLogArchive: "보관된 감사 로그",
+  },
+  labPickerScreen: {
+    title: "실험실 선택",
+    switchTitle: "실험실 전환",
+    description: "샘플과 결과는 실험실별로 관리됩니다. 작업할 실험실을 선택하세요.",
+    loadFailed: "실험실을 불러오지 못했습니다. 당겨서 다시 시도하세요.",
+    pendingChanges:
+      "잘못된 실험실로 전송되지 않도록 실험실을 전환하기 전에 대기 중인 변경 사항을 동기화하거나 삭제하세요.",
+    reviewPendingChanges: "대기 중인 변경 사항 보기",
+    emptyHeading: "아직 실험실이 없습니다",
+    emptyContent: "계정이 어떤 실험실에도 속해 있지 않습니다. 실험실 관리자에게 추가를 요청하세요.",
+    retry: "다시 시도",
+  },
+  adminScreen: {
+    title: "관리",
+    parameters: "매개변수",
+    parametersDescription: "결과 판정에 쓰이는 단위, WHO 기준치, 허용 범위",
+    labs: "실험실",
+    labsDescription: "실험실 이름, 위치, 연락처",
+    users: "사용자",
+    usersDescription: "직원 계정, 소속 실험실 및 역할",
+    auditLog: "감사 기록",
+    auditLogDescription: "누가 언제 무엇을 변경했는지",
+  },
+  parameterFields: {
+    name: "이름",
+    unit: "단위",
+    whoThreshold: "WHO 기준치",
+    minValue: "최솟값",
+    maxValue: "최댓값",
+    description: "설명",
+  },
+  parameterListScreen: {
+    title: "매개변수",
+    new: "새로 만들기",
+    inactive: "비활성",
+    whoThreshold: "WHO {{value}}",
+    range: "{{min}}~{{max}}",
+    loadFailed: "매개변수를 불러오지 못했습니다.",
+    emptyHeading: "아직 매개변수가 없습니다",
+    emptyContent: "기술자가 결과를 기록할 매개변수를 추가하세요.",
+  },
+  parameterEditScreen: {
+    createTitle: "새 매개변수",
+    editTitle: "매개변수 편집",
+    loadFailed: "이 매개변수를 불러오지 못했습니다.",
+    save: "저장",
+    saveFailed: "매개변수를 저장하지 못했습니다. 다시 시도해 주세요.",
+    saveInvalid: "서버에서 일부 항목을 거부했습니다. 강조 표시된 값을 확인하세요.",
+    duplicateName: "다른 매개변수가 이미 이 이름을 사용하고 있습니다.",
+    inactiveNotice: "이 매개변수는 비활성 상태라 결과 기록 시 표시되지 않습니다.",
+    deactivate: "비활성화",
+    reactivate: "다시 활성화",
+    deactivateTitle: "매개변수를 비활성화할까요?",
+    deactivateMessage:
+      "결과 기록 시 표시되지 않으며, 이 이름으로 새로 기록된 결과는 경고로 표시됩니다. 기존 결과는 유지됩니다.",
+    limitsChangedTitle: "기준을 변경할까요?",
+    limitsChangedMessage:
+      "기존 결과는 기록 당시의 적합 상태를 유지합니다. 앞으로 기록되는 결과는 새 기준으로 판정되므로 같은 값이라도 다르게 판정될 수 있습니다.",
+    errors: {
+      nameRequired: "이름은 필수입니다",
+      unitRequired: "단위는 필수입니다",
+      tooLong: "너무 깁니다",
+      number: "숫자를 입력하세요",
+      negativeThreshold: "기준치는 음수일 수 없습니다",
+      minAboveMax: "최댓값은 최솟값보다 작을 수 없습니다",
+    },
+  },
+  labFields: {
+    name: "이름",
+    location: "위치",
+    contactInfo: "연락처",
+    created: "생성",
+    updated: "마지막 수정",
+  },
+  labListScreen: {
+    title: "실험실",
+    new: "새로 만들기",
+    inactive: "비활성",
+    loadFailed: "실험실을 불러오지 못했습니다.",
+    emptyHeading: "아직 실험실이 없습니다",
+    emptyContent: "샘플 수집을 시작하려면 실험실을 만드세요.",
+  },
+  labEditScreen: {
+    createTitle: "새 실험실",
+    editTitle: "실험실 편집",
+    loadFailed: "이 실험실을 불러오지 못했습니다.",
+    save: "저장",
+    saveFailed: "실험실을 저장하지 못했습니다. 다시 시도해 주세요.",
+    saveInvalid: "서버에서 일부 항목을 거부했습니다. 강조 표시된 값을 확인하세요.",
+    duplicateName: "다른 실험실이 이미 이 이름을 사용하고 있습니다.",
+    inactiveNotice: "이 실험실은 비활성 상태입니다.",
+    deactivate: "비활성화",
+    reactivate: "다시 활성화",
+    deactivateTitle: "실험실을 비활성화할까요?",
+    deactivateMessage:
+      "구성원이 더 이상 이 실험실에서 작업할 수 없습니다. 샘플과 결과는 유지됩니다.",
+    deactivateCurrentMessage:
+      "현재 이 실험실에서 작업 중입니다. 본인을 포함한 구성원이 더 이상 이 실험실에서 작업할 수 없습니다. 샘플과 결과는 유지됩니다.",
+    changedBy: "{{date}} · {{user}}",
+    unknownUser: "알 수 없는 사용자",
+    errors: {
+      nameRequired: "이름은 필수입니다",
+      locationRequired: "위치는 필수입니다",
+      tooLong: "너무 깁니다",
+    },
+  },
+  userFields: {
+    userName: "사용자 이름",
+    email: "이메일",
+    temporaryPassword: "임시 비밀번호",
+    role: "역할",
+  },
+  userListScreen: {
+    title: "사용자",
+    new: "새로 만들기",
+    inactive: "비활성",
+    loadFailed: "사용자를 불러오지 못했습니다.",
+    emptyHeading: "아직 사용자가 없습니다",
+    emptyContent: "이 실험실에서 일하는 사람들의 계정을 만드세요.",
+  },
+  userCreateScreen: {
+    title: "새 사용자",
+    description:
+      "계정은 {{lab}}의 구성원으로 시작합니다. 임시 비밀번호를 계정 소유자에게 전달하세요.",
+    save: "사용자 만들기",
+    saveFailed: "사용자를 만들지 못했습니다. 다시 시도해 주세요.",
+    saveInvalid: "서버에서 일부 항목을 거부했습니다. 강조 표시된 값을 확인하세요.",
+    errors: {
+      userNameRequired: "사용자 이름은 필수입니다",
+      userNameSpaces: "사용자 이름에는 공백을 쓸 수 없습니다",
+      email: "올바른 이메일 주소를 입력하세요",
+      passwordTooShort: "8자 이상 입력하세요",
+      passwordWeak: "대문자, 소문자, 숫자, 기호를 모두 사용하세요",
+    },
+  },
+  userDetailScreen: {
+    title: "사용자",
+    loadFailed: "이 사용자를 불러오지 못했습니다.",
+    inactive: "비활성",
+    lastLogin: "마지막 로그인 {{date}}",
+    neverLoggedIn: "로그인한 적 없음",
+    selfNotice: "본인 계정입니다. 권한 변경은 다른 관리자에게 요청하세요.",
+    memberships: "실험실",
+    noMemberships: "소속된 실험실이 없습니다.",
+    remove: "제거",
+    removeTitle: "실험실에서 제거할까요?",
+    removeMessage: "{{lab}}에 더 이상 접근할 수 없습니다. 작성한 기록은 유지됩니다.",
+    removeFailed: "사용자를 실험실에서 제거하지 못했습니다.",
+    roleFailed: "역할을 변경하지 못했습니다.",
+    addToLab: "실험실에 추가",
+    add: "추가",
+    addFailed: "사용자를 실험실에 추가하지 못했습니다.",
+    account: "계정",
+    deactivate: "계정 비활성화",
+    reactivate: "계정 다시 활성화",
+    deactivateTitle: "계정을 비활성화할까요?",
+    deactivateMessage: "로그인할 수 없게 됩니다. 실험실 소속과 기록은 유지됩니다.",
+    statusFailed: "계정 상태를 변경하지 못했습니다.",
+  },
+  auditLogFields: {
+    entityType: "레코드 유형",
+    action: "작업",
+    entityId: "레코드 ID",
+    userId: "사용자 ID",
+    startDate: "시작일 (UTC)",
+    endDate: "종료일 (UTC)",
+    includeArchived: "보관된 항목 포함",
+    archived: "보관됨",
+    truncated: "잘림",
+    timestamp: "일시",
+    user: "사용자",
+    ipAddress: "IP 주소",
+  },
+  auditLogListScreen: {
+    title: "감사 기록",
+    showFilters: "필터 ({{count}})",
+    hideFilters: "필터 숨기기",
+    any: "전체",
+    apply: "필터 적용",
+    clear: "필터 지우기",
+    loadFailed: "감사 기록을 불러오지 못했습니다.",
+    emptyHeading: "항목 없음",
+    emptyContent: "시료, 결과, 카탈로그의 변경 사항이 여기에 표시됩니다.",
+    emptyFilteredContent: "이 필터와 일치하는 항목이 없습니다.",
+    errors: {
+      id: "전체 ID를 입력하세요 (예: 3f2a…-…)",
+      dateFormat: "YYYY-MM-DD 형식을 사용하세요",
+      endBeforeStart: "종료일이 시작일보다 앞섭니다",
+    },
+  },
+  auditLogDetailScreen: {
+    title: "감사 항목",
+    loadFailed: "이 항목을 불러오지 못했습니다.",
+    archivedNotice: "이 항목은 보관함으로 옮겨졌습니다.",
+    truncatedNotice: "일부 값이 너무 길어 기록할 때 잘렸습니다.",
+    changes: "변경 내용",
+    unreadable: "기록된 값을 읽을 수 없어 저장된 그대로 표시합니다.",
+    before: "변경 전",
+    after: "변경 후",
+    noChanges: "기록된 필드 변경이 없습니다.",
+    notRecorded: "기록 안 됨",
+    empty: "비어 있음",
+  },
+  recordHistory: {
+    title: "기록",
+    loadFailed: "기록을 불러오지 못했습니다.",
+    empty: "아직 기록된 변경 사항이 없습니다.",
+    restore: "이 버전으로 복원",
+    older: "이전 변경 사항 보기",
+    restoreTitle: "이 버전으로 복원할까요?",
+    restoreMessage:
+      "이 항목에서 변경된 필드가 이전 값으로 돌아갑니다. 복원은 새 변경으로 기록됩니다.",
+    restoreFailed: "이 버전으로 복원하지 못했습니다. 다시 시도해 주세요.",
+  },
+  testResultDetailScreen: {
+    title: "검사 결과",
+    loadFailed: "이 결과를 불러오지 못했습니다.",
+  },
+  passwordFields: {
+    currentPassword: "현재 비밀번호",
+    newPassword: "새 비밀번호",
+    confirmPassword: "새 비밀번호 확인",
+    email: "이메일",
+    code: "재설정 코드",
+    saveInvalid: "강조 표시된 항목을 확인하세요.",
+    saveFailed: "비밀번호를 변경하지 못했습니다. 다시 시도해 주세요.",
+    rateLimited: "시도 횟수가 너무 많습니다. 1분 후 다시 시도해 주세요.",
+    errors: {
+      currentRequired: "현재 비밀번호를 입력하세요",
+      mismatch: "비밀번호가 일치하지 않습니다",
+      unchanged: "현재와 다른 비밀번호를 선택하세요",
+      codeRequired: "이메일로 받은 코드를 입력하세요",
+    },
+  },
+  settingsScreen: {
+    title: "설정",
+    changePassword: "비밀번호 변경",
+    changePasswordDescription: "계정의 새 비밀번호를 설정합니다.",
+    diagnostics: "진단",
+    diagnosticsDescription: "지원 요청을 위해 서버 연결을 확인합니다.",
+    server: "서버",
+  },
+  changePasswordScreen: {
+    title: "비밀번호 변경",
+    save: "비밀번호 변경",
+    saved: "비밀번호가 변경되었습니다.",
+    rejected: "현재 비밀번호가 틀렸거나 새 비밀번호를 사용할 수 없습니다.",
+  },
+  forgotPasswordScreen: {
+    title: "비밀번호 찾기",
+    description: "계정의 이메일 주소를 입력하면 비밀번호 재설정 링크를 보내 드립니다.",
+    send: "재설정 링크 보내기",
+    sent: "이 주소를 사용하는 계정이 있으면 재설정 링크가 발송됩니다. 이 기기에서 열거나 코드를 직접 입력하세요.",
+    enterCode: "코드 입력",
+    sendFailed: "링크를 보내지 못했습니다. 다시 시도해 주세요.",
+  },
+  resetPasswordScreen: {
+    title: "비밀번호 재설정",
+    description: "계정의 새 비밀번호를 선택하세요.",
+    save: "비밀번호 재설정",
+    saved: "비밀번호가 재설정되었습니다. 새 비밀번호로 로그인하세요.",
+    rejected: "이 코드는 유효하지 않거나 만료되었습니다. 새 링크를 요청하세요.",
+  },
+  verifyEmailScreen: {
+    title: "이메일 인증",
+    continue: "계속",
+    logIn: "로그인으로 이동",
+    retry: "다시 시도",
+    resendHeading: "새 링크가 필요하신가요?",
+    resendDescription: "인증 이메일을 받은 주소를 입력하세요.",
+    resend: "새 링크 보내기",
+    resendIn: "{{seconds}}초 후 다시 보내기",
+    resent: "이 주소가 인증되지 않은 계정의 주소라면 새 링크가 발송됩니다.",
+    resendFailed: "새 링크를 보내지 못했습니다. 다시 시도해 주세요.",
+    states: {
+      missingLink: "이 기기에서 인증 이메일의 링크를 열어 주소를 인증하세요.",
+      verifying: "이메일을 인증하는 중…",
+      verified: "이메일이 인증되었습니다.",
+      alreadyVerified: "이미 인증된 이메일입니다. 이 링크는 이미 사용되었습니다.",
+      invalidCode: "이 인증 링크는 유효하지 않거나 만료되었습니다.",
+      unknownUser: "이 링크와 일치하는 계정이 없습니다.",
+      rateLimited: "시도 횟수가 너무 많습니다. 1분 후 다시 시도해 주세요.",
+      failed: "서버에 연결할 수 없어 이메일을 인증하지 못했습니다.",
+    },
+  },
+  serverIncompatibleScreen: {
+    updateRequiredTitle: "업데이트 필요",
+    updateRequiredMessage:
+      "이 서버는 이 버전의 앱이 지원하는 것보다 새로운 릴리스를 실행 중입니다. 계속 사용하려면 앱을 업데이트하세요.",
+    incompatibleTitle: "지원되지 않는 서버",
+    incompatibleMessage:
+      "이 서버는 이 버전의 앱과 함께 사용할 수 없는 릴리스를 실행 중입니다. 관리자에게 서버 업그레이드를 요청하세요.",
+    serverVersion: "서버 버전",
+    supportedVersions: "지원 버전",
+    appVersion: "앱 버전",
+    server: "서버",
+    checkAgain: "다시 확인",
+    diagnostics: "진단",
+    changeServer: "다른 서버 사용",
+  },
+  diagnosticsScreen: {
+    title: "진단",
+    server: "서버",
+    appVersion: "앱 버전",
+    runAgain: "다시 실행",
+    share: "보고서 공유",
+    versionNeedsSignIn: "서버 버전은 로그인 후 확인됩니다.",
+    checks: {
+      live: "서버 응답",
+      startup: "서버 시작됨",
+      ready: "준비됨(데이터베이스)",
+      version: "서버 버전",
+    },
+  },
+  serverSelectScreen: {
+    title: "서버",
+    description:
+      "연구실에서 사용하는 Quater 서버를 선택하세요. 서버마다 로그인 상태가 따로 유지됩니다.",
+    pendingChanges:
+      "잘못된 서버로 전송되지 않도록 서버를 바꾸기 전에 대기 중인 변경 사항을 동기화하거나 삭제하세요.",
+    reviewPendingChanges: "대기 중인 변경 사항 보기",
+    remove: "제거",
+    removeTitle: "서버를 제거할까요?",
+    removeMessage: "{{name}}이(가) 이 기기에서 제거되고 해당 서버에서 로그아웃됩니다.",
+    addTitle: "서버 추가",
+    name: "이름",
+    namePlaceholder: "예: 협력 연구실",
+    url: "서버 URL",
+    add: "서버 추가",
+    checking: "서버 확인 중…",
+    unreachable: "서버에 연결할 수 없습니다. URL과 연결 상태를 확인하세요.",
+    errors: {
+      nameRequired: "서버 이름을 입력하세요.",
+      url: "http:// 또는 https://로 시작하는 URL을 입력하세요.",
+      duplicate: "이미 추가된 서버입니다.",
+    },
+  },
 
   ...demoKo,
 }
@@ -9,10 +9,39 @@ import { createNativeStackNavigator } from "@react-navigation/native-stack"
 
 import Config from "@/config"
 import { useAuth } from "@/context/AuthContext"
+import { useServerCompatibility } from "@/context/ServerCompatibilityContext"
+import { AdminScreen } from "@/screens/AdminScreen"
+import { AuditLogDetailScreen } from "@/screens/AuditLogDetailScreen"
+import { AuditLogListScreen } from "@/screens/AuditLogListScreen"
+import { ChangePasswordScreen } from "@/screens/ChangePasswordScreen"
+import { ConflictResolutionScreen } from "@/screens/ConflictResolutionScreen"
+import { DiagnosticsScreen } from "@/screens/DiagnosticsScreen"
 import { ErrorBoundary } from "@/screens/ErrorScreen/ErrorBoundary"
+import { ForgotPasswordScreen } from "@/screens/ForgotPasswordScreen"
+import { LabEditScreen } from "@/screens/LabEditScreen"
+import { LabListScreen } from "@/screens/LabListScreen"
+import { LabPickerScreen } from "@/screens/LabPickerScreen"
 import { LoginScreen } from "@/screens/LoginScreen"
+import { ParameterEditScreen } from "@/screens/ParameterEditScreen"
+import { ParameterListScreen } from "@/screens/ParameterListScreen"
+import { PendingChangesScreen } from "@/screens/PendingChangesScreen"
+import { ResetPasswordScreen } from "@/screens/ResetPasswordScreen"
+import { SampleDetailScreen } from "@/screens/SampleDetailScreen"
+import { SampleEditScreen } from "@/screens/SampleEditScreen"
+import { SampleListScreen } from "@/screens/SampleListScreen"
+import { ServerIncompatibleScreen } from "@/screens/ServerIncompatibleScreen"
+import { ServerSelectScreen } from "@/screens/ServerSelectScreen"
+import { SettingsScreen } from "@/screens/SettingsScreen"
+import { TestResultDetailScreen } from "@/screens/TestResultDetailScreen"
+import { TestResultEntryScreen } from "@/screens/TestResultEntryScreen"
+import { UserCreateScreen } from "@/screens/UserCreateScreen"
+import { UserDetailScreen } from "@/screens/UserDetailScreen"
+import { UserListScreen } from "@/screens/UserListScreen"
+import { VerifyEmailScreen } from "@/screens/VerifyEmailScreen"
 import { WelcomeScreen } from "@/screens/WelcomeScreen"
+import { serverProfileStore } from "@/stores/serverProfileStore"
 import { useAppTheme } from "@/theme/context"
+import { usePermission } from "@/utils/usePermission"
 
 import { DemoNavigator } from "./DemoNavigator"
 import type { AppStackParamList, NavigationProps } from "./navigationTypes"
@@ -35,6 +64,10 @@ const Stack = createNativeStackNavigator<AppStackParamList>()
  * to be aware of the prefix so it does not swallow incoming auth-session links.
  * The `oauth/callback` path is intentionally left unmapped here — it is handled
  * entirely by expo-auth-session and never needs to navigate to a screen.
+ *
+ * `reset-password` and `verify-email` match the links in the backend's emails
+ * when its `FrontendUrl` is set to `quater://`; their query parameters become
+ * the screen's params.
  */
 const linking: LinkingOptions<AppStackParamList> = {
   prefixes: [`${Config.OAUTH_REDIRECT_SCHEME}://`],
@@ -43,12 +76,27 @@ const linking: LinkingOptions<AppStackParamList> = {
       Welcome: "welcome",
       Login: "login",
       Demo: "demo",
+      SampleList: "samples",
+      SampleDetail: "samples/:sampleId",
+      ResetPassword: "reset-password",
+      VerifyEmail: "verify-email",
     },
   },
 }
 
 const AppStack = () => {
-  const { isAuthenticated } = useAuth()
+  const { isAuthenticated, labId } = useAuth()
+  const { compatibility } = useServerCompatibility()
+  const isServerBlocked = !!compatibility && compatibility !== "compatible"
+  // Screens the current role can't use aren't registered at all, so they can't be
+  // reached through a stale link or restored navigation state either.
+  const canEditSamples = usePermission("sample:edit")
+  const canEnterResults = usePermission("testResult:create")
+  const canViewAdmin = usePermission("admin:view")
+  const canManageParameters = usePermission("parameter:manage")
+  const canManageLabs = usePermission("lab:manage")
+  const canManageUsers = usePermission("user:manage")
+  const canViewAudit = usePermission("audit:view")
 
   const {
     theme: { colors },
@@ -63,17 +111,115 @@ const AppStack = () => {
           backgroundColor: colors.background,
         },
       }}
-      initialRouteName={isAuthenticated ? "Welcome" : "Login"}
+      initialRouteName={
+        isAuthenticated
+          ? isServerBlocked
+            ? "ServerIncompatible"
+            : labId
+              ? "SampleList"
+              : "LabPicker"
+          : serverProfileStore.hasChosenProfile()
+            ? "Login"
+            : "ServerSelect"
+      }
     >
-      {isAuthenticated ? (
+      {isAuthenticated && isServerBlocked ? (
+        // Nothing else is usable until the app and server agree on the API.
+        <>
+          <Stack.Screen name="ServerIncompatible" component={ServerIncompatibleScreen} />
+
+          <Stack.Screen name="Diagnostics" component={DiagnosticsScreen} />
+
+          <Stack.Screen name="ServerSelect" component={ServerSelectScreen} />
+        </>
+      ) : isAuthenticated && !labId ? (
+        // Every other screen is scoped to a lab, so one has to be chosen first.
         <>
+          <Stack.Screen name="LabPicker" component={LabPickerScreen} />
+        </>
+      ) : isAuthenticated ? (
+        <>
+          <Stack.Screen name="SampleList" component={SampleListScreen} />
+
+          <Stack.Screen name="SampleDetail" component={SampleDetailScreen} />
+
+          <Stack.Screen name="TestResultDetail" component={TestResultDetailScreen} />
+
+          {canEditSamples && <Stack.Screen name="SampleEdit" component={SampleEditScreen} />}
+
+          {canEnterResults && (
+            <Stack.Screen name="TestResultEntry" component={TestResultEntryScreen} />
+          )}
+
           <Stack.Screen name="Welcome" component={WelcomeScreen} />
 
           <Stack.Screen name="Demo" component={DemoNavigator} />
+
+          <Stack.Screen name="PendingChanges" component={PendingChangesScreen} />
+
+          <Stack.Screen name="ConflictResolution" component={ConflictResolutionScreen} />
+
+          <Stack.Screen name="LabPicker" component={LabPickerScreen} />
+
+          <Stack.Screen name="Settings" component={SettingsScreen} />
+
+          <Stack.Screen name="ChangePassword" component={ChangePasswordScreen} />
+
+          <Stack.Screen name="Diagnostics" component={DiagnosticsScreen} />
+
+          <Stack.Screen name="ServerSelect" component={ServerSelectScreen} />
+
+          <Stack.Screen name="VerifyEmail" component={VerifyEmailScreen} />
+
+          {canViewAdmin && <Stack.Screen name="Admin" component={AdminScreen} />}
+
+          {canManageParameters && (
+            <>
+              <Stack.Screen name="ParameterList" component={ParameterListScreen} />
+
+              <Stack.Screen name="ParameterEdit" component={ParameterEditScreen} />
+            </>
+          )}
+
+          {canManageLabs && (
+            <>
+              <Stack.Screen name="LabList" component={LabListScreen} />
+
+              <Stack.Screen name="LabEdit" component={LabEditScreen} />
+            </>
+          )}
+
+          {canManageUsers && (
+            <>
+              <Stack.Screen name="UserList" component={UserListScreen} />
+
+              <Stack.Screen name="UserCreate" component={UserCreateScreen} />
+
+              <Stack.Screen name="UserDetail" component={UserDetailScreen} />
+            </>
+          )}
+
+          {canViewAudit && (
+            <>
+              <Stack.Screen name="AuditLogList" component={AuditLogListScreen} />
+
+              <Stack.Screen name="AuditLogDetail" component={AuditLogDetailScreen} />
+            </>
+          )}
         </>
       ) : (
         <>
           <Stack.Screen name="Login" component={LoginScreen} />
+
+          <Stack.Screen name="ForgotPassword" component={ForgotPasswordScreen} />
+
+          <Stack.Screen name="ResetPassword" component={ResetPasswordScreen} />
+
+          <Stack.Screen name="VerifyEmail" component={VerifyEmailScreen} />
+
+          <Stack.Screen name="Diagnostics" component={DiagnosticsScreen} />
+
+          <Stack.Screen name="ServerSelect" component={ServerSelectScreen} />
         </>
       )}
 
@@ -7,6 +7,8 @@ import {
 } from "@react-navigation/native"
 import { NativeStackScreenProps } from "@react-navigation/native-stack"
 
+import type { UpdateSampleDto, UpdateTestResultDto } from "@/services/api/types"
+
 // Demo Tab Navigator types
 export type DemoTabParamList = {
   DemoCommunity: undefined
@@ -20,6 +22,43 @@ export type AppStackParamList = {
   Welcome: undefined
   Login: undefined
   Demo: NavigatorScreenParams<DemoTabParamList>
+  LabPicker: undefined
+  SampleList: undefined
+  SampleDetail: { sampleId: string }
+  /** Omit `sampleId` to create a new sample. */
+  SampleEdit: { sampleId?: string }
+  TestResultEntry: { sampleId: string }
+  TestResultDetail: { testResultId: string }
+  PendingChanges: undefined
+  /**
+   * `local` is the payload the server rejected with a version conflict. `entryId` is set
+   * when the conflict came from an outbox replay, so the entry can be dropped once resolved.
+   */
+  ConflictResolution:
+    | { entityType: "sample"; id: string; local: UpdateSampleDto; entryId?: string }
+    | { entityType: "testResult"; id: string; local: UpdateTestResultDto; entryId?: string }
+  Admin: undefined
+  ParameterList: undefined
+  /** Omit `parameterId` to create a new parameter. */
+  ParameterEdit: { parameterId?: string }
+  LabList: undefined
+  /** Omit `labId` to create a new lab. */
+  LabEdit: { labId?: string }
+  UserList: undefined
+  UserCreate: undefined
+  UserDetail: { userId: string }
+  AuditLogList: undefined
+  AuditLogDetail: { auditLogId: string }
+  Settings: undefined
+  ChangePassword: undefined
+  ForgotPassword: undefined
+  /** Both are filled in when the screen is opened from the emailed reset link. */
+  ResetPassword: { email?: string; code?: string } | undefined
+  /** Opened from the link in the verification email, which carries both. */
+  VerifyEmail: { userId?: string; code?: string } | undefined
+  Diagnostics: undefined
+  ServerIncompatible: undefined
+  ServerSelect: undefined
   // 🔥 Your screens go here
   // IGNITE_GENERATOR_ANCHOR_APP_STACK_PARAM_LIST
 }
@@ -0,0 +1,84 @@
+import { FC } from "react"
+import { ScrollView, TextStyle, ViewStyle } from "react-native"
+
+import { Can } from "@/components/Can"
+import { ListItem } from "@/components/ListItem"
+import { Screen } from "@/components/Screen"
+import { Text } from "@/components/Text"
+import type { AppStackScreenProps } from "@/navigators/navigationTypes"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+import { useHeader } from "@/utils/useHeader"
+
+interface AdminScreenProps extends AppStackScreenProps<"Admin"> {}
+
+/** Entry point to the lab administration screens; each section is shown only to roles that can use it. */
+export const AdminScreen: FC<AdminScreenProps> = ({ navigation }) => {
+  const { themed } = useAppTheme()
+
+  useHeader(
+    { titleTx: "adminScreen:title", leftIcon: "back", onLeftPress: () => navigation.goBack() },
+    [navigation],
+  )
+
+  return (
+    <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+      <ScrollView contentContainerStyle={themed($content)}>
+        <Can permission="parameter:manage">
+          <ListItem
+            bottomSeparator
+            rightIcon="caretRight"
+            onPress={() => navigation.navigate("ParameterList")}
+          >
+            <Text weight="medium" tx="adminScreen:parameters" />
+            {"\n"}
+            <Text size="xs" tx="adminScreen:parametersDescription" style={themed($meta)} />
+          </ListItem>
+        </Can>
+        <Can permission="lab:manage">
+          <ListItem
+            bottomSeparator
+            rightIcon="caretRight"
+            onPress={() => navigation.navigate("LabList")}
+          >
+            <Text weight="medium" tx="adminScreen:labs" />
+            {"\n"}
+            <Text size="xs" tx="adminScreen:labsDescription" style={themed($meta)} />
+          </ListItem>
+        </Can>
+        <Can permission="user:manage">
+          <ListItem
+            bottomSeparator
+            rightIcon="caretRight"
+            onPress={() => navigation.navigate("UserList")}
+          >
+            <Text weight="medium" tx="adminScreen:users" />
+            {"\n"}
+            <Text size="xs" tx="adminScreen:usersDescription" style={themed($meta)} />
+          </ListItem>
+        </Can>
+        <Can permission="audit:view">
+          <ListItem
+            bottomSeparator
+            rightIcon="caretRight"
+            onPress={() => navigation.navigate("AuditLogList")}
+          >
+            <Text weight="medium" tx="adminScreen:auditLog" />
+            {"\n"}
+            <Text size="xs" tx="adminScreen:auditLogDescription" style={themed($meta)} />
+          </ListItem>
+        </Can>
+      </ScrollView>
+    </Screen>
+  )
+}
+
+const $content: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  paddingHorizontal: spacing.lg,
+  paddingBottom: spacing.lg,
+})
+
+const $meta: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
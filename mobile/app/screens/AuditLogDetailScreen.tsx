@@ -0,0 +1,179 @@
+import { FC, useEffect, useState } from "react"
+import { ActivityIndicator, ScrollView, TextStyle, View, ViewStyle } from "react-native"
+
+import { Screen } from "@/components/Screen"
+import { StatusBadge } from "@/components/StatusBadge"
+import { Text } from "@/components/Text"
+import type { TxKeyPath } from "@/i18n"
+import { translate } from "@/i18n/translate"
+import type { AppStackScreenProps } from "@/navigators/navigationTypes"
+import { api } from "@/services/api"
+import {
+  ARCHIVED_APPEARANCE,
+  AuditActions,
+  EntityTypes,
+  TRUNCATED_APPEARANCE,
+} from "@/services/api/enums"
+import type { AuditLogDto } from "@/services/api/types"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+import { type AuditValue, diffAuditValues } from "@/utils/auditDiff"
+import { formatDate } from "@/utils/formatDate"
+import { useAbortSignal } from "@/utils/useAbortSignal"
+import { useHeader } from "@/utils/useHeader"
+
+interface AuditLogDetailScreenProps extends AppStackScreenProps<"AuditLogDetail"> {}
+
+/** One audit entry, with its recorded old and new values shown as a per-field diff. */
+export const AuditLogDetailScreen: FC<AuditLogDetailScreenProps> = ({ navigation, route }) => {
+  const { auditLogId } = route.params
+  const { themed } = useAppTheme()
+
+  const [entry, setEntry] = useState<AuditLogDto | undefined>()
+  const [failed, setFailed] = useState(false)
+  const signal = useAbortSignal()
+
+  useHeader(
+    {
+      titleTx: "auditLogDetailScreen:title",
+      leftIcon: "back",
+      onLeftPress: () => navigation.goBack(),
+    },
+    [navigation],
+  )
+
+  useEffect(() => {
+    void api.getAuditLogById(auditLogId, { signal: signal() }).then((result) => {
+      if (result.kind === "ok") setEntry(result.data)
+      else if (result.kind !== "cancelled") setFailed(true)
+    })
+  }, [auditLogId, signal])
+
+  if (!entry) {
+    return (
+      <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+        {failed ? (
+          <Text tx="auditLogDetailScreen:loadFailed" style={themed($error)} />
+        ) : (
+          <ActivityIndicator />
+        )}
+      </Screen>
+    )
+  }
+
+  const changes = diffAuditValues(entry.oldValue, entry.newValue)
+
+  /** A cut-off value ends in an ellipsis; the truncation notice above explains it. */
+  function display(value: AuditValue | undefined) {
+    if (!value) return translate("auditLogDetailScreen:notRecorded")
+    if (!value.text) return translate("auditLogDetailScreen:empty")
+    return value.truncated ? `${value.text}…` : value.text
+  }
+
+  return (
+    <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+      <ScrollView contentContainerStyle={themed($content)}>
+        <View style={themed($titleRow)}>
+          <Text preset="subheading" tx={AuditActions.tx(entry.action)} />
+          <Text tx={EntityTypes.tx(entry.entityType)} />
+          {entry.isArchived && (
+            <StatusBadge appearance={ARCHIVED_APPEARANCE} tx="auditLogFields:archived" />
+          )}
+          {entry.isTruncated && (
+            <StatusBadge appearance={TRUNCATED_APPEARANCE} tx="auditLogFields:truncated" />
+          )}
+        </View>
+
+        <Field labelTx="auditLogFields:timestamp">
+          {entry.timestamp ? formatDate(entry.timestamp, "MMM dd, yyyy HH:mm:ss") : ""}
+        </Field>
+        <Field labelTx="auditLogFields:user">{entry.userEmail ?? entry.userId}</Field>
+        <Field labelTx="auditLogFields:entityId">{entry.entityId}</Field>
+        {entry.ipAddress && <Field labelTx="auditLogFields:ipAddress">{entry.ipAddress}</Field>}
+
+        {entry.isArchived && (
+          <Text size="xs" tx="auditLogDetailScreen:archivedNotice" style={themed($dim)} />
+        )}
+        {entry.isTruncated && (
+          <Text size="xs" tx="auditLogDetailScreen:truncatedNotice" style={themed($warning)} />
+        )}
+
+        <Text preset="subheading" tx="auditLogDetailScreen:changes" style={themed($heading)} />
+        {changes === undefined ? (
+          <>
+            <Text size="xs" tx="auditLogDetailScreen:unreadable" style={themed($dim)} />
+            <Field labelTx="auditLogDetailScreen:before">{entry.oldValue ?? ""}</Field>
+            <Field labelTx="auditLogDetailScreen:after">{entry.newValue ?? ""}</Field>
+          </>
+        ) : changes.length === 0 ? (
+          <Text tx="auditLogDetailScreen:noChanges" />
+        ) : (
+          changes.map((change) => (
+            <View key={change.field} style={themed($change)}>
+              <Text weight="medium" text={change.field} />
+              <Text size="xs" style={themed($before)}>
+                {"− "}
+                {display(change.before)}
+              </Text>
+              <Text size="xs" style={themed($after)}>
+                {"+ "}
+                {display(change.after)}
+              </Text>
+            </View>
+          ))
+        )}
+      </ScrollView>
+    </Screen>
+  )
+}
+
+const Field = ({ labelTx, children }: { labelTx: TxKeyPath; children: string | undefined }) => {
+  const { themed } = useAppTheme()
+  return (
+    <View>
+      <Text size="xs" tx={labelTx} style={themed($dim)} />
+      <Text selectable text={children ?? ""} />
+    </View>
+  )
+}
+
+const $content: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  padding: spacing.lg,
+  gap: spacing.sm,
+})
+
+const $titleRow: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  flexDirection: "row",
+  flexWrap: "wrap",
+  alignItems: "center",
+  gap: spacing.xs,
+})
+
+const $heading: ThemedStyle<TextStyle> = ({ spacing }) => ({
+  marginTop: spacing.md,
+})
+
+const $change: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  paddingBottom: spacing.xs,
+})
+
+const $before: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.error,
+})
+
+const $after: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.success,
+})
+
+const $dim: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
+
+const $warning: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.warning,
+})
+
+const $error: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.error,
+})
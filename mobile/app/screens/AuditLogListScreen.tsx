@@ -0,0 +1,254 @@
+import { FC, useCallback, useState } from "react"
+import { TextStyle, View, ViewStyle } from "react-native"
+
+import { Button } from "@/components/Button"
+import { ListItem } from "@/components/ListItem"
+import { PagedList } from "@/components/PagedList"
+import { Screen } from "@/components/Screen"
+import { StatusBadge } from "@/components/StatusBadge"
+import { Text } from "@/components/Text"
+import { TextField } from "@/components/TextField"
+import { Radio } from "@/components/Toggle/Radio"
+import { Switch } from "@/components/Toggle/Switch"
+import type { AppStackScreenProps } from "@/navigators/navigationTypes"
+import { api } from "@/services/api"
+import {
+  ARCHIVED_APPEARANCE,
+  AuditActions,
+  EntityTypes,
+  TRUNCATED_APPEARANCE,
+} from "@/services/api/enums"
+import type { AuditLogDto } from "@/services/api/types"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+import {
+  activeFilterCount,
+  AUDIT_FILTER_DATE_FORMAT,
+  type AuditFilterErrors,
+  type AuditFilterValues,
+  emptyAuditFilter,
+  toAuditLogFilterDto,
+  validateAuditFilter,
+} from "@/utils/auditFilter"
+import { formatDate } from "@/utils/formatDate"
+import { useHeader } from "@/utils/useHeader"
+import { type PageFetcher, usePagedList } from "@/utils/usePagedList"
+
+const PAGE_SIZE = 50
+
+interface AuditLogListScreenProps extends AppStackScreenProps<"AuditLogList"> {}
+
+/**
+ * The lab's audit trail, newest first. Filters are edited in a collapsible panel and only
+ * take effect when applied, so a half-typed id doesn't fire a request per keystroke.
+ */
+export const AuditLogListScreen: FC<AuditLogListScreenProps> = ({ navigation }) => {
+  const { themed } = useAppTheme()
+
+  const [draft, setDraft] = useState<AuditFilterValues>(() => emptyAuditFilter())
+  const [filter, setFilter] = useState<AuditFilterValues>(() => emptyAuditFilter())
+  const [errors, setErrors] = useState<AuditFilterErrors>({})
+  const [showFilters, setShowFilters] = useState(false)
+
+  const list = usePagedList(
+    useCallback<PageFetcher<AuditLogDto>>(
+      (page, size, options) => api.getAuditLogs(toAuditLogFilterDto(filter, page, size), options),
+      [filter],
+    ),
+    { pageSize: PAGE_SIZE },
+  )
+
+  useHeader(
+    {
+      titleTx: "auditLogListScreen:title",
+      leftIcon: "back",
+      onLeftPress: () => navigation.goBack(),
+    },
+    [navigation],
+  )
+
+  function setField<K extends keyof AuditFilterValues>(field: K, value: AuditFilterValues[K]) {
+    setDraft({ ...draft, [field]: value })
+    if (errors[field]) setErrors({ ...errors, [field]: undefined })
+  }
+
+  function applyFilters() {
+    const validation = validateAuditFilter(draft)
+    setErrors(validation)
+    if (Object.keys(validation).length > 0) return
+    setFilter(draft)
+    setShowFilters(false)
+  }
+
+  function clearFilters() {
+    setDraft(emptyAuditFilter())
+    setErrors({})
+    setFilter(emptyAuditFilter())
+  }
+
+  const filterCount = activeFilterCount(filter)
+
+  return (
+    <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+      <PagedList<AuditLogDto>
+        contentContainerStyle={themed($listContentContainer)}
+        list={list}
+        emptyHeadingTx="auditLogListScreen:emptyHeading"
+        emptyContentTx={
+          filterCount > 0
+            ? "auditLogListScreen:emptyFilteredContent"
+            : "auditLogListScreen:emptyContent"
+        }
+        failedHeadingTx="auditLogListScreen:loadFailed"
+        keyboardShouldPersistTaps="handled"
+        ListHeaderComponent={
+          <View style={themed($filters)}>
+            <Button
+              tx={showFilters ? "auditLogListScreen:hideFilters" : "auditLogListScreen:showFilters"}
+              txOptions={{ count: filterCount }}
+              onPress={() => setShowFilters(!showFilters)}
+            />
+            {showFilters && (
+              <>
+                <Text preset="formLabel" tx="auditLogFields:entityType" />
+                <View style={themed($options)}>
+                  <Radio
+                    value={draft.entityType === undefined}
+                    onValueChange={() => setField("entityType", undefined)}
+                    labelTx="auditLogListScreen:any"
+                  />
+                  {EntityTypes.options.map((option) => (
+                    <Radio
+                      key={option.value}
+                      value={draft.entityType === option.value}
+                      onValueChange={() => setField("entityType", option.value)}
+                      labelTx={option.tx}
+                    />
+                  ))}
+                </View>
+
+                <Text preset="formLabel" tx="auditLogFields:action" />
+                <View style={themed($options)}>
+                  <Radio
+                    value={draft.action === undefined}
+                    onValueChange={() => setField("action", undefined)}
+                    labelTx="auditLogListScreen:any"
+                  />
+                  {AuditActions.options.map((option) => (
+                    <Radio
+                      key={option.value}
+                      value={draft.action === option.value}
+                      onValueChange={() => setField("action", option.value)}
+                      labelTx={option.tx}
+                    />
+                  ))}
+                </View>
+
+                <TextField
+                  value={draft.entityId}
+                  onChangeText={(text) => setField("entityId", text)}
+                  labelTx="auditLogFields:entityId"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  helperTx={errors.entityId}
+                  status={errors.entityId ? "error" : undefined}
+                />
+                <TextField
+                  value={draft.userId}
+                  onChangeText={(text) => setField("userId", text)}
+                  labelTx="auditLogFields:userId"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  helperTx={errors.userId}
+                  status={errors.userId ? "error" : undefined}
+                />
+                <TextField
+                  value={draft.startDate}
+                  onChangeText={(text) => setField("startDate", text)}
+                  labelTx="auditLogFields:startDate"
+                  placeholder={AUDIT_FILTER_DATE_FORMAT}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  helperTx={errors.startDate}
+                  status={errors.startDate ? "error" : undefined}
+                />
+                <TextField
+                  value={draft.endDate}
+                  onChangeText={(text) => setField("endDate", text)}
+                  labelTx="auditLogFields:endDate"
+                  placeholder={AUDIT_FILTER_DATE_FORMAT}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  helperTx={errors.endDate}
+                  status={errors.endDate ? "error" : undefined}
+                />
+                <Switch
+                  value={draft.includeArchived}
+                  onValueChange={(value) => setField("includeArchived", value)}
+                  labelTx="auditLogFields:includeArchived"
+                />
+
+                <Button preset="reversed" tx="auditLogListScreen:apply" onPress={applyFilters} />
+                <Button tx="auditLogListScreen:clear" onPress={clearFilters} />
+              </>
+            )}
+          </View>
+        }
+        renderItem={({ item }) => (
+          <ListItem
+            height={72}
+            bottomSeparator
+            rightIcon="caretRight"
+            onPress={() =>
+              item.id && navigation.navigate("AuditLogDetail", { auditLogId: item.id })
+            }
+          >
+            <View style={themed($titleRow)}>
+              <Text weight="medium" tx={AuditActions.tx(item.action)} />
+              <Text tx={EntityTypes.tx(item.entityType)} />
+              {item.isArchived && (
+                <StatusBadge appearance={ARCHIVED_APPEARANCE} tx="auditLogFields:archived" />
+              )}
+              {item.isTruncated && (
+                <StatusBadge appearance={TRUNCATED_APPEARANCE} tx="auditLogFields:truncated" />
+              )}
+            </View>
+            <Text size="xs" style={themed($meta)}>
+              {[
+                item.timestamp ? formatDate(item.timestamp, "MMM dd, yyyy HH:mm") : undefined,
+                item.userEmail,
+              ]
+                .filter(Boolean)
+                .join(" · ")}
+            </Text>
+          </ListItem>
+        )}
+      />
+    </Screen>
+  )
+}
+
+const $listContentContainer: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  paddingHorizontal: spacing.lg,
+  paddingBottom: spacing.lg,
+})
+
+const $filters: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  gap: spacing.sm,
+  marginVertical: spacing.md,
+})
+
+const $options: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  gap: spacing.xs,
+})
+
+const $titleRow: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  flexDirection: "row",
+  alignItems: "center",
+  gap: spacing.xs,
+})
+
+const $meta: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
@@ -0,0 +1,155 @@
+import { FC, useState } from "react"
+import { Alert, ScrollView, TextStyle, ViewStyle } from "react-native"
+
+import { Button } from "@/components/Button"
+import { Screen } from "@/components/Screen"
+import { Text } from "@/components/Text"
+import { TextField } from "@/components/TextField"
+import type { TxKeyPath } from "@/i18n"
+import { translate } from "@/i18n/translate"
+import type { AppStackScreenProps } from "@/navigators/navigationTypes"
+import { api } from "@/services/api"
+import type { FieldErrors } from "@/services/api/apiProblem"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+import {
+  type ChangePasswordFormValues,
+  emptyChangePasswordForm,
+  type PasswordFormErrors,
+  toChangePasswordRequest,
+  validateChangePasswordForm,
+} from "@/utils/passwordForm"
+import { useHeader } from "@/utils/useHeader"
+
+interface ChangePasswordScreenProps extends AppStackScreenProps<"ChangePassword"> {}
+
+/** Changes the signed-in user's password. Existing sessions stay signed in. */
+export const ChangePasswordScreen: FC<ChangePasswordScreenProps> = ({ navigation }) => {
+  const { themed } = useAppTheme()
+
+  const [values, setValues] = useState<ChangePasswordFormValues>(() => emptyChangePasswordForm())
+  const [errors, setErrors] = useState<PasswordFormErrors<ChangePasswordFormValues>>({})
+  /** Messages from a server-side validation failure, until the field is edited. */
+  const [serverErrors, setServerErrors] = useState<FieldErrors>({})
+  const [isSubmitted, setIsSubmitted] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [errorTx, setErrorTx] = useState<TxKeyPath | undefined>()
+
+  useHeader(
+    {
+      titleTx: "changePasswordScreen:title",
+      leftIcon: "back",
+      onLeftPress: () => navigation.goBack(),
+    },
+    [navigation],
+  )
+
+  function setField(field: keyof ChangePasswordFormValues, value: string) {
+    const next = { ...values, [field]: value }
+    setValues(next)
+    if (serverErrors[field]) setServerErrors({ ...serverErrors, [field]: [] })
+    // Only re-validate as the user types once they have tried to save.
+    if (isSubmitted) setErrors(validateChangePasswordForm(next))
+  }
+
+  async function save() {
+    setIsSubmitted(true)
+    setErrorTx(undefined)
+    setServerErrors({})
+
+    const validation = validateChangePasswordForm(values)
+    setErrors(validation)
+    if (Object.keys(validation).length > 0) return
+
+    setIsSaving(true)
+    const result = await api.changePassword(toChangePasswordRequest(values))
+    setIsSaving(false)
+
+    if (result.kind === "ok") {
+      Alert.alert(translate("changePasswordScreen:saved"))
+      navigation.goBack()
+    } else if (result.kind === "validation") {
+      setServerErrors(result.errors)
+      setErrorTx("passwordFields:saveInvalid")
+    } else if (result.kind === "rejected") {
+      // Identity doesn't say which check failed; a wrong current password is the usual one.
+      setErrorTx("changePasswordScreen:rejected")
+    } else {
+      setErrorTx("passwordFields:saveFailed")
+    }
+  }
+
+  /** Local validation wins; otherwise the first message the server sent for the field. */
+  function fieldStatus(field: keyof ChangePasswordFormValues) {
+    const helper = serverErrors[field]?.[0]
+    return {
+      helperTx: errors[field],
+      helper,
+      status: errors[field] || helper ? ("error" as const) : undefined,
+    }
+  }
+
+  return (
+    <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+      <ScrollView contentContainerStyle={themed($content)} keyboardShouldPersistTaps="handled">
+        {errorTx && <Text tx={errorTx} style={themed($error)} />}
+
+        <TextField
+          value={values.currentPassword}
+          onChangeText={(text) => setField("currentPassword", text)}
+          labelTx="passwordFields:currentPassword"
+          autoCapitalize="none"
+          autoComplete="current-password"
+          autoCorrect={false}
+          secureTextEntry
+          {...fieldStatus("currentPassword")}
+          containerStyle={themed($field)}
+        />
+        <TextField
+          value={values.newPassword}
+          onChangeText={(text) => setField("newPassword", text)}
+          labelTx="passwordFields:newPassword"
+          autoCapitalize="none"
+          autoComplete="new-password"
+          autoCorrect={false}
+          secureTextEntry
+          {...fieldStatus("newPassword")}
+          containerStyle={themed($field)}
+        />
+        <TextField
+          value={values.confirmPassword}
+          onChangeText={(text) => setField("confirmPassword", text)}
+          labelTx="passwordFields:confirmPassword"
+          autoCapitalize="none"
+          autoComplete="new-password"
+          autoCorrect={false}
+          secureTextEntry
+          {...fieldStatus("confirmPassword")}
+          containerStyle={themed($field)}
+        />
+
+        <Button
+          testID="change-password-button"
+          preset="reversed"
+          tx="changePasswordScreen:save"
+          disabled={isSaving}
+          onPress={save}
+        />
+      </ScrollView>
+    </Screen>
+  )
+}
+
+const $content: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  padding: spacing.lg,
+  gap: spacing.sm,
+})
+
+const $field: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  marginBottom: spacing.xs,
+})
+
+const $error: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.error,
+})
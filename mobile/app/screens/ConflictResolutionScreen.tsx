@@ -0,0 +1,239 @@
+import { FC, useCallback, useEffect, useMemo, useState } from "react"
+import { ActivityIndicator, ScrollView, TextStyle, View, ViewStyle } from "react-native"
+
+import { Button } from "@/components/Button"
+import { Screen } from "@/components/Screen"
+import { Text } from "@/components/Text"
+import { Radio } from "@/components/Toggle/Radio"
+import { useSync } from "@/context/SyncContext"
+import type { TxKeyPath } from "@/i18n"
+import type { AppStackScreenProps } from "@/navigators/navigationTypes"
+import { api } from "@/services/api"
+import type {
+  SampleDto,
+  TestResultDto,
+  UpdateSampleDto,
+  UpdateTestResultDto,
+} from "@/services/api/types"
+import {
+  type ConflictChoice,
+  diffFields,
+  type FieldDiff,
+  mergeFields,
+  SAMPLE_CONFLICT_FIELDS,
+  TEST_RESULT_CONFLICT_FIELDS,
+} from "@/services/sync/conflicts"
+import { outboxStore } from "@/stores/outboxStore"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+import { useAbortSignal } from "@/utils/useAbortSignal"
+import { useApiMutation } from "@/utils/useApiMutation"
+import { useHeader } from "@/utils/useHeader"
+
+interface ConflictResolutionScreenProps extends AppStackScreenProps<"ConflictResolution"> {}
+
+type ServerRecord = SampleDto | TestResultDto
+
+function formatValue(value: unknown): string {
+  return value === undefined || value === null || value === "" ? "—" : String(value)
+}
+
+export const ConflictResolutionScreen: FC<ConflictResolutionScreenProps> = ({
+  navigation,
+  route,
+}) => {
+  const { params } = route
+  const { themed } = useAppTheme()
+  const { updateSample, updateTestResult } = useSync()
+  const { mutate: saveSample, isPending: isSavingSample } = useApiMutation(
+    ({ id, dto }: { id: string; dto: UpdateSampleDto }) => updateSample(id, dto),
+    { invalidates: ({ id }) => [["getSampleById", id]] },
+  )
+  const { mutate: saveTestResult, isPending: isSavingTestResult } = useApiMutation(
+    ({ id, dto }: { id: string; sampleId?: string; dto: UpdateTestResultDto }) =>
+      updateTestResult(id, dto),
+    {
+      invalidates: ({ sampleId }) => [
+        sampleId ? ["getTestResultsBySample", sampleId] : ["getTestResultsBySample"],
+      ],
+    },
+  )
+  const isSaving = isSavingSample || isSavingTestResult
+
+  const [server, setServer] = useState<ServerRecord | undefined>()
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({})
+  const [errorTx, setErrorTx] = useState<TxKeyPath | undefined>()
+
+  useHeader(
+    {
+      titleTx: "conflictResolutionScreen:title",
+      leftIcon: "back",
+      onLeftPress: () => navigation.goBack(),
+    },
+    [navigation],
+  )
+
+  const signal = useAbortSignal()
+
+  const loadServerCopy = useCallback(async () => {
+    setErrorTx(undefined)
+    const result =
+      params.entityType === "sample"
+        ? await api.getSampleById(params.id, { signal: signal() })
+        : await api.getTestResultById(params.id, { signal: signal() })
+    if (result.kind === "ok") {
+      setServer(result.data)
+      setChoices({})
+    } else {
+      setErrorTx("conflictResolutionScreen:loadFailed")
+    }
+  }, [params.entityType, params.id, signal])
+
+  useEffect(() => {
+    void loadServerCopy()
+  }, [loadServerCopy])
+
+  const diffs = useMemo<FieldDiff[]>(() => {
+    if (!server) return []
+    return params.entityType === "sample"
+      ? diffFields(params.local, server as SampleDto, SAMPLE_CONFLICT_FIELDS)
+      : diffFields(params.local, server as TestResultDto, TEST_RESULT_CONFLICT_FIELDS)
+  }, [params, server])
+
+  function chooseAll(choice: ConflictChoice) {
+    setChoices(Object.fromEntries(diffs.map((diff) => [diff.field, choice])))
+  }
+
+  async function save() {
+    if (!server) return
+    setErrorTx(undefined)
+
+    const result =
+      params.entityType === "sample"
+        ? await saveSample({
+            id: params.id,
+            dto: mergeFields(params.local, server as SampleDto, choices),
+          })
+        : await saveTestResult({
+            id: params.id,
+            sampleId: (server as TestResultDto).sampleId,
+            dto: mergeFields(params.local, server as TestResultDto, choices),
+          })
+
+    if (result.kind === "ok" || result.kind === "queued") {
+      if (params.entryId) outboxStore.remove(params.entryId)
+      navigation.goBack()
+      return
+    }
+
+    if (result.kind === "conflict" && "server" in result) {
+      // Someone saved again while we were resolving; start over against the newest copy.
+      setServer(result.server as ServerRecord)
+      setChoices({})
+      setErrorTx("conflictResolutionScreen:changedAgain")
+      return
+    }
+
+    setErrorTx("conflictResolutionScreen:saveFailed")
+  }
+
+  const fieldNamespace = params.entityType === "sample" ? "sampleFields" : "testResultFields"
+
+  return (
+    <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+      <ScrollView contentContainerStyle={themed($content)}>
+        <Text preset="subheading" tx="conflictResolutionScreen:heading" />
+        <Text tx="conflictResolutionScreen:description" style={themed($description)} />
+
+        {errorTx && <Text tx={errorTx} style={themed($error)} />}
+
+        {!server ? (
+          <ActivityIndicator />
+        ) : diffs.length === 0 ? (
+          <Text tx="conflictResolutionScreen:noDifferences" />
+        ) : (
+          diffs.map((diff) => {
+            const choice = choices[diff.field] ?? "local"
+            return (
+              <View key={diff.field} style={themed($fieldRow)}>
+                <Text
+                  weight="semiBold"
+                  tx={`${fieldNamespace}:${diff.field}` as TxKeyPath}
+                  style={themed($fieldLabel)}
+                />
+                <Radio
+                  value={choice === "local"}
+                  onValueChange={() => setChoices((prev) => ({ ...prev, [diff.field]: "local" }))}
+                  labelTx="conflictResolutionScreen:mine"
+                  labelTxOptions={{ value: formatValue(diff.local) }}
+                />
+                <Radio
+                  value={choice === "server"}
+                  onValueChange={() => setChoices((prev) => ({ ...prev, [diff.field]: "server" }))}
+                  labelTx="conflictResolutionScreen:theirs"
+                  labelTxOptions={{ value: formatValue(diff.server) }}
+                  containerStyle={themed($secondOption)}
+                />
+              </View>
+            )
+          })
+        )}
+
+        {server && diffs.length > 0 && (
+          <View style={themed($bulkActions)}>
+            <Button
+              style={$styles.flex1}
+              tx="conflictResolutionScreen:keepAllMine"
+              onPress={() => chooseAll("local")}
+            />
+            <Button
+              style={$styles.flex1}
+              tx="conflictResolutionScreen:useAllTheirs"
+              onPress={() => chooseAll("server")}
+            />
+          </View>
+        )}
+
+        <Button
+          preset="reversed"
+          tx="conflictResolutionScreen:saveMerged"
+          disabled={!server || isSaving}
+          onPress={save}
+        />
+      </ScrollView>
+    </Screen>
+  )
+}
+
+const $content: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  padding: spacing.lg,
+  gap: spacing.md,
+})
+
+const $description: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
+
+const $error: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.error,
+})
+
+const $fieldRow: ThemedStyle<ViewStyle> = ({ colors, spacing }) => ({
+  paddingVertical: spacing.sm,
+  borderBottomWidth: 1,
+  borderBottomColor: colors.separator,
+})
+
+const $fieldLabel: ThemedStyle<TextStyle> = ({ spacing }) => ({
+  marginBottom: spacing.xs,
+})
+
+const $secondOption: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  marginTop: spacing.xs,
+})
+
+const $bulkActions: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  flexDirection: "row",
+  gap: spacing.sm,
+})
@@ -0,0 +1,127 @@
+import { FC, useCallback, useEffect, useState } from "react"
+import { ActivityIndicator, ScrollView, Share, TextStyle, View, ViewStyle } from "react-native"
+import * as Application from "expo-application"
+
+import { Button } from "@/components/Button"
+import { ListItem } from "@/components/ListItem"
+import { Screen } from "@/components/Screen"
+import { Text } from "@/components/Text"
+import { useAuth } from "@/context/AuthContext"
+import type { AppStackScreenProps } from "@/navigators/navigationTypes"
+import { api } from "@/services/api"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+import { type DiagnosticCheck, diagnosticsReport, runCheck } from "@/utils/serverDiagnostics"
+import { useAbortSignal } from "@/utils/useAbortSignal"
+import { useHeader } from "@/utils/useHeader"
+
+interface DiagnosticsScreenProps extends AppStackScreenProps<"Diagnostics"> {}
+
+/**
+ * Probes the server's health routes, and its version once signed in, so a user on a
+ * support call can read out or share what the app sees.
+ */
+export const DiagnosticsScreen: FC<DiagnosticsScreenProps> = ({ navigation }) => {
+  const {
+    themed,
+    theme: { colors },
+  } = useAppTheme()
+  const { isAuthenticated, server } = useAuth()
+
+  const [checks, setChecks] = useState<DiagnosticCheck[]>([])
+  const [checkedAt, setCheckedAt] = useState<Date | undefined>()
+  const [isRunning, setIsRunning] = useState(false)
+  const signal = useAbortSignal()
+
+  useHeader(
+    {
+      titleTx: "diagnosticsScreen:title",
+      leftIcon: "back",
+      onLeftPress: () => navigation.goBack(),
+    },
+    [navigation],
+  )
+
+  const run = useCallback(async () => {
+    setIsRunning(true)
+    // No retries: a probe that needed three attempts should show as slow or failing.
+    const options = { signal: signal(), retry: false }
+    const results = await Promise.all([
+      runCheck("live", () => api.getLiveness(options)),
+      runCheck("startup", () => api.getStartup(options)),
+      runCheck("ready", () => api.getReadiness(options)),
+      ...(isAuthenticated ? [runCheck("version", () => api.getServerVersion(options))] : []),
+    ])
+    if (results.some((check) => check.detail === "cancelled")) return
+    setChecks(results)
+    setCheckedAt(new Date())
+    setIsRunning(false)
+  }, [isAuthenticated, signal])
+
+  useEffect(() => {
+    void run()
+  }, [run])
+
+  function share() {
+    if (!checkedAt) return
+    void Share.share({
+      message: diagnosticsReport(checks, {
+        apiUrl: server.url,
+        appVersion: Application.nativeApplicationVersion,
+        checkedAt,
+      }),
+    })
+  }
+
+  return (
+    <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+      <ScrollView contentContainerStyle={themed($content)}>
+        <View>
+          <Text size="xs" tx="diagnosticsScreen:server" style={themed($dim)} />
+          <Text text={server.url} />
+        </View>
+        <View>
+          <Text size="xs" tx="diagnosticsScreen:appVersion" style={themed($dim)} />
+          <Text text={Application.nativeApplicationVersion ?? "—"} />
+        </View>
+
+        {isRunning && checks.length === 0 ? (
+          <ActivityIndicator />
+        ) : (
+          <View>
+            {checks.map((check) => (
+              <ListItem
+                key={check.name}
+                bottomSeparator
+                leftIcon={check.ok ? "check" : "x"}
+                leftIconColor={check.ok ? colors.success : colors.error}
+              >
+                <Text weight="medium" tx={`diagnosticsScreen:checks.${check.name}`} />
+                {"\n"}
+                <Text size="xs" style={themed($dim)}>
+                  {`${check.detail} · ${check.elapsedMs} ms`}
+                </Text>
+              </ListItem>
+            ))}
+          </View>
+        )}
+        {!isAuthenticated && (
+          <Text size="xs" tx="diagnosticsScreen:versionNeedsSignIn" style={themed($dim)} />
+        )}
+
+        <Button tx="diagnosticsScreen:runAgain" disabled={isRunning} onPress={() => void run()} />
+        <Button tx="diagnosticsScreen:share" disabled={!checkedAt || isRunning} onPress={share} />
+      </ScrollView>
+    </Screen>
+  )
+}
+
+const $content: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  padding: spacing.lg,
+  gap: spacing.md,
+})
+
+const $dim: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
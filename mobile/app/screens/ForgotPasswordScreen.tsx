@@ -0,0 +1,121 @@
+import { FC, useState } from "react"
+import { ScrollView, TextStyle, ViewStyle } from "react-native"
+
+import { Button } from "@/components/Button"
+import { Screen } from "@/components/Screen"
+import { Text } from "@/components/Text"
+import { TextField } from "@/components/TextField"
+import type { TxKeyPath } from "@/i18n"
+import type { AppStackScreenProps } from "@/navigators/navigationTypes"
+import { api } from "@/services/api"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+import { emailError } from "@/utils/passwordForm"
+import { useHeader } from "@/utils/useHeader"
+
+interface ForgotPasswordScreenProps extends AppStackScreenProps<"ForgotPassword"> {}
+
+/**
+ * Asks the backend to email a reset link. Opening the link lands on `ResetPassword` with
+ * the code filled in; the user can also carry on by hand once the email is sent.
+ */
+export const ForgotPasswordScreen: FC<ForgotPasswordScreenProps> = ({ navigation }) => {
+  const { themed } = useAppTheme()
+
+  const [email, setEmail] = useState("")
+  const [emailErrorTx, setEmailErrorTx] = useState<TxKeyPath | undefined>()
+  const [isSubmitted, setIsSubmitted] = useState(false)
+  const [isSending, setIsSending] = useState(false)
+  const [isSent, setIsSent] = useState(false)
+  const [errorTx, setErrorTx] = useState<TxKeyPath | undefined>()
+
+  useHeader(
+    {
+      titleTx: "forgotPasswordScreen:title",
+      leftIcon: "back",
+      onLeftPress: () => navigation.goBack(),
+    },
+    [navigation],
+  )
+
+  function changeEmail(text: string) {
+    setEmail(text)
+    setIsSent(false)
+    if (isSubmitted) setEmailErrorTx(emailError(text))
+  }
+
+  async function send() {
+    setIsSubmitted(true)
+    setErrorTx(undefined)
+
+    const validation = emailError(email)
+    setEmailErrorTx(validation)
+    if (validation) return
+
+    setIsSending(true)
+    const result = await api.forgotPassword({ email: email.trim() })
+    setIsSending(false)
+
+    if (result.kind === "ok") setIsSent(true)
+    else if (result.kind === "rate-limited") setErrorTx("passwordFields:rateLimited")
+    else setErrorTx("forgotPasswordScreen:sendFailed")
+  }
+
+  return (
+    <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+      <ScrollView contentContainerStyle={themed($content)} keyboardShouldPersistTaps="handled">
+        <Text tx="forgotPasswordScreen:description" style={themed($dim)} />
+        {errorTx && <Text tx={errorTx} style={themed($error)} />}
+
+        <TextField
+          value={email}
+          onChangeText={changeEmail}
+          labelTx="passwordFields:email"
+          autoCapitalize="none"
+          autoComplete="email"
+          keyboardType="email-address"
+          helperTx={emailErrorTx}
+          status={emailErrorTx ? "error" : undefined}
+          containerStyle={themed($field)}
+        />
+
+        {isSent ? (
+          <>
+            {/* The backend answers the same for unknown addresses, so this can't promise more. */}
+            <Text tx="forgotPasswordScreen:sent" />
+            <Button
+              tx="forgotPasswordScreen:enterCode"
+              onPress={() => navigation.navigate("ResetPassword", { email: email.trim() })}
+            />
+          </>
+        ) : (
+          <Button
+            testID="send-reset-link-button"
+            preset="reversed"
+            tx="forgotPasswordScreen:send"
+            disabled={isSending}
+            onPress={send}
+          />
+        )}
+      </ScrollView>
+    </Screen>
+  )
+}
+
+const $content: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  padding: spacing.lg,
+  gap: spacing.sm,
+})
+
+const $field: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  marginBottom: spacing.xs,
+})
+
+const $dim: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
+
+const $error: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.error,
+})
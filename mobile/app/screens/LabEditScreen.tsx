@@ -0,0 +1,301 @@
+import { FC, useEffect, useState } from "react"
+import { ActivityIndicator, Alert, ScrollView, TextStyle, View, ViewStyle } from "react-native"
+
+import { Button } from "@/components/Button"
+import { Screen } from "@/components/Screen"
+import { Text } from "@/components/Text"
+import { TextField } from "@/components/TextField"
+import { useAuth } from "@/context/AuthContext"
+import type { TxKeyPath } from "@/i18n"
+import { translate } from "@/i18n/translate"
+import type { AppStackScreenProps } from "@/navigators/navigationTypes"
+import { api } from "@/services/api"
+import type { FieldErrors, GeneralApiProblem } from "@/services/api/apiProblem"
+import type { LabDto } from "@/services/api/types"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+import { formatDate } from "@/utils/formatDate"
+import {
+  emptyLabForm,
+  type LabFormErrors,
+  type LabFormValues,
+  labToForm,
+  toCreateLabDto,
+  toggleLabActiveDto,
+  toUpdateLabDto,
+  validateLabForm,
+} from "@/utils/labForm"
+import { useAbortSignal } from "@/utils/useAbortSignal"
+import { useHeader } from "@/utils/useHeader"
+
+interface LabEditScreenProps extends AppStackScreenProps<"LabEdit"> {}
+
+/** Creates or edits a lab. Like the parameter catalogue, writes go straight to the server. */
+export const LabEditScreen: FC<LabEditScreenProps> = ({ navigation, route }) => {
+  const { labId } = route.params
+  const isNew = !labId
+  const { themed } = useAppTheme()
+  const { labId: currentLabId, labs: memberships, setLabs } = useAuth()
+
+  const [original, setOriginal] = useState<LabDto | undefined>()
+  /** Display names for `createdBy`/`updatedBy`, which the server only sends as ids. */
+  const [userNames, setUserNames] = useState<Record<string, string>>({})
+  const [values, setValues] = useState<LabFormValues>(() => emptyLabForm())
+  const [errors, setErrors] = useState<LabFormErrors>({})
+  /** Messages from a server-side validation failure, until the field is edited. */
+  const [serverErrors, setServerErrors] = useState<FieldErrors>({})
+  const [isSubmitted, setIsSubmitted] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [errorTx, setErrorTx] = useState<TxKeyPath | undefined>()
+  const signal = useAbortSignal()
+
+  useHeader(
+    {
+      titleTx: isNew ? "labEditScreen:createTitle" : "labEditScreen:editTitle",
+      leftIcon: "back",
+      onLeftPress: () => navigation.goBack(),
+    },
+    [navigation, isNew],
+  )
+
+  useEffect(() => {
+    if (!labId) return
+
+    void api.getLabById(labId, { signal: signal() }).then((result) => {
+      if (result.kind === "ok") {
+        setOriginal(result.data)
+        setValues(labToForm(result.data))
+      } else {
+        setErrorTx("labEditScreen:loadFailed")
+      }
+    })
+  }, [labId, signal])
+
+  // Best effort: the metadata falls back to the raw id when a user can't be looked up.
+  useEffect(() => {
+    const ids = [original?.createdBy, original?.updatedBy].filter((id): id is string => !!id)
+    for (const id of new Set(ids)) {
+      void api.getUserById(id, { signal: signal() }).then((result) => {
+        if (result.kind === "ok" && result.data.userName) {
+          const userName = result.data.userName
+          setUserNames((prev) => ({ ...prev, [id]: userName }))
+        }
+      })
+    }
+  }, [original?.createdBy, original?.updatedBy, signal])
+
+  function setField(field: keyof LabFormValues, value: string) {
+    const next = { ...values, [field]: value }
+    setValues(next)
+    if (serverErrors[field]) setServerErrors({ ...serverErrors, [field]: [] })
+    // Only re-validate as the user types once they have tried to save.
+    if (isSubmitted) setErrors(validateLabForm(next))
+  }
+
+  function handleFailure(result: GeneralApiProblem) {
+    if (result.kind === "validation") {
+      setServerErrors(result.errors)
+      setErrorTx("labEditScreen:saveInvalid")
+    } else if (result.kind === "conflict") {
+      setErrorTx("labEditScreen:duplicateName")
+    } else {
+      setErrorTx("labEditScreen:saveFailed")
+    }
+  }
+
+  /** Keeps the lab switcher and the sample list header in step with a rename. */
+  function syncMembership(lab: LabDto) {
+    if (!lab.name || !memberships.some((membership) => membership.labId === lab.id)) return
+    const labName = lab.name
+    setLabs(
+      memberships.map((membership) =>
+        membership.labId === lab.id ? { ...membership, labName } : membership,
+      ),
+    )
+  }
+
+  async function save() {
+    setIsSubmitted(true)
+    setErrorTx(undefined)
+    setServerErrors({})
+
+    const validation = validateLabForm(values)
+    setErrors(validation)
+    if (Object.keys(validation).length > 0) return
+
+    setIsSaving(true)
+    const result =
+      labId && original
+        ? await api.updateLab(labId, toUpdateLabDto(values, original.isActive ?? true))
+        : await api.createLab(toCreateLabDto(values))
+    setIsSaving(false)
+
+    if (result.kind !== "ok") {
+      handleFailure(result)
+      return
+    }
+    syncMembership(result.data)
+    navigation.goBack()
+  }
+
+  function confirmToggleActive() {
+    if (!original?.isActive) {
+      void setActive(true)
+      return
+    }
+    Alert.alert(
+      translate("labEditScreen:deactivateTitle"),
+      translate(
+        labId === currentLabId
+          ? "labEditScreen:deactivateCurrentMessage"
+          : "labEditScreen:deactivateMessage",
+      ),
+      [
+        { text: translate("common:cancel"), style: "cancel" },
+        {
+          text: translate("labEditScreen:deactivate"),
+          style: "destructive",
+          onPress: () => void setActive(false),
+        },
+      ],
+    )
+  }
+
+  /** Flips `isActive` on the server's copy, leaving any unsaved edits in the form alone. */
+  async function setActive(isActive: boolean) {
+    if (!labId || !original) return
+    setErrorTx(undefined)
+    setIsSaving(true)
+    const result = await api.updateLab(labId, toggleLabActiveDto(original, isActive))
+    setIsSaving(false)
+
+    if (result.kind === "ok") setOriginal(result.data)
+    else handleFailure(result)
+  }
+
+  /** Local validation wins; otherwise the first message the server sent for the field. */
+  function fieldStatus(field: keyof LabFormValues) {
+    const helper = serverErrors[field]?.[0]
+    return {
+      helperTx: errors[field],
+      helper,
+      status: errors[field] || helper ? ("error" as const) : undefined,
+    }
+  }
+
+  function describeChange(at: string | null | undefined, by: string | null | undefined) {
+    if (!at) return undefined
+    return translate("labEditScreen:changedBy", {
+      date: formatDate(at, "MMM dd, yyyy HH:mm"),
+      user: by ? (userNames[by] ?? by) : translate("labEditScreen:unknownUser"),
+    })
+  }
+
+  // Errors for properties the form doesn't show, e.g. `isActive`, are listed under the banner.
+  const otherServerErrors = Object.entries(serverErrors)
+    .filter(([field]) => !(field in values))
+    .flatMap(([, messages]) => messages)
+
+  if (labId && !original && !errorTx) {
+    return (
+      <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+        <ActivityIndicator />
+      </Screen>
+    )
+  }
+
+  const created = describeChange(original?.createdAt ?? original?.createdDate, original?.createdBy)
+  const updated = describeChange(original?.updatedAt, original?.updatedBy)
+
+  return (
+    <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+      <ScrollView contentContainerStyle={themed($content)} keyboardShouldPersistTaps="handled">
+        {errorTx && <Text tx={errorTx} style={themed($error)} />}
+        {otherServerErrors.map((message) => (
+          <Text key={message} size="xs" text={message} style={themed($error)} />
+        ))}
+        {original?.isActive === false && (
+          <Text tx="labEditScreen:inactiveNotice" style={themed($dim)} />
+        )}
+
+        <TextField
+          value={values.name}
+          onChangeText={(text) => setField("name", text)}
+          labelTx="labFields:name"
+          {...fieldStatus("name")}
+          containerStyle={themed($field)}
+        />
+        <TextField
+          value={values.location}
+          onChangeText={(text) => setField("location", text)}
+          labelTx="labFields:location"
+          {...fieldStatus("location")}
+          containerStyle={themed($field)}
+        />
+        <TextField
+          value={values.contactInfo}
+          onChangeText={(text) => setField("contactInfo", text)}
+          labelTx="labFields:contactInfo"
+          {...fieldStatus("contactInfo")}
+          multiline
+          containerStyle={themed($field)}
+        />
+
+        {(created || updated) && (
+          <View style={themed($metadata)}>
+            {created && (
+              <Text size="xs" style={themed($dim)}>
+                <Text size="xs" weight="medium" tx="labFields:created" /> {created}
+              </Text>
+            )}
+            {updated && (
+              <Text size="xs" style={themed($dim)}>
+                <Text size="xs" weight="medium" tx="labFields:updated" /> {updated}
+              </Text>
+            )}
+          </View>
+        )}
+
+        <Button
+          testID="save-lab-button"
+          preset="reversed"
+          tx="labEditScreen:save"
+          disabled={isSaving}
+          onPress={save}
+        />
+        {original && (
+          <Button
+            tx={
+              original.isActive === false ? "labEditScreen:reactivate" : "labEditScreen:deactivate"
+            }
+            disabled={isSaving}
+            onPress={confirmToggleActive}
+          />
+        )}
+      </ScrollView>
+    </Screen>
+  )
+}
+
+const $content: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  padding: spacing.lg,
+  gap: spacing.sm,
+})
+
+const $field: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  marginBottom: spacing.xs,
+})
+
+const $metadata: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  gap: spacing.xxs,
+  marginBottom: spacing.sm,
+})
+
+const $dim: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
+
+const $error: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.error,
+})
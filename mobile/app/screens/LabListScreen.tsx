@@ -0,0 +1,85 @@
+import { FC, useCallback } from "react"
+import { TextStyle, View, ViewStyle } from "react-native"
+
+import { ListItem } from "@/components/ListItem"
+import { PagedList } from "@/components/PagedList"
+import { Screen } from "@/components/Screen"
+import { StatusBadge } from "@/components/StatusBadge"
+import { Text } from "@/components/Text"
+import type { AppStackScreenProps } from "@/navigators/navigationTypes"
+import { api } from "@/services/api"
+import { INACTIVE_APPEARANCE } from "@/services/api/enums"
+import type { LabDto } from "@/services/api/types"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+import { useHeader } from "@/utils/useHeader"
+import { type PageFetcher, usePagedList } from "@/utils/usePagedList"
+
+const PAGE_SIZE = 50
+
+interface LabListScreenProps extends AppStackScreenProps<"LabList"> {}
+
+/** Every lab, including deactivated ones, for admins to maintain. */
+export const LabListScreen: FC<LabListScreenProps> = ({ navigation }) => {
+  const { themed } = useAppTheme()
+
+  const list = usePagedList(
+    useCallback<PageFetcher<LabDto>>((page, size, options) => api.getLabs(page, size, options), []),
+    { pageSize: PAGE_SIZE },
+  )
+
+  useHeader(
+    {
+      titleTx: "labListScreen:title",
+      leftIcon: "back",
+      onLeftPress: () => navigation.goBack(),
+      rightTx: "labListScreen:new",
+      onRightPress: () => navigation.navigate("LabEdit", {}),
+    },
+    [navigation],
+  )
+
+  return (
+    <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+      <PagedList<LabDto>
+        contentContainerStyle={themed($listContentContainer)}
+        list={list}
+        emptyHeadingTx="labListScreen:emptyHeading"
+        emptyContentTx="labListScreen:emptyContent"
+        failedHeadingTx="labListScreen:loadFailed"
+        renderItem={({ item }) => (
+          <ListItem
+            height={72}
+            bottomSeparator
+            rightIcon="caretRight"
+            onPress={() => item.id && navigation.navigate("LabEdit", { labId: item.id })}
+          >
+            <View style={themed($titleRow)}>
+              <Text weight="medium" text={item.name ?? ""} />
+              {item.isActive === false && (
+                <StatusBadge appearance={INACTIVE_APPEARANCE} tx="labListScreen:inactive" />
+              )}
+            </View>
+            <Text size="xs" style={themed($meta)} text={item.location ?? ""} />
+          </ListItem>
+        )}
+      />
+    </Screen>
+  )
+}
+
+const $listContentContainer: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  paddingHorizontal: spacing.lg,
+  paddingBottom: spacing.lg,
+})
+
+const $titleRow: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  flexDirection: "row",
+  alignItems: "center",
+  gap: spacing.xs,
+})
+
+const $meta: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
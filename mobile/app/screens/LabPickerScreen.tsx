@@ -0,0 +1,166 @@
+import { FC, useCallback, useEffect, useState } from "react"
+import { FlatList, TextStyle, View, ViewStyle } from "react-native"
+
+import { Button } from "@/components/Button"
+import { EmptyState } from "@/components/EmptyState"
+import { Icon } from "@/components/Icon"
+import { ListItem } from "@/components/ListItem"
+import { Screen } from "@/components/Screen"
+import { Text } from "@/components/Text"
+import { useAuth } from "@/context/AuthContext"
+import { useSync } from "@/context/SyncContext"
+import type { TxKeyPath } from "@/i18n"
+import type { AppStackScreenProps } from "@/navigators/navigationTypes"
+import { api } from "@/services/api"
+import { UserRoles } from "@/services/api/enums"
+import type { UserLabDto } from "@/services/api/types"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+import { useAbortSignal } from "@/utils/useAbortSignal"
+import { useHeader } from "@/utils/useHeader"
+
+interface LabPickerScreenProps extends AppStackScreenProps<"LabPicker"> {}
+
+/**
+ * Shown after login until a lab is chosen, and from the sample list's header to switch
+ * labs later. Memberships are refreshed from the server every time it opens.
+ */
+export const LabPickerScreen: FC<LabPickerScreenProps> = ({ navigation }) => {
+  const { themed } = useAppTheme()
+  const { labId, labs, setLabs, switchLab, logout } = useAuth()
+  const { entries } = useSync()
+  const [isLoading, setIsLoading] = useState(false)
+  const [errorTx, setErrorTx] = useState<TxKeyPath | undefined>()
+  const signal = useAbortSignal()
+  const isSwitching = !!labId
+
+  useHeader(
+    isSwitching
+      ? {
+          titleTx: "labPickerScreen:switchTitle",
+          leftIcon: "back",
+          onLeftPress: () => navigation.goBack(),
+        }
+      : { titleTx: "labPickerScreen:title", rightTx: "common:logOut", onRightPress: logout },
+    [isSwitching, navigation, logout],
+  )
+
+  const loadLabs = useCallback(async () => {
+    setIsLoading(true)
+    setErrorTx(undefined)
+    const result = await api.getCurrentUser({ signal: signal() })
+    setIsLoading(false)
+
+    if (result.kind !== "ok") {
+      setErrorTx("labPickerScreen:loadFailed")
+      return
+    }
+
+    const memberships = result.data.labs ?? []
+    setLabs(memberships)
+    // Nothing to pick from a single membership right after login.
+    if (!isSwitching && memberships.length === 1) switchLab(memberships[0])
+  }, [isSwitching, setLabs, signal, switchLab])
+
+  useEffect(() => {
+    void loadLabs()
+  }, [loadLabs])
+
+  function choose(lab: UserLabDto) {
+    if (!isSwitching) {
+      // The navigator swaps in the lab's screens once `labId` is set.
+      switchLab(lab)
+      return
+    }
+    if (lab.labId === labId) {
+      navigation.goBack()
+      return
+    }
+    // Queued writes are kept per lab; switching first would leave them unsent until
+    // the user comes back to this one.
+    if (entries.length > 0) {
+      setErrorTx("labPickerScreen:pendingChanges")
+      return
+    }
+
+    switchLab(lab)
+    // Unmount every screen still holding the previous lab's records.
+    navigation.reset({ index: 0, routes: [{ name: "SampleList" }] })
+  }
+
+  return (
+    <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+      <FlatList<UserLabDto>
+        contentContainerStyle={themed($listContentContainer)}
+        data={labs}
+        keyExtractor={(lab) => lab.labId ?? lab.labName}
+        refreshing={isLoading}
+        onRefresh={loadLabs}
+        ListHeaderComponent={
+          <View style={themed($header)}>
+            <Text tx="labPickerScreen:description" style={themed($description)} />
+            {errorTx && <Text tx={errorTx} style={themed($error)} />}
+            {errorTx === "labPickerScreen:pendingChanges" && (
+              <Button
+                tx="labPickerScreen:reviewPendingChanges"
+                onPress={() => navigation.navigate("PendingChanges")}
+              />
+            )}
+          </View>
+        }
+        ListEmptyComponent={
+          isLoading ? null : (
+            <EmptyState
+              preset="generic"
+              headingTx="labPickerScreen:emptyHeading"
+              contentTx="labPickerScreen:emptyContent"
+              buttonTx="labPickerScreen:retry"
+              buttonOnPress={loadLabs}
+            />
+          )
+        }
+        renderItem={({ item }) => (
+          <ListItem
+            bottomSeparator
+            height={64}
+            onPress={() => choose(item)}
+            RightComponent={
+              item.labId === labId ? <Icon icon="check" containerStyle={$check} /> : undefined
+            }
+          >
+            <Text weight="medium" text={item.labName} />
+            {"\n"}
+            <Text size="xxs" tx={UserRoles.tx(item.role)} style={themed($meta)} />
+          </ListItem>
+        )}
+      />
+    </Screen>
+  )
+}
+
+const $listContentContainer: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  paddingHorizontal: spacing.lg,
+  paddingBottom: spacing.lg,
+})
+
+const $header: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  gap: spacing.sm,
+  paddingVertical: spacing.md,
+})
+
+const $description: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
+
+const $check: ViewStyle = {
+  alignSelf: "center",
+}
+
+const $meta: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
+
+const $error: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.error,
+})
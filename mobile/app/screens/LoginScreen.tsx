@@ -1,6 +1,5 @@
-import { FC, useEffect, useState } from "react"
+import { FC, useEffect, useMemo, useState } from "react"
 import { ActivityIndicator, TextStyle, ViewStyle } from "react-native"
-
 import { makeRedirectUri, ResponseType, useAuthRequest } from "expo-auth-session"
 import * as WebBrowser from "expo-web-browser"
 
@@ -23,18 +22,23 @@ const REDIRECT_URI = makeRedirectUri({
   path: Config.OAUTH_REDIRECT_PATH,
 })
 
-const DISCOVERY = {
-  authorizationEndpoint: `${Config.API_URL}/api/auth/authorize`,
-  tokenEndpoint: `${Config.API_URL}/api/auth/token`,
-}
-
 interface LoginScreenProps extends AppStackScreenProps<"Login"> {}
 
-export const LoginScreen: FC<LoginScreenProps> = () => {
+export const LoginScreen: FC<LoginScreenProps> = ({ navigation }) => {
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | undefined>()
 
-  const { setAuthToken, setRefreshToken, setTokenExpiry, setLabId, setLabRole } = useAuth()
+  const { server, setAuthToken, setUserId, setRefreshToken, setTokenExpiry, setLabs, switchLab } =
+    useAuth()
+
+  // Every server profile is its own OAuth issuer.
+  const discovery = useMemo(
+    () => ({
+      authorizationEndpoint: `${server.url}/api/auth/authorize`,
+      tokenEndpoint: `${server.url}/api/auth/token`,
+    }),
+    [server.url],
+  )
 
   const {
     themed,
@@ -49,7 +53,7 @@ export const LoginScreen: FC<LoginScreenProps> = () => {
       responseType: ResponseType.Code,
       usePKCE: true,
     },
-    DISCOVERY,
+    discovery,
   )
 
   // Handle the authorization response once the browser redirects back.
@@ -103,10 +107,14 @@ export const LoginScreen: FC<LoginScreenProps> = () => {
     if (refresh_token) setRefreshToken(refresh_token)
     setTokenExpiry(Date.now() + expires_in * 1000)
 
-    const userInfoResult = await api.getUserInfo()
-    if (userInfoResult.kind === "ok") {
-      setLabId(userInfoResult.data.labId)
-      setLabRole(userInfoResult.data.role)
+    // With a single membership there is nothing to pick; otherwise the navigator shows
+    // the lab picker until a lab is chosen.
+    const userResult = await api.getCurrentUser()
+    if (userResult.kind === "ok") {
+      setUserId(userResult.data.id ?? undefined)
+      const labs = userResult.data.labs ?? []
+      setLabs(labs)
+      if (labs.length === 1) switchLab(labs[0])
     }
 
     setIsLoading(false)
@@ -127,6 +135,12 @@ export const LoginScreen: FC<LoginScreenProps> = () => {
     >
       <Text preset="heading" tx="loginScreen:logIn" style={themed($heading)} />
       <Text preset="subheading" tx="loginScreen:enterDetails" style={themed($subheading)} />
+      <Text
+        size="xs"
+        tx="loginScreen:server"
+        txOptions={{ name: server.name, url: server.url }}
+        style={themed($serverText)}
+      />
 
       {error !== undefined && (
         <Text size="sm" style={[themed($errorText), { color: colors.error }]}>
@@ -151,6 +165,27 @@ export const LoginScreen: FC<LoginScreenProps> = () => {
           onPress={handleSignIn}
         />
       )}
+
+      <Button
+        testID="forgot-password-button"
+        tx="loginScreen:forgotPassword"
+        style={themed($linkButton)}
+        disabled={isLoading}
+        onPress={() => navigation.navigate("ForgotPassword")}
+      />
+      <Button
+        testID="change-server-button"
+        tx="loginScreen:changeServer"
+        style={themed($linkButton)}
+        disabled={isLoading}
+        onPress={() => navigation.navigate("ServerSelect")}
+      />
+      <Button
+        testID="diagnostics-button"
+        tx="loginScreen:diagnostics"
+        style={themed($linkButton)}
+        onPress={() => navigation.navigate("Diagnostics")}
+      />
     </Screen>
   )
 }
@@ -170,6 +205,11 @@ const $subheading: ThemedStyle<TextStyle> = ({ spacing }) => ({
   marginBottom: spacing.xl,
 })
 
+const $serverText: ThemedStyle<TextStyle> = ({ colors, spacing }) => ({
+  color: colors.textDim,
+  marginBottom: spacing.md,
+})
+
 const $errorText: ThemedStyle<TextStyle> = ({ spacing }) => ({
   marginBottom: spacing.md,
 })
@@ -181,3 +221,7 @@ const $activityIndicator: ThemedStyle<ViewStyle> = ({ spacing }) => ({
 const $signInButton: ThemedStyle<ViewStyle> = ({ spacing }) => ({
   marginTop: spacing.xs,
 })
+
+const $linkButton: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  marginTop: spacing.md,
+})
@@ -0,0 +1,293 @@
+import { FC, useEffect, useState } from "react"
+import { ActivityIndicator, Alert, ScrollView, TextStyle, View, ViewStyle } from "react-native"
+
+import { Button } from "@/components/Button"
+import { Screen } from "@/components/Screen"
+import { Text } from "@/components/Text"
+import { TextField } from "@/components/TextField"
+import type { TxKeyPath } from "@/i18n"
+import { translate } from "@/i18n/translate"
+import type { AppStackScreenProps } from "@/navigators/navigationTypes"
+import { api } from "@/services/api"
+import type { FieldErrors, GeneralApiProblem } from "@/services/api/apiProblem"
+import type { CreateParameterDto, ParameterDto, UpdateParameterDto } from "@/services/api/types"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+import {
+  emptyParameterForm,
+  limitsChanged,
+  type ParameterFormErrors,
+  type ParameterFormValues,
+  parameterToForm,
+  toCreateParameterDto,
+  toggleActiveDto,
+  toUpdateParameterDto,
+  validateParameterForm,
+} from "@/utils/parameterForm"
+import { useAbortSignal } from "@/utils/useAbortSignal"
+import { useApiMutation } from "@/utils/useApiMutation"
+import { useHeader } from "@/utils/useHeader"
+
+interface ParameterEditScreenProps extends AppStackScreenProps<"ParameterEdit"> {}
+
+type LimitFieldName = "whoThreshold" | "minValue" | "maxValue"
+
+/**
+ * Creates or edits a catalogue parameter. Writes go straight to the server rather than
+ * through the outbox: catalogue changes affect every technician, so they shouldn't be
+ * replayed later against limits someone else may have changed meanwhile.
+ */
+export const ParameterEditScreen: FC<ParameterEditScreenProps> = ({ navigation, route }) => {
+  const { parameterId } = route.params
+  const isNew = !parameterId
+  const { themed } = useAppTheme()
+
+  const [original, setOriginal] = useState<ParameterDto | undefined>()
+  const [values, setValues] = useState<ParameterFormValues>(() => emptyParameterForm())
+  const [errors, setErrors] = useState<ParameterFormErrors>({})
+  /** Messages from a server-side validation failure, until the field is edited. */
+  const [serverErrors, setServerErrors] = useState<FieldErrors>({})
+  const [isSubmitted, setIsSubmitted] = useState(false)
+  const [errorTx, setErrorTx] = useState<TxKeyPath | undefined>()
+  // Test result entry picks from the cached list of active parameters.
+  const { mutate: create, isPending: isCreating } = useApiMutation(
+    (dto: CreateParameterDto) => api.createParameter(dto),
+    { invalidates: () => [["getActiveParameters"]] },
+  )
+  const { mutate: update, isPending: isUpdating } = useApiMutation(
+    ({ id, dto }: { id: string; dto: UpdateParameterDto }) => api.updateParameter(id, dto),
+    { invalidates: () => [["getActiveParameters"]] },
+  )
+  const isSaving = isCreating || isUpdating
+  const signal = useAbortSignal()
+
+  useHeader(
+    {
+      titleTx: isNew ? "parameterEditScreen:createTitle" : "parameterEditScreen:editTitle",
+      leftIcon: "back",
+      onLeftPress: () => navigation.goBack(),
+    },
+    [navigation, isNew],
+  )
+
+  useEffect(() => {
+    if (!parameterId) return
+
+    void api.getParameterById(parameterId, { signal: signal() }).then((result) => {
+      if (result.kind === "ok") {
+        setOriginal(result.data)
+        setValues(parameterToForm(result.data))
+      } else {
+        setErrorTx("parameterEditScreen:loadFailed")
+      }
+    })
+  }, [parameterId, signal])
+
+  function setField(field: keyof ParameterFormValues, value: string) {
+    const next = { ...values, [field]: value }
+    setValues(next)
+    if (serverErrors[field]) setServerErrors({ ...serverErrors, [field]: [] })
+    // Only re-validate as the user types once they have tried to save.
+    if (isSubmitted) setErrors(validateParameterForm(next))
+  }
+
+  function handleFailure(result: GeneralApiProblem) {
+    if (result.kind === "validation") {
+      setServerErrors(result.errors)
+      setErrorTx("parameterEditScreen:saveInvalid")
+    } else if (result.kind === "conflict") {
+      setErrorTx("parameterEditScreen:duplicateName")
+    } else {
+      setErrorTx("parameterEditScreen:saveFailed")
+    }
+  }
+
+  function save() {
+    setIsSubmitted(true)
+    setErrorTx(undefined)
+    setServerErrors({})
+
+    const validation = validateParameterForm(values)
+    setErrors(validation)
+    if (Object.keys(validation).length > 0) return
+
+    if (!original || !limitsChanged(original, values)) {
+      void submit()
+      return
+    }
+    Alert.alert(
+      translate("parameterEditScreen:limitsChangedTitle"),
+      translate("parameterEditScreen:limitsChangedMessage"),
+      [
+        { text: translate("common:cancel"), style: "cancel" },
+        { text: translate("parameterEditScreen:save"), onPress: () => void submit() },
+      ],
+    )
+  }
+
+  async function submit() {
+    const result =
+      parameterId && original
+        ? await update({
+            id: parameterId,
+            dto: toUpdateParameterDto(values, original.isActive ?? true),
+          })
+        : await create(toCreateParameterDto(values))
+
+    if (result.kind === "ok") navigation.goBack()
+    else handleFailure(result)
+  }
+
+  function confirmToggleActive() {
+    if (!original?.isActive) {
+      void setActive(true)
+      return
+    }
+    Alert.alert(
+      translate("parameterEditScreen:deactivateTitle"),
+      translate("parameterEditScreen:deactivateMessage"),
+      [
+        { text: translate("common:cancel"), style: "cancel" },
+        {
+          text: translate("parameterEditScreen:deactivate"),
+          style: "destructive",
+          onPress: () => void setActive(false),
+        },
+      ],
+    )
+  }
+
+  /** Flips `isActive` on the server's copy, leaving any unsaved edits in the form alone. */
+  async function setActive(isActive: boolean) {
+    if (!parameterId || !original) return
+    setErrorTx(undefined)
+    const result = await update({ id: parameterId, dto: toggleActiveDto(original, isActive) })
+
+    if (result.kind === "ok") setOriginal(result.data)
+    else handleFailure(result)
+  }
+
+  /** Local validation wins; otherwise the first message the server sent for the field. */
+  function fieldStatus(field: keyof ParameterFormValues) {
+    const helper = serverErrors[field]?.[0]
+    return {
+      helperTx: errors[field],
+      helper,
+      status: errors[field] || helper ? ("error" as const) : undefined,
+    }
+  }
+
+  function limitField(field: LimitFieldName, labelTx: TxKeyPath) {
+    return (
+      <TextField
+        value={values[field]}
+        onChangeText={(text) => setField(field, text)}
+        labelTx={labelTx}
+        keyboardType="numbers-and-punctuation"
+        {...fieldStatus(field)}
+        containerStyle={$styles.flex1}
+      />
+    )
+  }
+
+  // Errors for properties the form doesn't show, e.g. `isActive`, are listed under the banner.
+  const otherServerErrors = Object.entries(serverErrors)
+    .filter(([field]) => !(field in values))
+    .flatMap(([, messages]) => messages)
+
+  if (parameterId && !original && !errorTx) {
+    return (
+      <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+        <ActivityIndicator />
+      </Screen>
+    )
+  }
+
+  return (
+    <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+      <ScrollView contentContainerStyle={themed($content)} keyboardShouldPersistTaps="handled">
+        {errorTx && <Text tx={errorTx} style={themed($error)} />}
+        {otherServerErrors.map((message) => (
+          <Text key={message} size="xs" text={message} style={themed($error)} />
+        ))}
+        {original?.isActive === false && (
+          <Text tx="parameterEditScreen:inactiveNotice" style={themed($notice)} />
+        )}
+
+        <TextField
+          value={values.name}
+          onChangeText={(text) => setField("name", text)}
+          labelTx="parameterFields:name"
+          {...fieldStatus("name")}
+          containerStyle={themed($field)}
+        />
+        <TextField
+          value={values.unit}
+          onChangeText={(text) => setField("unit", text)}
+          labelTx="parameterFields:unit"
+          autoCapitalize="none"
+          {...fieldStatus("unit")}
+          containerStyle={themed($field)}
+        />
+        <View style={themed($limits)}>
+          {limitField("whoThreshold", "parameterFields:whoThreshold")}
+        </View>
+        <View style={themed($limits)}>
+          {limitField("minValue", "parameterFields:minValue")}
+          {limitField("maxValue", "parameterFields:maxValue")}
+        </View>
+        <TextField
+          value={values.description}
+          onChangeText={(text) => setField("description", text)}
+          labelTx="parameterFields:description"
+          {...fieldStatus("description")}
+          multiline
+          containerStyle={themed($field)}
+        />
+
+        <Button
+          testID="save-parameter-button"
+          preset="reversed"
+          tx="parameterEditScreen:save"
+          disabled={isSaving}
+          onPress={save}
+        />
+        {original && (
+          <Button
+            tx={
+              original.isActive === false
+                ? "parameterEditScreen:reactivate"
+                : "parameterEditScreen:deactivate"
+            }
+            disabled={isSaving}
+            onPress={confirmToggleActive}
+          />
+        )}
+      </ScrollView>
+    </Screen>
+  )
+}
+
+const $content: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  padding: spacing.lg,
+  gap: spacing.sm,
+})
+
+const $field: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  marginBottom: spacing.xs,
+})
+
+const $limits: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  flexDirection: "row",
+  gap: spacing.sm,
+  marginBottom: spacing.xs,
+})
+
+const $notice: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
+
+const $error: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.error,
+})
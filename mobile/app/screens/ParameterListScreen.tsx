@@ -0,0 +1,106 @@
+import { FC, useCallback } from "react"
+import { TextStyle, View, ViewStyle } from "react-native"
+
+import { ListItem } from "@/components/ListItem"
+import { PagedList } from "@/components/PagedList"
+import { Screen } from "@/components/Screen"
+import { StatusBadge } from "@/components/StatusBadge"
+import { Text } from "@/components/Text"
+import { translate } from "@/i18n/translate"
+import type { AppStackScreenProps } from "@/navigators/navigationTypes"
+import { api } from "@/services/api"
+import { INACTIVE_APPEARANCE } from "@/services/api/enums"
+import type { ParameterDto } from "@/services/api/types"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+import { useHeader } from "@/utils/useHeader"
+import { type PageFetcher, usePagedList } from "@/utils/usePagedList"
+
+const PAGE_SIZE = 50
+
+interface ParameterListScreenProps extends AppStackScreenProps<"ParameterList"> {}
+
+/** Every parameter in the catalogue, including deactivated ones, for admins to maintain. */
+export const ParameterListScreen: FC<ParameterListScreenProps> = ({ navigation }) => {
+  const { themed } = useAppTheme()
+
+  const list = usePagedList(
+    useCallback<PageFetcher<ParameterDto>>(
+      (page, size, options) => api.getParameters(page, size, options),
+      [],
+    ),
+    { pageSize: PAGE_SIZE },
+  )
+
+  useHeader(
+    {
+      titleTx: "parameterListScreen:title",
+      leftIcon: "back",
+      onLeftPress: () => navigation.goBack(),
+      rightTx: "parameterListScreen:new",
+      onRightPress: () => navigation.navigate("ParameterEdit", {}),
+    },
+    [navigation],
+  )
+
+  return (
+    <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+      <PagedList<ParameterDto>
+        contentContainerStyle={themed($listContentContainer)}
+        list={list}
+        emptyHeadingTx="parameterListScreen:emptyHeading"
+        emptyContentTx="parameterListScreen:emptyContent"
+        failedHeadingTx="parameterListScreen:loadFailed"
+        renderItem={({ item }) => (
+          <ListItem
+            height={72}
+            bottomSeparator
+            rightIcon="caretRight"
+            onPress={() =>
+              item.id && navigation.navigate("ParameterEdit", { parameterId: item.id })
+            }
+          >
+            <View style={themed($titleRow)}>
+              <Text weight="medium" text={item.name ?? ""} />
+              {item.isActive === false && (
+                <StatusBadge appearance={INACTIVE_APPEARANCE} tx="parameterListScreen:inactive" />
+              )}
+            </View>
+            <Text size="xs" style={themed($meta)} text={describeLimits(item)} />
+          </ListItem>
+        )}
+      />
+    </Screen>
+  )
+}
+
+/** The unit followed by whichever limits are set, e.g. `mg/L · WHO 50 · 0 to 100`. */
+function describeLimits({ unit, whoThreshold, minValue, maxValue }: ParameterDto): string {
+  return [
+    unit,
+    whoThreshold != null
+      ? translate("parameterListScreen:whoThreshold", { value: whoThreshold })
+      : undefined,
+    minValue != null || maxValue != null
+      ? translate("parameterListScreen:range", { min: minValue ?? "–", max: maxValue ?? "–" })
+      : undefined,
+  ]
+    .filter(Boolean)
+    .join(" · ")
+}
+
+const $listContentContainer: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  paddingHorizontal: spacing.lg,
+  paddingBottom: spacing.lg,
+})
+
+const $titleRow: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  flexDirection: "row",
+  alignItems: "center",
+  gap: spacing.xs,
+})
+
+const $meta: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
@@ -0,0 +1,131 @@
+import { FC } from "react"
+import { FlatList, TextStyle, View, ViewStyle } from "react-native"
+
+import { Button } from "@/components/Button"
+import { EmptyState } from "@/components/EmptyState"
+import { ListItem } from "@/components/ListItem"
+import { Screen } from "@/components/Screen"
+import { SyncStatusBanner } from "@/components/SyncStatusBanner"
+import { Text } from "@/components/Text"
+import { useSync } from "@/context/SyncContext"
+import type { AppStackScreenProps } from "@/navigators/navigationTypes"
+import type { OutboxEntry } from "@/stores/outboxStore"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+import { formatDate } from "@/utils/formatDate"
+import { useHeader } from "@/utils/useHeader"
+
+type ConflictedEntry = Extract<OutboxEntry, { type: "updateSample" | "updateTestResult" }>
+
+function isResolvable(entry: OutboxEntry): entry is ConflictedEntry {
+  return (
+    entry.lastError === "conflict" &&
+    (entry.type === "updateSample" || entry.type === "updateTestResult")
+  )
+}
+
+interface PendingChangesScreenProps extends AppStackScreenProps<"PendingChanges"> {}
+
+export const PendingChangesScreen: FC<PendingChangesScreenProps> = ({ navigation }) => {
+  const { themed } = useAppTheme()
+  const { entries, isOnline, isSyncing, failedCount, sync, retryFailed, discard } = useSync()
+
+  function resolve(entry: ConflictedEntry) {
+    navigation.navigate(
+      "ConflictResolution",
+      entry.type === "updateSample"
+        ? { entityType: "sample", id: entry.id, local: entry.dto, entryId: entry.entryId }
+        : { entityType: "testResult", id: entry.id, local: entry.dto, entryId: entry.entryId },
+    )
+  }
+
+  useHeader(
+    {
+      titleTx: "pendingChangesScreen:title",
+      leftIcon: "back",
+      onLeftPress: () => navigation.goBack(),
+    },
+    [navigation],
+  )
+
+  return (
+    <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+      <SyncStatusBanner />
+      <FlatList<OutboxEntry>
+        contentContainerStyle={themed($listContentContainer)}
+        data={entries}
+        keyExtractor={(entry) => entry.entryId}
+        ListEmptyComponent={
+          <EmptyState
+            preset="generic"
+            headingTx="pendingChangesScreen:emptyHeading"
+            contentTx="pendingChangesScreen:emptyContent"
+            button=""
+          />
+        }
+        ListFooterComponent={
+          entries.length > 0 ? (
+            <View style={themed($actions)}>
+              <Button
+                tx="pendingChangesScreen:syncNow"
+                preset="reversed"
+                disabled={!isOnline || isSyncing}
+                onPress={sync}
+              />
+              {failedCount > 0 && (
+                <Button tx="pendingChangesScreen:retryFailed" onPress={retryFailed} />
+              )}
+            </View>
+          ) : null
+        }
+        renderItem={({ item }) => (
+          <ListItem
+            bottomSeparator
+            height={72}
+            RightComponent={
+              isResolvable(item) ? (
+                <Button tx="pendingChangesScreen:resolve" onPress={() => resolve(item)} />
+              ) : item.status === "failed" ? (
+                <Button tx="pendingChangesScreen:discard" onPress={() => discard(item.entryId)} />
+              ) : undefined
+            }
+          >
+            <Text weight="medium" tx={`pendingChangesScreen:mutation.${item.type}`} />
+            {"\n"}
+            <Text size="xxs" style={themed($meta)}>
+              {formatDate(new Date(item.createdAt).toISOString(), "Pp")}
+            </Text>
+            {item.status === "failed" && "\n"}
+            {item.status === "failed" && (
+              <Text
+                size="xxs"
+                style={themed($error)}
+                tx="pendingChangesScreen:lastError"
+                txOptions={{ error: item.lastError }}
+              />
+            )}
+          </ListItem>
+        )}
+      />
+    </Screen>
+  )
+}
+
+const $listContentContainer: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  paddingHorizontal: spacing.lg,
+  paddingBottom: spacing.lg,
+})
+
+const $actions: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  gap: spacing.sm,
+  marginTop: spacing.lg,
+})
+
+const $meta: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
+
+const $error: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.error,
+})
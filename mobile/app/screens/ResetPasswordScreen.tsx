@@ -0,0 +1,187 @@
+import { FC, useEffect, useState } from "react"
+import { Alert, ScrollView, TextStyle, ViewStyle } from "react-native"
+
+import { Button } from "@/components/Button"
+import { Screen } from "@/components/Screen"
+import { Text } from "@/components/Text"
+import { TextField } from "@/components/TextField"
+import type { TxKeyPath } from "@/i18n"
+import { translate } from "@/i18n/translate"
+import type { AppStackScreenProps } from "@/navigators/navigationTypes"
+import { api } from "@/services/api"
+import type { FieldErrors } from "@/services/api/apiProblem"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+import {
+  type PasswordFormErrors,
+  resetPasswordFormFrom,
+  type ResetPasswordFormValues,
+  toResetPasswordRequest,
+  validateResetPasswordForm,
+} from "@/utils/passwordForm"
+import { useHeader } from "@/utils/useHeader"
+
+interface ResetPasswordScreenProps extends AppStackScreenProps<"ResetPassword"> {}
+
+/**
+ * Sets a new password with the code from a reset email. The emailed link opens this screen
+ * through the `quater://reset-password` deep link with the email and code filled in.
+ */
+export const ResetPasswordScreen: FC<ResetPasswordScreenProps> = ({ navigation, route }) => {
+  const { themed } = useAppTheme()
+  const email = route.params?.email
+  const code = route.params?.code
+
+  const [values, setValues] = useState<ResetPasswordFormValues>(() =>
+    resetPasswordFormFrom(route.params),
+  )
+  const [errors, setErrors] = useState<PasswordFormErrors<ResetPasswordFormValues>>({})
+  /** Messages from a server-side validation failure, until the field is edited. */
+  const [serverErrors, setServerErrors] = useState<FieldErrors>({})
+  const [isSubmitted, setIsSubmitted] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [errorTx, setErrorTx] = useState<TxKeyPath | undefined>()
+
+  useHeader(
+    {
+      titleTx: "resetPasswordScreen:title",
+      leftIcon: "back",
+      onLeftPress: () =>
+        navigation.canGoBack() ? navigation.goBack() : navigation.navigate("Login"),
+    },
+    [navigation],
+  )
+
+  // A link opened while the screen is already showing replaces what it carries.
+  useEffect(() => {
+    if (email === undefined && code === undefined) return
+    setValues((prev) => ({
+      ...prev,
+      ...(email !== undefined && { email }),
+      ...(code !== undefined && { code }),
+    }))
+  }, [email, code])
+
+  function setField(field: keyof ResetPasswordFormValues, value: string) {
+    const next = { ...values, [field]: value }
+    setValues(next)
+    if (serverErrors[field]) setServerErrors({ ...serverErrors, [field]: [] })
+    // Only re-validate as the user types once they have tried to save.
+    if (isSubmitted) setErrors(validateResetPasswordForm(next))
+  }
+
+  async function save() {
+    setIsSubmitted(true)
+    setErrorTx(undefined)
+    setServerErrors({})
+
+    const validation = validateResetPasswordForm(values)
+    setErrors(validation)
+    if (Object.keys(validation).length > 0) return
+
+    setIsSaving(true)
+    const result = await api.resetPassword(toResetPasswordRequest(values))
+    setIsSaving(false)
+
+    if (result.kind === "ok") {
+      Alert.alert(translate("resetPasswordScreen:saved"))
+      navigation.navigate("Login")
+    } else if (result.kind === "validation") {
+      setServerErrors(result.errors)
+      setErrorTx("passwordFields:saveInvalid")
+    } else if (result.kind === "rejected") {
+      setErrorTx("resetPasswordScreen:rejected")
+    } else if (result.kind === "rate-limited") {
+      setErrorTx("passwordFields:rateLimited")
+    } else {
+      setErrorTx("passwordFields:saveFailed")
+    }
+  }
+
+  /** Local validation wins; otherwise the first message the server sent for the field. */
+  function fieldStatus(field: keyof ResetPasswordFormValues) {
+    const helper = serverErrors[field]?.[0]
+    return {
+      helperTx: errors[field],
+      helper,
+      status: errors[field] || helper ? ("error" as const) : undefined,
+    }
+  }
+
+  return (
+    <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+      <ScrollView contentContainerStyle={themed($content)} keyboardShouldPersistTaps="handled">
+        <Text tx="resetPasswordScreen:description" style={themed($dim)} />
+        {errorTx && <Text tx={errorTx} style={themed($error)} />}
+
+        <TextField
+          value={values.email}
+          onChangeText={(text) => setField("email", text)}
+          labelTx="passwordFields:email"
+          autoCapitalize="none"
+          autoComplete="email"
+          keyboardType="email-address"
+          {...fieldStatus("email")}
+          containerStyle={themed($field)}
+        />
+        <TextField
+          value={values.code}
+          onChangeText={(text) => setField("code", text)}
+          labelTx="passwordFields:code"
+          autoCapitalize="none"
+          autoCorrect={false}
+          {...fieldStatus("code")}
+          containerStyle={themed($field)}
+        />
+        <TextField
+          value={values.newPassword}
+          onChangeText={(text) => setField("newPassword", text)}
+          labelTx="passwordFields:newPassword"
+          autoCapitalize="none"
+          autoComplete="new-password"
+          autoCorrect={false}
+          secureTextEntry
+          {...fieldStatus("newPassword")}
+          containerStyle={themed($field)}
+        />
+        <TextField
+          value={values.confirmPassword}
+          onChangeText={(text) => setField("confirmPassword", text)}
+          labelTx="passwordFields:confirmPassword"
+          autoCapitalize="none"
+          autoComplete="new-password"
+          autoCorrect={false}
+          secureTextEntry
+          {...fieldStatus("confirmPassword")}
+          containerStyle={themed($field)}
+        />
+
+        <Button
+          testID="reset-password-button"
+          preset="reversed"
+          tx="resetPasswordScreen:save"
+          disabled={isSaving}
+          onPress={save}
+        />
+      </ScrollView>
+    </Screen>
+  )
+}
+
+const $content: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  padding: spacing.lg,
+  gap: spacing.sm,
+})
+
+const $field: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  marginBottom: spacing.xs,
+})
+
+const $dim: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
+
+const $error: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.error,
+})
@@ -0,0 +1,316 @@
+import { FC, useCallback, useMemo, useState } from "react"
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  TextStyle,
+  TouchableOpacity,
+  View,
+  ViewStyle,
+} from "react-native"
+import { useFocusEffect } from "@react-navigation/native"
+
+import { Button } from "@/components/Button"
+import { Can } from "@/components/Can"
+import { ComplianceBadge } from "@/components/ComplianceBadge"
+import { RecordHistory } from "@/components/RecordHistory"
+import { Screen } from "@/components/Screen"
+import { StatusBadge } from "@/components/StatusBadge"
+import { Text } from "@/components/Text"
+import { useSync } from "@/context/SyncContext"
+import type { TxKeyPath } from "@/i18n"
+import { translate } from "@/i18n/translate"
+import type { AppStackScreenProps } from "@/navigators/navigationTypes"
+import { api } from "@/services/api"
+import {
+  appearanceOf,
+  SAMPLE_STATUS_APPEARANCE,
+  SampleStatuses,
+  SampleTypes,
+} from "@/services/api/enums"
+import type { AuditLogDto, UpdateSampleDto } from "@/services/api/types"
+import { isLocalId, outboxStore } from "@/stores/outboxStore"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+import { restoreSampleDto } from "@/utils/auditRestore"
+import { formatDate } from "@/utils/formatDate"
+import { useApiMutation } from "@/utils/useApiMutation"
+import { useApiQuery } from "@/utils/useApiQuery"
+import { useHeader } from "@/utils/useHeader"
+
+interface SampleDetailScreenProps extends AppStackScreenProps<"SampleDetail"> {}
+
+export const SampleDetailScreen: FC<SampleDetailScreenProps> = ({ navigation, route }) => {
+  const { sampleId } = route.params
+  const { themed } = useAppTheme()
+  const { entries, updateSample } = useSync()
+
+  // Samples captured offline only exist in the outbox until they are replayed.
+  const isOnServer = !isLocalId(sampleId)
+  const sampleQuery = useApiQuery(
+    ["getSampleById", sampleId],
+    (options) => api.getSampleById(sampleId, options),
+    { enabled: isOnServer },
+  )
+  const resultsQuery = useApiQuery(
+    ["getTestResultsBySample", sampleId],
+    (options) => api.getTestResultsBySample(sampleId, undefined, undefined, options),
+    { enabled: isOnServer },
+  )
+  const { mutate: deleteSample, isPending: isDeleting } = useApiMutation(
+    (id: string) => api.deleteSample(id),
+    {
+      invalidates: (id) => [
+        ["getSampleById", id],
+        ["getTestResultsBySample", id],
+      ],
+    },
+  )
+  const { mutate: restoreSample, isPending: isRestoring } = useApiMutation(
+    ({ id, dto }: { id: string; dto: UpdateSampleDto }) => updateSample(id, dto),
+    { invalidates: ({ id }) => [["getSampleById", id]] },
+  )
+  const fetched = sampleQuery.data
+  const [actionErrorTx, setActionErrorTx] = useState<TxKeyPath | undefined>()
+  const errorTx =
+    actionErrorTx ?? (sampleQuery.problem ? "sampleDetailScreen:loadFailed" : undefined)
+
+  useHeader(
+    {
+      titleTx: "sampleDetailScreen:title",
+      leftIcon: "back",
+      onLeftPress: () => navigation.goBack(),
+    },
+    [navigation],
+  )
+
+  // Picks up changes made elsewhere, e.g. on another device, once the cached copy is stale.
+  const { revalidate: revalidateSample } = sampleQuery
+  const { revalidate: revalidateResults } = resultsQuery
+  useFocusEffect(
+    useCallback(() => {
+      if (!isOnServer) return
+      void revalidateSample()
+      void revalidateResults()
+    }, [isOnServer, revalidateResults, revalidateSample]),
+  )
+
+  const sample = useMemo(() => {
+    if (isLocalId(sampleId)) {
+      return outboxStore.getPendingSamples().find((pending) => pending.id === sampleId)
+    }
+    return fetched && outboxStore.applyPendingEdits(fetched)
+    // `entries` changes whenever the outbox does.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [entries, fetched, sampleId])
+
+  const testResults = resultsQuery.data?.items
+  const allTestResults = useMemo(
+    () => [...outboxStore.getPendingTestResults(sampleId), ...(testResults ?? [])],
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [entries, testResults, sampleId],
+  )
+
+  function confirmDelete() {
+    Alert.alert(
+      translate("sampleDetailScreen:deleteTitle"),
+      translate("sampleDetailScreen:deleteMessage"),
+      [
+        { text: translate("common:cancel"), style: "cancel" },
+        { text: translate("sampleDetailScreen:delete"), style: "destructive", onPress: remove },
+      ],
+    )
+  }
+
+  async function remove() {
+    const result = await deleteSample(sampleId)
+    if (result.kind === "ok") navigation.goBack()
+    else setActionErrorTx("sampleDetailScreen:deleteFailed")
+  }
+
+  function confirmRestore(entry: AuditLogDto) {
+    Alert.alert(
+      translate("recordHistory:restoreTitle"),
+      translate("recordHistory:restoreMessage"),
+      [
+        { text: translate("common:cancel"), style: "cancel" },
+        { text: translate("recordHistory:restore"), onPress: () => void restore(entry) },
+      ],
+    )
+  }
+
+  /** Restores onto the server's copy, not one with pending offline edits applied. */
+  async function restore(entry: AuditLogDto) {
+    const dto = fetched && restoreSampleDto(fetched, entry)
+    if (!dto) return
+    setActionErrorTx(undefined)
+    const result = await restoreSample({ id: sampleId, dto })
+
+    if (result.kind === "conflict") {
+      navigation.navigate("ConflictResolution", { entityType: "sample", id: sampleId, local: dto })
+    } else if (result.kind !== "ok" && result.kind !== "queued") {
+      setActionErrorTx("recordHistory:restoreFailed")
+    }
+  }
+
+  return (
+    <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+      <ScrollView contentContainerStyle={themed($content)}>
+        {errorTx && <Text tx={errorTx} style={themed($error)} />}
+
+        {!sample ? (
+          !errorTx && <ActivityIndicator />
+        ) : (
+          <>
+            {sample.isSynced === false && (
+              <Text size="xs" tx="sampleListScreen:pendingSync" style={themed($pendingBadge)} />
+            )}
+
+            <StatusBadge
+              appearance={appearanceOf(SAMPLE_STATUS_APPEARANCE, sample.status)}
+              tx={SampleStatuses.tx(sample.status)}
+            />
+            <DetailRow labelTx="sampleFields:type" valueTx={SampleTypes.tx(sample.type)} />
+            <DetailRow
+              labelTx="sampleFields:collectionDate"
+              value={sample.collectionDate ? formatDate(sample.collectionDate, "Pp") : undefined}
+            />
+            <DetailRow labelTx="sampleFields:collectorName" value={sample.collectorName} />
+            <DetailRow
+              labelTx="sampleDetailScreen:coordinates"
+              value={`${sample.locationLatitude ?? "—"}, ${sample.locationLongitude ?? "—"}`}
+            />
+            <DetailRow
+              labelTx="sampleFields:locationDescription"
+              value={sample.locationDescription}
+            />
+            <DetailRow labelTx="sampleFields:locationHierarchy" value={sample.locationHierarchy} />
+            <DetailRow labelTx="sampleFields:notes" value={sample.notes} />
+
+            <Text preset="formLabel" tx="sampleDetailScreen:testResults" />
+            {allTestResults.length === 0 ? (
+              <Text size="xs" tx="sampleDetailScreen:noTestResults" style={themed($label)} />
+            ) : (
+              allTestResults.map((result, index) => (
+                <TouchableOpacity
+                  key={result.id ?? index}
+                  accessibilityRole="button"
+                  // Results captured offline have no server record to show yet.
+                  disabled={!result.id || isLocalId(result.id)}
+                  onPress={() =>
+                    result.id &&
+                    navigation.navigate("TestResultDetail", { testResultId: result.id })
+                  }
+                  style={themed($resultRow)}
+                >
+                  <Text
+                    style={$styles.flex1}
+                    text={`${result.parameterName}: ${result.value} ${result.unit ?? ""}`.trim()}
+                  />
+                  {result.isSynced === false || result.complianceStatus === undefined ? (
+                    <Text
+                      size="xxs"
+                      tx="sampleListScreen:pendingSync"
+                      style={themed($pendingBadge)}
+                    />
+                  ) : (
+                    <ComplianceBadge status={result.complianceStatus} />
+                  )}
+                </TouchableOpacity>
+              ))
+            )}
+            <Can permission="testResult:create">
+              <Button
+                testID="add-test-result-button"
+                tx="sampleDetailScreen:addTestResult"
+                onPress={() => navigation.navigate("TestResultEntry", { sampleId })}
+              />
+            </Can>
+
+            <Can permission="sample:edit">
+              <Button
+                testID="edit-sample-button"
+                preset="reversed"
+                tx="sampleDetailScreen:edit"
+                onPress={() => navigation.navigate("SampleEdit", { sampleId })}
+              />
+            </Can>
+            {/* Offline-created samples can only be discarded from the pending changes list. */}
+            {!isLocalId(sampleId) && (
+              <Can permission="sample:delete">
+                <Button
+                  tx="sampleDetailScreen:delete"
+                  disabled={isDeleting}
+                  onPress={confirmDelete}
+                />
+              </Can>
+            )}
+
+            {fetched?.id && (
+              <Can permission="audit:view">
+                <RecordHistory
+                  entityId={fetched.id}
+                  revision={fetched.version}
+                  canRestore={(entry) => !isRestoring && !!restoreSampleDto(fetched, entry)}
+                  onRestore={confirmRestore}
+                  onPressEntry={(entry) =>
+                    entry.id && navigation.navigate("AuditLogDetail", { auditLogId: entry.id })
+                  }
+                />
+              </Can>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </Screen>
+  )
+}
+
+const DetailRow = ({
+  labelTx,
+  value,
+  valueTx,
+}: {
+  labelTx: TxKeyPath
+  value?: string | null
+  valueTx?: TxKeyPath
+}) => {
+  const { themed } = useAppTheme()
+
+  return (
+    <View style={themed($row)}>
+      <Text size="xs" tx={labelTx} style={themed($label)} />
+      {valueTx ? <Text tx={valueTx} /> : <Text text={value || "—"} />}
+    </View>
+  )
+}
+
+const $content: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  padding: spacing.lg,
+  gap: spacing.md,
+})
+
+const $row: ThemedStyle<ViewStyle> = ({ colors, spacing }) => ({
+  paddingBottom: spacing.xs,
+  borderBottomWidth: 1,
+  borderBottomColor: colors.separator,
+})
+
+const $resultRow: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  flexDirection: "row",
+  alignItems: "center",
+  gap: spacing.sm,
+})
+
+const $label: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
+
+const $error: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.error,
+})
+
+const $pendingBadge: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.palette.accent500,
+})
@@ -0,0 +1,277 @@
+import { FC, useEffect, useState } from "react"
+import { ActivityIndicator, ScrollView, TextStyle, View, ViewStyle } from "react-native"
+
+import { Button } from "@/components/Button"
+import { Screen } from "@/components/Screen"
+import { Text } from "@/components/Text"
+import { TextField } from "@/components/TextField"
+import { Radio } from "@/components/Toggle/Radio"
+import { useAuth } from "@/context/AuthContext"
+import { useSync } from "@/context/SyncContext"
+import type { TxKeyPath } from "@/i18n"
+import type { AppStackScreenProps } from "@/navigators/navigationTypes"
+import { api } from "@/services/api"
+import type { FieldErrors } from "@/services/api/apiProblem"
+import { SampleStatuses, SampleTypes } from "@/services/api/enums"
+import type { CreateSampleDto, SampleDto, UpdateSampleDto } from "@/services/api/types"
+import { isLocalId, outboxStore } from "@/stores/outboxStore"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+import {
+  emptySampleForm,
+  type SampleFormErrors,
+  type SampleFormValues,
+  sampleToForm,
+  toCreateSampleDto,
+  toUpdateSampleDto,
+  validateSampleForm,
+} from "@/utils/sampleForm"
+import { useAbortSignal } from "@/utils/useAbortSignal"
+import { useApiMutation } from "@/utils/useApiMutation"
+import { useHeader } from "@/utils/useHeader"
+
+interface SampleEditScreenProps extends AppStackScreenProps<"SampleEdit"> {}
+
+type TextFieldName = Exclude<keyof SampleFormValues, "type" | "status">
+
+export const SampleEditScreen: FC<SampleEditScreenProps> = ({ navigation, route }) => {
+  const { sampleId } = route.params
+  const isNew = !sampleId
+  const { themed } = useAppTheme()
+  const { labId } = useAuth()
+  const { createSample, updateSample } = useSync()
+  const { mutate: create, isPending: isCreating } = useApiMutation((dto: CreateSampleDto) =>
+    createSample(dto),
+  )
+  const { mutate: update, isPending: isUpdating } = useApiMutation(
+    ({ id, dto }: { id: string; dto: UpdateSampleDto }) => updateSample(id, dto),
+    { invalidates: ({ id }) => [["getSampleById", id]] },
+  )
+  const isSaving = isCreating || isUpdating
+
+  const [original, setOriginal] = useState<SampleDto | undefined>()
+  const [values, setValues] = useState<SampleFormValues>(() => emptySampleForm())
+  const [errors, setErrors] = useState<SampleFormErrors>({})
+  /** Messages from a server-side validation failure, until the field is edited. */
+  const [serverErrors, setServerErrors] = useState<FieldErrors>({})
+  const [isSubmitted, setIsSubmitted] = useState(false)
+  const [errorTx, setErrorTx] = useState<TxKeyPath | undefined>()
+  const signal = useAbortSignal()
+
+  useHeader(
+    {
+      titleTx: isNew ? "sampleEditScreen:createTitle" : "sampleEditScreen:editTitle",
+      leftIcon: "back",
+      onLeftPress: () => navigation.goBack(),
+    },
+    [navigation, isNew],
+  )
+
+  useEffect(() => {
+    if (!sampleId) return
+
+    function populate(sample: SampleDto) {
+      setOriginal(sample)
+      setValues(sampleToForm(sample))
+    }
+
+    if (isLocalId(sampleId)) {
+      const pending = outboxStore.getPendingSamples().find((sample) => sample.id === sampleId)
+      if (pending) populate(pending)
+      else setErrorTx("sampleEditScreen:loadFailed")
+      return
+    }
+
+    void api.getSampleById(sampleId, { signal: signal() }).then((result) => {
+      if (result.kind === "ok") populate(outboxStore.applyPendingEdits(result.data))
+      else setErrorTx("sampleEditScreen:loadFailed")
+    })
+  }, [sampleId, signal])
+
+  function setField<K extends keyof SampleFormValues>(field: K, value: SampleFormValues[K]) {
+    const next = { ...values, [field]: value }
+    setValues(next)
+    if (serverErrors[field]) setServerErrors({ ...serverErrors, [field]: [] })
+    // Only re-validate as the user types once they have tried to save.
+    if (isSubmitted) setErrors(validateSampleForm(next))
+  }
+
+  function rejectFields(fieldErrors: FieldErrors) {
+    setServerErrors(fieldErrors)
+    setErrorTx("sampleEditScreen:saveInvalid")
+  }
+
+  async function save() {
+    setIsSubmitted(true)
+    setErrorTx(undefined)
+    setServerErrors({})
+
+    const validation = validateSampleForm(values)
+    setErrors(validation)
+    if (Object.keys(validation).length > 0) return
+    if (!labId) {
+      setErrorTx("sampleEditScreen:noLab")
+      return
+    }
+
+    if (!sampleId) {
+      const result = await create(toCreateSampleDto(values, labId))
+      if (result.kind === "ok" || result.kind === "queued") navigation.goBack()
+      else if (result.kind === "validation") rejectFields(result.errors)
+      else setErrorTx("sampleEditScreen:saveFailed")
+      return
+    }
+
+    const dto = toUpdateSampleDto(values, original?.version ?? 0)
+    const result = await update({ id: sampleId, dto })
+
+    if (result.kind === "ok" || result.kind === "queued") {
+      navigation.goBack()
+    } else if (result.kind === "conflict") {
+      navigation.replace("ConflictResolution", { entityType: "sample", id: sampleId, local: dto })
+    } else if (result.kind === "validation") {
+      rejectFields(result.errors)
+    } else {
+      setErrorTx("sampleEditScreen:saveFailed")
+    }
+  }
+
+  function textField(field: TextFieldName, labelTx: TxKeyPath, multiline = false) {
+    return (
+      <TextField
+        value={values[field]}
+        onChangeText={(text) => setField(field, text)}
+        labelTx={labelTx}
+        {...fieldStatus(field)}
+        multiline={multiline}
+        containerStyle={themed($field)}
+      />
+    )
+  }
+
+  /** Local validation wins; otherwise the first message the server sent for the field. */
+  function fieldStatus(field: keyof SampleFormValues) {
+    const helper = serverErrors[field]?.[0]
+    return {
+      helperTx: errors[field],
+      helper,
+      status: errors[field] || helper ? ("error" as const) : undefined,
+    }
+  }
+
+  // Errors for properties the form doesn't show, e.g. the lab, are listed under the banner.
+  const otherServerErrors = Object.entries(serverErrors)
+    .filter(([field]) => !(field in values))
+    .flatMap(([, messages]) => messages)
+
+  if (sampleId && !original && !errorTx) {
+    return (
+      <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+        <ActivityIndicator />
+      </Screen>
+    )
+  }
+
+  return (
+    <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+      <ScrollView contentContainerStyle={themed($content)} keyboardShouldPersistTaps="handled">
+        {errorTx && <Text tx={errorTx} style={themed($error)} />}
+        {otherServerErrors.map((message) => (
+          <Text key={message} size="xs" text={message} style={themed($error)} />
+        ))}
+
+        <Text preset="formLabel" tx="sampleFields:type" />
+        <View style={themed($options)}>
+          {SampleTypes.options.map((option) => (
+            <Radio
+              key={option.value}
+              value={values.type === option.value}
+              onValueChange={() => setField("type", option.value)}
+              labelTx={option.tx}
+            />
+          ))}
+        </View>
+
+        {!isNew && (
+          <>
+            <Text preset="formLabel" tx="sampleFields:status" />
+            <View style={themed($options)}>
+              {SampleStatuses.options.map((option) => (
+                <Radio
+                  key={option.value}
+                  value={values.status === option.value}
+                  onValueChange={() => setField("status", option.value)}
+                  labelTx={option.tx}
+                />
+              ))}
+            </View>
+          </>
+        )}
+
+        <TextField
+          value={values.collectionDate}
+          onChangeText={(text) => setField("collectionDate", text)}
+          labelTx="sampleFields:collectionDate"
+          placeholderTx="sampleEditScreen:datePlaceholder"
+          {...fieldStatus("collectionDate")}
+          containerStyle={themed($field)}
+        />
+        {textField("collectorName", "sampleFields:collectorName")}
+        <View style={themed($coordinates)}>
+          <TextField
+            value={values.locationLatitude}
+            onChangeText={(text) => setField("locationLatitude", text)}
+            labelTx="sampleFields:locationLatitude"
+            keyboardType="numbers-and-punctuation"
+            {...fieldStatus("locationLatitude")}
+            containerStyle={$styles.flex1}
+          />
+          <TextField
+            value={values.locationLongitude}
+            onChangeText={(text) => setField("locationLongitude", text)}
+            labelTx="sampleFields:locationLongitude"
+            keyboardType="numbers-and-punctuation"
+            {...fieldStatus("locationLongitude")}
+            containerStyle={$styles.flex1}
+          />
+        </View>
+        {textField("locationDescription", "sampleFields:locationDescription")}
+        {textField("locationHierarchy", "sampleFields:locationHierarchy")}
+        {textField("notes", "sampleFields:notes", true)}
+
+        <Button
+          testID="save-sample-button"
+          preset="reversed"
+          tx="sampleEditScreen:save"
+          disabled={isSaving}
+          onPress={save}
+        />
+      </ScrollView>
+    </Screen>
+  )
+}
+
+const $content: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  padding: spacing.lg,
+  gap: spacing.sm,
+})
+
+const $options: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  gap: spacing.xs,
+  marginBottom: spacing.sm,
+})
+
+const $field: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  marginBottom: spacing.xs,
+})
+
+const $coordinates: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  flexDirection: "row",
+  gap: spacing.sm,
+  marginBottom: spacing.xs,
+})
+
+const $error: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.error,
+})
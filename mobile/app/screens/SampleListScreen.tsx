@@ -0,0 +1,168 @@
+import { FC, useCallback, useMemo } from "react"
+import { TextStyle, View, ViewStyle } from "react-native"
+
+import { Button } from "@/components/Button"
+import { Can } from "@/components/Can"
+import { ListItem } from "@/components/ListItem"
+import { PagedList } from "@/components/PagedList"
+import { Screen } from "@/components/Screen"
+import { StatusBadge } from "@/components/StatusBadge"
+import { SyncStatusBanner } from "@/components/SyncStatusBanner"
+import { Text } from "@/components/Text"
+import { useAuth } from "@/context/AuthContext"
+import { useSync } from "@/context/SyncContext"
+import type { AppStackScreenProps } from "@/navigators/navigationTypes"
+import { api } from "@/services/api"
+import {
+  appearanceOf,
+  SAMPLE_STATUS_APPEARANCE,
+  SampleStatuses,
+  SampleTypes,
+} from "@/services/api/enums"
+import type { SampleDto } from "@/services/api/types"
+import { outboxStore } from "@/stores/outboxStore"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+import { formatDate } from "@/utils/formatDate"
+import { useHeader } from "@/utils/useHeader"
+import { type PageFetcher, usePagedList } from "@/utils/usePagedList"
+
+const PAGE_SIZE = 20
+
+interface SampleListScreenProps extends AppStackScreenProps<"SampleList"> {}
+
+export const SampleListScreen: FC<SampleListScreenProps> = ({ navigation }) => {
+  const { themed } = useAppTheme()
+  const { labId, labs, logout } = useAuth()
+  const { entries } = useSync()
+
+  const list = usePagedList(
+    useCallback<PageFetcher<SampleDto>>(
+      (page, size, options) => api.getSamplesByLab(labId ?? "", page, size, options),
+      [labId],
+    ),
+    { pageSize: PAGE_SIZE, enabled: !!labId },
+  )
+
+  const labName = labs.find((lab) => lab.labId === labId)?.labName
+
+  useHeader(
+    {
+      titleTx: "sampleListScreen:title",
+      // Opens the lab switcher; falls back to a generic label before memberships load.
+      ...(labName ? { leftText: labName } : { leftTx: "sampleListScreen:switchLab" }),
+      onLeftPress: () => navigation.navigate("LabPicker"),
+      rightTx: "common:logOut",
+      onRightPress: logout,
+    },
+    [labName, logout, navigation],
+  )
+
+  // Samples captured offline are shown first, ahead of the server's pages.
+  const data = useMemo(() => {
+    const pending = outboxStore.getPendingSamples().filter((sample) => sample.labId === labId)
+    return [...pending, ...list.items.map((sample) => outboxStore.applyPendingEdits(sample))]
+    // `entries` changes whenever the outbox does.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [entries, list.items, labId])
+
+  return (
+    <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+      <SyncStatusBanner onPress={() => navigation.navigate("PendingChanges")} />
+      <PagedList<SampleDto>
+        contentContainerStyle={themed($listContentContainer)}
+        list={{ ...list, items: data }}
+        emptyHeadingTx="sampleListScreen:emptyHeading"
+        emptyContentTx="sampleListScreen:emptyContent"
+        failedHeadingTx="sampleListScreen:loadFailed"
+        ListHeaderComponent={
+          <View style={themed($headerButtons)}>
+            <Can permission="sample:create">
+              <Button
+                testID="new-sample-button"
+                preset="reversed"
+                tx="sampleListScreen:newSample"
+                onPress={() => navigation.navigate("SampleEdit", {})}
+              />
+            </Can>
+            <Button
+              tx="sampleListScreen:settings"
+              onPress={() => navigation.navigate("Settings")}
+            />
+            <Can permission="admin:view">
+              <Button
+                tx="sampleListScreen:administration"
+                onPress={() => navigation.navigate("Admin")}
+              />
+            </Can>
+          </View>
+        }
+        renderItem={({ item }) => (
+          <SampleListItem
+            sample={item}
+            onPress={() => item.id && navigation.navigate("SampleDetail", { sampleId: item.id })}
+          />
+        )}
+      />
+    </Screen>
+  )
+}
+
+const SampleListItem = ({ sample, onPress }: { sample: SampleDto; onPress: () => void }) => {
+  const { themed } = useAppTheme()
+
+  return (
+    <ListItem
+      height={72}
+      bottomSeparator
+      rightIcon="caretRight"
+      onPress={onPress}
+      accessibilityHint={sample.locationDescription ?? undefined}
+    >
+      <View style={themed($titleRow)}>
+        <Text weight="medium" tx={SampleTypes.tx(sample.type)} />
+        <StatusBadge
+          appearance={appearanceOf(SAMPLE_STATUS_APPEARANCE, sample.status)}
+          tx={SampleStatuses.tx(sample.status)}
+        />
+        {sample.isSynced === false && (
+          <Text size="xxs" style={themed($pendingBadge)} tx="sampleListScreen:pendingSync" />
+        )}
+      </View>
+      <Text size="xs" style={themed($meta)}>
+        {[
+          sample.collectionDate ? formatDate(sample.collectionDate) : undefined,
+          sample.locationDescription,
+          sample.collectorName,
+        ]
+          .filter(Boolean)
+          .join(" · ")}
+      </Text>
+    </ListItem>
+  )
+}
+
+const $listContentContainer: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  paddingHorizontal: spacing.lg,
+  paddingBottom: spacing.lg,
+})
+
+const $headerButtons: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  gap: spacing.sm,
+  marginVertical: spacing.md,
+})
+
+const $meta: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
+
+const $titleRow: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  flexDirection: "row",
+  alignItems: "center",
+  gap: spacing.xs,
+})
+
+const $pendingBadge: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.palette.accent500,
+})
@@ -0,0 +1,113 @@
+import { FC } from "react"
+import { ScrollView, TextStyle, View, ViewStyle } from "react-native"
+import * as Application from "expo-application"
+
+import { Button } from "@/components/Button"
+import { Screen } from "@/components/Screen"
+import { Text } from "@/components/Text"
+import Config from "@/config"
+import { useAuth } from "@/context/AuthContext"
+import { useServerCompatibility } from "@/context/ServerCompatibilityContext"
+import type { TxKeyPath } from "@/i18n"
+import type { AppStackScreenProps } from "@/navigators/navigationTypes"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+
+interface ServerIncompatibleScreenProps extends AppStackScreenProps<"ServerIncompatible"> {}
+
+/**
+ * Shown instead of the app while the server's version is outside the range this build
+ * supports, so nobody records data against an API the app doesn't understand.
+ */
+export const ServerIncompatibleScreen: FC<ServerIncompatibleScreenProps> = ({ navigation }) => {
+  const { themed } = useAppTheme()
+  const { server: profile, logout } = useAuth()
+  const { compatibility, server, isChecking, check } = useServerCompatibility()
+  const isUpdateRequired = compatibility === "updateRequired"
+  const { minVersion, maxVersion, apiVersion } = Config.SUPPORTED_SERVER
+
+  return (
+    <Screen preset="fixed" contentContainerStyle={$styles.flex1} safeAreaEdges={["top", "bottom"]}>
+      <ScrollView contentContainerStyle={themed($content)}>
+        <Text
+          preset="heading"
+          tx={
+            isUpdateRequired
+              ? "serverIncompatibleScreen:updateRequiredTitle"
+              : "serverIncompatibleScreen:incompatibleTitle"
+          }
+        />
+        <Text
+          tx={
+            isUpdateRequired
+              ? "serverIncompatibleScreen:updateRequiredMessage"
+              : "serverIncompatibleScreen:incompatibleMessage"
+          }
+        />
+
+        <View style={themed($details)}>
+          <DetailRow
+            labelTx="serverIncompatibleScreen:serverVersion"
+            value={server ? `${server.version} (${server.apiVersion})` : "—"}
+          />
+          <DetailRow
+            labelTx="serverIncompatibleScreen:supportedVersions"
+            value={`${minVersion} – ${maxVersion} (${apiVersion})`}
+          />
+          <DetailRow
+            labelTx="serverIncompatibleScreen:appVersion"
+            value={Application.nativeApplicationVersion ?? "—"}
+          />
+          <DetailRow
+            labelTx="serverIncompatibleScreen:server"
+            value={`${profile.name} (${profile.url})`}
+          />
+        </View>
+
+        <Button
+          preset="reversed"
+          tx="serverIncompatibleScreen:checkAgain"
+          disabled={isChecking}
+          onPress={() => void check()}
+        />
+        <Button
+          tx="serverIncompatibleScreen:diagnostics"
+          onPress={() => navigation.navigate("Diagnostics")}
+        />
+        <Button
+          tx="serverIncompatibleScreen:changeServer"
+          onPress={() => navigation.navigate("ServerSelect")}
+        />
+        <Button tx="common:logOut" onPress={logout} />
+      </ScrollView>
+    </Screen>
+  )
+}
+
+const DetailRow = ({ labelTx, value }: { labelTx: TxKeyPath; value: string }) => {
+  const { themed } = useAppTheme()
+
+  return (
+    <View>
+      <Text size="xs" tx={labelTx} style={themed($dim)} />
+      <Text text={value} />
+    </View>
+  )
+}
+
+const $content: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  flexGrow: 1,
+  justifyContent: "center",
+  padding: spacing.lg,
+  gap: spacing.md,
+})
+
+const $details: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  gap: spacing.sm,
+  marginVertical: spacing.sm,
+})
+
+const $dim: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
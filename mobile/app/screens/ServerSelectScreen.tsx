@@ -0,0 +1,254 @@
+import { FC, useEffect, useState } from "react"
+import { Alert, FlatList, TextStyle, View, ViewStyle } from "react-native"
+
+import { Button } from "@/components/Button"
+import { Icon, PressableIcon } from "@/components/Icon"
+import { ListItem } from "@/components/ListItem"
+import { Screen } from "@/components/Screen"
+import { Text } from "@/components/Text"
+import { TextField } from "@/components/TextField"
+import { useAuth } from "@/context/AuthContext"
+import { useSync } from "@/context/SyncContext"
+import type { TxKeyPath } from "@/i18n"
+import { translate } from "@/i18n/translate"
+import type { AppStackScreenProps } from "@/navigators/navigationTypes"
+import { Api, DEFAULT_API_CONFIG } from "@/services/api"
+import { authStore } from "@/stores/authStore"
+import {
+  DEFAULT_PROFILE_ID,
+  type ServerProfile,
+  serverProfileStore,
+} from "@/stores/serverProfileStore"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+import {
+  emptyServerProfileForm,
+  type ServerProfileFormErrors,
+  type ServerProfileFormValues,
+  toServerProfile,
+  validateServerProfileForm,
+} from "@/utils/serverProfileForm"
+import { useAbortSignal } from "@/utils/useAbortSignal"
+import { useHeader } from "@/utils/useHeader"
+
+interface ServerSelectScreenProps extends AppStackScreenProps<"ServerSelect"> {}
+
+/**
+ * Picks the backend to sign in to, for labs running their own deployment. Shown on first
+ * launch and reachable from the login screen and settings. Each server keeps its own
+ * session, so switching back signs the user straight in again.
+ */
+export const ServerSelectScreen: FC<ServerSelectScreenProps> = ({ navigation }) => {
+  const { themed } = useAppTheme()
+  const { server, isAuthenticated, labId, switchServer } = useAuth()
+  const { entries } = useSync()
+
+  const [profiles, setProfiles] = useState<ServerProfile[]>(() => serverProfileStore.getProfiles())
+  const [values, setValues] = useState<ServerProfileFormValues>(() => emptyServerProfileForm())
+  const [errors, setErrors] = useState<ServerProfileFormErrors>({})
+  const [isSubmitted, setIsSubmitted] = useState(false)
+  const [isChecking, setIsChecking] = useState(false)
+  const [errorTx, setErrorTx] = useState<TxKeyPath | undefined>()
+  /** The profile just switched to, until the navigator has caught up with its session. */
+  const [switchedTo, setSwitchedTo] = useState<string | undefined>()
+  const signal = useAbortSignal()
+  const canGoBack = navigation.canGoBack()
+
+  useHeader(
+    {
+      titleTx: "serverSelectScreen:title",
+      ...(canGoBack && { leftIcon: "back" as const, onLeftPress: () => navigation.goBack() }),
+    },
+    [canGoBack, navigation],
+  )
+
+  // Runs once the navigator has registered the screens for the new server's session,
+  // and unmounts every screen still holding the previous server's records.
+  useEffect(() => {
+    if (!switchedTo || switchedTo !== server.id) return
+    setSwitchedTo(undefined)
+    navigation.reset({
+      index: 0,
+      routes: [{ name: isAuthenticated ? (labId ? "SampleList" : "LabPicker") : "Login" }],
+    })
+  }, [isAuthenticated, labId, navigation, server.id, switchedTo])
+
+  function choose(profile: ServerProfile) {
+    if (profile.id === server.id && serverProfileStore.hasChosenProfile()) {
+      if (canGoBack) navigation.goBack()
+      else navigation.reset({ index: 0, routes: [{ name: "Login" }] })
+      return
+    }
+    // Queued writes are kept per server; they'd sit unsent until the user switched back.
+    if (entries.length > 0) {
+      setErrorTx("serverSelectScreen:pendingChanges")
+      return
+    }
+
+    setErrorTx(undefined)
+    switchServer(profile.id)
+    setSwitchedTo(profile.id)
+  }
+
+  function confirmRemove(profile: ServerProfile) {
+    Alert.alert(
+      translate("serverSelectScreen:removeTitle"),
+      translate("serverSelectScreen:removeMessage", { name: profile.name }),
+      [
+        { text: translate("common:cancel"), style: "cancel" },
+        {
+          text: translate("serverSelectScreen:remove"),
+          style: "destructive",
+          onPress: () => {
+            authStore.clear(profile.id)
+            serverProfileStore.removeProfile(profile.id)
+            setProfiles(serverProfileStore.getProfiles())
+          },
+        },
+      ],
+    )
+  }
+
+  function setField<K extends keyof ServerProfileFormValues>(
+    field: K,
+    value: ServerProfileFormValues[K],
+  ) {
+    const next = { ...values, [field]: value }
+    setValues(next)
+    // Only re-validate as the user types once they have tried to add.
+    if (isSubmitted) setErrors(validateServerProfileForm(next, profiles))
+  }
+
+  async function add() {
+    setIsSubmitted(true)
+    setErrorTx(undefined)
+
+    const validation = validateServerProfileForm(values, profiles)
+    setErrors(validation)
+    if (Object.keys(validation).length > 0) return
+
+    // Probe with a client of its own: the shared one sends the active session's tokens,
+    // which a server the user hasn't signed in to yet has no business seeing.
+    const profile = toServerProfile(values)
+    const probe = new Api({ ...DEFAULT_API_CONFIG, url: profile.url, anonymous: true })
+    setIsChecking(true)
+    const result = await probe.getLiveness({ signal: signal(), retry: false })
+    setIsChecking(false)
+
+    if (result.kind === "cancelled") return
+    if (result.kind !== "ok") {
+      setErrorTx("serverSelectScreen:unreachable")
+      return
+    }
+
+    serverProfileStore.addProfile(profile)
+    setProfiles(serverProfileStore.getProfiles())
+    setValues(emptyServerProfileForm())
+    setIsSubmitted(false)
+  }
+
+  return (
+    <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+      <FlatList<ServerProfile>
+        contentContainerStyle={themed($listContentContainer)}
+        keyboardShouldPersistTaps="handled"
+        data={profiles}
+        keyExtractor={(profile) => profile.id}
+        ListHeaderComponent={
+          <View style={themed($header)}>
+            <Text tx="serverSelectScreen:description" style={themed($dim)} />
+            {errorTx && <Text tx={errorTx} style={themed($error)} />}
+            {errorTx === "serverSelectScreen:pendingChanges" && (
+              <Button
+                tx="serverSelectScreen:reviewPendingChanges"
+                onPress={() => navigation.navigate("PendingChanges")}
+              />
+            )}
+          </View>
+        }
+        renderItem={({ item }) => (
+          <ListItem
+            bottomSeparator
+            height={64}
+            onPress={() => choose(item)}
+            RightComponent={
+              item.id === server.id ? (
+                <Icon icon="check" containerStyle={$trailingIcon} />
+              ) : item.id !== DEFAULT_PROFILE_ID ? (
+                <PressableIcon
+                  icon="x"
+                  accessibilityRole="button"
+                  accessibilityLabel={translate("serverSelectScreen:remove")}
+                  containerStyle={$trailingIcon}
+                  onPress={() => confirmRemove(item)}
+                />
+              ) : undefined
+            }
+          >
+            <Text weight="medium" text={item.name} />
+            {"\n"}
+            <Text size="xxs" text={item.url} style={themed($dim)} />
+          </ListItem>
+        )}
+        ListFooterComponent={
+          <View style={themed($form)}>
+            <Text preset="formLabel" tx="serverSelectScreen:addTitle" />
+            <TextField
+              value={values.name}
+              onChangeText={(text) => setField("name", text)}
+              labelTx="serverSelectScreen:name"
+              placeholderTx="serverSelectScreen:namePlaceholder"
+              helperTx={errors.name}
+              status={errors.name ? "error" : undefined}
+            />
+            <TextField
+              value={values.url}
+              onChangeText={(text) => setField("url", text)}
+              labelTx="serverSelectScreen:url"
+              placeholder="https://quater.example.org"
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+              helperTx={errors.url}
+              status={errors.url ? "error" : undefined}
+            />
+            <Button
+              testID="add-server-button"
+              tx={isChecking ? "serverSelectScreen:checking" : "serverSelectScreen:add"}
+              disabled={isChecking}
+              onPress={add}
+            />
+          </View>
+        }
+      />
+    </Screen>
+  )
+}
+
+const $listContentContainer: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  paddingHorizontal: spacing.lg,
+  paddingBottom: spacing.lg,
+})
+
+const $header: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  gap: spacing.sm,
+  paddingVertical: spacing.md,
+})
+
+const $form: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  gap: spacing.sm,
+  paddingTop: spacing.xl,
+})
+
+const $trailingIcon: ViewStyle = {
+  alignSelf: "center",
+}
+
+const $dim: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
+
+const $error: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.error,
+})
@@ -0,0 +1,68 @@
+import { FC } from "react"
+import { ScrollView, TextStyle, ViewStyle } from "react-native"
+
+import { ListItem } from "@/components/ListItem"
+import { Screen } from "@/components/Screen"
+import { Text } from "@/components/Text"
+import { useAuth } from "@/context/AuthContext"
+import type { AppStackScreenProps } from "@/navigators/navigationTypes"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+import { useHeader } from "@/utils/useHeader"
+
+interface SettingsScreenProps extends AppStackScreenProps<"Settings"> {}
+
+/** Account and app settings for the signed-in user, whatever their role. */
+export const SettingsScreen: FC<SettingsScreenProps> = ({ navigation }) => {
+  const { themed } = useAppTheme()
+  const { server } = useAuth()
+
+  useHeader(
+    { titleTx: "settingsScreen:title", leftIcon: "back", onLeftPress: () => navigation.goBack() },
+    [navigation],
+  )
+
+  return (
+    <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+      <ScrollView contentContainerStyle={themed($content)}>
+        <ListItem
+          bottomSeparator
+          rightIcon="caretRight"
+          onPress={() => navigation.navigate("ChangePassword")}
+        >
+          <Text weight="medium" tx="settingsScreen:changePassword" />
+          {"\n"}
+          <Text size="xs" tx="settingsScreen:changePasswordDescription" style={themed($meta)} />
+        </ListItem>
+        <ListItem
+          bottomSeparator
+          rightIcon="caretRight"
+          onPress={() => navigation.navigate("ServerSelect")}
+        >
+          <Text weight="medium" tx="settingsScreen:server" />
+          {"\n"}
+          <Text size="xs" text={`${server.name} · ${server.url}`} style={themed($meta)} />
+        </ListItem>
+        <ListItem
+          bottomSeparator
+          rightIcon="caretRight"
+          onPress={() => navigation.navigate("Diagnostics")}
+        >
+          <Text weight="medium" tx="settingsScreen:diagnostics" />
+          {"\n"}
+          <Text size="xs" tx="settingsScreen:diagnosticsDescription" style={themed($meta)} />
+        </ListItem>
+      </ScrollView>
+    </Screen>
+  )
+}
+
+const $content: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  paddingHorizontal: spacing.lg,
+  paddingBottom: spacing.lg,
+})
+
+const $meta: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
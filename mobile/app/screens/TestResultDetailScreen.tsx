@@ -0,0 +1,187 @@
+import { FC, useCallback, useState } from "react"
+import { ActivityIndicator, Alert, ScrollView, TextStyle, View, ViewStyle } from "react-native"
+import { useFocusEffect } from "@react-navigation/native"
+
+import { Can } from "@/components/Can"
+import { ComplianceBadge } from "@/components/ComplianceBadge"
+import { RecordHistory } from "@/components/RecordHistory"
+import { Screen } from "@/components/Screen"
+import { Text } from "@/components/Text"
+import { useSync } from "@/context/SyncContext"
+import type { TxKeyPath } from "@/i18n"
+import { translate } from "@/i18n/translate"
+import type { AppStackScreenProps } from "@/navigators/navigationTypes"
+import { api } from "@/services/api"
+import { TestMethods } from "@/services/api/enums"
+import type { AuditLogDto, TestResultDto, UpdateTestResultDto } from "@/services/api/types"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+import { restoreTestResultDto } from "@/utils/auditRestore"
+import { formatDate } from "@/utils/formatDate"
+import { useAbortSignal } from "@/utils/useAbortSignal"
+import { useApiMutation } from "@/utils/useApiMutation"
+import { useHeader } from "@/utils/useHeader"
+
+interface TestResultDetailScreenProps extends AppStackScreenProps<"TestResultDetail"> {}
+
+/** A recorded test result and, for admins, who changed it and when. */
+export const TestResultDetailScreen: FC<TestResultDetailScreenProps> = ({ navigation, route }) => {
+  const { testResultId } = route.params
+  const { themed } = useAppTheme()
+  const { updateTestResult } = useSync()
+  const { mutate: restoreTestResult, isPending: isRestoring } = useApiMutation(
+    ({ id, dto }: { id: string; sampleId?: string; dto: UpdateTestResultDto }) =>
+      updateTestResult(id, dto),
+    {
+      invalidates: ({ sampleId }) => [
+        sampleId ? ["getTestResultsBySample", sampleId] : ["getTestResultsBySample"],
+      ],
+    },
+  )
+
+  const [result, setResult] = useState<TestResultDto | undefined>()
+  const [errorTx, setErrorTx] = useState<TxKeyPath | undefined>()
+  const signal = useAbortSignal()
+
+  useHeader(
+    {
+      titleTx: "testResultDetailScreen:title",
+      leftIcon: "back",
+      onLeftPress: () => navigation.goBack(),
+    },
+    [navigation],
+  )
+
+  const load = useCallback(async () => {
+    const loaded = await api.getTestResultById(testResultId, { signal: signal() })
+    if (loaded.kind === "ok") setResult(loaded.data)
+    else if (loaded.kind !== "cancelled") setErrorTx("testResultDetailScreen:loadFailed")
+  }, [signal, testResultId])
+
+  useFocusEffect(
+    useCallback(() => {
+      void load()
+    }, [load]),
+  )
+
+  function confirmRestore(entry: AuditLogDto) {
+    Alert.alert(
+      translate("recordHistory:restoreTitle"),
+      translate("recordHistory:restoreMessage"),
+      [
+        { text: translate("common:cancel"), style: "cancel" },
+        { text: translate("recordHistory:restore"), onPress: () => void restore(entry) },
+      ],
+    )
+  }
+
+  async function restore(entry: AuditLogDto) {
+    const dto = result && restoreTestResultDto(result, entry)
+    if (!dto) return
+    setErrorTx(undefined)
+    const saved = await restoreTestResult({ id: testResultId, sampleId: result.sampleId, dto })
+
+    if (saved.kind === "ok" || saved.kind === "queued") {
+      await load()
+    } else if (saved.kind === "conflict") {
+      navigation.navigate("ConflictResolution", {
+        entityType: "testResult",
+        id: testResultId,
+        local: dto,
+      })
+    } else {
+      setErrorTx("recordHistory:restoreFailed")
+    }
+  }
+
+  return (
+    <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+      <ScrollView contentContainerStyle={themed($content)}>
+        {errorTx && <Text tx={errorTx} style={themed($error)} />}
+
+        {!result ? (
+          !errorTx && <ActivityIndicator />
+        ) : (
+          <>
+            <View style={themed($titleRow)}>
+              <Text
+                preset="subheading"
+                style={$styles.flex1}
+                text={`${result.parameterName}: ${result.value} ${result.unit ?? ""}`.trim()}
+              />
+              {result.complianceStatus !== undefined && (
+                <ComplianceBadge status={result.complianceStatus} />
+              )}
+            </View>
+            <DetailRow
+              labelTx="testResultFields:testDate"
+              value={result.testDate ? formatDate(result.testDate, "Pp") : undefined}
+            />
+            <DetailRow labelTx="testResultFields:technicianName" value={result.technicianName} />
+            <DetailRow
+              labelTx="testResultFields:testMethod"
+              valueTx={TestMethods.tx(result.testMethod)}
+            />
+
+            <Can permission="audit:view">
+              <RecordHistory
+                entityId={testResultId}
+                revision={result.version}
+                canRestore={(entry) => !isRestoring && !!restoreTestResultDto(result, entry)}
+                onRestore={confirmRestore}
+                onPressEntry={(entry) =>
+                  entry.id && navigation.navigate("AuditLogDetail", { auditLogId: entry.id })
+                }
+              />
+            </Can>
+          </>
+        )}
+      </ScrollView>
+    </Screen>
+  )
+}
+
+const DetailRow = ({
+  labelTx,
+  value,
+  valueTx,
+}: {
+  labelTx: TxKeyPath
+  value?: string | null
+  valueTx?: TxKeyPath
+}) => {
+  const { themed } = useAppTheme()
+
+  return (
+    <View style={themed($row)}>
+      <Text size="xs" tx={labelTx} style={themed($label)} />
+      {valueTx ? <Text tx={valueTx} /> : <Text text={value || "—"} />}
+    </View>
+  )
+}
+
+const $content: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  padding: spacing.lg,
+  gap: spacing.md,
+})
+
+const $titleRow: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  flexDirection: "row",
+  alignItems: "center",
+  gap: spacing.sm,
+})
+
+const $row: ThemedStyle<ViewStyle> = ({ colors, spacing }) => ({
+  paddingBottom: spacing.xs,
+  borderBottomWidth: 1,
+  borderBottomColor: colors.separator,
+})
+
+const $label: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
+
+const $error: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.error,
+})
@@ -0,0 +1,318 @@
+import { FC, useMemo, useState } from "react"
+import { ActivityIndicator, ScrollView, TextStyle, View, ViewStyle } from "react-native"
+
+import { Button } from "@/components/Button"
+import { ComplianceBadge } from "@/components/ComplianceBadge"
+import { Screen } from "@/components/Screen"
+import { Text } from "@/components/Text"
+import { TextField } from "@/components/TextField"
+import { Radio } from "@/components/Toggle/Radio"
+import { useSync } from "@/context/SyncContext"
+import type { TxKeyPath } from "@/i18n"
+import type { AppStackScreenProps } from "@/navigators/navigationTypes"
+import { api } from "@/services/api"
+import type { FieldErrors } from "@/services/api/apiProblem"
+import { TestMethods } from "@/services/api/enums"
+import type { CreateTestResultDto, ParameterDto, TestResultDto } from "@/services/api/types"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+import { loadString, saveString } from "@/utils/storage"
+import {
+  emptyTestResultForm,
+  isOutOfRange,
+  parseResultValue,
+  predictCompliance,
+  type TestResultFormErrors,
+  type TestResultFormValues,
+  toCreateTestResultDto,
+  validateTestResultForm,
+} from "@/utils/testResultForm"
+import { useApiMutation } from "@/utils/useApiMutation"
+import { useApiQuery } from "@/utils/useApiQuery"
+import { useHeader } from "@/utils/useHeader"
+
+/** Remembers who entered the last result so the next one is pre-filled. */
+const TECHNICIAN_NAME_KEY = "testResults.technicianName"
+
+interface TestResultEntryScreenProps extends AppStackScreenProps<"TestResultEntry"> {}
+
+export const TestResultEntryScreen: FC<TestResultEntryScreenProps> = ({ navigation, route }) => {
+  const { sampleId } = route.params
+  const { themed } = useAppTheme()
+  const { createTestResult } = useSync()
+  const { mutate: create, isPending: isSaving } = useApiMutation(
+    (dto: CreateTestResultDto) => createTestResult(dto),
+    { invalidates: (dto) => [["getTestResultsBySample", dto.sampleId]] },
+  )
+  // Kept across cold starts, so results can be entered in the field without a signal.
+  const { data: parameters, problem: parametersProblem } = useApiQuery(
+    ["getActiveParameters"],
+    (options) => api.getActiveParameters(options),
+    { persist: true },
+  )
+  const [values, setValues] = useState<TestResultFormValues>(() =>
+    emptyTestResultForm(loadString(TECHNICIAN_NAME_KEY) ?? ""),
+  )
+  const [errors, setErrors] = useState<TestResultFormErrors>({})
+  /** Messages from a server-side validation failure, until the field is edited. */
+  const [serverErrors, setServerErrors] = useState<FieldErrors>({})
+  const [isSubmitted, setIsSubmitted] = useState(false)
+  const [saveErrorTx, setSaveErrorTx] = useState<TxKeyPath | undefined>()
+  const errorTx =
+    saveErrorTx ??
+    (parametersProblem && !parameters ? "testResultEntryScreen:parametersFailed" : undefined)
+  /** The saved result, and whether it is still waiting in the outbox. */
+  const [saved, setSaved] = useState<{ result: TestResultDto; queued: boolean } | undefined>()
+
+  useHeader(
+    {
+      titleTx: "testResultEntryScreen:title",
+      leftIcon: "back",
+      onLeftPress: () => navigation.goBack(),
+    },
+    [navigation],
+  )
+
+  const parameter = parameters?.find((p) => p.name === values.parameterName)
+  const numericValue = parseResultValue(values.value)
+
+  const prediction = useMemo(
+    () => (isFinite(numericValue) && parameter ? predictCompliance(numericValue, parameter) : null),
+    [numericValue, parameter],
+  )
+
+  function setField<K extends keyof TestResultFormValues>(
+    field: K,
+    value: TestResultFormValues[K],
+  ) {
+    const next = { ...values, [field]: value }
+    setValues(next)
+    if (serverErrors[field]) setServerErrors({ ...serverErrors, [field]: [] })
+    // Only re-validate as the user types once they have tried to save.
+    if (isSubmitted) setErrors(validateTestResultForm(next))
+  }
+
+  function selectParameter(selected: ParameterDto) {
+    // The unit follows the parameter; it is still editable for the odd exception.
+    const next = { ...values, parameterName: selected.name ?? "", unit: selected.unit ?? "" }
+    setValues(next)
+    setServerErrors({ ...serverErrors, parameterName: [], unit: [] })
+    if (isSubmitted) setErrors(validateTestResultForm(next))
+  }
+
+  async function save() {
+    setIsSubmitted(true)
+    setSaveErrorTx(undefined)
+    setServerErrors({})
+
+    const validation = validateTestResultForm(values)
+    setErrors(validation)
+    if (Object.keys(validation).length > 0) return
+
+    const result = await create(toCreateTestResultDto(values, sampleId))
+
+    if (result.kind === "ok" || result.kind === "queued") {
+      saveString(TECHNICIAN_NAME_KEY, values.technicianName.trim())
+      setSaved({ result: result.data, queued: result.kind === "queued" })
+    } else if (result.kind === "validation") {
+      setServerErrors(result.errors)
+      setSaveErrorTx("testResultEntryScreen:saveInvalid")
+    } else {
+      setSaveErrorTx("testResultEntryScreen:saveFailed")
+    }
+  }
+
+  function enterAnother() {
+    setSaved(undefined)
+    setIsSubmitted(false)
+    setErrors({})
+    setValues(emptyTestResultForm(values.technicianName))
+  }
+
+  if (saved) {
+    const { result, queued } = saved
+    return (
+      <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+        <View style={themed($content)}>
+          <Text preset="subheading" tx="testResultEntryScreen:savedHeading" />
+          <Text
+            text={`${result.parameterName}: ${result.value} ${result.unit ?? ""}`.trim()}
+            style={themed($summary)}
+          />
+          {/* Until the outbox replays there is no server verdict, so keep showing the prediction. */}
+          {queued || result.complianceStatus === undefined ? (
+            <>
+              {prediction !== null && <ComplianceBadge status={prediction} predicted />}
+              <Text size="xs" tx="testResultEntryScreen:awaitingSync" style={themed($hint)} />
+            </>
+          ) : (
+            <ComplianceBadge status={result.complianceStatus} />
+          )}
+          <Button
+            preset="reversed"
+            tx="testResultEntryScreen:enterAnother"
+            onPress={enterAnother}
+          />
+          <Button tx="testResultEntryScreen:done" onPress={() => navigation.goBack()} />
+        </View>
+      </Screen>
+    )
+  }
+
+  const outOfRange = isOutOfRange(numericValue, parameter)
+
+  /** Local validation wins; otherwise the first message the server sent for the field. */
+  function fieldStatus(field: keyof TestResultFormValues) {
+    const helper = serverErrors[field]?.[0]
+    return {
+      helperTx: errors[field],
+      helper,
+      status: errors[field] || helper ? ("error" as const) : undefined,
+    }
+  }
+
+  // Errors for properties the form doesn't show, e.g. the sample, are listed under the banner.
+  const otherServerErrors = Object.entries(serverErrors)
+    .filter(([field]) => !(field in values))
+    .flatMap(([, messages]) => messages)
+
+  return (
+    <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+      <ScrollView contentContainerStyle={themed($content)} keyboardShouldPersistTaps="handled">
+        {errorTx && <Text tx={errorTx} style={themed($error)} />}
+        {otherServerErrors.map((message) => (
+          <Text key={message} size="xs" text={message} style={themed($error)} />
+        ))}
+
+        <Text preset="formLabel" tx="testResultFields:parameterName" />
+        {(errors.parameterName || serverErrors.parameterName?.[0]) && (
+          <Text
+            size="xs"
+            tx={errors.parameterName}
+            text={serverErrors.parameterName?.[0]}
+            style={themed($error)}
+          />
+        )}
+        {!parameters ? (
+          !errorTx && <ActivityIndicator />
+        ) : (
+          <View style={themed($options)}>
+            {parameters.map((option) => (
+              <Radio
+                key={option.id ?? option.name}
+                value={values.parameterName === option.name}
+                onValueChange={() => selectParameter(option)}
+                label={option.unit ? `${option.name} (${option.unit})` : (option.name ?? "")}
+              />
+            ))}
+          </View>
+        )}
+
+        {parameter?.whoThreshold != null && (
+          <Text
+            size="xs"
+            tx="testResultEntryScreen:whoThreshold"
+            txOptions={{ value: parameter.whoThreshold, unit: parameter.unit ?? "" }}
+            style={themed($hint)}
+          />
+        )}
+
+        <View style={themed($valueRow)}>
+          <TextField
+            value={values.value}
+            onChangeText={(text) => setField("value", text)}
+            labelTx="testResultFields:value"
+            keyboardType="numbers-and-punctuation"
+            {...fieldStatus("value")}
+            helperTx={
+              errors.value ??
+              (outOfRange && !serverErrors.value?.[0]
+                ? "testResultEntryScreen:outOfRange"
+                : undefined)
+            }
+            helperTxOptions={{
+              min: parameter?.minValue ?? "—",
+              max: parameter?.maxValue ?? "—",
+            }}
+            containerStyle={$styles.flex1}
+          />
+          <TextField
+            value={values.unit}
+            onChangeText={(text) => setField("unit", text)}
+            labelTx="testResultFields:unit"
+            {...fieldStatus("unit")}
+            containerStyle={themed($unitField)}
+          />
+        </View>
+
+        {prediction !== null && <ComplianceBadge status={prediction} predicted />}
+
+        <Text preset="formLabel" tx="testResultFields:testMethod" />
+        <View style={themed($options)}>
+          {TestMethods.options.map((option) => (
+            <Radio
+              key={option.value}
+              value={values.testMethod === option.value}
+              onValueChange={() => setField("testMethod", option.value)}
+              labelTx={option.tx}
+            />
+          ))}
+        </View>
+
+        <TextField
+          value={values.testDate}
+          onChangeText={(text) => setField("testDate", text)}
+          labelTx="testResultFields:testDate"
+          placeholderTx="sampleEditScreen:datePlaceholder"
+          {...fieldStatus("testDate")}
+        />
+        <TextField
+          value={values.technicianName}
+          onChangeText={(text) => setField("technicianName", text)}
+          labelTx="testResultFields:technicianName"
+          {...fieldStatus("technicianName")}
+        />
+
+        <Button
+          testID="save-test-result-button"
+          preset="reversed"
+          tx="testResultEntryScreen:save"
+          disabled={isSaving || !parameters}
+          onPress={save}
+        />
+      </ScrollView>
+    </Screen>
+  )
+}
+
+const $content: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  padding: spacing.lg,
+  gap: spacing.sm,
+})
+
+const $options: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  gap: spacing.xs,
+  marginBottom: spacing.sm,
+})
+
+const $valueRow: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  flexDirection: "row",
+  gap: spacing.sm,
+})
+
+const $unitField: ThemedStyle<ViewStyle> = () => ({
+  width: 110,
+})
+
+const $summary: ThemedStyle<TextStyle> = ({ spacing }) => ({
+  marginVertical: spacing.sm,
+})
+
+const $hint: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
+
+const $error: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.error,
+})
@@ -0,0 +1,184 @@
+import { FC, useState } from "react"
+import { ScrollView, TextStyle, View, ViewStyle } from "react-native"
+
+import { Button } from "@/components/Button"
+import { Screen } from "@/components/Screen"
+import { Text } from "@/components/Text"
+import { TextField } from "@/components/TextField"
+import { Radio } from "@/components/Toggle/Radio"
+import { useAuth } from "@/context/AuthContext"
+import type { TxKeyPath } from "@/i18n"
+import type { AppStackScreenProps } from "@/navigators/navigationTypes"
+import { api } from "@/services/api"
+import type { FieldErrors } from "@/services/api/apiProblem"
+import { UserRoles } from "@/services/api/enums"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+import { useHeader } from "@/utils/useHeader"
+import {
+  emptyUserForm,
+  toCreateUserDto,
+  type UserFormErrors,
+  type UserFormValues,
+  validateUserForm,
+} from "@/utils/userForm"
+
+interface UserCreateScreenProps extends AppStackScreenProps<"UserCreate"> {}
+
+/**
+ * Creates an account that starts out as a member of the current lab. The backend has no
+ * invitations, so the admin sets a temporary password and passes it on.
+ */
+export const UserCreateScreen: FC<UserCreateScreenProps> = ({ navigation }) => {
+  const { themed } = useAppTheme()
+  const { labId, labs } = useAuth()
+
+  const [values, setValues] = useState<UserFormValues>(() => emptyUserForm())
+  const [errors, setErrors] = useState<UserFormErrors>({})
+  /** Messages from a server-side validation failure, until the field is edited. */
+  const [serverErrors, setServerErrors] = useState<FieldErrors>({})
+  const [serverMessage, setServerMessage] = useState<string | undefined>()
+  const [isSubmitted, setIsSubmitted] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [errorTx, setErrorTx] = useState<TxKeyPath | undefined>()
+
+  const labName = labs.find((lab) => lab.labId === labId)?.labName
+
+  useHeader(
+    { titleTx: "userCreateScreen:title", leftIcon: "back", onLeftPress: () => navigation.goBack() },
+    [navigation],
+  )
+
+  function setField<K extends keyof UserFormValues>(field: K, value: UserFormValues[K]) {
+    const next = { ...values, [field]: value }
+    setValues(next)
+    if (serverErrors[field]) setServerErrors({ ...serverErrors, [field]: [] })
+    // Only re-validate as the user types once they have tried to save.
+    if (isSubmitted) setErrors(validateUserForm(next))
+  }
+
+  async function save() {
+    setIsSubmitted(true)
+    setErrorTx(undefined)
+    setServerErrors({})
+    setServerMessage(undefined)
+
+    const validation = validateUserForm(values)
+    setErrors(validation)
+    if (Object.keys(validation).length > 0 || !labId) return
+
+    setIsSaving(true)
+    const result = await api.createUser(toCreateUserDto(values, labId))
+    setIsSaving(false)
+
+    if (result.kind === "ok") {
+      if (result.data.id) navigation.replace("UserDetail", { userId: result.data.id })
+      else navigation.goBack()
+    } else if (result.kind === "validation") {
+      setServerErrors(result.errors)
+      setErrorTx("userCreateScreen:saveInvalid")
+    } else if (result.kind === "rejected" && result.detail) {
+      // Identity failures, e.g. a taken user name, arrive as one combined message.
+      setServerMessage(result.detail)
+    } else {
+      setErrorTx("userCreateScreen:saveFailed")
+    }
+  }
+
+  /** Local validation wins; otherwise the first message the server sent for the field. */
+  function fieldStatus(field: keyof UserFormValues) {
+    const helper = serverErrors[field]?.[0]
+    return {
+      helperTx: errors[field],
+      helper,
+      status: errors[field] || helper ? ("error" as const) : undefined,
+    }
+  }
+
+  return (
+    <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+      <ScrollView contentContainerStyle={themed($content)} keyboardShouldPersistTaps="handled">
+        <Text
+          tx="userCreateScreen:description"
+          txOptions={{ lab: labName ?? "" }}
+          style={themed($dim)}
+        />
+        {errorTx && <Text tx={errorTx} style={themed($error)} />}
+        {serverMessage && <Text text={serverMessage} style={themed($error)} />}
+
+        <TextField
+          value={values.userName}
+          onChangeText={(text) => setField("userName", text)}
+          labelTx="userFields:userName"
+          autoCapitalize="none"
+          autoCorrect={false}
+          {...fieldStatus("userName")}
+          containerStyle={themed($field)}
+        />
+        <TextField
+          value={values.email}
+          onChangeText={(text) => setField("email", text)}
+          labelTx="userFields:email"
+          autoCapitalize="none"
+          autoComplete="email"
+          keyboardType="email-address"
+          {...fieldStatus("email")}
+          containerStyle={themed($field)}
+        />
+        <TextField
+          value={values.password}
+          onChangeText={(text) => setField("password", text)}
+          labelTx="userFields:temporaryPassword"
+          autoCapitalize="none"
+          autoCorrect={false}
+          secureTextEntry
+          {...fieldStatus("password")}
+          containerStyle={themed($field)}
+        />
+
+        <Text preset="formLabel" tx="userFields:role" />
+        <View style={themed($options)}>
+          {UserRoles.options.map((option) => (
+            <Radio
+              key={option.value}
+              value={values.role === option.value}
+              onValueChange={() => setField("role", option.value)}
+              labelTx={option.tx}
+            />
+          ))}
+        </View>
+
+        <Button
+          testID="create-user-button"
+          preset="reversed"
+          tx="userCreateScreen:save"
+          disabled={isSaving}
+          onPress={save}
+        />
+      </ScrollView>
+    </Screen>
+  )
+}
+
+const $content: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  padding: spacing.lg,
+  gap: spacing.sm,
+})
+
+const $options: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  gap: spacing.xs,
+  marginBottom: spacing.sm,
+})
+
+const $field: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  marginBottom: spacing.xs,
+})
+
+const $dim: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
+
+const $error: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.error,
+})
@@ -0,0 +1,263 @@
+import { FC, useCallback, useEffect, useState } from "react"
+import { ActivityIndicator, Alert, ScrollView, TextStyle, View, ViewStyle } from "react-native"
+
+import { Button } from "@/components/Button"
+import { ListItem } from "@/components/ListItem"
+import { Screen } from "@/components/Screen"
+import { StatusBadge } from "@/components/StatusBadge"
+import { Text } from "@/components/Text"
+import { Radio } from "@/components/Toggle/Radio"
+import { useAuth } from "@/context/AuthContext"
+import type { TxKeyPath } from "@/i18n"
+import { translate } from "@/i18n/translate"
+import type { AppStackScreenProps } from "@/navigators/navigationTypes"
+import { api } from "@/services/api"
+import { INACTIVE_APPEARANCE, UserRoles } from "@/services/api/enums"
+import type { LabDto, UserDto, UserLabDto, UserRole } from "@/services/api/types"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+import { formatDate } from "@/utils/formatDate"
+import { useAbortSignal } from "@/utils/useAbortSignal"
+import { useHeader } from "@/utils/useHeader"
+
+interface UserDetailScreenProps extends AppStackScreenProps<"UserDetail"> {}
+
+/**
+ * An account's lab memberships and status. Every change is sent immediately and the user
+ * is reloaded afterwards, since the server's copy is the only one that matters here.
+ */
+export const UserDetailScreen: FC<UserDetailScreenProps> = ({ navigation, route }) => {
+  const { userId } = route.params
+  const { themed } = useAppTheme()
+  /** The signed-in admin, who mustn't be able to lock themselves out. */
+  const { userId: currentUserId } = useAuth()
+
+  const [user, setUser] = useState<UserDto | undefined>()
+  const [activeLabs, setActiveLabs] = useState<LabDto[]>([])
+  const [newLabId, setNewLabId] = useState<string | undefined>()
+  const [newRole, setNewRole] = useState<UserRole>(UserRoles.byKey.viewer)
+  const [isBusy, setIsBusy] = useState(false)
+  const [errorTx, setErrorTx] = useState<TxKeyPath | undefined>()
+  const signal = useAbortSignal()
+
+  useHeader(
+    {
+      title: user?.userName ?? undefined,
+      titleTx: user?.userName ? undefined : "userDetailScreen:title",
+      leftIcon: "back",
+      onLeftPress: () => navigation.goBack(),
+    },
+    [navigation, user?.userName],
+  )
+
+  const loadUser = useCallback(async () => {
+    const result = await api.getUserById(userId, { signal: signal() })
+    if (result.kind === "ok") setUser(result.data)
+    else setErrorTx("userDetailScreen:loadFailed")
+  }, [signal, userId])
+
+  useEffect(() => {
+    void loadUser()
+    void api.getActiveLabs({ signal: signal() }).then((result) => {
+      if (result.kind === "ok") setActiveLabs(result.data)
+    })
+  }, [loadUser, signal])
+
+  /**
+   * Runs a change, then reloads the user.
+   *
+   * @param change The request to send.
+   * @param failureTx Shown when the change fails.
+   */
+  async function apply(change: () => Promise<{ kind: string }>, failureTx: TxKeyPath) {
+    setErrorTx(undefined)
+    setIsBusy(true)
+    const result = await change()
+    // A conflict means someone else already made the change, so reloading shows it.
+    if (result.kind !== "ok" && result.kind !== "conflict") setErrorTx(failureTx)
+    await loadUser()
+    setIsBusy(false)
+  }
+
+  function changeRole(membership: UserLabDto, role: UserRole) {
+    if (!membership.labId || membership.role === role) return
+    const labId = membership.labId
+    void apply(() => api.updateUserRole(userId, labId, role), "userDetailScreen:roleFailed")
+  }
+
+  function confirmRemove(membership: UserLabDto) {
+    const labId = membership.labId
+    if (!labId) return
+    Alert.alert(
+      translate("userDetailScreen:removeTitle"),
+      translate("userDetailScreen:removeMessage", { lab: membership.labName }),
+      [
+        { text: translate("common:cancel"), style: "cancel" },
+        {
+          text: translate("userDetailScreen:remove"),
+          style: "destructive",
+          onPress: () =>
+            void apply(() => api.removeUserFromLab(userId, labId), "userDetailScreen:removeFailed"),
+        },
+      ],
+    )
+  }
+
+  async function addToLab() {
+    if (!newLabId) return
+    await apply(() => api.addUserToLab(userId, newLabId, newRole), "userDetailScreen:addFailed")
+    setNewLabId(undefined)
+  }
+
+  function confirmToggleActive() {
+    if (!user?.isActive) {
+      void apply(() => api.updateUser(userId, { isActive: true }), "userDetailScreen:statusFailed")
+      return
+    }
+    Alert.alert(
+      translate("userDetailScreen:deactivateTitle"),
+      translate("userDetailScreen:deactivateMessage"),
+      [
+        { text: translate("common:cancel"), style: "cancel" },
+        {
+          text: translate("userDetailScreen:deactivate"),
+          style: "destructive",
+          onPress: () =>
+            void apply(() => api.deactivateUser(userId), "userDetailScreen:statusFailed"),
+        },
+      ],
+    )
+  }
+
+  if (!user) {
+    return (
+      <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+        {errorTx ? <Text tx={errorTx} style={themed($error)} /> : <ActivityIndicator />}
+      </Screen>
+    )
+  }
+
+  const memberships = user.labs ?? []
+  const isSelf = !!currentUserId && currentUserId === user.id
+  const joinableLabs = activeLabs.filter(
+    (lab) => !memberships.some((membership) => membership.labId === lab.id),
+  )
+
+  return (
+    <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+      <ScrollView contentContainerStyle={themed($content)}>
+        {errorTx && <Text tx={errorTx} style={themed($error)} />}
+
+        <View style={themed($titleRow)}>
+          <Text text={user.email ?? ""} />
+          {user.isActive === false && (
+            <StatusBadge appearance={INACTIVE_APPEARANCE} tx="userDetailScreen:inactive" />
+          )}
+        </View>
+        <Text
+          size="xs"
+          style={themed($dim)}
+          {...(user.lastLogin
+            ? {
+                tx: "userDetailScreen:lastLogin",
+                txOptions: { date: formatDate(user.lastLogin, "MMM dd, yyyy HH:mm") },
+              }
+            : { tx: "userDetailScreen:neverLoggedIn" })}
+        />
+        {isSelf && <Text size="xs" tx="userDetailScreen:selfNotice" style={themed($dim)} />}
+
+        <Text preset="subheading" tx="userDetailScreen:memberships" style={themed($heading)} />
+        {memberships.length === 0 && <Text tx="userDetailScreen:noMemberships" />}
+        {memberships.map((membership) => (
+          <View key={membership.labId} style={themed($membership)}>
+            <Text weight="medium" text={membership.labName} />
+            <View style={themed($options)}>
+              {UserRoles.options.map((option) => (
+                <Radio
+                  key={option.value}
+                  value={membership.role === option.value}
+                  onValueChange={() => changeRole(membership, option.value)}
+                  labelTx={option.tx}
+                  disabled={isBusy || isSelf}
+                />
+              ))}
+            </View>
+            <Button
+              tx="userDetailScreen:remove"
+              disabled={isBusy || isSelf}
+              onPress={() => confirmRemove(membership)}
+            />
+          </View>
+        ))}
+
+        {joinableLabs.length > 0 && (
+          <>
+            <Text preset="subheading" tx="userDetailScreen:addToLab" style={themed($heading)} />
+            {joinableLabs.map((lab) => (
+              <ListItem
+                key={lab.id}
+                bottomSeparator
+                text={lab.name ?? ""}
+                rightIcon={newLabId === lab.id ? "check" : undefined}
+                onPress={() => setNewLabId(lab.id)}
+              />
+            ))}
+            <View style={themed($options)}>
+              {UserRoles.options.map((option) => (
+                <Radio
+                  key={option.value}
+                  value={newRole === option.value}
+                  onValueChange={() => setNewRole(option.value)}
+                  labelTx={option.tx}
+                />
+              ))}
+            </View>
+            <Button tx="userDetailScreen:add" disabled={isBusy || !newLabId} onPress={addToLab} />
+          </>
+        )}
+
+        <Text preset="subheading" tx="userDetailScreen:account" style={themed($heading)} />
+        <Button
+          tx={
+            user.isActive === false ? "userDetailScreen:reactivate" : "userDetailScreen:deactivate"
+          }
+          disabled={isBusy || isSelf}
+          onPress={confirmToggleActive}
+        />
+      </ScrollView>
+    </Screen>
+  )
+}
+
+const $content: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  padding: spacing.lg,
+  gap: spacing.sm,
+})
+
+const $titleRow: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  flexDirection: "row",
+  alignItems: "center",
+  gap: spacing.xs,
+})
+
+const $heading: ThemedStyle<TextStyle> = ({ spacing }) => ({
+  marginTop: spacing.md,
+})
+
+const $membership: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  gap: spacing.xs,
+  paddingBottom: spacing.sm,
+})
+
+const $options: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  gap: spacing.xs,
+})
+
+const $dim: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
+
+const $error: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.error,
+})
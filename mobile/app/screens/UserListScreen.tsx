@@ -0,0 +1,95 @@
+import { FC, useCallback } from "react"
+import { TextStyle, View, ViewStyle } from "react-native"
+
+import { ListItem } from "@/components/ListItem"
+import { PagedList } from "@/components/PagedList"
+import { Screen } from "@/components/Screen"
+import { StatusBadge } from "@/components/StatusBadge"
+import { Text } from "@/components/Text"
+import { useAuth } from "@/context/AuthContext"
+import type { AppStackScreenProps } from "@/navigators/navigationTypes"
+import { api } from "@/services/api"
+import { INACTIVE_APPEARANCE, UserRoles } from "@/services/api/enums"
+import type { UserDto } from "@/services/api/types"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+import { useHeader } from "@/utils/useHeader"
+import { type PageFetcher, usePagedList } from "@/utils/usePagedList"
+import { membershipIn } from "@/utils/userForm"
+
+const PAGE_SIZE = 50
+
+interface UserListScreenProps extends AppStackScreenProps<"UserList"> {}
+
+/** Members of the current lab, including deactivated accounts, with their role here. */
+export const UserListScreen: FC<UserListScreenProps> = ({ navigation }) => {
+  const { themed } = useAppTheme()
+  const { labId } = useAuth()
+
+  const list = usePagedList(
+    useCallback<PageFetcher<UserDto>>(
+      (page, size, options) => api.getUsersByLab(labId ?? "", page, size, options),
+      [labId],
+    ),
+    { pageSize: PAGE_SIZE, enabled: !!labId },
+  )
+
+  useHeader(
+    {
+      titleTx: "userListScreen:title",
+      leftIcon: "back",
+      onLeftPress: () => navigation.goBack(),
+      rightTx: "userListScreen:new",
+      onRightPress: () => navigation.navigate("UserCreate"),
+    },
+    [navigation],
+  )
+
+  return (
+    <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+      <PagedList<UserDto>
+        contentContainerStyle={themed($listContentContainer)}
+        list={list}
+        emptyHeadingTx="userListScreen:emptyHeading"
+        emptyContentTx="userListScreen:emptyContent"
+        failedHeadingTx="userListScreen:loadFailed"
+        renderItem={({ item }) => (
+          <ListItem
+            height={72}
+            bottomSeparator
+            rightIcon="caretRight"
+            onPress={() => item.id && navigation.navigate("UserDetail", { userId: item.id })}
+          >
+            <View style={themed($titleRow)}>
+              <Text weight="medium" text={item.userName ?? ""} />
+              {item.isActive === false && (
+                <StatusBadge appearance={INACTIVE_APPEARANCE} tx="userListScreen:inactive" />
+              )}
+            </View>
+            <Text size="xs" style={themed($meta)}>
+              {item.email}
+              {" · "}
+              <Text size="xs" tx={UserRoles.tx(membershipIn(item, labId)?.role)} />
+            </Text>
+          </ListItem>
+        )}
+      />
+    </Screen>
+  )
+}
+
+const $listContentContainer: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  paddingHorizontal: spacing.lg,
+  paddingBottom: spacing.lg,
+})
+
+const $titleRow: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  flexDirection: "row",
+  alignItems: "center",
+  gap: spacing.xs,
+})
+
+const $meta: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
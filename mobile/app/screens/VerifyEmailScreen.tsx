@@ -0,0 +1,173 @@
+import { FC, useCallback, useEffect, useState } from "react"
+import { ActivityIndicator, ScrollView, TextStyle, View, ViewStyle } from "react-native"
+
+import { Button } from "@/components/Button"
+import { Screen } from "@/components/Screen"
+import { Text } from "@/components/Text"
+import { TextField } from "@/components/TextField"
+import { useAuth } from "@/context/AuthContext"
+import type { TxKeyPath } from "@/i18n"
+import type { AppStackScreenProps } from "@/navigators/navigationTypes"
+import { api } from "@/services/api"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+import {
+  needsNewLink,
+  RESEND_COOLDOWN_SECONDS,
+  VERIFICATION_STATE_TX,
+  type VerificationState,
+  verificationStateOf,
+} from "@/utils/emailVerification"
+import { emailError } from "@/utils/passwordForm"
+import { useAbortSignal } from "@/utils/useAbortSignal"
+import { useCooldown } from "@/utils/useCooldown"
+import { useHeader } from "@/utils/useHeader"
+
+interface VerifyEmailScreenProps extends AppStackScreenProps<"VerifyEmail"> {}
+
+/**
+ * Confirms an email address from the `quater://verify-email` link in the verification
+ * email, so new staff can verify on the device they work on. When the link can't be used,
+ * a new one can be requested for the address.
+ */
+export const VerifyEmailScreen: FC<VerifyEmailScreenProps> = ({ navigation, route }) => {
+  const { themed } = useAppTheme()
+  const { isAuthenticated } = useAuth()
+  const userId = route.params?.userId
+  const code = route.params?.code
+
+  const [state, setState] = useState<VerificationState>(
+    userId && code ? "verifying" : "missingLink",
+  )
+  const [email, setEmail] = useState("")
+  const [emailErrorTx, setEmailErrorTx] = useState<TxKeyPath | undefined>()
+  const [isSending, setIsSending] = useState(false)
+  const [resendTx, setResendTx] = useState<TxKeyPath | undefined>()
+  const [cooldown, startCooldown] = useCooldown(RESEND_COOLDOWN_SECONDS)
+  const signal = useAbortSignal()
+
+  useHeader(
+    {
+      titleTx: "verifyEmailScreen:title",
+      leftIcon: "back",
+      onLeftPress: () => (navigation.canGoBack() ? navigation.goBack() : finish()),
+    },
+    [navigation, isAuthenticated],
+  )
+
+  const verify = useCallback(async () => {
+    if (!userId || !code) {
+      setState("missingLink")
+      return
+    }
+    setState("verifying")
+    const result = await api.verifyEmail({ userId, code }, { signal: signal() })
+    if (result.kind !== "cancelled") setState(verificationStateOf(result))
+  }, [code, signal, userId])
+
+  // Runs again when another link is opened while the screen is showing.
+  useEffect(() => {
+    void verify()
+  }, [verify])
+
+  function finish() {
+    if (isAuthenticated) navigation.popToTop()
+    else navigation.navigate("Login")
+  }
+
+  async function resend() {
+    setResendTx(undefined)
+    const validation = emailError(email)
+    setEmailErrorTx(validation)
+    if (validation) return
+
+    setIsSending(true)
+    const result = await api.resendVerification({ email: email.trim() })
+    setIsSending(false)
+
+    if (result.kind === "ok") {
+      setResendTx("verifyEmailScreen:resent")
+      startCooldown()
+    } else if (result.kind === "rate-limited") {
+      setResendTx("verifyEmailScreen:states.rateLimited")
+      startCooldown()
+    } else {
+      setResendTx("verifyEmailScreen:resendFailed")
+    }
+  }
+
+  const isDone = state === "verified" || state === "alreadyVerified"
+
+  return (
+    <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+      <ScrollView contentContainerStyle={themed($content)} keyboardShouldPersistTaps="handled">
+        {state === "verifying" && <ActivityIndicator />}
+        <Text
+          preset={isDone ? "subheading" : "default"}
+          tx={VERIFICATION_STATE_TX[state]}
+          style={!isDone && state !== "verifying" ? themed($error) : undefined}
+        />
+
+        {isDone && (
+          <Button
+            preset="reversed"
+            tx={isAuthenticated ? "verifyEmailScreen:continue" : "verifyEmailScreen:logIn"}
+            onPress={finish}
+          />
+        )}
+
+        {(state === "failed" || state === "rateLimited") && (
+          <Button tx="verifyEmailScreen:retry" onPress={() => void verify()} />
+        )}
+
+        {needsNewLink(state) && (
+          <View style={themed($resend)}>
+            <Text preset="formLabel" tx="verifyEmailScreen:resendHeading" />
+            <Text size="xs" tx="verifyEmailScreen:resendDescription" style={themed($dim)} />
+            <TextField
+              value={email}
+              onChangeText={(text) => {
+                setEmail(text)
+                if (emailErrorTx) setEmailErrorTx(emailError(text))
+              }}
+              labelTx="passwordFields:email"
+              autoCapitalize="none"
+              autoComplete="email"
+              keyboardType="email-address"
+              helperTx={emailErrorTx}
+              status={emailErrorTx ? "error" : undefined}
+            />
+            {resendTx && <Text size="xs" tx={resendTx} />}
+            <Button
+              testID="resend-verification-button"
+              disabled={isSending || cooldown > 0}
+              onPress={resend}
+              {...(cooldown > 0
+                ? { tx: "verifyEmailScreen:resendIn", txOptions: { seconds: cooldown } }
+                : { tx: "verifyEmailScreen:resend" })}
+            />
+          </View>
+        )}
+      </ScrollView>
+    </Screen>
+  )
+}
+
+const $content: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  padding: spacing.lg,
+  gap: spacing.md,
+})
+
+const $resend: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  gap: spacing.sm,
+  marginTop: spacing.md,
+})
+
+const $dim: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
+
+const $error: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.error,
+})
@@ -3,6 +3,7 @@ import { Image, ImageStyle, TextStyle, View, ViewStyle } from "react-native"
 
 import { Button } from "@/components/Button"
 import { Screen } from "@/components/Screen"
+import { SyncStatusBanner } from "@/components/SyncStatusBanner"
 import { Text } from "@/components/Text"
 import { useAuth } from "@/context/AuthContext"
 import { isRTL } from "@/i18n"
@@ -40,6 +41,7 @@ export const WelcomeScreen: FC<WelcomeScreenProps> = function WelcomeScreen(_pro
 
   return (
     <Screen preset="fixed" contentContainerStyle={$styles.flex1}>
+      <SyncStatusBanner onPress={() => navigation.navigate("PendingChanges")} />
       <View style={themed($topContainer)}>
         <Image style={themed($welcomeLogo)} source={welcomeLogo} resizeMode="contain" />
         <Text
@@ -1,6 +1,6 @@
 import { ApiErrorResponse } from "apisauce"
 
-import { getGeneralApiProblem } from "./apiProblem"
+import { getGeneralApiProblem, parseFieldErrors } from "./apiProblem"
 
 test("handles connection errors", () => {
   expect(getGeneralApiProblem({ problem: "CONNECTION_ERROR" } as ApiErrorResponse<null>)).toEqual({
@@ -60,6 +60,14 @@ test("handles not-found errors", () => {
   })
 })
 
+test("handles conflict errors", () => {
+  expect(
+    getGeneralApiProblem({ problem: "CLIENT_ERROR", status: 409 } as ApiErrorResponse<null>),
+  ).toEqual({
+    kind: "conflict",
+  })
+})
+
 test("handles other client errors", () => {
   expect(
     getGeneralApiProblem({ problem: "CLIENT_ERROR", status: 418 } as ApiErrorResponse<null>),
@@ -68,6 +76,105 @@ test("handles other client errors", () => {
   })
 })
 
+test("keeps the detail of conflict errors", () => {
+  expect(
+    getGeneralApiProblem({
+      problem: "CLIENT_ERROR",
+      status: 409,
+      data: { message: "The record was modified by another user." },
+    } as ApiErrorResponse<unknown>),
+  ).toEqual({
+    kind: "conflict",
+    detail: "The record was modified by another user.",
+  })
+})
+
+test("keeps the ProblemDetails of other client errors", () => {
+  expect(
+    getGeneralApiProblem({
+      problem: "CLIENT_ERROR",
+      status: 400,
+      data: { title: "Bad Request", detail: "Invalid pagination parameters" },
+    } as ApiErrorResponse<unknown>),
+  ).toEqual({
+    kind: "rejected",
+    title: "Bad Request",
+    detail: "Invalid pagination parameters",
+  })
+})
+
+test("handles ProblemDetails validation errors", () => {
+  expect(
+    getGeneralApiProblem({
+      problem: "CLIENT_ERROR",
+      status: 400,
+      data: {
+        title: "One or more validation errors occurred.",
+        status: 400,
+        errors: { "ParameterName": ["Required."], "$.value": ["Not a number."] },
+      },
+    } as ApiErrorResponse<unknown>),
+  ).toEqual({
+    kind: "validation",
+    title: "One or more validation errors occurred.",
+    errors: { parameterName: ["Required."], value: ["Not a number."] },
+  })
+})
+
+test("handles validation failure lists", () => {
+  expect(
+    getGeneralApiProblem({
+      problem: "CLIENT_ERROR",
+      status: 422,
+      data: {
+        message: "Validation failed",
+        errors: [
+          { propertyName: "Unit", errorMessage: "Too long." },
+          { propertyName: "Unit", errorMessage: "Unknown unit." },
+        ],
+      },
+    } as ApiErrorResponse<unknown>),
+  ).toEqual({
+    kind: "validation",
+    errors: { unit: ["Too long.", "Unknown unit."] },
+  })
+})
+
+/** A 429 with response headers, which the apisauce typings only accept as axios headers. */
+function rateLimited(headers: Record<string, string>) {
+  return { problem: "CLIENT_ERROR", status: 429, headers } as unknown as ApiErrorResponse<unknown>
+}
+
+test("handles rate limiting", () => {
+  expect(getGeneralApiProblem(rateLimited({ "retry-after": "30" }))).toEqual({
+    kind: "rate-limited",
+    temporary: true,
+    retryAfter: 30,
+  })
+
+  expect(
+    getGeneralApiProblem({
+      problem: "CLIENT_ERROR",
+      status: 429,
+      data: { error: "Rate limit exceeded", retryAfter: 12 },
+    } as ApiErrorResponse<unknown>),
+  ).toEqual({ kind: "rate-limited", temporary: true, retryAfter: 12 })
+})
+
+test("reads Retry-After dates", () => {
+  const inOneMinute = new Date(Date.now() + 60_000).toUTCString()
+  const problem = getGeneralApiProblem(rateLimited({ "retry-after": inOneMinute }))
+
+  expect(problem).toEqual({ kind: "rate-limited", temporary: true, retryAfter: expect.any(Number) })
+  expect(problem && "retryAfter" in problem && problem.retryAfter).toBeLessThanOrEqual(60)
+})
+
+test("ignores malformed field errors", () => {
+  expect(parseFieldErrors(undefined)).toEqual({})
+  expect(parseFieldErrors([{ propertyName: 1 }, "oops"])).toEqual({})
+  expect(parseFieldErrors({ Notes: "Too long." })).toEqual({ notes: ["Too long."] })
+})
+
 test("handles cancellation errors", () => {
   expect(getGeneralApiProblem({ problem: "CANCEL_ERROR" } as ApiErrorResponse<null>)).toBeNull()
 })
@@ -1,5 +1,11 @@
 import { ApiResponse } from "apisauce"
 
+/**
+ * Validation messages per field, keyed by the camelCase property name the DTOs use,
+ * e.g. `{ parameterName: ["'Parameter Name' must not be empty."] }`.
+ */
+export type FieldErrors = Record<string, string[]>
+
 export type GeneralApiProblem =
   /**
    * Times up.
@@ -25,18 +31,51 @@ export type GeneralApiProblem =
    * Unable to find that resource.  This is a 404.
    */
   | { kind: "not-found" }
+  /**
+   * The record was changed by someone else since we last read it. This is a 409.
+   */
+  | { kind: "conflict"; detail?: string }
+  /**
+   * The request body failed validation. This is a 422, or a 400 that lists field errors.
+   */
+  | { kind: "validation"; title?: string; errors: FieldErrors }
+  /**
+   * Too many requests. This is a 429; `retryAfter` is in seconds when the server says.
+   */
+  | { kind: "rate-limited"; temporary: true; retryAfter?: number }
   /**
    * All other 4xx series errors.
    */
-  | { kind: "rejected" }
+  | { kind: "rejected"; title?: string; detail?: string }
+  /**
+   * The caller aborted the request through its `signal`, e.g. by leaving the screen.
+   */
+  | { kind: "cancelled" }
   /**
    * Something truly unexpected happened. Most likely can try again. This is a catch all.
    */
   | { kind: "unknown"; temporary: true }
   /**
-   * The data we received is not in the expected format.
+   * The data we received is not in the expected format. `path` points at the first
+   * field that failed response validation, when the request opted into it.
    */
-  | { kind: "bad-data" }
+  | { kind: "bad-data"; path?: string }
+
+/**
+ * True when the server answered and turned the request down, e.g. for an expired or
+ * revoked token, as opposed to not answering or failing on its end. Sending the same
+ * request again won't help.
+ *
+ * @param problem The problem a request ended with.
+ */
+export function isRejection(problem: GeneralApiProblem): boolean {
+  return (
+    problem.kind === "unauthorized" ||
+    problem.kind === "forbidden" ||
+    problem.kind === "rejected" ||
+    problem.kind === "validation"
+  )
+}
 
 /**
  * Attempts to get a common cause of problems from an api response.
@@ -63,12 +102,118 @@ export function getGeneralApiProblem(response: ApiResponse<any>): GeneralApiProb
           return { kind: "forbidden" }
         case 404:
           return { kind: "not-found" }
-        default:
-          return { kind: "rejected" }
+        case 409:
+          return { kind: "conflict", ...defined({ detail: detailOf(asErrorBody(response.data)) }) }
+        case 429:
+          return { kind: "rate-limited", temporary: true, ...retryAfter(response) }
       }
+      return rejection(response)
     case "CANCEL_ERROR":
       return null
   }
 
   return null
 }
+
+/**
+ * The error bodies the backend sends. ASP.NET model binding returns `ProblemDetails` with
+ * `errors` as a map, while the exception middleware and controllers send `message` with
+ * `errors` as a FluentValidation failure list.
+ */
+type ErrorBody = {
+  title?: unknown
+  detail?: unknown
+  message?: unknown
+  errors?: unknown
+  retryAfter?: unknown
+}
+
+function asErrorBody(data: unknown): ErrorBody {
+  return typeof data === "object" && data !== null ? data : {}
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined
+}
+
+/** Drops undefined properties so problems compare cleanly and log compactly. */
+function defined<T extends object>(values: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined),
+  ) as Partial<T>
+}
+
+/** The human-readable summary; controllers send `message` where ProblemDetails has `detail`. */
+function detailOf(body: ErrorBody): string | undefined {
+  return text(body.detail) ?? text(body.message)
+}
+
+/** `ParameterName` and `$.parameterName` both become `parameterName`. */
+function fieldKey(name: string): string {
+  return name
+    .replace(/^\$\.?/, "")
+    .split(".")
+    .map((part) => part.charAt(0).toLowerCase() + part.slice(1))
+    .join(".")
+}
+
+/**
+ * Normalises both shapes of validation errors to a field → messages map.
+ *
+ * @param errors The `errors` property of an error body.
+ */
+export function parseFieldErrors(errors: unknown): FieldErrors {
+  const result: FieldErrors = {}
+  const add = (name: unknown, message: unknown) => {
+    if (typeof name !== "string" || typeof message !== "string") return
+    const key = fieldKey(name)
+    result[key] = [...(result[key] ?? []), message]
+  }
+
+  if (Array.isArray(errors)) {
+    for (const failure of errors) {
+      const { propertyName, errorMessage } = asErrorBody(failure) as Record<string, unknown>
+      add(propertyName, errorMessage)
+    }
+  } else if (typeof errors === "object" && errors !== null) {
+    for (const [name, messages] of Object.entries(errors)) {
+      for (const message of Array.isArray(messages) ? messages : [messages]) add(name, message)
+    }
+  }
+
+  return result
+}
+
+function rejection(response: ApiResponse<any>): GeneralApiProblem {
+  const body = asErrorBody(response.data)
+  const errors = parseFieldErrors(body.errors)
+
+  if (response.status === 422 || (response.status === 400 && Object.keys(errors).length > 0)) {
+    return { kind: "validation", errors, ...defined({ title: text(body.title) }) }
+  }
+
+  return { kind: "rejected", ...defined({ title: text(body.title), detail: detailOf(body) }) }
+}
+
+/**
+ * Reads `Retry-After` as either delay-seconds or an HTTP date, falling back to the
+ * `retryAfter` the rate limiting middleware puts in the body.
+ */
+function retryAfter(response: ApiResponse<any>): { retryAfter?: number } {
+  const header: unknown = response.headers?.["retry-after"]
+  const fromBody = asErrorBody(response.data).retryAfter
+
+  let seconds: number | undefined
+  if (typeof header === "string" && header.trim()) {
+    seconds = /^\d+$/.test(header.trim())
+      ? Number(header)
+      : (Date.parse(header) - Date.now()) / 1000
+  } else if (typeof fromBody === "number") {
+    seconds = fromBody
+  }
+
+  return defined({
+    retryAfter:
+      seconds === undefined || !isFinite(seconds) ? undefined : Math.max(0, Math.ceil(seconds)),
+  })
+}
@@ -0,0 +1,99 @@
+import type { AxiosAdapter, InternalAxiosRequestConfig } from "axios"
+
+import { authStore } from "@/stores/authStore"
+
+import { Api } from "./index"
+
+/** Answers 401 unless the request carries the current access token. */
+function stubServer(api: Api) {
+  const adapter = jest.fn(async (config: InternalAxiosRequestConfig) => {
+    const authorized = config.headers.Authorization === "Bearer fresh"
+    const response = {
+      data: authorized ? [] : { title: "Unauthorized" },
+      status: authorized ? 200 : 401,
+      statusText: "",
+      headers: {},
+      config,
+    }
+    if (authorized) return response
+    throw Object.assign(new Error("Request failed with status code 401"), {
+      isAxiosError: true,
+      config,
+      response,
+    })
+  })
+  api.apisauce.axiosInstance.defaults.adapter = adapter as AxiosAdapter
+  return adapter
+}
+
+describe("token refresh", () => {
+  let api: Api
+
+  beforeEach(() => {
+    api = new Api({ url: "https://example.test", timeout: 1000 })
+    authStore.setAccessToken("stale")
+  })
+
+  afterEach(() => {
+    authStore.clear()
+  })
+
+  it("shares one refresh between concurrent 401s and replays them all", async () => {
+    stubServer(api)
+    const onRefreshToken = jest.fn(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      authStore.setAccessToken("fresh")
+      return { kind: "ok" as const }
+    })
+    api.setAuthCallbacks({ onRefreshToken, onLogout: jest.fn() })
+
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => api.request("get", "/api/parameters/active")),
+    )
+
+    expect(onRefreshToken).toHaveBeenCalledTimes(1)
+    expect(results.every((result) => result.kind === "ok")).toBe(true)
+  })
+
+  it("logs out once when the server rejects the refresh", async () => {
+    stubServer(api)
+    const onLogout = jest.fn()
+    api.setAuthCallbacks({ onRefreshToken: async () => ({ kind: "rejected" }), onLogout })
+
+    const results = await Promise.all(
+      Array.from({ length: 3 }, () => api.request("get", "/api/parameters/active")),
+    )
+
+    expect(onLogout).toHaveBeenCalledTimes(1)
+    expect(results.map((result) => result.kind)).toEqual(Array(3).fill("unauthorized"))
+  })
+
+  it("keeps the session when the refresh can't reach the server", async () => {
+    stubServer(api)
+    const onLogout = jest.fn()
+    api.setAuthCallbacks({
+      onRefreshToken: async () => ({ kind: "cannot-connect", temporary: true }),
+      onLogout,
+    })
+
+    const result = await api.request("get", "/api/parameters/active")
+
+    expect(onLogout).not.toHaveBeenCalled()
+    expect(result.kind).toBe("unauthorized")
+    expect(authStore.getAccessToken()).toBe("stale")
+  })
+
+  it("registers the interceptor only once", async () => {
+    const adapter = stubServer(api)
+    const onRefreshToken = jest.fn(async () => {
+      authStore.setAccessToken("fresh")
+      return { kind: "ok" as const }
+    })
+    api.setAuthCallbacks({ onRefreshToken: jest.fn(), onLogout: jest.fn() })
+    api.setAuthCallbacks({ onRefreshToken, onLogout: jest.fn() })
+
+    expect(await api.request("get", "/api/parameters/active")).toEqual({ kind: "ok", data: [] })
+    expect(onRefreshToken).toHaveBeenCalledTimes(1)
+    expect(adapter).toHaveBeenCalledTimes(2)
+  })
+})
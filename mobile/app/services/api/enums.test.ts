@@ -0,0 +1,71 @@
+import ar from "@/i18n/ar"
+import en from "@/i18n/en"
+import es from "@/i18n/es"
+import fr from "@/i18n/fr"
+import hi from "@/i18n/hi"
+import ja from "@/i18n/ja"
+import ko from "@/i18n/ko"
+
+import {
+  appearanceOf,
+  AuditActions,
+  COMPLIANCE_STATUS_APPEARANCE,
+  ComplianceStatuses,
+  EntityTypes,
+  SampleStatuses,
+  SampleTypes,
+  TestMethods,
+  UserRoles,
+} from "./enums"
+
+const ALL_ENUMS = [
+  SampleTypes,
+  SampleStatuses,
+  TestMethods,
+  ComplianceStatuses,
+  UserRoles,
+  AuditActions,
+  EntityTypes,
+]
+
+function lookup(translations: object, key: string): unknown {
+  const [namespace, path] = key.split(":")
+  return path
+    .split(".")
+    .reduce<unknown>(
+      (node, part) => (node as Record<string, unknown> | undefined)?.[part],
+      (translations as Record<string, unknown>)[namespace],
+    )
+}
+
+describe("enums", () => {
+  it("round-trips values through their string keys", () => {
+    expect(SampleTypes.key(3)).toBe("groundwater")
+    expect(SampleTypes.fromKey("groundwater")).toBe(3)
+    expect(UserRoles.byKey.admin).toBe(3)
+    expect(AuditActions.values).toEqual([0, 1, 2, 3, 4, 5])
+  })
+
+  it("labels unknown values instead of showing the raw number", () => {
+    expect(ComplianceStatuses.tx(1)).toBe("complianceStatus:fail")
+    expect(ComplianceStatuses.tx(7)).toBe("common:unknown")
+    expect(ComplianceStatuses.tx(undefined)).toBe("common:unknown")
+    expect(SampleTypes.fromKey("toString")).toBeUndefined()
+  })
+
+  it("falls back to a neutral appearance for unknown statuses", () => {
+    expect(appearanceOf(COMPLIANCE_STATUS_APPEARANCE, 1)).toEqual({ icon: "x", tone: "error" })
+    expect(appearanceOf(COMPLIANCE_STATUS_APPEARANCE, 9)).toEqual({ icon: "more", tone: "neutral" })
+  })
+
+  it.each(Object.entries({ en, ar, es, fr, hi, ja, ko }))(
+    "has a %s label for every value",
+    (_locale, translations) => {
+      for (const definition of ALL_ENUMS) {
+        for (const { tx } of definition.options) {
+          expect(lookup(translations, tx)).toEqual(expect.any(String))
+        }
+      }
+    },
+  )
+})
@@ -0,0 +1,180 @@
+import type { IconTypes } from "@/components/Icon"
+import type { TxKeyPath } from "@/i18n"
+import type { Translations } from "@/i18n/en"
+import type { Colors } from "@/theme/types"
+
+import type {
+  AuditAction,
+  ComplianceStatus,
+  EntityType,
+  SampleStatus,
+  SampleType,
+  TestMethod,
+  UserRole,
+} from "./types"
+
+/**
+ * The API sends enums as bare integers. Each definition below maps every value to a
+ * stable string key, which doubles as its label key in the enum's i18n namespace.
+ *
+ * The key maps are checked with `satisfies Record<Enum, string>`, so a value added to
+ * (or removed from) the backend enum fails compilation here instead of rendering "3".
+ */
+function defineEnum<
+  N extends keyof Translations,
+  const M extends Record<number, keyof Translations[N] & string>,
+>(namespace: N, keys: M) {
+  type Value = keyof M & number
+  type Key = M[Value]
+
+  const values = Object.keys(keys).map(Number) as Value[]
+  const byKey = Object.fromEntries(values.map((value) => [keys[value], value])) as Record<
+    Key,
+    Value
+  >
+
+  function isValue(value: number | null | undefined): value is Value {
+    return value !== null && value !== undefined && Object.hasOwn(keys, value)
+  }
+
+  /**
+   * The label for a value. Values the app doesn't know about yet (a newer server)
+   * fall back to a generic "Unknown" rather than the raw number.
+   */
+  function tx(value: number | null | undefined): TxKeyPath {
+    return isValue(value) ? (`${namespace}:${keys[value]}` as TxKeyPath) : "common:unknown"
+  }
+
+  return {
+    /** Every value, in declaration order. */
+    values,
+    /** Stable string key to numeric value, e.g. `SampleTypes.byKey.groundwater`. */
+    byKey,
+    isValue,
+    key: (value: Value): Key => keys[value],
+    fromKey: (key: string): Value | undefined =>
+      Object.hasOwn(byKey, key) ? byKey[key as Key] : undefined,
+    tx,
+    /** Ready-made `{ value, tx }` pairs for pickers. */
+    options: values.map((value) => ({ value, tx: tx(value) })),
+  }
+}
+
+export const SampleTypes = defineEnum("sampleType", {
+  0: "drinkingWater",
+  1: "wastewater",
+  2: "surfaceWater",
+  3: "groundwater",
+  4: "industrialWater",
+} as const satisfies Record<SampleType, string>)
+
+export const SampleStatuses = defineEnum("sampleStatus", {
+  0: "pending",
+  1: "completed",
+  2: "archived",
+} as const satisfies Record<SampleStatus, string>)
+
+export const TestMethods = defineEnum("testMethod", {
+  0: "titration",
+  1: "spectrophotometry",
+  2: "chromatography",
+  3: "microscopy",
+  4: "electrode",
+  5: "culture",
+  6: "other",
+} as const satisfies Record<TestMethod, string>)
+
+export const ComplianceStatuses = defineEnum("complianceStatus", {
+  0: "pass",
+  1: "fail",
+  2: "warning",
+} as const satisfies Record<ComplianceStatus, string>)
+
+export const UserRoles = defineEnum("userRole", {
+  1: "viewer",
+  2: "technician",
+  3: "admin",
+} as const satisfies Record<UserRole, string>)
+
+export const AuditActions = defineEnum("auditAction", {
+  0: "create",
+  1: "update",
+  2: "softDelete",
+  3: "delete",
+  4: "restore",
+  5: "conflictResolution",
+} as const satisfies Record<AuditAction, string>)
+
+export const EntityTypes = defineEnum("entityType", {
+  1: "lab",
+  2: "sample",
+  3: "testResult",
+  4: "parameter",
+  5: "auditLog",
+  6: "auditLogArchive",
+} as const satisfies Record<EntityType, string>)
+
+export type StatusTone = "success" | "error" | "warning" | "neutral"
+
+/** How a status-like enum value is drawn: an icon plus a color tone. */
+export type StatusAppearance = { icon: IconTypes; tone: StatusTone }
+
+const UNKNOWN_APPEARANCE: StatusAppearance = { icon: "more", tone: "neutral" }
+
+export const SAMPLE_STATUS_APPEARANCE = {
+  0: { icon: "more", tone: "warning" },
+  1: { icon: "check", tone: "success" },
+  2: { icon: "lock", tone: "neutral" },
+} as const satisfies Record<SampleStatus, StatusAppearance>
+
+export const COMPLIANCE_STATUS_APPEARANCE = {
+  0: { icon: "check", tone: "success" },
+  1: { icon: "x", tone: "error" },
+  2: { icon: "bell", tone: "warning" },
+} as const satisfies Record<ComplianceStatus, StatusAppearance>
+
+/** Badge for catalogue records (labs, parameters) that were deactivated rather than deleted. */
+export const INACTIVE_APPEARANCE: StatusAppearance = { icon: "hidden", tone: "neutral" }
+
+/** Badge for audit entries that were moved to the archive table. */
+export const ARCHIVED_APPEARANCE: StatusAppearance = { icon: "lock", tone: "neutral" }
+
+/** Badge for audit entries whose recorded values the backend cut short. */
+export const TRUNCATED_APPEARANCE: StatusAppearance = { icon: "more", tone: "warning" }
+
+/**
+ * Looks up a value's appearance, tolerating values the app doesn't know about.
+ *
+ * @param appearances One of the `*_APPEARANCE` maps.
+ * @param value The enum value, possibly missing or unknown.
+ */
+export function appearanceOf<V extends number>(
+  appearances: Record<V, StatusAppearance>,
+  value: number | null | undefined,
+): StatusAppearance {
+  return value !== null && value !== undefined && Object.hasOwn(appearances, value)
+    ? appearances[value as V]
+    : UNKNOWN_APPEARANCE
+}
+
+/**
+ * Resolves a tone to theme colors.
+ *
+ * @param tone The tone to resolve.
+ * @param colors The current theme's colors.
+ */
+export function toneColors(
+  tone: StatusTone,
+  colors: Colors,
+): { color: string; backgroundColor: string } {
+  switch (tone) {
+    case "success":
+      return { color: colors.success, backgroundColor: colors.successBackground }
+    case "error":
+      return { color: colors.error, backgroundColor: colors.errorBackground }
+    case "warning":
+      return { color: colors.warning, backgroundColor: colors.warningBackground }
+    case "neutral":
+      return { color: colors.textDim, backgroundColor: colors.separator }
+  }
+}
@@ -1,41 +1,104 @@
 import { ApiResponse, ApisauceInstance, create } from "apisauce"
+import type { AxiosRequestConfig } from "axios"
 
-import Config from "@/config"
 import { authStore } from "@/stores/authStore"
-
-import { GeneralApiProblem, getGeneralApiProblem } from "./apiProblem"
+import { serverProfileStore } from "@/stores/serverProfileStore"
+
+import { GeneralApiProblem, getGeneralApiProblem, isRejection } from "./apiProblem"
+import {
+  buildPath,
+  type CallOptions,
+  type HttpMethod,
+  type Operation,
+  type PathsWithMethod,
+  type RequestArgs,
+  type ResponseBody,
+} from "./request"
+import { DEFAULT_RETRY_POLICY, resolveRetryPolicy, retryDelay, sleep } from "./retry"
 import type {
   ApiConfig,
+  AuditLogDto,
+  AuditLogDtoPagedResult,
+  AuditLogFilterDto,
   AuthTokenResponse,
+  ChangePasswordRequest,
+  CreateLabDto,
+  CreateParameterDto,
   CreateSampleDto,
   CreateTestResultDto,
+  CreateUserDto,
+  ForgotPasswordRequest,
+  HealthResponse,
+  LabDto,
+  LabDtoPagedResult,
   ParameterDto,
   ParameterDtoPagedResult,
+  ResendVerificationRequest,
+  ResetPasswordRequest,
   SampleDto,
   SampleDtoPagedResult,
   TestResultDto,
   TestResultDtoPagedResult,
+  UpdateLabDto,
+  UpdateParameterDto,
   UpdateSampleDto,
   UpdateTestResultDto,
+  UpdateUserDto,
+  UserDto,
+  UserDtoPagedResult,
+  UserLabDto,
+  UserRole,
   UserInfoResponse,
+  VerifyEmailRequest,
+  VerifyEmailResponse,
+  VersionConflict,
+  VersionResponse,
 } from "./types"
+import { reportInvalidResponse, v, validate as validateBody, type Validator } from "./validation"
+import {
+  auditLogDto,
+  auditLogDtoPagedResult,
+  labDto,
+  labDtoPagedResult,
+  parameterDto,
+  parameterDtoPagedResult,
+  sampleDto,
+  sampleDtoPagedResult,
+  testResultDto,
+  testResultDtoPagedResult,
+  userDto,
+  userDtoPagedResult,
+  userLabDto,
+} from "./validators"
 
 export const DEFAULT_API_CONFIG: ApiConfig = {
-  url: Config.API_URL,
+  url: serverProfileStore.getActiveProfile().url,
   timeout: 10000,
+  retry: DEFAULT_RETRY_POLICY,
 }
 
 const TOKEN_ENDPOINT = "/api/auth/token"
-const USERINFO_ENDPOINT = "/api/auth/userinfo"
-const LOGOUT_ENDPOINT = "/api/auth/logout"
+
+/** How a token refresh went: `ok`, or the problem the token endpoint answered with. */
+export type TokenRefreshResult = { kind: "ok" } | GeneralApiProblem
 
 type AuthCallbacks = {
-  /** Called on 401. Should refresh the access token and return true on success. */
-  onRefreshToken: () => Promise<boolean>
-  /** Called when a refresh attempt fails — clears all local auth state. */
+  /** Called on 401. Should refresh the access token and say how that went. */
+  onRefreshToken: () => Promise<TokenRefreshResult>
+  /** Called when the server rejects a refresh — clears all local auth state. */
   onLogout: () => void
 }
 
+/** `RequestOptions` with the route-specific types erased, as `request` hands them on. */
+type SendOptions = CallOptions & {
+  path?: Record<string, string | number>
+  query?: Record<string, unknown>
+  body?: unknown
+  form?: Record<string, string>
+  config?: AxiosRequestConfig
+  validate?: Validator<unknown>
+}
+
 // Extend the axios request config type to support a retry flag.
 declare module "axios" {
   interface InternalAxiosRequestConfig {
@@ -47,6 +110,10 @@ export class Api {
   apisauce: ApisauceInstance
   config: ApiConfig
 
+  private authCallbacks: AuthCallbacks | undefined
+  private authInterceptorId: number | undefined
+  private refreshInFlight: Promise<TokenRefreshResult> | null = null
+
   constructor(config: ApiConfig = DEFAULT_API_CONFIG) {
     this.config = config
     this.apisauce = create({
@@ -56,6 +123,7 @@ export class Api {
         Accept: "application/json",
       },
     })
+    if (this.config.anonymous) return
 
     this.apisauce.addRequestTransform((request) => {
       const token = authStore.getAccessToken()
@@ -76,16 +144,26 @@ export class Api {
     })
   }
 
+  /** Points every later request at another server, e.g. after switching server profiles. */
+  setBaseUrl(url: string): void {
+    this.config = { ...this.config, url }
+    this.apisauce.setBaseURL(url)
+  }
+
   /**
    * Wire up refresh + logout callbacks and register an axios response interceptor
    * that automatically retries requests after a successful token refresh on 401.
    *
-   * Call this once from AuthContext on mount.
+   * Safe to call repeatedly, e.g. from an effect that re-runs: later calls only swap
+   * the callbacks, the interceptor is registered once.
    */
   setAuthCallbacks(callbacks: AuthCallbacks): void {
+    this.authCallbacks = callbacks
+    if (this.authInterceptorId !== undefined) return
+
     const axiosInstance = this.apisauce.axiosInstance
 
-    axiosInstance.interceptors.response.use(
+    this.authInterceptorId = axiosInstance.interceptors.response.use(
       (response) => response,
       async (error) => {
         const original = error.config
@@ -93,372 +171,633 @@ export class Api {
         // Only retry once, and never retry the token endpoint itself
         // (avoids infinite loops when the refresh token is also invalid).
         if (
-          error.response?.status === 401 &&
-          !original._retry &&
-          !original.url?.includes(TOKEN_ENDPOINT)
+          error.response?.status !== 401 ||
+          !original ||
+          original._retry ||
+          original.url?.toLowerCase().includes(TOKEN_ENDPOINT.toLowerCase())
         ) {
-          original._retry = true
-
-          const refreshed = await callbacks.onRefreshToken()
-          if (refreshed) {
-            // Token has been updated in authStore — pick it up for the retry.
-            const newToken = authStore.getAccessToken()
-            if (newToken) {
-              original.headers["Authorization"] = `Bearer ${newToken}`
-            }
-            return axiosInstance(original)
-          }
-
-          // Refresh failed — force logout so the user is sent back to LoginScreen.
-          callbacks.onLogout()
+          return Promise.reject(error)
         }
-
-        return Promise.reject(error)
+        original._retry = true
+
+        // Already logged out, e.g. by a refresh that failed while this request was out.
+        const current = authStore.getAccessToken()
+        if (!current) return Promise.reject(error)
+
+        // A request sent with a token that has since been replaced just needs replaying.
+        const sentWith = String(original.headers?.["Authorization"] ?? "")
+        const refreshed =
+          sentWith === `Bearer ${current}` ? (await this.refreshAccessToken()).kind === "ok" : true
+        if (!refreshed) return Promise.reject(error)
+
+        // Token has been updated in authStore — pick it up for the retry.
+        const newToken = authStore.getAccessToken()
+        if (newToken) {
+          original.headers["Authorization"] = `Bearer ${newToken}`
+        }
+        return axiosInstance(original)
       },
     )
   }
 
-  async exchangeAuthorizationCode(params: {
-    code: string
-    codeVerifier: string
-    redirectUri: string
-    clientId: string
-  }): Promise<{ kind: "ok"; data: AuthTokenResponse } | GeneralApiProblem> {
-    const formBody = new URLSearchParams({
-      grant_type: "authorization_code",
-      code: params.code,
-      code_verifier: params.codeVerifier,
-      redirect_uri: params.redirectUri,
-      client_id: params.clientId,
-    })
+  /**
+   * Refreshes the access token through `onRefreshToken`. Concurrent callers share one
+   * refresh, since the backend rotates refresh tokens and a second grant with the old
+   * one would fail. If the server rejects the refresh, `onLogout` is called once for all
+   * of them; when it can't be reached or fails on its end, the session is kept.
+   *
+   * @returns `ok` once a new access token is in `authStore`.
+   */
+  refreshAccessToken(): Promise<TokenRefreshResult> {
+    if (this.refreshInFlight) return this.refreshInFlight
+
+    const callbacks = this.authCallbacks
+    if (!callbacks) return Promise.resolve({ kind: "unauthorized" })
+
+    this.refreshInFlight = callbacks
+      .onRefreshToken()
+      .catch((): TokenRefreshResult => ({ kind: "unknown", temporary: true }))
+      .then((result) => {
+        // Refresh token expired or revoked — force logout so the user is sent back to LoginScreen.
+        if (result.kind !== "ok" && isRejection(result)) callbacks.onLogout()
+        return result
+      })
+      .finally(() => {
+        this.refreshInFlight = null
+      })
+
+    return this.refreshInFlight
+  }
 
-    const response: ApiResponse<AuthTokenResponse> = await this.apisauce.post(
-      TOKEN_ENDPOINT,
-      formBody.toString(),
-      {
-        headers: {
-          "Content-Type": "application/x-www-form-urlencoded",
-        },
-      },
+  /**
+   * Sends a request to a route from the OpenAPI schema and folds the response into
+   * `{ kind: "ok", data }` or a `GeneralApiProblem`. Path params, query, body and the
+   * response type are all inferred from `paths` in `schema.ts`.
+   *
+   * Temporary problems are retried with backoff according to `config.retry`, which by
+   * default only covers idempotent methods; pass `retry` to override it for one call.
+   *
+   * A few auth routes don't document their response body; pass all three type
+   * arguments to name it, e.g. `request<"get", "/api/auth/userinfo", UserInfoResponse>`.
+   */
+  async request<
+    M extends HttpMethod,
+    P extends PathsWithMethod<M>,
+    R = ResponseBody<Operation<M, P>>,
+  >(
+    method: M,
+    route: P,
+    ...args: RequestArgs<Operation<M, P>>
+  ): Promise<{ kind: "ok"; data: R } | GeneralApiProblem> {
+    const options = (args[0] ?? {}) as SendOptions
+    const policy = resolveRetryPolicy(
+      method,
+      this.config.retry ?? DEFAULT_RETRY_POLICY,
+      options.retry,
     )
 
+    for (let attempt = 1; ; attempt++) {
+      if (options.signal?.aborted) return { kind: "cancelled" }
+
+      const result = await this.send<R>(method, route, options)
+      if (!policy || !("temporary" in result) || attempt >= policy.maxAttempts) return result
+
+      const wait = retryDelay(result, attempt, policy)
+      if (wait === undefined) return result
+      if (!(await sleep(wait, options.signal))) return { kind: "cancelled" }
+    }
+  }
+
+  /** A single attempt of `request`. */
+  private async send<R>(
+    method: HttpMethod,
+    route: string,
+    { path, query, body, form, config, signal, validate }: SendOptions,
+  ): Promise<{ kind: "ok"; data: R } | GeneralApiProblem> {
+    const url = buildPath(route, path)
+    const axiosConfig = signal ? { ...config, signal } : config
+
+    let response: ApiResponse<R>
+    if (method === "get" || method === "delete") {
+      response = await this.apisauce[method](url, query, axiosConfig)
+    } else if (form) {
+      response = await this.apisauce[method](url, new URLSearchParams(form).toString(), {
+        ...axiosConfig,
+        params: query,
+        headers: { ...config?.headers, "Content-Type": "application/x-www-form-urlencoded" },
+      })
+    } else {
+      response = await this.apisauce[method](url, body, { ...axiosConfig, params: query })
+    }
+
+    if (response.problem === "CANCEL_ERROR") return { kind: "cancelled" }
+
     if (!response.ok) {
       const problem = getGeneralApiProblem(response)
       if (problem) return problem
     }
 
+    // 204 No Content is the only success that is allowed to come back empty.
+    if (response.status === 204) return { kind: "ok", data: undefined as R }
+
     if (!response.data) return { kind: "bad-data" }
 
+    const issue = validate && validateBody(validate, response.data)
+    if (issue) {
+      reportInvalidResponse(route, issue, response.data)
+      return { kind: "bad-data", path: issue.path }
+    }
+
     return { kind: "ok", data: response.data }
   }
 
+  async exchangeAuthorizationCode(params: {
+    code: string
+    codeVerifier: string
+    redirectUri: string
+    clientId: string
+  }): Promise<{ kind: "ok"; data: AuthTokenResponse } | GeneralApiProblem> {
+    return this.request<"post", typeof TOKEN_ENDPOINT, AuthTokenResponse>("post", TOKEN_ENDPOINT, {
+      form: {
+        grant_type: "authorization_code",
+        code: params.code,
+        code_verifier: params.codeVerifier,
+        redirect_uri: params.redirectUri,
+        client_id: params.clientId,
+      },
+    })
+  }
+
   async refreshToken(
     refreshToken: string,
   ): Promise<{ kind: "ok"; data: AuthTokenResponse } | GeneralApiProblem> {
-    const formBody = new URLSearchParams({
-      grant_type: "refresh_token",
-      refresh_token: refreshToken,
+    return this.request<"post", typeof TOKEN_ENDPOINT, AuthTokenResponse>("post", TOKEN_ENDPOINT, {
+      form: {
+        grant_type: "refresh_token",
+        refresh_token: refreshToken,
+      },
     })
+  }
 
-    const response: ApiResponse<AuthTokenResponse> = await this.apisauce.post(
-      TOKEN_ENDPOINT,
-      formBody.toString(),
-      {
-        headers: {
-          "Content-Type": "application/x-www-form-urlencoded",
-        },
-      },
-    )
+  async getUserInfo(): Promise<{ kind: "ok"; data: UserInfoResponse } | GeneralApiProblem> {
+    return this.request<"get", "/api/auth/userinfo", UserInfoResponse>("get", "/api/auth/userinfo")
+  }
 
-    if (!response.ok) {
-      const problem = getGeneralApiProblem(response)
-      if (problem) return problem
-    }
+  /**
+   * The signed-in user with their lab memberships. Needs no `X-Lab-Id`, so it works
+   * before a lab is chosen.
+   */
+  async getCurrentUser(
+    options?: CallOptions,
+  ): Promise<{ kind: "ok"; data: UserDto } | GeneralApiProblem> {
+    return this.request("get", "/api/users/me", { ...options, validate: userDto })
+  }
 
-    if (!response.data) return { kind: "bad-data" }
+  async getUserById(
+    id: string,
+    options?: CallOptions,
+  ): Promise<{ kind: "ok"; data: UserDto } | GeneralApiProblem> {
+    return this.request("get", "/api/users/{id}", { ...options, path: { id }, validate: userDto })
+  }
 
-    return { kind: "ok", data: response.data }
+  async getUsers(
+    pageNumber = 1,
+    pageSize = 50,
+    options?: CallOptions,
+  ): Promise<{ kind: "ok"; data: UserDtoPagedResult } | GeneralApiProblem> {
+    return this.request("get", "/api/users", {
+      ...options,
+      query: { pageNumber, pageSize },
+      validate: userDtoPagedResult,
+    })
   }
 
-  async getUserInfo(): Promise<{ kind: "ok"; data: UserInfoResponse } | GeneralApiProblem> {
-    const response: ApiResponse<UserInfoResponse> = await this.apisauce.get(USERINFO_ENDPOINT)
+  async getUsersByLab(
+    labId: string,
+    pageNumber = 1,
+    pageSize = 50,
+    options?: CallOptions,
+  ): Promise<{ kind: "ok"; data: UserDtoPagedResult } | GeneralApiProblem> {
+    return this.request("get", "/api/users/by_lab/{labId}", {
+      ...options,
+      path: { labId },
+      query: { pageNumber, pageSize },
+      validate: userDtoPagedResult,
+    })
+  }
 
-    if (!response.ok) {
-      const problem = getGeneralApiProblem(response)
-      if (problem) return problem
-    }
+  /** Creates the user as a member of `dto.labId` with `dto.role`. */
+  async createUser(dto: CreateUserDto): Promise<{ kind: "ok"; data: UserDto } | GeneralApiProblem> {
+    return this.request("post", "/api/users", { body: dto, validate: userDto })
+  }
 
-    if (!response.data) return { kind: "bad-data" }
+  async updateUser(
+    id: string,
+    dto: UpdateUserDto,
+  ): Promise<{ kind: "ok"; data: UserDto } | GeneralApiProblem> {
+    return this.request("put", "/api/users/{id}", { path: { id }, body: dto, validate: userDto })
+  }
 
-    return { kind: "ok", data: response.data }
+  /** The backend only marks the account inactive; `updateUser` with `isActive` undoes it. */
+  async deactivateUser(id: string): Promise<{ kind: "ok" } | GeneralApiProblem> {
+    return this.request("delete", "/api/users/{id}", { path: { id } })
+  }
+
+  async getUserLabs(
+    userId: string,
+    options?: CallOptions,
+  ): Promise<{ kind: "ok"; data: UserLabDto[] } | GeneralApiProblem> {
+    return this.request("get", "/api/users/{userId}/labs", {
+      ...options,
+      path: { userId },
+      validate: v.array(userLabDto),
+    })
+  }
+
+  async addUserToLab(
+    userId: string,
+    labId: string,
+    role: UserRole,
+  ): Promise<{ kind: "ok"; data: UserLabDto } | GeneralApiProblem> {
+    return this.request("post", "/api/users/{userId}/labs/{labId}", {
+      path: { userId, labId },
+      body: { role },
+      validate: userLabDto,
+    })
+  }
+
+  async removeUserFromLab(
+    userId: string,
+    labId: string,
+  ): Promise<{ kind: "ok" } | GeneralApiProblem> {
+    return this.request("delete", "/api/users/{userId}/labs/{labId}", { path: { userId, labId } })
+  }
+
+  async updateUserRole(
+    userId: string,
+    labId: string,
+    role: UserRole,
+  ): Promise<{ kind: "ok"; data: UserLabDto } | GeneralApiProblem> {
+    return this.request("put", "/api/users/{userId}/labs/{labId}/role", {
+      path: { userId, labId },
+      body: { role },
+      validate: userLabDto,
+    })
+  }
+
+  /** A wrong current password comes back as `rejected` without a message. */
+  async changePassword(dto: ChangePasswordRequest): Promise<{ kind: "ok" } | GeneralApiProblem> {
+    return this.request("post", "/api/password/change", { body: dto })
+  }
+
+  /**
+   * Emails a reset link if the address belongs to an active account. The answer is the
+   * same either way, so it says nothing about whether the account exists.
+   */
+  async forgotPassword(dto: ForgotPasswordRequest): Promise<{ kind: "ok" } | GeneralApiProblem> {
+    return this.request("post", "/api/password/forgot", { body: dto })
+  }
+
+  /** An unknown email and an invalid or expired code both come back as `rejected`. */
+  async resetPassword(dto: ResetPasswordRequest): Promise<{ kind: "ok" } | GeneralApiProblem> {
+    return this.request("post", "/api/password/reset", { body: dto })
+  }
+
+  /**
+   * Confirms the address with the `userId` and `code` from a verification link. An address
+   * that is already confirmed succeeds too, with `alreadyVerified` set. An invalid or
+   * expired code comes back as `rejected`, an unknown user as `not-found`.
+   */
+  async verifyEmail(
+    dto: VerifyEmailRequest,
+    options?: CallOptions,
+  ): Promise<{ kind: "ok"; data: VerifyEmailResponse } | GeneralApiProblem> {
+    return this.request<"post", "/api/email_verification/verify", VerifyEmailResponse>(
+      "post",
+      "/api/email_verification/verify",
+      { ...options, body: dto },
+    )
+  }
+
+  /**
+   * Sends a new link if the address belongs to an unverified account. The answer is the
+   * same either way.
+   */
+  async resendVerification(
+    dto: ResendVerificationRequest,
+  ): Promise<{ kind: "ok" } | GeneralApiProblem> {
+    return this.request("post", "/api/email_verification/resend", { body: dto })
+  }
+
+  /** Answers as long as the server process is up. Needs no sign-in, like the other probes. */
+  async getLiveness(
+    options?: CallOptions,
+  ): Promise<{ kind: "ok"; data: HealthResponse } | GeneralApiProblem> {
+    return this.request<"get", "/api/health/live", HealthResponse>(
+      "get",
+      "/api/health/live",
+      options,
+    )
+  }
+
+  async getStartup(
+    options?: CallOptions,
+  ): Promise<{ kind: "ok"; data: HealthResponse } | GeneralApiProblem> {
+    return this.request<"get", "/api/health/startup", HealthResponse>(
+      "get",
+      "/api/health/startup",
+      options,
+    )
+  }
+
+  /** Also checks the database; `checks` reports the connection and pending migrations. */
+  async getReadiness(
+    options?: CallOptions,
+  ): Promise<{ kind: "ok"; data: HealthResponse } | GeneralApiProblem> {
+    return this.request<"get", "/api/health/ready", HealthResponse>(
+      "get",
+      "/api/health/ready",
+      options,
+    )
+  }
+
+  /** The backend release. Unlike the health probes it needs a signed-in user. */
+  async getServerVersion(
+    options?: CallOptions,
+  ): Promise<{ kind: "ok"; data: VersionResponse } | GeneralApiProblem> {
+    return this.request<"get", "/api/version", VersionResponse>("get", "/api/version", options)
   }
 
   async logout(): Promise<
     { kind: "ok"; data: { message: string; tokensRevoked: number } } | GeneralApiProblem
   > {
-    const response: ApiResponse<{ message: string; tokensRevoked: number }> =
-      await this.apisauce.post(LOGOUT_ENDPOINT)
+    return this.request<"post", "/api/auth/logout", { message: string; tokensRevoked: number }>(
+      "post",
+      "/api/auth/logout",
+    )
+  }
 
-    if (!response.ok) {
-      const problem = getGeneralApiProblem(response)
-      if (problem) return problem
-    }
+  async getLabs(
+    pageNumber = 1,
+    pageSize = 50,
+    options?: CallOptions,
+  ): Promise<{ kind: "ok"; data: LabDtoPagedResult } | GeneralApiProblem> {
+    return this.request("get", "/api/labs", {
+      ...options,
+      query: { pageNumber, pageSize },
+      validate: labDtoPagedResult,
+    })
+  }
 
-    if (!response.data) return { kind: "bad-data" }
+  async getActiveLabs(
+    options?: CallOptions,
+  ): Promise<{ kind: "ok"; data: LabDto[] } | GeneralApiProblem> {
+    return this.request("get", "/api/labs/active", { ...options, validate: v.array(labDto) })
+  }
 
-    return { kind: "ok", data: response.data }
+  async getLabById(
+    id: string,
+    options?: CallOptions,
+  ): Promise<{ kind: "ok"; data: LabDto } | GeneralApiProblem> {
+    return this.request("get", "/api/labs/{id}", { ...options, path: { id }, validate: labDto })
+  }
+
+  async createLab(dto: CreateLabDto): Promise<{ kind: "ok"; data: LabDto } | GeneralApiProblem> {
+    return this.request("post", "/api/labs", { body: dto, validate: labDto })
+  }
+
+  /** Also (de)activates the lab through `isActive`; the backend has no separate route. */
+  async updateLab(
+    id: string,
+    dto: UpdateLabDto,
+  ): Promise<{ kind: "ok"; data: LabDto } | GeneralApiProblem> {
+    return this.request("put", "/api/labs/{id}", { path: { id }, body: dto, validate: labDto })
+  }
+
+  async deleteLab(id: string): Promise<{ kind: "ok" } | GeneralApiProblem> {
+    return this.request("delete", "/api/labs/{id}", { path: { id } })
   }
 
   async getSamples(
     pageNumber = 1,
     pageSize = 50,
+    options?: CallOptions,
   ): Promise<{ kind: "ok"; data: SampleDtoPagedResult } | GeneralApiProblem> {
-    const response: ApiResponse<SampleDtoPagedResult> = await this.apisauce.get("/api/samples", {
-      pageNumber,
-      pageSize,
+    return this.request("get", "/api/samples", {
+      ...options,
+      query: { pageNumber, pageSize },
+      validate: sampleDtoPagedResult,
     })
-
-    if (!response.ok) {
-      const problem = getGeneralApiProblem(response)
-      if (problem) return problem
-    }
-
-    if (!response.data) return { kind: "bad-data" }
-
-    return { kind: "ok", data: response.data }
   }
 
   async getSamplesByLab(
     labId: string,
     pageNumber = 1,
     pageSize = 50,
+    options?: CallOptions,
   ): Promise<{ kind: "ok"; data: SampleDtoPagedResult } | GeneralApiProblem> {
-    const response: ApiResponse<SampleDtoPagedResult> = await this.apisauce.get(
-      `/api/samples/by-lab/${labId}`,
-      {
-        pageNumber,
-        pageSize,
-      },
-    )
-
-    if (!response.ok) {
-      const problem = getGeneralApiProblem(response)
-      if (problem) return problem
-    }
-
-    if (!response.data) return { kind: "bad-data" }
-
-    return { kind: "ok", data: response.data }
+    return this.request("get", "/api/samples/by_lab/{labId}", {
+      ...options,
+      path: { labId },
+      query: { pageNumber, pageSize },
+      validate: sampleDtoPagedResult,
+    })
   }
 
-  async getSampleById(id: string): Promise<{ kind: "ok"; data: SampleDto } | GeneralApiProblem> {
-    const response: ApiResponse<SampleDto> = await this.apisauce.get(`/api/samples/${id}`)
-
-    if (!response.ok) {
-      const problem = getGeneralApiProblem(response)
-      if (problem) return problem
-    }
-
-    if (!response.data) return { kind: "bad-data" }
-
-    return { kind: "ok", data: response.data }
+  async getSampleById(
+    id: string,
+    options?: CallOptions,
+  ): Promise<{ kind: "ok"; data: SampleDto } | GeneralApiProblem> {
+    return this.request("get", "/api/samples/{id}", {
+      ...options,
+      path: { id },
+      validate: sampleDto,
+    })
   }
 
   async createSample(
     dto: CreateSampleDto,
   ): Promise<{ kind: "ok"; data: SampleDto } | GeneralApiProblem> {
-    const response: ApiResponse<SampleDto> = await this.apisauce.post("/api/samples", dto)
-
-    if (!response.ok) {
-      const problem = getGeneralApiProblem(response)
-      if (problem) return problem
-    }
-
-    if (!response.data) return { kind: "bad-data" }
-
-    return { kind: "ok", data: response.data }
+    return this.request("post", "/api/samples", { body: dto, validate: sampleDto })
   }
 
   async updateSample(
     id: string,
     dto: UpdateSampleDto,
-  ): Promise<{ kind: "ok"; data: SampleDto } | GeneralApiProblem> {
-    const response: ApiResponse<SampleDto> = await this.apisauce.put(`/api/samples/${id}`, dto)
-
-    if (!response.ok) {
-      const problem = getGeneralApiProblem(response)
-      if (problem) return problem
-    }
-
-    if (!response.data) return { kind: "bad-data" }
+  ): Promise<{ kind: "ok"; data: SampleDto } | VersionConflict<SampleDto> | GeneralApiProblem> {
+    const result = await this.request("put", "/api/samples/{id}", {
+      path: { id },
+      body: dto,
+      validate: sampleDto,
+    })
+    if (result.kind !== "conflict") return result
 
-    return { kind: "ok", data: response.data }
+    const current = await this.getSampleById(id)
+    return current.kind === "ok" ? { kind: "conflict", server: current.data } : current
   }
 
   async deleteSample(id: string): Promise<{ kind: "ok" } | GeneralApiProblem> {
-    const response = await this.apisauce.delete(`/api/samples/${id}`)
-
-    if (!response.ok) {
-      const problem = getGeneralApiProblem(response)
-      if (problem) return problem
-    }
-
-    return { kind: "ok" }
+    return this.request("delete", "/api/samples/{id}", { path: { id } })
   }
 
   async getParameters(
     pageNumber = 1,
     pageSize = 50,
+    options?: CallOptions,
   ): Promise<{ kind: "ok"; data: ParameterDtoPagedResult } | GeneralApiProblem> {
-    const response: ApiResponse<ParameterDtoPagedResult> = await this.apisauce.get(
-      "/api/parameters",
-      {
-        pageNumber,
-        pageSize,
-      },
-    )
-
-    if (!response.ok) {
-      const problem = getGeneralApiProblem(response)
-      if (problem) return problem
-    }
-
-    if (!response.data) return { kind: "bad-data" }
-
-    return { kind: "ok", data: response.data }
+    return this.request("get", "/api/parameters", {
+      ...options,
+      query: { pageNumber, pageSize },
+      validate: parameterDtoPagedResult,
+    })
   }
 
-  async getActiveParameters(): Promise<{ kind: "ok"; data: ParameterDto[] } | GeneralApiProblem> {
-    const response: ApiResponse<ParameterDto[]> = await this.apisauce.get("/api/parameters/active")
-
-    if (!response.ok) {
-      const problem = getGeneralApiProblem(response)
-      if (problem) return problem
-    }
-
-    if (!response.data) return { kind: "bad-data" }
-
-    return { kind: "ok", data: response.data }
+  async getActiveParameters(
+    options?: CallOptions,
+  ): Promise<{ kind: "ok"; data: ParameterDto[] } | GeneralApiProblem> {
+    return this.request("get", "/api/parameters/active", {
+      ...options,
+      validate: v.array(parameterDto),
+    })
   }
 
   async getParameterById(
     id: string,
+    options?: CallOptions,
   ): Promise<{ kind: "ok"; data: ParameterDto } | GeneralApiProblem> {
-    const response: ApiResponse<ParameterDto> = await this.apisauce.get(`/api/parameters/${id}`)
+    return this.request("get", "/api/parameters/{id}", {
+      ...options,
+      path: { id },
+      validate: parameterDto,
+    })
+  }
 
-    if (!response.ok) {
-      const problem = getGeneralApiProblem(response)
-      if (problem) return problem
-    }
+  async createParameter(
+    dto: CreateParameterDto,
+  ): Promise<{ kind: "ok"; data: ParameterDto } | GeneralApiProblem> {
+    return this.request("post", "/api/parameters", { body: dto, validate: parameterDto })
+  }
 
-    if (!response.data) return { kind: "bad-data" }
+  /** Also (de)activates the parameter through `isActive`; the backend has no separate route. */
+  async updateParameter(
+    id: string,
+    dto: UpdateParameterDto,
+  ): Promise<{ kind: "ok"; data: ParameterDto } | GeneralApiProblem> {
+    return this.request("put", "/api/parameters/{id}", {
+      path: { id },
+      body: dto,
+      validate: parameterDto,
+    })
+  }
 
-    return { kind: "ok", data: response.data }
+  async deleteParameter(id: string): Promise<{ kind: "ok" } | GeneralApiProblem> {
+    return this.request("delete", "/api/parameters/{id}", { path: { id } })
   }
 
   async getTestResults(
     pageNumber = 1,
     pageSize = 50,
+    options?: CallOptions,
   ): Promise<{ kind: "ok"; data: TestResultDtoPagedResult } | GeneralApiProblem> {
-    const response: ApiResponse<TestResultDtoPagedResult> = await this.apisauce.get(
-      "/api/testresults",
-      {
-        pageNumber,
-        pageSize,
-      },
-    )
-
-    if (!response.ok) {
-      const problem = getGeneralApiProblem(response)
-      if (problem) return problem
-    }
-
-    if (!response.data) return { kind: "bad-data" }
-
-    return { kind: "ok", data: response.data }
+    return this.request("get", "/api/test_results", {
+      ...options,
+      query: { pageNumber, pageSize },
+      validate: testResultDtoPagedResult,
+    })
   }
 
   async getTestResultsBySample(
     sampleId: string,
     pageNumber = 1,
     pageSize = 50,
+    options?: CallOptions,
   ): Promise<{ kind: "ok"; data: TestResultDtoPagedResult } | GeneralApiProblem> {
-    const response: ApiResponse<TestResultDtoPagedResult> = await this.apisauce.get(
-      `/api/testresults/by-sample/${sampleId}`,
-      {
-        pageNumber,
-        pageSize,
-      },
-    )
-
-    if (!response.ok) {
-      const problem = getGeneralApiProblem(response)
-      if (problem) return problem
-    }
-
-    if (!response.data) return { kind: "bad-data" }
-
-    return { kind: "ok", data: response.data }
+    return this.request("get", "/api/test_results/by_sample/{sampleId}", {
+      ...options,
+      path: { sampleId },
+      query: { pageNumber, pageSize },
+      validate: testResultDtoPagedResult,
+    })
   }
 
   async getTestResultById(
     id: string,
+    options?: CallOptions,
   ): Promise<{ kind: "ok"; data: TestResultDto } | GeneralApiProblem> {
-    const response: ApiResponse<TestResultDto> = await this.apisauce.get(`/api/testresults/${id}`)
-
-    if (!response.ok) {
-      const problem = getGeneralApiProblem(response)
-      if (problem) return problem
-    }
-
-    if (!response.data) return { kind: "bad-data" }
-
-    return { kind: "ok", data: response.data }
+    return this.request("get", "/api/test_results/{id}", {
+      ...options,
+      path: { id },
+      validate: testResultDto,
+    })
   }
 
   async createTestResult(
     dto: CreateTestResultDto,
   ): Promise<{ kind: "ok"; data: TestResultDto } | GeneralApiProblem> {
-    const response: ApiResponse<TestResultDto> = await this.apisauce.post("/api/testresults", dto)
-
-    if (!response.ok) {
-      const problem = getGeneralApiProblem(response)
-      if (problem) return problem
-    }
-
-    if (!response.data) return { kind: "bad-data" }
-
-    return { kind: "ok", data: response.data }
+    return this.request("post", "/api/test_results", { body: dto, validate: testResultDto })
   }
 
   async updateTestResult(
     id: string,
     dto: UpdateTestResultDto,
-  ): Promise<{ kind: "ok"; data: TestResultDto } | GeneralApiProblem> {
-    const response: ApiResponse<TestResultDto> = await this.apisauce.put(
-      `/api/testresults/${id}`,
-      dto,
-    )
-
-    if (!response.ok) {
-      const problem = getGeneralApiProblem(response)
-      if (problem) return problem
-    }
-
-    if (!response.data) return { kind: "bad-data" }
+  ): Promise<
+    { kind: "ok"; data: TestResultDto } | VersionConflict<TestResultDto> | GeneralApiProblem
+  > {
+    const result = await this.request("put", "/api/test_results/{id}", {
+      path: { id },
+      body: dto,
+      validate: testResultDto,
+    })
+    if (result.kind !== "conflict") return result
 
-    return { kind: "ok", data: response.data }
+    const current = await this.getTestResultById(id)
+    return current.kind === "ok" ? { kind: "conflict", server: current.data } : current
   }
 
   async deleteTestResult(id: string): Promise<{ kind: "ok" } | GeneralApiProblem> {
-    const response = await this.apisauce.delete(`/api/testresults/${id}`)
+    return this.request("delete", "/api/test_results/{id}", { path: { id } })
+  }
 
-    if (!response.ok) {
-      const problem = getGeneralApiProblem(response)
-      if (problem) return problem
-    }
+  /**
+   * Audit entries matching `filter`, newest first. The route is a POST but only reads,
+   * so it is retried like a GET.
+   */
+  async getAuditLogs(
+    filter: AuditLogFilterDto,
+    options?: CallOptions,
+  ): Promise<{ kind: "ok"; data: AuditLogDtoPagedResult } | GeneralApiProblem> {
+    return this.request("post", "/api/audit_logs/filter", {
+      retry: true,
+      ...options,
+      body: filter,
+      validate: auditLogDtoPagedResult,
+    })
+  }
 
-    return { kind: "ok" }
+  /** The history of one record, newest first. Archived entries aren't included. */
+  async getAuditLogsByEntity(
+    entityId: string,
+    pageNumber = 1,
+    pageSize = 50,
+    options?: CallOptions,
+  ): Promise<{ kind: "ok"; data: AuditLogDtoPagedResult } | GeneralApiProblem> {
+    return this.request("get", "/api/audit_logs/by_entity/{entityId}", {
+      ...options,
+      path: { entityId },
+      query: { pageNumber, pageSize },
+      validate: auditLogDtoPagedResult,
+    })
+  }
+
+  async getAuditLogById(
+    id: string,
+    options?: CallOptions,
+  ): Promise<{ kind: "ok"; data: AuditLogDto } | GeneralApiProblem> {
+    return this.request("get", "/api/audit_logs/{id}", {
+      ...options,
+      path: { id },
+      validate: auditLogDto,
+    })
   }
 }
 
@@ -0,0 +1,167 @@
+import { buildPath } from "./request"
+import { DEFAULT_RETRY_POLICY } from "./retry"
+
+import { Api } from "./index"
+
+function stubApi(response: object) {
+  // No waiting between retries, so tests don't need fake timers.
+  const api = new Api({
+    url: "https://example.test",
+    timeout: 1000,
+    retry: { ...DEFAULT_RETRY_POLICY, baseDelay: 0 },
+  })
+  const send = jest.fn().mockResolvedValue(response)
+  api.apisauce.get = send
+  api.apisauce.post = send
+  api.apisauce.put = send
+  api.apisauce.delete = send
+  return { api, send }
+}
+
+describe("buildPath", () => {
+  it("fills and encodes route placeholders", () => {
+    expect(buildPath("/api/samples/{id}", { id: "a b/c" })).toBe("/api/samples/a%20b%2Fc")
+  })
+
+  it("throws when a placeholder has no value", () => {
+    expect(() => buildPath("/api/samples/{id}")).toThrow('Missing path parameter "id"')
+  })
+})
+
+describe("Api.request", () => {
+  it("sends path params and query and returns the body", async () => {
+    const { api, send } = stubApi({ ok: true, status: 200, data: { items: [] } })
+
+    const result = await api.request("get", "/api/samples/by_lab/{labId}", {
+      path: { labId: "lab-1" },
+      query: { pageNumber: 2 },
+    })
+
+    expect(send).toHaveBeenCalledWith("/api/samples/by_lab/lab-1", { pageNumber: 2 }, undefined)
+    expect(result).toEqual({ kind: "ok", data: { items: [] } })
+  })
+
+  it("sends JSON bodies with the query as params", async () => {
+    const { api, send } = stubApi({ ok: true, status: 201, data: { id: "s-1" } })
+    const body = {
+      type: 0,
+      locationLatitude: 1,
+      locationLongitude: 2,
+      collectionDate: "2026-01-01T00:00:00Z",
+      collectorName: "A",
+      labId: "lab-1",
+    } as const
+
+    await api.request("post", "/api/samples", { body })
+
+    expect(send).toHaveBeenCalledWith("/api/samples", body, { params: undefined })
+  })
+
+  it("encodes form bodies", async () => {
+    const { api, send } = stubApi({ ok: true, status: 200, data: { access_token: "t" } })
+
+    await api.refreshToken("refresh-1")
+
+    expect(send).toHaveBeenCalledWith(
+      "/api/auth/token",
+      "grant_type=refresh_token&refresh_token=refresh-1",
+      expect.objectContaining({
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      }),
+    )
+  })
+
+  it("accepts an empty 204 but not an empty 200", async () => {
+    expect(
+      await stubApi({ ok: true, status: 204 }).api.request("delete", "/api/samples/{id}", {
+        path: { id: "s-1" },
+      }),
+    ).toEqual({ kind: "ok", data: undefined })
+
+    expect(
+      await stubApi({ ok: true, status: 200 }).api.request("get", "/api/samples/{id}", {
+        path: { id: "s-1" },
+      }),
+    ).toEqual({ kind: "bad-data" })
+  })
+
+  it("maps failures to API problems", async () => {
+    const { api } = stubApi({ ok: false, status: 404, problem: "CLIENT_ERROR" })
+
+    expect(await api.request("get", "/api/samples/{id}", { path: { id: "s-1" } })).toEqual({
+      kind: "not-found",
+    })
+  })
+})
+
+describe("Api.request retries", () => {
+  const timeout = { ok: false, problem: "TIMEOUT_ERROR" }
+
+  it("retries temporary problems on idempotent methods", async () => {
+    const { api, send } = stubApi(timeout)
+    send.mockResolvedValueOnce(timeout).mockResolvedValueOnce({ ok: true, status: 200, data: [] })
+
+    expect(await api.request("get", "/api/parameters/active")).toEqual({ kind: "ok", data: [] })
+    expect(send).toHaveBeenCalledTimes(2)
+  })
+
+  it("gives up after maxAttempts", async () => {
+    const { api, send } = stubApi(timeout)
+
+    expect(await api.request("get", "/api/parameters/active")).toEqual({
+      kind: "timeout",
+      temporary: true,
+    })
+    expect(send).toHaveBeenCalledTimes(DEFAULT_RETRY_POLICY.maxAttempts)
+  })
+
+  it("doesn't retry POSTs unless asked to", async () => {
+    const { api, send } = stubApi(timeout)
+
+    await api.request("post", "/api/auth/logout")
+    expect(send).toHaveBeenCalledTimes(1)
+
+    send.mockClear()
+    await api.request("post", "/api/auth/logout", { retry: { maxAttempts: 2 } })
+    expect(send).toHaveBeenCalledTimes(2)
+  })
+
+  it("doesn't retry problems that aren't temporary", async () => {
+    const { api, send } = stubApi({ ok: false, status: 404, problem: "CLIENT_ERROR" })
+
+    await api.request("get", "/api/parameters/active")
+    expect(send).toHaveBeenCalledTimes(1)
+  })
+
+  it("stops retrying once the signal aborts", async () => {
+    const controller = new AbortController()
+    const { api, send } = stubApi(timeout)
+    send.mockImplementation(async () => {
+      controller.abort()
+      return timeout
+    })
+
+    expect(
+      await api.request("get", "/api/parameters/active", { signal: controller.signal }),
+    ).toEqual({ kind: "cancelled" })
+    expect(send).toHaveBeenCalledTimes(1)
+  })
+
+  it("reports aborted requests as cancelled", async () => {
+    const { api } = stubApi({ ok: false, problem: "CANCEL_ERROR" })
+
+    expect(await api.request("get", "/api/parameters/active")).toEqual({ kind: "cancelled" })
+  })
+})
+
+// Compile-time checks only; `tsc` fails if any of these stop being errors.
+export function typeChecks(api: Api) {
+  // @ts-expect-error routes must be spelled as the server serves them
+  void api.request("get", "/api/Samples")
+  // @ts-expect-error the route doesn't support this method
+  void api.request("post", "/api/samples/{id}", { path: { id: "1" } })
+  // @ts-expect-error path params are required
+  void api.request("get", "/api/samples/{id}")
+  // @ts-expect-error the body must match the route's DTO
+  void api.request("post", "/api/samples", { body: { collectorName: 1 } })
+}
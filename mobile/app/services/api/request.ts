@@ -0,0 +1,90 @@
+import type { AxiosRequestConfig } from "axios"
+
+import type { RetryOption } from "./retry"
+import type { paths } from "./schema"
+import type { Validator } from "./validation"
+
+/**
+ * Type helpers that read routes straight off the generated OpenAPI `paths`, so the
+ * executor in `Api.request` infers path params, query, body and response for a route
+ * and a route or method the backend doesn't expose fails to compile.
+ */
+
+export type HttpMethod = "get" | "post" | "put" | "delete"
+
+/** Every route in the schema that supports the given method. */
+export type PathsWithMethod<M extends HttpMethod> = {
+  [P in keyof paths]: [NonNullable<paths[P][M]>] extends [never] ? never : P
+}[keyof paths]
+
+export type Operation<M extends HttpMethod, P extends PathsWithMethod<M>> = NonNullable<paths[P][M]>
+
+type OperationParameters<Op> = Op extends { parameters: infer Params } ? Params : never
+
+type PathParams<Op> = OperationParameters<Op> extends { path: infer Path } ? Path : never
+
+type QueryParams<Op> =
+  OperationParameters<Op> extends { query?: infer Query } ? NonNullable<Query> : never
+
+type RequestBodyContent<Op> = NonNullable<Op extends { requestBody?: infer Body } ? Body : never>
+
+type RequestBody<Op> = [RequestBodyContent<Op>] extends [never]
+  ? never
+  : RequestBodyContent<Op> extends { content: { "application/json": infer Json } }
+    ? Json
+    : never
+
+type JsonContent<Response> = Response extends { content: { "application/json": infer Json } }
+  ? Json
+  : void
+
+/** The body of the route's 200 (or 201) response, or `void` when it declares none. */
+export type ResponseBody<Op> = Op extends { responses: infer Responses }
+  ? Responses extends { 200: infer Ok }
+    ? JsonContent<Ok>
+    : Responses extends { 201: infer Created }
+      ? JsonContent<Created>
+      : void
+  : void
+
+/** Options every `Api` method accepts as its last argument. */
+export type CallOptions = {
+  /** Aborts the request and any pending retries; the call then returns `cancelled`. */
+  signal?: AbortSignal
+  /** Overrides the `Api`'s retry policy for this call. */
+  retry?: RetryOption
+}
+
+export type RequestOptions<Op> = ([PathParams<Op>] extends [never]
+  ? { path?: never }
+  : { path: PathParams<Op> }) &
+  ([RequestBody<Op>] extends [never] ? { body?: never } : { body: RequestBody<Op> }) &
+  CallOptions & {
+    query?: QueryParams<Op>
+    /** Sent as `application/x-www-form-urlencoded` instead of a JSON body. */
+    form?: Record<string, string>
+    /** Passed through to axios, e.g. for a `signal` or extra headers. */
+    config?: AxiosRequestConfig
+    /** Opts into runtime validation of the response body; see `validators.ts`. */
+    validate?: Validator<ResponseBody<Op>>
+  }
+
+/** Makes the options argument optional when the route needs neither path params nor a body. */
+export type RequestArgs<Op> = [PathParams<Op>] extends [never]
+  ? [RequestBody<Op>] extends [never]
+    ? [options?: RequestOptions<Op>]
+    : [options: RequestOptions<Op>]
+  : [options: RequestOptions<Op>]
+
+/**
+ * Fills `{name}` placeholders in a schema route.
+ *
+ * @param route The route as written in the schema, e.g. `/api/samples/{id}`.
+ * @param params The values for the placeholders.
+ */
+export function buildPath(route: string, params: Record<string, string | number> = {}): string {
+  return route.replace(/\{(\w+)\}/g, (_match, name: string) => {
+    if (!(name in params)) throw new Error(`Missing path parameter "${name}" for ${route}`)
+    return encodeURIComponent(String(params[name]))
+  })
+}
@@ -0,0 +1,52 @@
+import { DEFAULT_RETRY_POLICY, resolveRetryPolicy, retryDelay, sleep } from "./retry"
+
+describe("resolveRetryPolicy", () => {
+  it("retries idempotent methods by default", () => {
+    expect(resolveRetryPolicy("get", DEFAULT_RETRY_POLICY, undefined)).toBe(DEFAULT_RETRY_POLICY)
+    expect(resolveRetryPolicy("post", DEFAULT_RETRY_POLICY, undefined)).toBeUndefined()
+  })
+
+  it("applies per-call overrides", () => {
+    expect(resolveRetryPolicy("get", DEFAULT_RETRY_POLICY, false)).toBeUndefined()
+    expect(resolveRetryPolicy("post", DEFAULT_RETRY_POLICY, true)).toBe(DEFAULT_RETRY_POLICY)
+    expect(resolveRetryPolicy("post", DEFAULT_RETRY_POLICY, { maxAttempts: 5 })).toEqual({
+      ...DEFAULT_RETRY_POLICY,
+      maxAttempts: 5,
+    })
+  })
+})
+
+describe("retryDelay", () => {
+  const timeout = { kind: "timeout", temporary: true } as const
+
+  it("backs off exponentially up to maxDelay", () => {
+    const max = () => 1
+    expect(retryDelay(timeout, 1, DEFAULT_RETRY_POLICY, max)).toBe(500)
+    expect(retryDelay(timeout, 2, DEFAULT_RETRY_POLICY, max)).toBe(1000)
+    expect(retryDelay(timeout, 10, DEFAULT_RETRY_POLICY, max)).toBe(8000)
+  })
+
+  it("jitters below the ceiling", () => {
+    expect(retryDelay(timeout, 3, DEFAULT_RETRY_POLICY, () => 0.25)).toBe(500)
+  })
+
+  it("honours Retry-After unless it is longer than maxDelay", () => {
+    const limited = (retryAfter: number) =>
+      ({ kind: "rate-limited", temporary: true, retryAfter }) as const
+    expect(retryDelay(limited(2), 1, DEFAULT_RETRY_POLICY)).toBe(2000)
+    expect(retryDelay(limited(60), 1, DEFAULT_RETRY_POLICY)).toBeUndefined()
+  })
+})
+
+describe("sleep", () => {
+  it("ends early when aborted", async () => {
+    const controller = new AbortController()
+    const waiting = sleep(60_000, controller.signal)
+    controller.abort()
+    expect(await waiting).toBe(false)
+  })
+
+  it("resolves true once the time has passed", async () => {
+    expect(await sleep(0)).toBe(true)
+  })
+})
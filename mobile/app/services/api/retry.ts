@@ -0,0 +1,95 @@
+import type { GeneralApiProblem } from "./apiProblem"
+import type { HttpMethod } from "./request"
+
+export type RetryPolicy = {
+  /** Attempts in total, including the first. `1` turns retrying off. */
+  maxAttempts: number
+  /** Upper bound of the first delay in ms; it doubles with every attempt. */
+  baseDelay: number
+  /** Upper bound of any single delay in ms, including a server's `Retry-After`. */
+  maxDelay: number
+  /** Methods retried unless a call says otherwise. */
+  methods: readonly HttpMethod[]
+}
+
+/**
+ * Per-call override of the `Api`'s policy. `false` never retries; `true` or a partial
+ * policy retries even when the method isn't in `methods`, e.g. a POST the backend
+ * deduplicates.
+ */
+export type RetryOption = boolean | Partial<Omit<RetryPolicy, "methods">>
+
+/**
+ * Only idempotent methods are retried by default: a POST that timed out may still
+ * have been applied, and the outbox already replays writes made while offline.
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelay: 500,
+  maxDelay: 8000,
+  methods: ["get", "put", "delete"],
+}
+
+/**
+ * Works out the policy for a single call, or `undefined` when it shouldn't be retried.
+ *
+ * @param method The HTTP method of the call.
+ * @param policy The `Api`'s policy.
+ * @param option The call's `retry` option, if any.
+ */
+export function resolveRetryPolicy(
+  method: HttpMethod,
+  policy: RetryPolicy,
+  option: RetryOption | undefined,
+): RetryPolicy | undefined {
+  if (option === false) return undefined
+  if (option === undefined) return policy.methods.includes(method) ? policy : undefined
+  return option === true ? policy : { ...policy, ...option }
+}
+
+/**
+ * How long to wait before retrying, or `undefined` to give up. Uses exponential backoff
+ * with full jitter so clients that failed together don't retry together, and honours
+ * `Retry-After` when the server was rate limiting.
+ *
+ * @param problem The temporary problem the last attempt ended with.
+ * @param attempt The number of the attempt that just failed, starting at 1.
+ * @param policy The policy for the call.
+ * @param random Source of jitter; replaceable in tests.
+ */
+export function retryDelay(
+  problem: GeneralApiProblem,
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random,
+): number | undefined {
+  if (problem.kind === "rate-limited" && problem.retryAfter !== undefined) {
+    const requested = problem.retryAfter * 1000
+    return requested <= policy.maxDelay ? requested : undefined
+  }
+  const ceiling = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1))
+  return Math.round(random() * ceiling)
+}
+
+/**
+ * Waits for `ms`, ending early when `signal` aborts.
+ *
+ * @param ms The number of milliseconds to wait.
+ * @param signal Aborts the wait.
+ * @returns `false` if the wait was aborted.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<boolean> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve(false)
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      resolve(false)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve(true)
+    }, ms)
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
@@ -4,7 +4,7 @@
  */
 
 export interface paths {
-  "/api/AuditLogs": {
+  "/api/audit_logs": {
     parameters: {
       query?: never
       header?: never
@@ -46,7 +46,7 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  "/api/AuditLogs/{id}": {
+  "/api/audit_logs/{id}": {
     parameters: {
       query?: never
       header?: never
@@ -99,7 +99,7 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  "/api/AuditLogs/by-entity/{entityId}": {
+  "/api/audit_logs/by_entity/{entityId}": {
     parameters: {
       query?: never
       header?: never
@@ -143,7 +143,7 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  "/api/AuditLogs/by-user/{userId}": {
+  "/api/audit_logs/by_user/{userId}": {
     parameters: {
       query?: never
       header?: never
@@ -198,7 +198,7 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  "/api/AuditLogs/filter": {
+  "/api/audit_logs/filter": {
     parameters: {
       query?: never
       header?: never
@@ -255,7 +255,7 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  "/api/Auth/token": {
+  "/api/auth/token": {
     parameters: {
       query?: never
       header?: never
@@ -305,7 +305,7 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  "/api/Auth/logout": {
+  "/api/auth/logout": {
     parameters: {
       query?: never
       header?: never
@@ -345,14 +345,17 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  "/api/Auth/userinfo": {
+  "/api/auth/userinfo": {
     parameters: {
       query?: never
       header?: never
       path?: never
       cookie?: never
     }
-    /** Get current user information */
+    /**
+     * OIDC standard UserInfo endpoint - returns only standard OIDC claims
+     *     For full user profile data, use /api/users/me instead
+     */
     get: {
       parameters: {
         query?: {
@@ -369,7 +372,33 @@ export interface paths {
           headers: {
             [name: string]: unknown
           }
-          content?: never
+          content: {
+            "text/plain": components["schemas"]["UserInfoResponse"]
+            "application/json": components["schemas"]["UserInfoResponse"]
+            "text/json": components["schemas"]["UserInfoResponse"]
+          }
+        }
+        /** @description Unauthorized */
+        401: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            "text/plain": components["schemas"]["ProblemDetails"]
+            "application/json": components["schemas"]["ProblemDetails"]
+            "text/json": components["schemas"]["ProblemDetails"]
+          }
+        }
+        /** @description Not Found */
+        404: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            "text/plain": components["schemas"]["ProblemDetails"]
+            "application/json": components["schemas"]["ProblemDetails"]
+            "text/json": components["schemas"]["ProblemDetails"]
+          }
         }
       }
     }
@@ -475,7 +504,7 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  "/api/email-verification/verify": {
+  "/api/email_verification/verify": {
     parameters: {
       query?: never
       header?: never
@@ -517,7 +546,7 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  "/api/email-verification/resend": {
+  "/api/email_verification/resend": {
     parameters: {
       query?: never
       header?: never
@@ -559,7 +588,7 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  "/api/Health/live": {
+  "/api/health/live": {
     parameters: {
       query?: never
       header?: never
@@ -600,7 +629,7 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  "/api/Health/ready": {
+  "/api/health/ready": {
     parameters: {
       query?: never
       header?: never
@@ -649,7 +678,7 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  "/api/Health/startup": {
+  "/api/health/startup": {
     parameters: {
       query?: never
       header?: never
@@ -690,7 +719,7 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  "/api/Health": {
+  "/api/health": {
     parameters: {
       query?: never
       header?: never
@@ -733,7 +762,7 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  "/api/Labs": {
+  "/api/labs": {
     parameters: {
       query?: never
       header?: never
@@ -816,7 +845,7 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  "/api/Labs/active": {
+  "/api/labs/active": {
     parameters: {
       query?: never
       header?: never
@@ -856,7 +885,7 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  "/api/Labs/{id}": {
+  "/api/labs/{id}": {
     parameters: {
       query?: never
       header?: never
@@ -996,7 +1025,7 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  "/api/Parameters": {
+  "/api/parameters": {
     parameters: {
       query?: never
       header?: never
@@ -1079,7 +1108,7 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  "/api/Parameters/active": {
+  "/api/parameters/active": {
     parameters: {
       query?: never
       header?: never
@@ -1119,7 +1148,7 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  "/api/Parameters/{id}": {
+  "/api/parameters/{id}": {
     parameters: {
       query?: never
       header?: never
@@ -1259,7 +1288,7 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  "/api/Password/change": {
+  "/api/password/change": {
     parameters: {
       query?: never
       header?: never
@@ -1301,7 +1330,7 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  "/api/Password/forgot": {
+  "/api/password/forgot": {
     parameters: {
       query?: never
       header?: never
@@ -1343,7 +1372,7 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  "/api/Password/reset": {
+  "/api/password/reset": {
     parameters: {
       query?: never
       header?: never
@@ -1385,40 +1414,7 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  "/health/email": {
-    parameters: {
-      query?: never
-      header?: never
-      path?: never
-      cookie?: never
-    }
-    get: {
-      parameters: {
-        query?: never
-        header?: never
-        path?: never
-        cookie?: never
-      }
-      requestBody?: never
-      responses: {
-        /** @description OK */
-        200: {
-          headers: {
-            [name: string]: unknown
-          }
-          content?: never
-        }
-      }
-    }
-    put?: never
-    post?: never
-    delete?: never
-    options?: never
-    head?: never
-    patch?: never
-    trace?: never
-  }
-  "/api/Samples": {
+  "/api/samples": {
     parameters: {
       query?: never
       header?: never
@@ -1501,7 +1497,7 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  "/api/Samples/by-lab/{labId}": {
+  "/api/samples/by_lab/{labId}": {
     parameters: {
       query?: never
       header?: never
@@ -1556,7 +1552,7 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  "/api/Samples/{id}": {
+  "/api/samples/{id}": {
     parameters: {
       query?: never
       header?: never
@@ -1707,7 +1703,7 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  "/api/TestResults": {
+  "/api/test_results": {
     parameters: {
       query?: never
       header?: never
@@ -1790,7 +1786,7 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  "/api/TestResults/by-sample/{sampleId}": {
+  "/api/test_results/by_sample/{sampleId}": {
     parameters: {
       query?: never
       header?: never
@@ -1834,7 +1830,7 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  "/api/TestResults/{id}": {
+  "/api/test_results/{id}": {
     parameters: {
       query?: never
       header?: never
@@ -1985,6 +1981,270 @@ export interface paths {
     patch?: never
     trace?: never
   }
+  "/api/invitations": {
+    parameters: {
+      query?: never
+      header?: never
+      path?: never
+      cookie?: never
+    }
+    /** Get pending invitations with pagination. */
+    get: {
+      parameters: {
+        query?: {
+          "page"?: number
+          "pageSize"?: number
+          "api-version"?: string
+        }
+        header?: never
+        path?: never
+        cookie?: never
+      }
+      requestBody?: never
+      responses: {
+        /** @description OK */
+        200: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            "text/plain": components["schemas"]["UserInvitationDtoPagedResult"]
+            "application/json": components["schemas"]["UserInvitationDtoPagedResult"]
+            "text/json": components["schemas"]["UserInvitationDtoPagedResult"]
+          }
+        }
+      }
+    }
+    put?: never
+    /** Create a new user invitation. */
+    post: {
+      parameters: {
+        query?: {
+          "api-version"?: string
+        }
+        header?: never
+        path?: never
+        cookie?: never
+      }
+      requestBody?: {
+        content: {
+          "application/json": components["schemas"]["CreateUserInvitationDto"]
+          "text/json": components["schemas"]["CreateUserInvitationDto"]
+          "application/*+json": components["schemas"]["CreateUserInvitationDto"]
+        }
+      }
+      responses: {
+        /** @description Created */
+        201: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            "text/plain": components["schemas"]["UserInvitationDto"]
+            "application/json": components["schemas"]["UserInvitationDto"]
+            "text/json": components["schemas"]["UserInvitationDto"]
+          }
+        }
+        /** @description Bad Request */
+        400: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            "text/plain": components["schemas"]["ProblemDetails"]
+            "application/json": components["schemas"]["ProblemDetails"]
+            "text/json": components["schemas"]["ProblemDetails"]
+          }
+        }
+        /** @description Conflict */
+        409: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            "text/plain": components["schemas"]["ProblemDetails"]
+            "application/json": components["schemas"]["ProblemDetails"]
+            "text/json": components["schemas"]["ProblemDetails"]
+          }
+        }
+      }
+    }
+    delete?: never
+    options?: never
+    head?: never
+    patch?: never
+    trace?: never
+  }
+  "/api/invitations/{token}": {
+    parameters: {
+      query?: never
+      header?: never
+      path?: never
+      cookie?: never
+    }
+    /** Get an invitation by token. */
+    get: {
+      parameters: {
+        query?: {
+          "api-version"?: string
+        }
+        header?: never
+        path: {
+          token: string
+        }
+        cookie?: never
+      }
+      requestBody?: never
+      responses: {
+        /** @description OK */
+        200: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            "text/plain": components["schemas"]["UserInvitationDto"]
+            "application/json": components["schemas"]["UserInvitationDto"]
+            "text/json": components["schemas"]["UserInvitationDto"]
+          }
+        }
+        /** @description Not Found */
+        404: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            "text/plain": components["schemas"]["ProblemDetails"]
+            "application/json": components["schemas"]["ProblemDetails"]
+            "text/json": components["schemas"]["ProblemDetails"]
+          }
+        }
+      }
+    }
+    put?: never
+    post?: never
+    delete?: never
+    options?: never
+    head?: never
+    patch?: never
+    trace?: never
+  }
+  "/api/invitations/accept": {
+    parameters: {
+      query?: never
+      header?: never
+      path?: never
+      cookie?: never
+    }
+    get?: never
+    put?: never
+    /** Accept an invitation and activate the user. */
+    post: {
+      parameters: {
+        query?: {
+          "api-version"?: string
+        }
+        header?: never
+        path?: never
+        cookie?: never
+      }
+      requestBody?: {
+        content: {
+          "application/json": components["schemas"]["AcceptInvitationDto"]
+          "text/json": components["schemas"]["AcceptInvitationDto"]
+          "application/*+json": components["schemas"]["AcceptInvitationDto"]
+        }
+      }
+      responses: {
+        /** @description OK */
+        200: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            "text/plain": components["schemas"]["UserInvitationDto"]
+            "application/json": components["schemas"]["UserInvitationDto"]
+            "text/json": components["schemas"]["UserInvitationDto"]
+          }
+        }
+        /** @description Bad Request */
+        400: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            "text/plain": components["schemas"]["ProblemDetails"]
+            "application/json": components["schemas"]["ProblemDetails"]
+            "text/json": components["schemas"]["ProblemDetails"]
+          }
+        }
+        /** @description Not Found */
+        404: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            "text/plain": components["schemas"]["ProblemDetails"]
+            "application/json": components["schemas"]["ProblemDetails"]
+            "text/json": components["schemas"]["ProblemDetails"]
+          }
+        }
+      }
+    }
+    delete?: never
+    options?: never
+    head?: never
+    patch?: never
+    trace?: never
+  }
+  "/api/invitations/{invitationId}": {
+    parameters: {
+      query?: never
+      header?: never
+      path?: never
+      cookie?: never
+    }
+    get?: never
+    put?: never
+    post?: never
+    /** Revoke a pending invitation. */
+    delete: {
+      parameters: {
+        query?: {
+          "api-version"?: string
+        }
+        header?: never
+        path: {
+          invitationId: string
+        }
+        cookie?: never
+      }
+      requestBody?: never
+      responses: {
+        /** @description No Content */
+        204: {
+          headers: {
+            [name: string]: unknown
+          }
+          content?: never
+        }
+        /** @description Not Found */
+        404: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            "text/plain": components["schemas"]["ProblemDetails"]
+            "application/json": components["schemas"]["ProblemDetails"]
+            "text/json": components["schemas"]["ProblemDetails"]
+          }
+        }
+      }
+    }
+    options?: never
+    head?: never
+    patch?: never
+    trace?: never
+  }
   "/api/users/{userId}/labs/{labId}": {
     parameters: {
       query?: never
@@ -2192,7 +2452,7 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  "/api/Users": {
+  "/api/users": {
     parameters: {
       query?: never
       header?: never
@@ -2297,7 +2557,7 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  "/api/Users/active": {
+  "/api/users/active": {
     parameters: {
       query?: never
       header?: never
@@ -2337,7 +2597,7 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  "/api/Users/by-lab/{labId}": {
+  "/api/users/by_lab/{labId}": {
     parameters: {
       query?: never
       header?: never
@@ -2392,7 +2652,63 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  "/api/Users/{id}": {
+  "/api/users/me": {
+    parameters: {
+      query?: never
+      header?: never
+      path?: never
+      cookie?: never
+    }
+    /**
+     * Get current authenticated user's profile
+     * @description This endpoint only requires authentication (not lab membership) because:
+     *     1. Users need to fetch their profile before selecting a lab
+     *     2. The profile contains the list of labs the user has access to
+     */
+    get: {
+      parameters: {
+        query?: {
+          "api-version"?: string
+        }
+        header?: never
+        path?: never
+        cookie?: never
+      }
+      requestBody?: never
+      responses: {
+        /** @description OK */
+        200: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            "text/plain": components["schemas"]["UserDto"]
+            "application/json": components["schemas"]["UserDto"]
+            "text/json": components["schemas"]["UserDto"]
+          }
+        }
+        /** @description Unauthorized */
+        401: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            "text/plain": components["schemas"]["ProblemDetails"]
+            "application/json": components["schemas"]["ProblemDetails"]
+            "text/json": components["schemas"]["ProblemDetails"]
+          }
+        }
+      }
+    }
+    put?: never
+    post?: never
+    delete?: never
+    options?: never
+    head?: never
+    patch?: never
+    trace?: never
+  }
+  "/api/users/{id}": {
     parameters: {
       query?: never
       header?: never
@@ -2543,13 +2859,14 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  "/api/Version": {
+  "/api/version": {
     parameters: {
       query?: never
       header?: never
       path?: never
       cookie?: never
     }
+    /** Gets the current API version information. */
     get: {
       parameters: {
         query?: {
@@ -2582,6 +2899,10 @@ export interface paths {
 export type webhooks = Record<string, never>
 export interface components {
   schemas: {
+    AcceptInvitationDto: {
+      token: string
+      password: string
+    }
     /** @description Request to add a user to a lab. */
     AddUserToLabRequest: {
       role?: components["schemas"]["UserRole"]
@@ -2641,7 +2962,9 @@ export interface components {
     }
     /** @description Request model for password change */
     ChangePasswordRequest: {
+      /** @description The user's current password. */
       currentPassword: string
+      /** @description The new password to set. */
       newPassword: string
     }
     /**
@@ -2701,6 +3024,12 @@ export interface components {
       /** Format: uuid */
       labId: string
     }
+    CreateUserInvitationDto: {
+      /** Format: email */
+      email: string
+      userName: string
+      labAssignments: components["schemas"]["InvitationLabAssignmentDto"][]
+    }
     /**
      * Format: int32
      * @enum {integer}
@@ -2708,9 +3037,22 @@ export interface components {
     EntityType: 1 | 2 | 3 | 4 | 5 | 6
     /** @description Request model for forgot password */
     ForgotPasswordRequest: {
-      /** Format: email */
+      /**
+       * Format: email
+       * @description The user's email address.
+       */
       email: string
     }
+    InvitationLabAssignmentDto: {
+      /** Format: uuid */
+      labId: string
+      role: components["schemas"]["UserRole"]
+    }
+    /**
+     * Format: int32
+     * @enum {integer}
+     */
+    InvitationStatus: 1 | 2 | 3 | 4
     LabDto: {
       /** Format: uuid */
       id?: string
@@ -2785,14 +3127,22 @@ export interface components {
     }
     /** @description Request model for resending verification email */
     ResendVerificationRequest: {
-      /** Format: email */
+      /**
+       * Format: email
+       * @description The email address to resend the verification code to.
+       */
       email: string
     }
     /** @description Request model for resetting password with token */
     ResetPasswordRequest: {
-      /** Format: email */
+      /**
+       * Format: email
+       * @description The user's email address.
+       */
       email: string
+      /** @description The password reset code sent to the user's email. */
       code: string
+      /** @description The new password to set. */
       newPassword: string
     }
     SampleDto: {
@@ -2975,6 +3325,43 @@ export interface components {
       readonly hasPreviousPage?: boolean
       readonly hasNextPage?: boolean
     }
+    UserInfoResponse: {
+      sub?: string | null
+      name?: string | null
+      email?: string | null
+      emailVerified?: boolean
+    }
+    UserInvitationDto: {
+      /** Format: uuid */
+      id?: string
+      /** Format: uuid */
+      userId?: string
+      email?: string | null
+      status?: components["schemas"]["InvitationStatus"]
+      /** Format: date-time */
+      expiresAt?: string
+      /** Format: uuid */
+      invitedByUserId?: string
+      invitedByUserName?: string | null
+      /** Format: date-time */
+      acceptedAt?: string | null
+      /** Format: date-time */
+      createdAt?: string
+      assignedLabs?: components["schemas"]["UserLabDto"][] | null
+    }
+    UserInvitationDtoPagedResult: {
+      items?: components["schemas"]["UserInvitationDto"][] | null
+      /** Format: int32 */
+      totalCount?: number
+      /** Format: int32 */
+      pageNumber?: number
+      /** Format: int32 */
+      pageSize?: number
+      /** Format: int32 */
+      readonly totalPages?: number
+      readonly hasPreviousPage?: boolean
+      readonly hasNextPage?: boolean
+    }
     UserLabDto: {
       /** Format: uuid */
       labId?: string
@@ -2990,7 +3377,9 @@ export interface components {
     UserRole: 1 | 2 | 3
     /** @description Request model for email verification */
     VerifyEmailRequest: {
+      /** @description The user's ID. */
       userId: string
+      /** @description The verification code sent to the user's email. */
       code: string
     }
   }
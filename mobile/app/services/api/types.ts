@@ -1,23 +1,85 @@
+import type { RetryPolicy } from "./retry"
 import type { components } from "./schema"
 
 export type ApiConfig = {
   url: string
   timeout: number
+  /** Defaults to `DEFAULT_RETRY_POLICY`. */
+  retry?: RetryPolicy
+  /** Sends no session headers, e.g. to probe a server before switching to it. */
+  anonymous?: boolean
 }
 
+export type SampleType = components["schemas"]["SampleType"]
+export type SampleStatus = components["schemas"]["SampleStatus"]
+
 export type SampleDto = components["schemas"]["SampleDto"]
 export type CreateSampleDto = components["schemas"]["CreateSampleDto"]
 export type UpdateSampleDto = components["schemas"]["UpdateSampleDto"]
 export type SampleDtoPagedResult = components["schemas"]["SampleDtoPagedResult"]
 
 export type ParameterDto = components["schemas"]["ParameterDto"]
+export type CreateParameterDto = components["schemas"]["CreateParameterDto"]
+export type UpdateParameterDto = components["schemas"]["UpdateParameterDto"]
 export type ParameterDtoPagedResult = components["schemas"]["ParameterDtoPagedResult"]
 
+export type LabDto = components["schemas"]["LabDto"]
+export type CreateLabDto = components["schemas"]["CreateLabDto"]
+export type UpdateLabDto = components["schemas"]["UpdateLabDto"]
+export type LabDtoPagedResult = components["schemas"]["LabDtoPagedResult"]
+
+export type TestMethod = components["schemas"]["TestMethod"]
+export type ComplianceStatus = components["schemas"]["ComplianceStatus"]
+export type UserRole = components["schemas"]["UserRole"]
+
+export type UserDto = components["schemas"]["UserDto"]
+export type CreateUserDto = components["schemas"]["CreateUserDto"]
+/**
+ * Sending `labId` or `role` here replaces the user's first membership; change memberships
+ * through the `/api/users/{userId}/labs` routes instead.
+ */
+export type UpdateUserDto = components["schemas"]["UpdateUserDto"]
+export type UserDtoPagedResult = components["schemas"]["UserDtoPagedResult"]
+/** A lab the user is a member of, with their role there. */
+export type UserLabDto = components["schemas"]["UserLabDto"]
+
+export type ChangePasswordRequest = components["schemas"]["ChangePasswordRequest"]
+export type ForgotPasswordRequest = components["schemas"]["ForgotPasswordRequest"]
+/** `code` is the reset token from the emailed link, not a short one-time code. */
+export type ResetPasswordRequest = components["schemas"]["ResetPasswordRequest"]
+
+export type VerifyEmailRequest = components["schemas"]["VerifyEmailRequest"]
+export type ResendVerificationRequest = components["schemas"]["ResendVerificationRequest"]
+/**
+ * The backend also emits `ConflictResolution` (5), which the generated schema predates.
+ * Drop the `| 5` once `schema.ts` is regenerated.
+ */
+export type AuditAction = components["schemas"]["AuditAction"] | 5
+export type EntityType = components["schemas"]["EntityType"]
+
+/** `oldValue` and `newValue` hold the changed properties as JSON, keyed by C# property name. */
+export type AuditLogDto = Omit<components["schemas"]["AuditLogDto"], "action"> & {
+  action?: AuditAction
+}
+export type AuditLogDtoPagedResult = Omit<
+  components["schemas"]["AuditLogDtoPagedResult"],
+  "items"
+> & {
+  items?: AuditLogDto[] | null
+}
+export type AuditLogFilterDto = components["schemas"]["AuditLogFilterDto"]
+
 export type TestResultDto = components["schemas"]["TestResultDto"]
 export type CreateTestResultDto = components["schemas"]["CreateTestResultDto"]
 export type UpdateTestResultDto = components["schemas"]["UpdateTestResultDto"]
 export type TestResultDtoPagedResult = components["schemas"]["TestResultDtoPagedResult"]
 
+/**
+ * Returned by update calls when the submitted `version` no longer matches the server.
+ * `server` is the record as it currently exists, so the caller can show what changed.
+ */
+export type VersionConflict<T> = { kind: "conflict"; server: T }
+
 export type AuthTokenResponse = {
   access_token: string
   token_type: string
@@ -36,3 +98,28 @@ export type UserInfoResponse = {
   isActive: boolean
   lastLogin?: string | null
 }
+
+/** The verify route's undocumented 200 body. */
+export type VerifyEmailResponse = {
+  message: string
+  /** Set when the address was confirmed earlier, e.g. by opening the same link twice. */
+  alreadyVerified?: boolean
+}
+
+/** `/api/version`'s undocumented body. */
+export type VersionResponse = {
+  version: string
+  apiVersion: string
+  buildDate: string
+  environment: string
+}
+
+/**
+ * The undocumented body of the `/api/health/*` probes. A failing readiness probe answers
+ * 503, which surfaces as a `server` problem rather than this body.
+ */
+export type HealthResponse = {
+  status: string
+  timestamp?: string
+  checks?: Record<string, unknown>
+}
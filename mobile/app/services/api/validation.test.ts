@@ -0,0 +1,80 @@
+import { validate, v } from "./validation"
+import { sampleDto, sampleDtoPagedResult } from "./validators"
+
+import { Api } from "./index"
+
+const sample = {
+  id: "s-1",
+  type: 0,
+  locationLatitude: -1.28,
+  locationLongitude: 36.82,
+  collectionDate: "2026-01-01T00:00:00Z",
+  status: 0,
+  version: 1,
+  labId: "lab-1",
+}
+
+const page = {
+  items: [sample],
+  totalCount: 1,
+  pageNumber: 1,
+  pageSize: 50,
+  hasNextPage: false,
+}
+
+describe("validate", () => {
+  it("accepts a valid payload with nulls and extra fields", () => {
+    expect(
+      validate(sampleDtoPagedResult, {
+        ...page,
+        items: [{ ...sample, notes: null, addedLater: true }],
+      }),
+    ).toBeUndefined()
+  })
+
+  it("reports the path of the first mismatch", () => {
+    const { locationLatitude, ...renamed } = sample
+    expect(
+      validate(sampleDtoPagedResult, {
+        ...page,
+        items: [{ ...renamed, latitude: locationLatitude }],
+      }),
+    ).toEqual({ path: "$.items[0].locationLatitude", expected: "number", received: "undefined" })
+  })
+
+  it("rejects values outside an enum", () => {
+    expect(validate(sampleDto, { ...sample, status: 9 })).toEqual({
+      path: "$.status",
+      expected: "one of 0, 1, 2",
+      received: "number",
+    })
+  })
+
+  it("checks array items", () => {
+    expect(validate(v.array(v.string()), ["a", 1])).toEqual({
+      path: "$[1]",
+      expected: "string",
+      received: "number",
+    })
+  })
+})
+
+describe("Api.request with validate", () => {
+  function stubApi(data: unknown) {
+    const api = new Api({ url: "https://example.test", timeout: 1000 })
+    api.apisauce.get = jest.fn().mockResolvedValue({ ok: true, status: 200, data })
+    return api
+  }
+
+  it("returns bad-data with the failing path", async () => {
+    const api = stubApi({ ...sample, labId: 42 })
+
+    expect(await api.getSampleById("s-1")).toEqual({ kind: "bad-data", path: "$.labId" })
+  })
+
+  it("passes valid responses through", async () => {
+    const api = stubApi(sample)
+
+    expect(await api.getSampleById("s-1")).toEqual({ kind: "ok", data: sample })
+  })
+})
@@ -0,0 +1,121 @@
+/**
+ * A deliberately small runtime validator for API responses.
+ *
+ * Validators are typed against `components["schemas"]` (see `validators.ts`): `v.object<Dto>()`
+ * needs a validator for every property of the DTO, so regenerating `schema.ts` after a
+ * backend rename breaks compilation. A validator may be stricter than the schema, e.g.
+ * requiring a field the generator marks optional, which is how a rename that slipped past
+ * regeneration gets caught at runtime.
+ */
+
+export type ValidationIssue = {
+  /** Where the first mismatch was found, e.g. `$.items[3].locationLatitude`. */
+  path: string
+  expected: string
+  received: string
+}
+
+export type Validator<T> = {
+  readonly expected: string
+  readonly check: (value: unknown, path: string) => ValidationIssue | undefined
+  /** Type-only marker; never set at runtime. */
+  readonly __type?: T
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  return typeof value
+}
+
+function primitive<T>(expected: string, test: (value: unknown) => boolean): Validator<T> {
+  return {
+    expected,
+    check: (value, path) =>
+      test(value) ? undefined : { path, expected, received: describe(value) },
+  }
+}
+
+export const v = {
+  string: () => primitive<string>("string", (value) => typeof value === "string"),
+
+  number: () =>
+    primitive<number>("number", (value) => typeof value === "number" && isFinite(value)),
+
+  boolean: () => primitive<boolean>("boolean", (value) => typeof value === "boolean"),
+
+  /** A numeric API enum, e.g. `v.oneOf(SampleTypes.values)`. */
+  oneOf: <V extends number>(values: readonly V[]): Validator<V> =>
+    primitive<V>(`one of ${values.join(", ")}`, (value) => values.includes(value as V)),
+
+  optional: <T>(inner: Validator<T>): Validator<T | undefined> => ({
+    expected: `${inner.expected} or undefined`,
+    check: (value, path) => (value === undefined ? undefined : inner.check(value, path)),
+  }),
+
+  nullable: <T>(inner: Validator<T>): Validator<T | null | undefined> => ({
+    expected: `${inner.expected} or null`,
+    check: (value, path) =>
+      value === null || value === undefined ? undefined : inner.check(value, path),
+  }),
+
+  array: <T>(item: Validator<T>): Validator<T[]> => ({
+    expected: `${item.expected}[]`,
+    check: (value, path) => {
+      if (!Array.isArray(value)) return { path, expected: "array", received: describe(value) }
+      for (let i = 0; i < value.length; i++) {
+        const issue = item.check(value[i], `${path}[${i}]`)
+        if (issue) return issue
+      }
+      return undefined
+    },
+  }),
+
+  /**
+   * Validates an object against a validator per property. Pass the DTO type explicitly so
+   * every property has to be accounted for. Unknown extra properties are allowed, so a
+   * newer server can add fields without breaking older apps.
+   */
+  object:
+    <T extends object>() =>
+    (shape: { [K in keyof T]-?: Validator<T[K]> }): Validator<T> => ({
+      expected: "object",
+      check: (value, path) => {
+        if (typeof value !== "object" || value === null || Array.isArray(value)) {
+          return { path, expected: "object", received: describe(value) }
+        }
+        for (const key of Object.keys(shape) as (keyof T & string)[]) {
+          const issue = shape[key].check((value as Record<string, unknown>)[key], `${path}.${key}`)
+          if (issue) return issue
+        }
+        return undefined
+      },
+    }),
+}
+
+/**
+ * Checks a value, returning the first mismatch or `undefined` when it is valid.
+ *
+ * @param validator The validator for the expected type.
+ * @param value The value to check, typically a parsed response body.
+ */
+export function validate<T>(validator: Validator<T>, value: unknown): ValidationIssue | undefined {
+  return validator.check(value, "$")
+}
+
+/**
+ * Surfaces an invalid response in Reactotron during development, since the screen that
+ * made the request will usually just show a generic error.
+ */
+export function reportInvalidResponse(route: string, issue: ValidationIssue, body: unknown) {
+  // `console.tron` is only attached once Reactotron is configured, which tests skip.
+  if (!console.tron) return
+  if (__DEV__) {
+    console.tron.display({
+      name: "API BAD DATA",
+      preview: `${route} ${issue.path}`,
+      value: { route, ...issue, body },
+      important: true,
+    })
+  }
+}
@@ -0,0 +1,158 @@
+import {
+  AuditActions,
+  ComplianceStatuses,
+  EntityTypes,
+  SampleStatuses,
+  SampleTypes,
+  TestMethods,
+  UserRoles,
+} from "./enums"
+import type { components } from "./schema"
+import type {
+  LabDto,
+  LabDtoPagedResult,
+  ParameterDto,
+  ParameterDtoPagedResult,
+  SampleDto,
+  SampleDtoPagedResult,
+  TestResultDto,
+  TestResultDtoPagedResult,
+  UserDto,
+  UserDtoPagedResult,
+  UserLabDto,
+} from "./types"
+import { v, type Validator } from "./validation"
+
+/**
+ * Runtime validators for the responses the app renders. Fields the screens depend on are
+ * required even where the generated schema marks everything optional.
+ */
+
+export const sampleDto = v.object<SampleDto>()({
+  id: v.string(),
+  type: v.oneOf(SampleTypes.values),
+  locationLatitude: v.number(),
+  locationLongitude: v.number(),
+  locationDescription: v.nullable(v.string()),
+  locationHierarchy: v.nullable(v.string()),
+  collectionDate: v.string(),
+  collectorName: v.nullable(v.string()),
+  notes: v.nullable(v.string()),
+  status: v.oneOf(SampleStatuses.values),
+  version: v.number(),
+  lastModified: v.optional(v.string()),
+  lastModifiedBy: v.optional(v.string()),
+  isDeleted: v.optional(v.boolean()),
+  isSynced: v.optional(v.boolean()),
+  labId: v.string(),
+  createdBy: v.optional(v.string()),
+  createdDate: v.optional(v.string()),
+})
+
+export const testResultDto = v.object<TestResultDto>()({
+  id: v.string(),
+  sampleId: v.string(),
+  parameterName: v.string(),
+  value: v.number(),
+  unit: v.nullable(v.string()),
+  testDate: v.string(),
+  technicianName: v.nullable(v.string()),
+  testMethod: v.oneOf(TestMethods.values),
+  complianceStatus: v.oneOf(ComplianceStatuses.values),
+  version: v.number(),
+  lastModified: v.optional(v.string()),
+  lastModifiedBy: v.optional(v.string()),
+  isDeleted: v.optional(v.boolean()),
+  isSynced: v.optional(v.boolean()),
+  createdBy: v.optional(v.string()),
+  createdDate: v.optional(v.string()),
+})
+
+export const parameterDto = v.object<ParameterDto>()({
+  id: v.string(),
+  name: v.string(),
+  unit: v.nullable(v.string()),
+  whoThreshold: v.nullable(v.number()),
+  minValue: v.nullable(v.number()),
+  maxValue: v.nullable(v.number()),
+  description: v.nullable(v.string()),
+  isActive: v.optional(v.boolean()),
+  createdDate: v.optional(v.string()),
+  lastModified: v.optional(v.string()),
+})
+
+export const labDto = v.object<LabDto>()({
+  id: v.string(),
+  name: v.string(),
+  location: v.nullable(v.string()),
+  contactInfo: v.nullable(v.string()),
+  createdDate: v.optional(v.string()),
+  isActive: v.optional(v.boolean()),
+  createdAt: v.optional(v.string()),
+  createdBy: v.optional(v.string()),
+  updatedAt: v.nullable(v.string()),
+  updatedBy: v.nullable(v.string()),
+})
+
+export const userLabDto = v.object<UserLabDto>()({
+  labId: v.string(),
+  labName: v.string(),
+  role: v.oneOf(UserRoles.values),
+  assignedAt: v.optional(v.string()),
+})
+
+export const userDto = v.object<UserDto>()({
+  id: v.string(),
+  userName: v.nullable(v.string()),
+  email: v.nullable(v.string()),
+  labs: v.nullable(v.array(userLabDto)),
+  lastLogin: v.nullable(v.string()),
+  isActive: v.optional(v.boolean()),
+})
+
+export const auditLogDto = v.object<components["schemas"]["AuditLogDto"]>()({
+  id: v.string(),
+  userId: v.string(),
+  userEmail: v.nullable(v.string()),
+  entityType: v.oneOf(EntityTypes.values),
+  entityId: v.string(),
+  // Also accepts `ConflictResolution` (5), which the generated schema predates; the API
+  // methods hand out `AuditLogDto` from `types.ts`, whose `action` includes it.
+  action: v.oneOf(AuditActions.values) as Validator<components["schemas"]["AuditAction"]>,
+  oldValue: v.nullable(v.string()),
+  newValue: v.nullable(v.string()),
+  isTruncated: v.boolean(),
+  timestamp: v.string(),
+  ipAddress: v.nullable(v.string()),
+  isArchived: v.boolean(),
+})
+
+function pagedResult<T>(item: Validator<T>) {
+  return {
+    items: v.array(item),
+    totalCount: v.number(),
+    pageNumber: v.number(),
+    pageSize: v.number(),
+    totalPages: v.optional(v.number()),
+    hasPreviousPage: v.optional(v.boolean()),
+    hasNextPage: v.boolean(),
+  }
+}
+
+export const sampleDtoPagedResult = v.object<SampleDtoPagedResult>()(pagedResult(sampleDto))
+
+export const labDtoPagedResult = v.object<LabDtoPagedResult>()(pagedResult(labDto))
+
+export const userDtoPagedResult = v.object<UserDtoPagedResult>()(pagedResult(userDto))
+
+export const auditLogDtoPagedResult = v.object<components["schemas"]["AuditLogDtoPagedResult"]>()(
+  pagedResult(auditLogDto),
+)
+
+export const parameterDtoPagedResult = v.object<ParameterDtoPagedResult>()(
+  pagedResult(parameterDto),
+)
+
+export const testResultDtoPagedResult = v.object<TestResultDtoPagedResult>()(
+  pagedResult(testResultDto),
+)
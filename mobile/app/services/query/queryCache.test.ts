@@ -0,0 +1,151 @@
+import { storage } from "@/utils/storage"
+
+import { QueryCache, type QueryFetcher } from "./queryCache"
+
+/** A fetcher whose responses the test hands out one at a time. */
+function deferredFetcher<T>() {
+  const pending: ((value: T) => void)[] = []
+  const fetcher = jest.fn<ReturnType<QueryFetcher<T>>, Parameters<QueryFetcher<T>>>(
+    () =>
+      new Promise((resolve) => {
+        pending.push((data) => resolve({ kind: "ok", data }))
+      }),
+  )
+  const respond = (data: T) => pending.shift()?.(data)
+  return { fetcher, respond }
+}
+
+const KEY = ["getTestResultsBySample", "sample-1", 1, 50] as const
+
+describe("QueryCache", () => {
+  beforeEach(() => {
+    storage.clearAll()
+  })
+
+  it("shares one request between concurrent fetches of a key", async () => {
+    const cache = new QueryCache()
+    const { fetcher, respond } = deferredFetcher<string>()
+
+    const first = cache.fetch(KEY, fetcher)
+    const second = cache.fetch(KEY, fetcher)
+    expect(cache.getState(KEY).isFetching).toBe(true)
+    respond("results")
+
+    expect((await first).data).toBe("results")
+    expect((await second).data).toBe("results")
+    expect(fetcher).toHaveBeenCalledTimes(1)
+  })
+
+  it("serves fresh data from the cache and revalidates stale data", async () => {
+    const cache = new QueryCache()
+    const fetcher = jest.fn<ReturnType<QueryFetcher<number>>, []>()
+    fetcher.mockResolvedValueOnce({ kind: "ok", data: 1 })
+    fetcher.mockResolvedValueOnce({ kind: "ok", data: 2 })
+
+    await cache.fetch(KEY, fetcher, { staleTime: 60_000 })
+    await cache.fetch(KEY, fetcher, { staleTime: 60_000 })
+    expect(fetcher).toHaveBeenCalledTimes(1)
+
+    const revalidating = cache.fetch(KEY, fetcher, { staleTime: 0 })
+    expect(cache.getState(KEY)).toMatchObject({ data: 1, isFetching: true })
+    expect((await revalidating).data).toBe(2)
+  })
+
+  it("keeps the last data next to a failure", async () => {
+    const cache = new QueryCache()
+    const fetcher = jest.fn<ReturnType<QueryFetcher<number>>, []>()
+    fetcher.mockResolvedValueOnce({ kind: "ok", data: 1 })
+    fetcher.mockResolvedValueOnce({ kind: "cannot-connect", temporary: true })
+
+    await cache.fetch(KEY, fetcher)
+    await cache.fetch(KEY, fetcher)
+
+    expect(cache.getState(KEY)).toMatchObject({
+      data: 1,
+      problem: { kind: "cannot-connect" },
+      isFetching: false,
+    })
+  })
+
+  it("refetches shown entries under an invalidated prefix", async () => {
+    const cache = new QueryCache()
+    const fetcher = jest.fn<ReturnType<QueryFetcher<number>>, []>()
+    fetcher.mockResolvedValue({ kind: "ok", data: 1 })
+    const otherKey = ["getTestResultsBySample", "sample-2", 1, 50] as const
+    await cache.fetch(KEY, fetcher, { staleTime: 60_000 })
+    await cache.fetch(otherKey, fetcher, { staleTime: 60_000 })
+    const unsubscribe = cache.subscribe(KEY, () => {})
+    fetcher.mockClear()
+
+    await cache.invalidate(["getTestResultsBySample", "sample-1"])
+
+    expect(fetcher).toHaveBeenCalledTimes(1)
+    expect(cache.getState(otherKey).updatedAt).toBeGreaterThan(0)
+    unsubscribe()
+  })
+
+  it("refetches once more when invalidated while a fetch is out", async () => {
+    const cache = new QueryCache()
+    const { fetcher, respond } = deferredFetcher<string>()
+    const unsubscribe = cache.subscribe(KEY, () => {})
+
+    const fetching = cache.fetch(KEY, fetcher)
+    const invalidated = cache.invalidate(["getTestResultsBySample"])
+    respond("before the change")
+    await Promise.resolve()
+    respond("after the change")
+
+    await Promise.all([fetching, invalidated])
+    expect(fetcher).toHaveBeenCalledTimes(2)
+    expect(cache.getState(KEY).data).toBe("after the change")
+    unsubscribe()
+  })
+
+  it("cancels the request once nobody is subscribed", async () => {
+    const cache = new QueryCache()
+    let signal: AbortSignal | undefined
+    const fetcher: QueryFetcher<number> = (options) => {
+      signal = options.signal
+      return Promise.resolve({ kind: "cancelled" })
+    }
+    const unsubscribe = cache.subscribe(KEY, () => {})
+
+    const fetching = cache.fetch(KEY, fetcher)
+    unsubscribe()
+
+    expect(signal?.aborted).toBe(true)
+    expect((await fetching).problem).toBeUndefined()
+  })
+
+  it("starts a new request for a subscriber arriving after the last one left", async () => {
+    const cache = new QueryCache()
+    const { fetcher, respond } = deferredFetcher<string>()
+    const unsubscribe = cache.subscribe(KEY, () => {})
+    void cache.fetch(KEY, fetcher)
+    unsubscribe()
+
+    expect(cache.getState(KEY).isFetching).toBe(false)
+    const resubscribe = cache.subscribe(KEY, () => {})
+    const fetching = cache.fetch(KEY, fetcher)
+    respond("cancelled before it arrived")
+    respond("results")
+
+    expect(fetcher).toHaveBeenCalledTimes(2)
+    expect(await fetching).toMatchObject({ data: "results", isFetching: false })
+    resubscribe()
+  })
+
+  it("restores persisted queries on a cold start and forgets them on clear", async () => {
+    const fetcher: QueryFetcher<string[]> = () =>
+      Promise.resolve({ kind: "ok", data: ["pH", "Turbidity"] })
+    await new QueryCache(storage).fetch(["getActiveParameters"], fetcher, { persist: true })
+    await new QueryCache(storage).fetch(["getLabs"], fetcher)
+
+    const coldStart = new QueryCache(storage)
+    expect(coldStart.getState(["getActiveParameters"]).data).toEqual(["pH", "Turbidity"])
+    expect(coldStart.getState(["getLabs"]).data).toBeUndefined()
+
+    coldStart.clear()
+    expect(new QueryCache(storage).getState(["getActiveParameters"]).data).toBeUndefined()
+  })
+})
@@ -0,0 +1,237 @@
+import type { MMKV } from "react-native-mmkv"
+
+import type { GeneralApiProblem } from "@/services/api/apiProblem"
+import type { CallOptions } from "@/services/api/request"
+import { load, remove, save, storage } from "@/utils/storage"
+
+/**
+ * Identifies a cached response: the `Api` method, then the arguments it was called with,
+ * e.g. `["getTestResultsBySample", sampleId, 1, 50]`. Must survive `JSON.stringify`.
+ */
+export type QueryKey = readonly [endpoint: string, ...params: unknown[]]
+
+/** What every `Api` read method resolves to. */
+export type QueryResult<T> = { kind: "ok"; data: T } | GeneralApiProblem
+
+/** Calls the API for a query; pass `options` on so the cache can cancel the request. */
+export type QueryFetcher<T> = (options: CallOptions) => Promise<QueryResult<T>>
+
+export type QueryState<T> = {
+  data?: T
+  /** Why the last fetch failed, until one succeeds. Earlier `data` is kept alongside. */
+  problem?: GeneralApiProblem
+  /** When `data` was fetched, in ms since the epoch; 0 if never, or once invalidated. */
+  updatedAt: number
+  isFetching: boolean
+}
+
+export type FetchOptions = {
+  /** How long, in ms, fetched data is served without asking the server again. */
+  staleTime?: number
+  /** Fetches even if the data is fresh. */
+  force?: boolean
+  /** Keeps the data in MMKV so it is there on the next cold start. */
+  persist?: boolean
+}
+
+type Entry = {
+  key: QueryKey
+  state: QueryState<unknown>
+  listeners: Set<() => void>
+  /** The last fetcher used, so invalidation can refetch without a caller. */
+  fetcher?: QueryFetcher<unknown>
+  persist: boolean
+  inFlight?: Promise<void>
+  controller?: AbortController
+  /** Invalidated while a fetch was out, so its response may predate the change. */
+  refetchAfter?: boolean
+}
+
+type Persisted = { data: unknown; updatedAt: number }
+
+const PERSIST_PREFIX = "query."
+const EMPTY_STATE: QueryState<never> = { updatedAt: 0, isFetching: false }
+
+export function hashQueryKey(key: QueryKey): string {
+  return JSON.stringify(key)
+}
+
+/** Whether `key` starts with every part of `prefix`. */
+function matchesPrefix(key: QueryKey, prefix: QueryKey): boolean {
+  return (
+    prefix.length <= key.length &&
+    prefix.every((part, index) => JSON.stringify([part]) === JSON.stringify([key[index]]))
+  )
+}
+
+/**
+ * Responses of `Api` read methods, shared by every screen showing them. Concurrent
+ * fetches of one key share a request, stale data is served while it is refetched, and
+ * mutations invalidate what they changed. Screens use it through `useApiQuery`.
+ */
+export class QueryCache {
+  private entries = new Map<string, Entry>()
+
+  /** @param persistTo Where `persist` queries are kept; omit to keep everything in memory. */
+  constructor(private persistTo?: MMKV) {}
+
+  private entry(key: QueryKey): Entry {
+    const hash = hashQueryKey(key)
+    let entry = this.entries.get(hash)
+    if (!entry) {
+      const persisted = this.persistTo && load<Persisted>(PERSIST_PREFIX + hash, this.persistTo)
+      entry = {
+        key,
+        state: persisted ? { ...EMPTY_STATE, ...persisted } : EMPTY_STATE,
+        listeners: new Set(),
+        persist: false,
+      }
+      this.entries.set(hash, entry)
+    }
+    return entry
+  }
+
+  private update(entry: Entry, patch: Partial<QueryState<unknown>>): void {
+    // A new object each time, so `useSyncExternalStore` sees the change.
+    entry.state = { ...entry.state, ...patch }
+    entry.listeners.forEach((listener) => listener())
+  }
+
+  /** The same object until the entry changes. */
+  getState<T>(key: QueryKey): QueryState<T> {
+    return this.entry(key).state as QueryState<T>
+  }
+
+  /**
+   * Calls `listener` whenever the entry changes. A fetch still out when the last
+   * listener leaves is cancelled, since nobody is waiting for it any more.
+   */
+  subscribe(key: QueryKey, listener: () => void): () => void {
+    const entry = this.entry(key)
+    entry.listeners.add(listener)
+    return () => {
+      entry.listeners.delete(listener)
+      if (entry.listeners.size > 0 || !entry.controller) return
+      entry.controller.abort()
+      // Whoever subscribes next starts a request of their own instead of sharing this one.
+      entry.controller = undefined
+      entry.inFlight = undefined
+      entry.refetchAfter = false
+      this.update(entry, { isFetching: false })
+    }
+  }
+
+  /**
+   * Fetches `key` unless its data is younger than `staleTime` or a fetch of it is already
+   * out, in which case that one is shared.
+   *
+   * @returns The entry's state once the data is there.
+   */
+  fetch<T>(
+    key: QueryKey,
+    fetcher: QueryFetcher<T>,
+    { staleTime = 0, force = false, persist = false }: FetchOptions = {},
+  ): Promise<QueryState<T>> {
+    const entry = this.entry(key)
+    entry.fetcher = fetcher as QueryFetcher<unknown>
+    entry.persist ||= persist
+    const settled = () => entry.state as QueryState<T>
+
+    if (entry.inFlight) {
+      if (force) entry.refetchAfter = true
+      return entry.inFlight.then(settled)
+    }
+    const { data, updatedAt } = entry.state
+    if (!force && data !== undefined && Date.now() - updatedAt < staleTime) {
+      return Promise.resolve(settled())
+    }
+
+    const controller = new AbortController()
+    entry.controller = controller
+    this.update(entry, { isFetching: true })
+
+    entry.inFlight = fetcher({ signal: controller.signal }).then((result) => {
+      // Abandoned when the last subscriber left; a newer fetch may be out by now.
+      if (entry.controller !== controller) return
+      entry.inFlight = undefined
+      entry.controller = undefined
+      // Cleared while the request was out; the response belongs to the previous session.
+      if (this.entries.get(hashQueryKey(key)) !== entry) return
+
+      if (entry.refetchAfter && result.kind !== "cancelled") {
+        entry.refetchAfter = false
+        return this.fetch(key, fetcher, { force: true }).then(() => undefined)
+      }
+      if (result.kind === "ok") {
+        this.update(entry, {
+          data: result.data,
+          problem: undefined,
+          updatedAt: Date.now(),
+          isFetching: false,
+        })
+        this.save(entry)
+      } else {
+        this.update(entry, {
+          isFetching: false,
+          ...(result.kind !== "cancelled" && { problem: result }),
+        })
+      }
+      return undefined
+    })
+    return entry.inFlight.then(settled)
+  }
+
+  /** Replaces the cached data, e.g. with the record an update returned. */
+  setData<T>(key: QueryKey, data: T): void {
+    const entry = this.entry(key)
+    this.update(entry, { data, problem: undefined, updatedAt: Date.now() })
+    this.save(entry)
+  }
+
+  /**
+   * Marks every entry whose key starts with `prefix` as stale, and refetches those a
+   * screen is showing. `["getTestResultsBySample", sampleId]` covers every page.
+   */
+  invalidate(prefix: QueryKey): Promise<void> {
+    const refetches: Promise<unknown>[] = []
+    for (const entry of this.entries.values()) {
+      if (!matchesPrefix(entry.key, prefix)) continue
+      this.update(entry, { updatedAt: 0 })
+      if (entry.listeners.size > 0 && entry.fetcher) {
+        refetches.push(this.fetch(entry.key, entry.fetcher, { force: true }))
+      }
+    }
+    return Promise.all(refetches).then(() => undefined)
+  }
+
+  /**
+   * Forgets everything, persisted data included, e.g. on logout or when switching labs.
+   * Screens still subscribed start over from an empty entry.
+   */
+  clear(): void {
+    const shown = [...this.entries.values()].filter((entry) => entry.listeners.size > 0)
+    this.entries.forEach((entry) => entry.controller?.abort())
+    this.entries.clear()
+    if (this.persistTo) {
+      for (const key of this.persistTo.getAllKeys()) {
+        if (key.startsWith(PERSIST_PREFIX)) remove(key, this.persistTo)
+      }
+    }
+
+    for (const old of shown) {
+      const entry = this.entry(old.key)
+      entry.listeners = old.listeners
+      entry.persist = old.persist
+      this.update(entry, {})
+      if (old.fetcher) void this.fetch(old.key, old.fetcher)
+    }
+  }
+
+  private save(entry: Entry): void {
+    if (!entry.persist || !this.persistTo) return
+    const persisted: Persisted = { data: entry.state.data, updatedAt: entry.state.updatedAt }
+    save(PERSIST_PREFIX + hashQueryKey(entry.key), persisted, this.persistTo)
+  }
+}
+
+export const queryCache = new QueryCache(storage)
@@ -0,0 +1,49 @@
+import type { SampleDto, UpdateSampleDto } from "@/services/api/types"
+
+import { diffFields, mergeFields, SAMPLE_CONFLICT_FIELDS } from "./conflicts"
+
+const LOCAL: UpdateSampleDto = {
+  type: 0,
+  status: 0,
+  collectionDate: "2026-01-01T08:00:00Z",
+  collectorName: "Field Collector",
+  locationLatitude: 34.02,
+  locationLongitude: -6.83,
+  locationDescription: "Well 4",
+  notes: "",
+  version: 3,
+}
+
+const SERVER: SampleDto = {
+  ...LOCAL,
+  id: "sample-1",
+  status: 1,
+  locationDescription: "Well 4 (north)",
+  notes: null,
+  version: 4,
+}
+
+describe("diffFields", () => {
+  it("lists only the fields that differ", () => {
+    expect(diffFields(LOCAL, SERVER, SAMPLE_CONFLICT_FIELDS)).toEqual([
+      { field: "status", local: 0, server: 1 },
+      { field: "locationDescription", local: "Well 4", server: "Well 4 (north)" },
+    ])
+  })
+
+  it("treats missing, null and empty values as equal", () => {
+    expect(diffFields({ ...LOCAL, locationHierarchy: "" }, SERVER, ["locationHierarchy"])).toEqual(
+      [],
+    )
+  })
+})
+
+describe("mergeFields", () => {
+  it("keeps the picked side per field and adopts the server version", () => {
+    expect(mergeFields(LOCAL, SERVER, { status: "server", locationDescription: "local" })).toEqual({
+      ...LOCAL,
+      status: 1,
+      version: 4,
+    })
+  })
+})
@@ -0,0 +1,75 @@
+import type { UpdateSampleDto, UpdateTestResultDto } from "@/services/api/types"
+
+/** Fields a technician can edit on a sample, i.e. everything in `UpdateSampleDto` but `version`. */
+export const SAMPLE_CONFLICT_FIELDS = [
+  "type",
+  "status",
+  "collectionDate",
+  "collectorName",
+  "locationLatitude",
+  "locationLongitude",
+  "locationDescription",
+  "locationHierarchy",
+  "notes",
+] as const satisfies readonly (keyof UpdateSampleDto)[]
+
+/** Fields a technician can edit on a test result, i.e. `UpdateTestResultDto` minus `version`. */
+export const TEST_RESULT_CONFLICT_FIELDS = [
+  "parameterName",
+  "value",
+  "unit",
+  "testDate",
+  "technicianName",
+  "testMethod",
+] as const satisfies readonly (keyof UpdateTestResultDto)[]
+
+export type ConflictChoice = "local" | "server"
+
+export type FieldDiff = {
+  field: string
+  local: unknown
+  server: unknown
+}
+
+function normalize(value: unknown): unknown {
+  // The API omits empty optional fields, while forms send null or "".
+  return value === undefined || value === "" ? null : value
+}
+
+/**
+ * Lists the fields whose local value differs from the server copy.
+ *
+ * @param local The version the technician tried to save.
+ * @param server The record as it currently exists on the server.
+ * @param fields The fields to compare.
+ */
+export function diffFields<T extends object>(
+  local: T,
+  server: Partial<Record<keyof T, unknown>>,
+  fields: readonly (keyof T & string)[],
+): FieldDiff[] {
+  return fields
+    .filter((field) => normalize(local[field]) !== normalize(server[field]))
+    .map((field) => ({ field, local: local[field], server: server[field] }))
+}
+
+/**
+ * Builds the payload to resubmit after a conflict. Each differing field takes the
+ * side the technician picked (local by default), and `version` is bumped to the
+ * server's so the next write passes the concurrency check.
+ *
+ * @param local The version the technician tried to save.
+ * @param server The record as it currently exists on the server.
+ * @param choices Which side to keep for each differing field.
+ */
+export function mergeFields<T extends { version: number }>(
+  local: T,
+  server: Partial<Record<keyof T, unknown>> & { version?: number },
+  choices: Partial<Record<keyof T, ConflictChoice>>,
+): T {
+  const merged = { ...local }
+  for (const field of Object.keys(choices) as (keyof T)[]) {
+    if (choices[field] === "server") merged[field] = server[field] as T[keyof T]
+  }
+  return { ...merged, version: server.version ?? local.version }
+}
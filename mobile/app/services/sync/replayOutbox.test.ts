@@ -0,0 +1,122 @@
+import type { CreateSampleDto, CreateTestResultDto, UpdateSampleDto } from "@/services/api/types"
+import { authStore } from "@/stores/authStore"
+import { outboxStore } from "@/stores/outboxStore"
+import { storage } from "@/utils/storage"
+import { secureStorage } from "@/utils/storage/secureStorage"
+
+import { type OutboxClient, replayOutbox } from "./replayOutbox"
+
+const SAMPLE: CreateSampleDto = {
+  type: 0,
+  locationLatitude: 34.02,
+  locationLongitude: -6.83,
+  collectionDate: "2026-01-01T08:00:00Z",
+  collectorName: "Field Collector",
+  labId: "lab-1",
+}
+
+const UPDATE: UpdateSampleDto = { ...SAMPLE, status: 0, version: 1 }
+
+const RESULT: CreateTestResultDto = {
+  sampleId: "",
+  parameterName: "pH",
+  value: 7.2,
+  unit: "pH",
+  testDate: "2026-01-01T09:00:00Z",
+  technicianName: "Technician",
+  testMethod: 4,
+}
+
+function createClient(overrides: Partial<OutboxClient> = {}): jest.Mocked<OutboxClient> {
+  return {
+    createSample: jest.fn(async () => ({
+      kind: "ok" as const,
+      data: { id: "server-sample", version: 1 },
+    })),
+    updateSample: jest.fn(async (id: string, dto: UpdateSampleDto) => ({
+      kind: "ok" as const,
+      data: { id, version: dto.version + 1 },
+    })),
+    createTestResult: jest.fn(async () => ({
+      kind: "ok" as const,
+      data: { id: "server-result", version: 1 },
+    })),
+    updateTestResult: jest.fn(),
+    ...overrides,
+  } as jest.Mocked<OutboxClient>
+}
+
+describe("replayOutbox", () => {
+  beforeEach(() => {
+    storage.clearAll()
+    secureStorage.clearAll()
+    authStore.setUserId("user-1")
+    authStore.setLabId("lab-1")
+  })
+
+  it("replays entries in order and re-keys records created offline", async () => {
+    const localId = outboxStore.newLocalId()
+    outboxStore.enqueue({ type: "createSample", localId, dto: SAMPLE })
+    outboxStore.enqueue({ type: "updateSample", id: localId, dto: UPDATE })
+    outboxStore.enqueue({
+      type: "createTestResult",
+      localId: outboxStore.newLocalId(),
+      dto: { ...RESULT, sampleId: localId },
+    })
+
+    const client = createClient()
+    const summary = await replayOutbox(client)
+
+    expect(summary).toEqual({ synced: 3, failed: 0, interrupted: false })
+    expect(client.updateSample).toHaveBeenCalledWith("server-sample", { ...UPDATE, version: 1 })
+    expect(client.createTestResult).toHaveBeenCalledWith({ ...RESULT, sampleId: "server-sample" })
+    expect(outboxStore.getEntries()).toEqual([])
+    expect(outboxStore.resolveId(localId)).toBe("server-sample")
+  })
+
+  it("carries the server version forward across consecutive updates", async () => {
+    outboxStore.enqueue({ type: "updateSample", id: "sample-1", dto: UPDATE })
+    outboxStore.enqueue({ type: "updateSample", id: "sample-1", dto: UPDATE })
+
+    const client = createClient()
+    await replayOutbox(client)
+
+    expect(client.updateSample).toHaveBeenNthCalledWith(2, "sample-1", { ...UPDATE, version: 2 })
+  })
+
+  it("stops at the first temporary problem and keeps the entry pending", async () => {
+    outboxStore.enqueue({ type: "createSample", localId: outboxStore.newLocalId(), dto: SAMPLE })
+    outboxStore.enqueue({ type: "updateSample", id: "sample-1", dto: UPDATE })
+
+    const client = createClient({
+      createSample: jest.fn(async () => ({
+        kind: "cannot-connect" as const,
+        temporary: true as const,
+      })),
+    })
+    const summary = await replayOutbox(client)
+
+    expect(summary.interrupted).toBe(true)
+    expect(client.updateSample).not.toHaveBeenCalled()
+    expect(outboxStore.getEntries().map((entry) => entry.status)).toEqual(["pending", "pending"])
+    expect(outboxStore.getEntries()[0].attempts).toBe(1)
+  })
+
+  it("marks rejected entries as failed and moves on", async () => {
+    outboxStore.enqueue({ type: "updateSample", id: "sample-1", dto: UPDATE })
+    outboxStore.enqueue({ type: "updateSample", id: "sample-2", dto: UPDATE })
+
+    const client = createClient({
+      updateSample: jest
+        .fn()
+        .mockResolvedValueOnce({ kind: "rejected" })
+        .mockResolvedValueOnce({ kind: "ok", data: { id: "sample-2", version: 2 } }),
+    })
+    const summary = await replayOutbox(client)
+
+    expect(summary).toEqual({ synced: 1, failed: 1, interrupted: false })
+    expect(outboxStore.getEntries()).toMatchObject([
+      { id: "sample-1", status: "failed", lastError: "rejected" },
+    ])
+  })
+})
@@ -0,0 +1,119 @@
+import { api, type Api } from "@/services/api"
+import type { GeneralApiProblem } from "@/services/api/apiProblem"
+import type { VersionConflict } from "@/services/api/types"
+import { isLocalId, type OutboxEntry, outboxStore } from "@/stores/outboxStore"
+
+export type OutboxClient = Pick<
+  Api,
+  "createSample" | "updateSample" | "createTestResult" | "updateTestResult"
+>
+
+export type ReplaySummary = {
+  /** Number of entries accepted by the server during this pass. */
+  synced: number
+  /** Number of entries the server rejected; they stay in the outbox as "failed". */
+  failed: number
+  /** True when the pass stopped early because the server became unreachable. */
+  interrupted: boolean
+}
+
+type ReplayResult =
+  | { kind: "ok"; id?: string; version?: number }
+  | VersionConflict<unknown>
+  | GeneralApiProblem
+
+let inFlight: Promise<ReplaySummary> | null = null
+
+/**
+ * Sends queued mutations to the server in the order they were recorded.
+ *
+ * Records created offline are re-keyed to their server ids as soon as their create
+ * succeeds, and updates to the same record pick up the version returned by the
+ * previous write so optimistic concurrency checks keep passing. Replay stops at
+ * the first temporary problem (the device is offline again) and resumes from the
+ * same entry next time. Version conflicts are marked failed with `lastError: "conflict"`
+ * and wait for the technician to resolve them. Concurrent calls share the same pass.
+ */
+export function replayOutbox(client: OutboxClient = api): Promise<ReplaySummary> {
+  if (!inFlight) {
+    inFlight = runReplay(client).finally(() => {
+      inFlight = null
+    })
+  }
+  return inFlight
+}
+
+async function runReplay(client: OutboxClient): Promise<ReplaySummary> {
+  const summary: ReplaySummary = { synced: 0, failed: 0, interrupted: false }
+  const versions = new Map<string, number>()
+
+  for (const entry of outboxStore.getEntries()) {
+    if (entry.status !== "pending") continue
+
+    const result = await send(client, entry, versions)
+
+    if (result.kind === "ok") {
+      if ("localId" in entry && result.id) outboxStore.setServerId(entry.localId, result.id)
+      if (result.id && result.version !== undefined) versions.set(result.id, result.version)
+      outboxStore.remove(entry.entryId)
+      summary.synced += 1
+      continue
+    }
+
+    if ("temporary" in result) {
+      outboxStore.update(entry.entryId, { attempts: entry.attempts + 1, lastError: result.kind })
+      summary.interrupted = true
+      break
+    }
+
+    outboxStore.update(entry.entryId, {
+      status: "failed",
+      attempts: entry.attempts + 1,
+      lastError: result.kind,
+    })
+    summary.failed += 1
+  }
+
+  return summary
+}
+
+async function send(
+  client: OutboxClient,
+  entry: OutboxEntry,
+  versions: Map<string, number>,
+): Promise<ReplayResult> {
+  switch (entry.type) {
+    case "createSample": {
+      const result = await client.createSample(entry.dto)
+      return result.kind === "ok"
+        ? { kind: "ok", id: result.data.id, version: result.data.version }
+        : result
+    }
+    case "updateSample": {
+      const id = outboxStore.resolveId(entry.id)
+      if (isLocalId(id)) return { kind: "bad-data" }
+      const result = await client.updateSample(id, {
+        ...entry.dto,
+        version: versions.get(id) ?? entry.dto.version,
+      })
+      return result.kind === "ok" ? { kind: "ok", id, version: result.data.version } : result
+    }
+    case "createTestResult": {
+      const sampleId = outboxStore.resolveId(entry.dto.sampleId)
+      if (isLocalId(sampleId)) return { kind: "bad-data" }
+      const result = await client.createTestResult({ ...entry.dto, sampleId })
+      return result.kind === "ok"
+        ? { kind: "ok", id: result.data.id, version: result.data.version }
+        : result
+    }
+    case "updateTestResult": {
+      const id = outboxStore.resolveId(entry.id)
+      if (isLocalId(id)) return { kind: "bad-data" }
+      const result = await client.updateTestResult(id, {
+        ...entry.dto,
+        version: versions.get(id) ?? entry.dto.version,
+      })
+      return result.kind === "ok" ? { kind: "ok", id, version: result.data.version } : result
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import { UserRoles } from "@/services/api/enums"
+import { loadString, saveString, storage } from "@/utils/storage"
+import { secureStorage } from "@/utils/storage/secureStorage"
+
+import { authStore, migrateAuthStorage } from "./authStore"
+import { serverProfileStore } from "./serverProfileStore"
+
+describe("authStore", () => {
+  beforeEach(() => {
+    storage.clearAll()
+    secureStorage.clearAll()
+  })
+
+  it("keeps tokens out of the shared storage", () => {
+    authStore.setAccessToken("access")
+    authStore.setRefreshToken("refresh")
+
+    expect(authStore.getAccessToken()).toBe("access")
+    expect(storage.getAllKeys()).toEqual([])
+    expect(secureStorage.getAllKeys()).toEqual(["auth.accessToken", "auth.refreshToken"])
+  })
+
+  it("moves keys written by older versions into the secure store", () => {
+    saveString("auth.refreshToken", "old-refresh")
+    saveString("auth.labId", "lab-1")
+    saveString("navigation.state", "{}")
+
+    migrateAuthStorage()
+
+    expect(authStore.getRefreshToken()).toBe("old-refresh")
+    expect(authStore.getLabId()).toBe("lab-1")
+    expect(loadString("auth.refreshToken")).toBeNull()
+    expect(loadString("navigation.state")).toBe("{}")
+  })
+
+  it("doesn't overwrite newer secure values during migration", () => {
+    authStore.setAccessToken("current")
+    saveString("auth.accessToken", "stale")
+
+    migrateAuthStorage()
+
+    expect(authStore.getAccessToken()).toBe("current")
+    expect(loadString("auth.accessToken")).toBeNull()
+  })
+
+  it("stores the lab role as a UserRole and ignores unknown values", () => {
+    authStore.setLabRole(3)
+    expect(authStore.getLabRole()).toBe(3)
+
+    saveString("auth.labRole", "Owner", secureStorage)
+    expect(authStore.getLabRole()).toBeNull()
+  })
+
+  it("reads the role names older versions stored", () => {
+    saveString("auth.labRole", "Technician")
+    migrateAuthStorage()
+
+    expect(authStore.getLabRole()).toBe(UserRoles.byKey.technician)
+
+    saveString("auth.labRole", "Admin", secureStorage)
+    expect(authStore.getLabRole()).toBe(UserRoles.byKey.admin)
+  })
+
+  it("stores lab memberships", () => {
+    const labs = [{ labId: "lab-1", labName: "Central", role: 2 as const }]
+    authStore.setLabs(labs)
+    expect(authStore.getLabs()).toEqual(labs)
+  })
+
+  it("keeps each server's session apart", () => {
+    authStore.setAccessToken("default-access")
+    const partner = serverProfileStore.addProfile({ name: "Partner", url: "https://partner.test" })
+    serverProfileStore.setActiveProfileId(partner.id)
+
+    expect(authStore.getAccessToken()).toBeNull()
+    authStore.setAccessToken("partner-access")
+    expect(secureStorage.getAllKeys()).toContain(`auth.${partner.id}.accessToken`)
+
+    serverProfileStore.setActiveProfileId("default")
+    expect(authStore.getAccessToken()).toBe("default-access")
+  })
+
+  it("only signs out of the active server on clear", () => {
+    const partner = serverProfileStore.addProfile({ name: "Partner", url: "https://partner.test" })
+    serverProfileStore.setActiveProfileId(partner.id)
+    authStore.setAccessToken("partner-access")
+    authStore.setLabs([{ labId: "lab-1", labName: "Central", role: 2 }])
+    serverProfileStore.setActiveProfileId("default")
+    authStore.setAccessToken("default-access")
+
+    authStore.clear()
+
+    expect(authStore.getAccessToken()).toBeNull()
+    expect(secureStorage.getAllKeys().sort()).toEqual(
+      [`auth.${partner.id}.accessToken`, `auth.${partner.id}.labs`].sort(),
+    )
+
+    authStore.clear(partner.id)
+    expect(secureStorage.getAllKeys()).toEqual([])
+  })
+})
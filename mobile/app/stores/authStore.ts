@@ -1,77 +1,141 @@
-import { loadString, remove, saveString } from "@/utils/storage"
+import { UserRoles } from "@/services/api/enums"
+import type { UserLabDto, UserRole } from "@/services/api/types"
+import { load, loadString, remove, save, saveString } from "@/utils/storage"
+import { secureStorage } from "@/utils/storage/secureStorage"
 
-const ACCESS_TOKEN_KEY = "auth.accessToken"
-const REFRESH_TOKEN_KEY = "auth.refreshToken"
-const LAB_ID_KEY = "auth.labId"
-const TOKEN_EXPIRY_KEY = "auth.tokenExpiry"
-const LAB_ROLE_KEY = "auth.labRole"
+import { DEFAULT_PROFILE_ID, serverProfileStore } from "./serverProfileStore"
 
+const ACCESS_TOKEN = "accessToken"
+const REFRESH_TOKEN = "refreshToken"
+const LAB_ID = "labId"
+const TOKEN_EXPIRY = "tokenExpiry"
+const LAB_ROLE = "labRole"
+const LABS = "labs"
+const USER_ID = "userId"
+const NAMES = [ACCESS_TOKEN, REFRESH_TOKEN, LAB_ID, TOKEN_EXPIRY, LAB_ROLE, LABS, USER_ID]
+/** What older versions wrote to the shared storage; they only knew the built-in server. */
+const AUTH_KEYS = [ACCESS_TOKEN, REFRESH_TOKEN, LAB_ID, TOKEN_EXPIRY, LAB_ROLE].map(
+  (name) => `auth.${name}`,
+)
+
+/**
+ * The key `name` is stored under for the active server profile. The built-in server keeps
+ * the unprefixed keys from before profiles existed, so upgrading doesn't sign anyone out.
+ */
+function key(name: string, id = serverProfileStore.getActiveProfile().id): string {
+  return id === DEFAULT_PROFILE_ID ? `auth.${name}` : `auth.${id}.${name}`
+}
+
+/**
+ * Moves auth state written by older versions out of the shared, unencrypted storage.
+ * A no-op once nothing is left there, so it simply runs on every launch.
+ */
+export function migrateAuthStorage(): void {
+  for (const key of AUTH_KEYS) {
+    const value = loadString(key)
+    if (value === null) continue
+    if (loadString(key, secureStorage) === null) saveString(key, value, secureStorage)
+    remove(key)
+  }
+}
+
+migrateAuthStorage()
+
+/** Session state for the active server profile; see `serverProfileStore`. */
 export const authStore = {
   getAccessToken(): string | null {
-    return loadString(ACCESS_TOKEN_KEY)
+    return loadString(key(ACCESS_TOKEN), secureStorage)
   },
   setAccessToken(token?: string): void {
     if (token) {
-      saveString(ACCESS_TOKEN_KEY, token)
+      saveString(key(ACCESS_TOKEN), token, secureStorage)
       return
     }
-    remove(ACCESS_TOKEN_KEY)
+    remove(key(ACCESS_TOKEN), secureStorage)
   },
 
   getRefreshToken(): string | null {
-    return loadString(REFRESH_TOKEN_KEY)
+    return loadString(key(REFRESH_TOKEN), secureStorage)
   },
   setRefreshToken(token?: string): void {
     if (token) {
-      saveString(REFRESH_TOKEN_KEY, token)
+      saveString(key(REFRESH_TOKEN), token, secureStorage)
       return
     }
-    remove(REFRESH_TOKEN_KEY)
+    remove(key(REFRESH_TOKEN), secureStorage)
   },
 
   getLabId(): string | null {
-    return loadString(LAB_ID_KEY)
+    return loadString(key(LAB_ID), secureStorage)
   },
   setLabId(labId?: string): void {
     if (labId) {
-      saveString(LAB_ID_KEY, labId)
+      saveString(key(LAB_ID), labId, secureStorage)
+      return
+    }
+    remove(key(LAB_ID), secureStorage)
+  },
+
+  /** The signed-in user's id; the outbox is kept per user. */
+  getUserId(): string | null {
+    return loadString(key(USER_ID), secureStorage)
+  },
+  setUserId(userId?: string): void {
+    if (userId) {
+      saveString(key(USER_ID), userId, secureStorage)
       return
     }
-    remove(LAB_ID_KEY)
+    remove(key(USER_ID), secureStorage)
   },
 
   /** Unix timestamp in ms: Date.now() + expires_in * 1000 */
   getTokenExpiry(): number | null {
-    const raw = loadString(TOKEN_EXPIRY_KEY)
+    const raw = loadString(key(TOKEN_EXPIRY), secureStorage)
     if (!raw) return null
     const parsed = parseInt(raw, 10)
     return isNaN(parsed) ? null : parsed
   },
   setTokenExpiry(expiresAt?: number): void {
     if (expiresAt !== undefined) {
-      saveString(TOKEN_EXPIRY_KEY, String(expiresAt))
+      saveString(key(TOKEN_EXPIRY), String(expiresAt), secureStorage)
+      return
+    }
+    remove(key(TOKEN_EXPIRY), secureStorage)
+  },
+
+  /** User role within the current lab. */
+  getLabRole(): UserRole | null {
+    const stored = loadString(key(LAB_ROLE), secureStorage)
+    if (stored === null) return null
+    // Older versions stored the role's name, e.g. "Admin".
+    const parsed = UserRoles.fromKey(stored.toLowerCase()) ?? Number(stored)
+    return UserRoles.isValue(parsed) ? parsed : null
+  },
+  setLabRole(role?: UserRole): void {
+    if (role !== undefined) {
+      saveString(key(LAB_ROLE), String(role), secureStorage)
       return
     }
-    remove(TOKEN_EXPIRY_KEY)
+    remove(key(LAB_ROLE), secureStorage)
   },
 
-  /** User role within the lab context: "Admin" | "Technician" | "Viewer" */
-  getLabRole(): string | null {
-    return loadString(LAB_ROLE_KEY)
+  /** Every lab the user is a member of, as of the last `/api/users/me`. */
+  getLabs(): UserLabDto[] {
+    return load<UserLabDto[]>(key(LABS), secureStorage) ?? []
   },
-  setLabRole(role?: string): void {
-    if (role) {
-      saveString(LAB_ROLE_KEY, role)
+  setLabs(labs?: UserLabDto[]): void {
+    if (labs) {
+      save(key(LABS), labs, secureStorage)
       return
     }
-    remove(LAB_ROLE_KEY)
+    remove(key(LABS), secureStorage)
   },
 
-  clear(): void {
-    remove(ACCESS_TOKEN_KEY)
-    remove(REFRESH_TOKEN_KEY)
-    remove(LAB_ID_KEY)
-    remove(TOKEN_EXPIRY_KEY)
-    remove(LAB_ROLE_KEY)
+  /**
+   * Signs out of one server, the active one unless `profileId` is given; other profiles
+   * keep their sessions.
+   */
+  clear(profileId?: string): void {
+    for (const name of NAMES) remove(key(name, profileId), secureStorage)
   },
 }
@@ -0,0 +1,49 @@
+import type { UpdateSampleDto } from "@/services/api/types"
+import { storage } from "@/utils/storage"
+import { secureStorage } from "@/utils/storage/secureStorage"
+
+import { authStore } from "./authStore"
+import { outboxStore } from "./outboxStore"
+
+const UPDATE: UpdateSampleDto = {
+  type: 0,
+  locationLatitude: 34.02,
+  locationLongitude: -6.83,
+  collectionDate: "2026-01-01T08:00:00Z",
+  collectorName: "Field Collector",
+  status: 0,
+  version: 1,
+}
+
+describe("outboxStore", () => {
+  beforeEach(() => {
+    storage.clearAll()
+    secureStorage.clearAll()
+    authStore.setUserId("user-1")
+    authStore.setLabId("lab-1")
+  })
+
+  it("keeps a queue per user and lab", () => {
+    outboxStore.enqueue({ type: "updateSample", id: "sample-1", dto: UPDATE })
+
+    authStore.setLabId("lab-2")
+    expect(outboxStore.getEntries()).toEqual([])
+
+    authStore.setLabId("lab-1")
+    authStore.setUserId("user-2")
+    expect(outboxStore.getEntries()).toEqual([])
+
+    authStore.setUserId("user-1")
+    expect(outboxStore.getEntries()).toHaveLength(1)
+  })
+
+  it("holds nothing until a lab is chosen", () => {
+    authStore.setLabId(undefined)
+
+    const entry = outboxStore.enqueue({ type: "updateSample", id: "sample-1", dto: UPDATE })
+
+    expect(entry).toBeUndefined()
+    expect(outboxStore.getEntries()).toEqual([])
+    expect(storage.getAllKeys()).toEqual([])
+  })
+})
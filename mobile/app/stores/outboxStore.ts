@@ -0,0 +1,210 @@
+import { SampleStatuses } from "@/services/api/enums"
+import type {
+  CreateSampleDto,
+  CreateTestResultDto,
+  SampleDto,
+  TestResultDto,
+  UpdateSampleDto,
+  UpdateTestResultDto,
+} from "@/services/api/types"
+import { load, remove, save } from "@/utils/storage"
+
+import { authStore } from "./authStore"
+import { serverProfileStore } from "./serverProfileStore"
+
+/** Prefix for ids assigned on-device to records the server has not seen yet. */
+export const LOCAL_ID_PREFIX = "local-"
+
+/**
+ * A mutation recorded while offline. Creates carry a `localId` so later entries
+ * (and the UI) can reference the record before the server assigns its real id.
+ */
+export type OutboxMutation =
+  | { type: "createSample"; localId: string; dto: CreateSampleDto }
+  | { type: "updateSample"; id: string; dto: UpdateSampleDto }
+  | { type: "createTestResult"; localId: string; dto: CreateTestResultDto }
+  | { type: "updateTestResult"; id: string; dto: UpdateTestResultDto }
+
+type OutboxEntryMeta = {
+  /** Unique id of the queue entry itself (not the record it mutates). */
+  entryId: string
+  /** Unix timestamp in ms when the mutation was recorded. */
+  createdAt: number
+  /** "failed" entries are skipped by replay until they are retried or discarded. */
+  status: "pending" | "failed"
+  attempts: number
+  /** Problem kind returned by the last replay attempt, e.g. "rejected". */
+  lastError?: string
+}
+
+export type OutboxEntry = OutboxMutation & OutboxEntryMeta
+
+type Listener = (entries: OutboxEntry[]) => void
+
+const listeners = new Set<Listener>()
+
+function generateId(prefix = ""): string {
+  return `${prefix}${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+/**
+ * The storage keys of the current session's queue. Writes replay with the session's token
+ * and `X-Lab-Id`, so each server, user and lab has its own; the queue of a signed-out
+ * session waits until it signs in again. `undefined` until the user and lab are known.
+ */
+function keys(): { entries: string; idMap: string } | undefined {
+  const labId = authStore.getLabId()
+  const userId = authStore.getUserId()
+  if (!labId || !userId) return undefined
+
+  const scope = `outbox.${serverProfileStore.getActiveProfile().id}.${userId}.${labId}`
+  return { entries: `${scope}.entries`, idMap: `${scope}.idMap` }
+}
+
+function persist(entries: OutboxEntry[]): void {
+  const current = keys()
+  if (!current) return
+  save(current.entries, entries)
+  listeners.forEach((listener) => listener(entries))
+}
+
+function loadIdMap(): Record<string, string> {
+  const current = keys()
+  return (current && load<Record<string, string>>(current.idMap)) ?? {}
+}
+
+export function isLocalId(id?: string | null): boolean {
+  return !!id && id.startsWith(LOCAL_ID_PREFIX)
+}
+
+export const outboxStore = {
+  /** The current session's queue; empty while signed out or before a lab is chosen. */
+  getEntries(): OutboxEntry[] {
+    const current = keys()
+    return (current && load<OutboxEntry[]>(current.entries)) ?? []
+  },
+
+  /**
+   * Appends a mutation to the end of the queue and returns the stored entry, or
+   * `undefined` when there is no queue to add it to; see `keys`.
+   */
+  enqueue<M extends OutboxMutation>(mutation: M): (M & OutboxEntryMeta) | undefined {
+    if (!keys()) return undefined
+    const entry: M & OutboxEntryMeta = {
+      ...mutation,
+      entryId: generateId(),
+      createdAt: Date.now(),
+      status: "pending",
+      attempts: 0,
+    }
+    persist([...this.getEntries(), entry as OutboxEntry])
+    return entry
+  },
+
+  update(entryId: string, changes: Partial<Omit<OutboxEntry, "entryId" | "type">>): void {
+    persist(
+      this.getEntries().map((entry) =>
+        entry.entryId === entryId ? ({ ...entry, ...changes } as OutboxEntry) : entry,
+      ),
+    )
+  },
+
+  remove(entryId: string): void {
+    persist(this.getEntries().filter((entry) => entry.entryId !== entryId))
+  },
+
+  /** Puts every failed entry back in the queue so the next replay attempts it again. */
+  retryFailed(): void {
+    persist(
+      this.getEntries().map((entry) =>
+        entry.status === "failed"
+          ? ({ ...entry, status: "pending", lastError: undefined } as OutboxEntry)
+          : entry,
+      ),
+    )
+  },
+
+  newLocalId(): string {
+    return generateId(LOCAL_ID_PREFIX)
+  },
+
+  /** Server id assigned to a record that was created offline, once it has been replayed. */
+  resolveId(id: string): string {
+    if (!isLocalId(id)) return id
+    return loadIdMap()[id] ?? id
+  },
+  setServerId(localId: string, serverId: string): void {
+    const current = keys()
+    if (current) save(current.idMap, { ...loadIdMap(), [localId]: serverId })
+  },
+
+  /**
+   * Samples created offline and not yet replayed, with any queued edits folded in.
+   * These are flagged `isSynced: false` so lists can render them as pending.
+   */
+  getPendingSamples(): SampleDto[] {
+    const samples = new Map<string, SampleDto>()
+    for (const entry of this.getEntries()) {
+      if (entry.type === "createSample") {
+        samples.set(entry.localId, {
+          ...entry.dto,
+          id: entry.localId,
+          status: SampleStatuses.byKey.pending,
+          version: 0,
+          isSynced: false,
+        })
+      } else if (entry.type === "updateSample" && samples.has(entry.id)) {
+        samples.set(entry.id, { ...samples.get(entry.id), ...entry.dto, isSynced: false })
+      }
+    }
+    return [...samples.values()]
+  },
+
+  /**
+   * Overlays queued edits onto a sample fetched from the server, so the UI shows what
+   * the technician last saved rather than the stale server copy.
+   */
+  applyPendingEdits(sample: SampleDto): SampleDto {
+    return this.getEntries().reduce<SampleDto>(
+      (current, entry) =>
+        entry.type === "updateSample" && entry.id === sample.id
+          ? { ...current, ...entry.dto, isSynced: false }
+          : current,
+      sample,
+    )
+  },
+
+  /** Test results created offline for the given sample (local or server id). */
+  getPendingTestResults(sampleId: string): TestResultDto[] {
+    return this.getEntries()
+      .filter(
+        (entry): entry is Extract<OutboxEntry, { type: "createTestResult" }> =>
+          entry.type === "createTestResult" && entry.dto.sampleId === sampleId,
+      )
+      .map((entry) => ({ ...entry.dto, id: entry.localId, version: 0, isSynced: false }))
+  },
+
+  /** True when a queued mutation targets the given record id. */
+  hasPendingChanges(id: string): boolean {
+    return this.getEntries().some((entry) =>
+      "localId" in entry ? entry.localId === id : entry.id === id,
+    )
+  },
+
+  subscribe(listener: Listener): () => void {
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  },
+
+  /** Drops the current session's queue. */
+  clear(): void {
+    const current = keys()
+    if (current) {
+      remove(current.entries)
+      remove(current.idMap)
+    }
+    listeners.forEach((listener) => listener([]))
+  },
+}
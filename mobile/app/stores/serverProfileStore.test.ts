@@ -0,0 +1,40 @@
+import Config from "@/config"
+import { storage } from "@/utils/storage"
+
+import { DEFAULT_PROFILE_ID, serverProfileStore } from "./serverProfileStore"
+
+describe("serverProfileStore", () => {
+  beforeEach(() => {
+    storage.clearAll()
+  })
+
+  it("starts with only the built-in server, not yet chosen", () => {
+    expect(serverProfileStore.getProfiles()).toEqual([
+      { id: DEFAULT_PROFILE_ID, name: "Quater", url: Config.API_URL },
+    ])
+    expect(serverProfileStore.getActiveProfile().id).toBe(DEFAULT_PROFILE_ID)
+    expect(serverProfileStore.hasChosenProfile()).toBe(false)
+  })
+
+  it("switches to an added server", () => {
+    const added = serverProfileStore.addProfile({ name: "Partner", url: "https://partner.test" })
+    serverProfileStore.setActiveProfileId(added.id)
+
+    expect(serverProfileStore.getProfiles().map((profile) => profile.name)).toEqual([
+      "Quater",
+      "Partner",
+    ])
+    expect(serverProfileStore.getActiveProfile()).toEqual(added)
+    expect(serverProfileStore.hasChosenProfile()).toBe(true)
+  })
+
+  it("falls back to the built-in server when the active one is removed", () => {
+    const added = serverProfileStore.addProfile({ name: "Partner", url: "https://partner.test" })
+    serverProfileStore.setActiveProfileId(added.id)
+
+    serverProfileStore.removeProfile(added.id)
+
+    expect(serverProfileStore.getProfiles()).toHaveLength(1)
+    expect(serverProfileStore.getActiveProfile().id).toBe(DEFAULT_PROFILE_ID)
+  })
+})
@@ -0,0 +1,69 @@
+import Config from "@/config"
+import { load, loadString, remove, save, saveString } from "@/utils/storage"
+
+const PROFILES_KEY = "servers.profiles"
+const ACTIVE_PROFILE_KEY = "servers.activeId"
+
+/** The server built into the app, `Config.API_URL`. It can't be removed. */
+export const DEFAULT_PROFILE_ID = "default"
+
+/** A backend the app can sign in to, e.g. one partner lab's own deployment. */
+export type ServerProfile = {
+  id: string
+  name: string
+  /** Base URL without a trailing slash, e.g. `https://quater.lab.example.org`. */
+  url: string
+}
+
+function defaultProfile(): ServerProfile {
+  return { id: DEFAULT_PROFILE_ID, name: "Quater", url: Config.API_URL }
+}
+
+function savedProfiles(): ServerProfile[] {
+  return load<ServerProfile[]>(PROFILES_KEY) ?? []
+}
+
+function generateId(): string {
+  return `server-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+/**
+ * Server profiles live in the shared storage: URLs aren't secret, and they have to be
+ * readable before anyone signs in. Each profile's tokens are kept apart by `authStore`.
+ */
+export const serverProfileStore = {
+  /** The built-in profile first, then the added ones in the order they were added. */
+  getProfiles(): ServerProfile[] {
+    return [defaultProfile(), ...savedProfiles()]
+  },
+
+  addProfile(profile: Omit<ServerProfile, "id">): ServerProfile {
+    const added = { ...profile, id: generateId() }
+    save(PROFILES_KEY, [...savedProfiles(), added])
+    return added
+  },
+
+  /** Removing the active profile switches back to the built-in one. */
+  removeProfile(id: string): void {
+    save(
+      PROFILES_KEY,
+      savedProfiles().filter((profile) => profile.id !== id),
+    )
+    if (loadString(ACTIVE_PROFILE_KEY) === id) remove(ACTIVE_PROFILE_KEY)
+  },
+
+  /** Falls back to the built-in profile, e.g. when the stored one was removed. */
+  getActiveProfile(): ServerProfile {
+    const id = loadString(ACTIVE_PROFILE_KEY)
+    return this.getProfiles().find((profile) => profile.id === id) ?? defaultProfile()
+  },
+
+  setActiveProfileId(id: string): void {
+    saveString(ACTIVE_PROFILE_KEY, id)
+  },
+
+  /** Whether a server has ever been picked; until then the app starts on the server list. */
+  hasChosenProfile(): boolean {
+    return loadString(ACTIVE_PROFILE_KEY) !== null
+  },
+}
@@ -31,6 +31,11 @@ const palette = {
   angry100: "#F2D6CD",
   angry500: "#C03403",
 
+  success100: "#DCEFD8",
+  success500: "#2E7D32",
+
+  caution500: "#8A5300",
+
   overlay20: "rgba(25, 16, 21, 0.2)",
   overlay50: "rgba(25, 16, 21, 0.5)",
 } as const
@@ -82,4 +87,20 @@ export const colors = {
    * Error Background.
    */
   errorBackground: palette.angry100,
+  /**
+   * Passing or otherwise healthy statuses.
+   */
+  success: palette.success500,
+  /**
+   * Success Background.
+   */
+  successBackground: palette.success100,
+  /**
+   * Statuses that need a second look.
+   */
+  warning: palette.caution500,
+  /**
+   * Warning Background.
+   */
+  warningBackground: palette.accent100,
 } as const
@@ -31,6 +31,11 @@ const palette = {
   angry100: "#F2D6CD",
   angry500: "#C03403",
 
+  success100: "#DCEFD8",
+  success500: "#2E7D32",
+
+  caution500: "#8A5300",
+
   overlay20: "rgba(25, 16, 21, 0.2)",
   overlay50: "rgba(25, 16, 21, 0.5)",
 } as const
@@ -47,4 +52,8 @@ export const colors = {
   separator: palette.neutral300,
   error: palette.angry500,
   errorBackground: palette.angry100,
+  success: palette.success500,
+  successBackground: palette.success100,
+  warning: palette.caution500,
+  warningBackground: palette.accent500,
 } as const
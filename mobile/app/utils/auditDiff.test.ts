@@ -0,0 +1,57 @@
+import { diffAuditValues, formatAuditValue, parseAuditValues } from "./auditDiff"
+
+describe("parseAuditValues", () => {
+  it("treats a missing side as empty and rejects anything but an object", () => {
+    expect(parseAuditValues(null)).toEqual({})
+    expect(parseAuditValues('{"Name":"North"}')).toEqual({ Name: "North" })
+    expect(parseAuditValues("[1]")).toBeUndefined()
+    expect(parseAuditValues('{"Name":"Nor')).toBeUndefined()
+  })
+})
+
+describe("formatAuditValue", () => {
+  it("strips the backend's truncation marker", () => {
+    expect(formatAuditValue("Long note...[TRUNCATED]")).toEqual({
+      text: "Long note",
+      truncated: true,
+    })
+  })
+
+  it("formats non-strings", () => {
+    expect(formatAuditValue(null)).toEqual({ text: "", truncated: false })
+    expect(formatAuditValue(7.5)).toEqual({ text: "7.5", truncated: false })
+    expect(formatAuditValue(false)).toEqual({ text: "false", truncated: false })
+  })
+})
+
+describe("diffAuditValues", () => {
+  it("lists changed fields and skips equal ones", () => {
+    expect(
+      diffAuditValues(
+        '{"Status":0,"Notes":"old","Version":3}',
+        '{"Status":1,"Notes":"old","Version":4}',
+      ),
+    ).toEqual([
+      {
+        field: "Status",
+        before: { text: "0", truncated: false },
+        after: { text: "1", truncated: false },
+      },
+      {
+        field: "Version",
+        before: { text: "3", truncated: false },
+        after: { text: "4", truncated: false },
+      },
+    ])
+  })
+
+  it("leaves out the side that wasn't recorded", () => {
+    expect(diffAuditValues(null, '{"Name":"North"}')).toEqual([
+      { field: "Name", before: undefined, after: { text: "North", truncated: false } },
+    ])
+  })
+
+  it("gives up on values it can't parse", () => {
+    expect(diffAuditValues("not json", "{}")).toBeUndefined()
+  })
+})
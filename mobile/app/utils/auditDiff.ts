@@ -0,0 +1,91 @@
+/** What the backend appends to string values it cut short before storing them. */
+const TRUNCATION_MARKER = "...[TRUNCATED]"
+
+/** One side of a field change, ready to display. */
+export type AuditValue = {
+  text: string
+  /** The backend kept only the start of the value. */
+  truncated: boolean
+}
+
+/**
+ * A property that differs between an entry's old and new values. A side is missing when
+ * the property wasn't recorded there, e.g. every property of a create has no `before`.
+ */
+export type AuditFieldChange = {
+  field: string
+  before?: AuditValue
+  after?: AuditValue
+}
+
+/**
+ * Parses one side of an audit entry, or returns `undefined` if it isn't the JSON object
+ * the backend writes. An absent side parses to an empty object.
+ *
+ * @param json The entry's `oldValue` or `newValue`.
+ */
+export function parseAuditValues(
+  json: string | null | undefined,
+): Record<string, unknown> | undefined {
+  if (!json) return {}
+  try {
+    const parsed: unknown = JSON.parse(json)
+    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Formats a recorded property value. Strings are shown as is, without quotes; `null`
+ * becomes an empty string so the screen can show its own placeholder.
+ *
+ * @param value A property value from `parseAuditValues`.
+ */
+export function formatAuditValue(value: unknown): AuditValue {
+  if (value === null || value === undefined) return { text: "", truncated: false }
+  if (typeof value === "string") {
+    return value.endsWith(TRUNCATION_MARKER)
+      ? { text: value.slice(0, -TRUNCATION_MARKER.length), truncated: true }
+      : { text: value, truncated: false }
+  }
+  return {
+    text: typeof value === "object" ? JSON.stringify(value) : String(value),
+    truncated: false,
+  }
+}
+
+/**
+ * The properties that differ between an audit entry's old and new values, in the order
+ * the backend recorded them. Properties with equal values on both sides are left out.
+ *
+ * @param oldValue The entry's `oldValue` JSON.
+ * @param newValue The entry's `newValue` JSON.
+ * @returns `undefined` when either side can't be parsed, so the raw text can be shown.
+ */
+export function diffAuditValues(
+  oldValue: string | null | undefined,
+  newValue: string | null | undefined,
+): AuditFieldChange[] | undefined {
+  const before = parseAuditValues(oldValue)
+  const after = parseAuditValues(newValue)
+  if (!before || !after) return undefined
+
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+  return fields.flatMap((field) => {
+    const hadBefore = Object.hasOwn(before, field)
+    const hasAfter = Object.hasOwn(after, field)
+    if (hadBefore && hasAfter && JSON.stringify(before[field]) === JSON.stringify(after[field])) {
+      return []
+    }
+    return [
+      {
+        field,
+        before: hadBefore ? formatAuditValue(before[field]) : undefined,
+        after: hasAfter ? formatAuditValue(after[field]) : undefined,
+      },
+    ]
+  })
+}
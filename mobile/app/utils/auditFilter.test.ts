@@ -0,0 +1,73 @@
+import { AuditActions, EntityTypes } from "@/services/api/enums"
+
+import {
+  activeFilterCount,
+  type AuditFilterValues,
+  emptyAuditFilter,
+  toAuditLogFilterDto,
+  validateAuditFilter,
+} from "./auditFilter"
+
+const ID = "8f14e45f-ceea-4b67-a0b2-9c0d1e2f3a4b"
+
+describe("validateAuditFilter", () => {
+  it("accepts the empty filter", () => {
+    expect(validateAuditFilter(emptyAuditFilter())).toEqual({})
+  })
+
+  it("rejects malformed ids and dates", () => {
+    expect(
+      validateAuditFilter({
+        ...emptyAuditFilter(),
+        entityId: "sample-1",
+        userId: ` ${ID} `,
+        startDate: "2026-13-01",
+      }),
+    ).toEqual({
+      entityId: "auditLogListScreen:errors.id",
+      startDate: "auditLogListScreen:errors.dateFormat",
+    })
+  })
+
+  it("rejects an end date before the start date", () => {
+    expect(
+      validateAuditFilter({
+        ...emptyAuditFilter(),
+        startDate: "2026-03-02",
+        endDate: "2026-03-01",
+      }),
+    ).toEqual({ endDate: "auditLogListScreen:errors.endBeforeStart" })
+  })
+})
+
+describe("toAuditLogFilterDto", () => {
+  it("sends blank fields as null and days as UTC midnight", () => {
+    const values: AuditFilterValues = {
+      ...emptyAuditFilter(),
+      entityType: EntityTypes.byKey.sample,
+      action: AuditActions.byKey.conflictResolution,
+      entityId: ` ${ID} `,
+      startDate: "2026-03-01",
+    }
+    expect(toAuditLogFilterDto(values, 2, 25)).toEqual({
+      entityType: EntityTypes.byKey.sample,
+      action: AuditActions.byKey.conflictResolution,
+      entityId: ID,
+      userId: null,
+      startDate: "2026-03-01T00:00:00Z",
+      endDate: null,
+      includeArchived: false,
+      pageNumber: 2,
+      pageSize: 25,
+    })
+  })
+})
+
+describe("activeFilterCount", () => {
+  it("counts the filters that narrow the results", () => {
+    expect(activeFilterCount(emptyAuditFilter())).toBe(0)
+    expect(
+      activeFilterCount({ ...emptyAuditFilter(), action: 0, endDate: "2026-03-01", userId: " " }),
+    ).toBe(2)
+  })
+})
@@ -0,0 +1,101 @@
+import { isValid } from "date-fns/isValid"
+import { parse } from "date-fns/parse"
+
+import type { TxKeyPath } from "@/i18n"
+import type { AuditAction, AuditLogFilterDto, EntityType } from "@/services/api/types"
+
+/** Format used for the date range text fields. */
+export const AUDIT_FILTER_DATE_FORMAT = "yyyy-MM-dd"
+
+/** Text-field friendly shape of the audit filters. Blank or unset fields don't filter. */
+export type AuditFilterValues = {
+  entityType?: EntityType
+  action?: AuditAction
+  entityId: string
+  userId: string
+  startDate: string
+  endDate: string
+  includeArchived: boolean
+}
+
+export type AuditFilterErrors = Partial<Record<keyof AuditFilterValues, TxKeyPath>>
+
+export function emptyAuditFilter(): AuditFilterValues {
+  return { entityId: "", userId: "", startDate: "", endDate: "", includeArchived: false }
+}
+
+const GUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+function parseFilterDate(value: string): Date {
+  return parse(value.trim(), AUDIT_FILTER_DATE_FORMAT, new Date())
+}
+
+/**
+ * The backend rejects malformed ids and dates with a bare 400, so they are caught here.
+ *
+ * @param values The filter values.
+ */
+export function validateAuditFilter(values: AuditFilterValues): AuditFilterErrors {
+  const errors: AuditFilterErrors = {}
+
+  const entityId = values.entityId.trim()
+  if (entityId && !GUID_PATTERN.test(entityId)) errors.entityId = "auditLogListScreen:errors.id"
+
+  const userId = values.userId.trim()
+  if (userId && !GUID_PATTERN.test(userId)) errors.userId = "auditLogListScreen:errors.id"
+
+  const start = values.startDate.trim() ? parseFilterDate(values.startDate) : undefined
+  const end = values.endDate.trim() ? parseFilterDate(values.endDate) : undefined
+  if (start && !isValid(start)) errors.startDate = "auditLogListScreen:errors.dateFormat"
+  if (end && !isValid(end)) errors.endDate = "auditLogListScreen:errors.dateFormat"
+  else if (start && end && isValid(start) && end < start) {
+    errors.endDate = "auditLogListScreen:errors.endBeforeStart"
+  }
+
+  return errors
+}
+
+/** How many filters narrow the results, for the filter toggle's label. */
+export function activeFilterCount(values: AuditFilterValues): number {
+  return [
+    values.entityType !== undefined,
+    values.action !== undefined,
+    !!values.entityId.trim(),
+    !!values.userId.trim(),
+    !!values.startDate.trim(),
+    !!values.endDate.trim(),
+    values.includeArchived,
+  ].filter(Boolean).length
+}
+
+/**
+ * Call only after `validateAuditFilter` returned no errors. Days are sent as UTC
+ * midnight, since the server compares them against UTC timestamps; it extends the end
+ * date to the end of that day itself.
+ *
+ * @param values The filter values.
+ * @param pageNumber The page to fetch, starting at 1.
+ * @param pageSize Entries per page.
+ */
+export function toAuditLogFilterDto(
+  values: AuditFilterValues,
+  pageNumber: number,
+  pageSize: number,
+): AuditLogFilterDto {
+  const entityId = values.entityId.trim()
+  const userId = values.userId.trim()
+  const startDate = values.startDate.trim()
+  const endDate = values.endDate.trim()
+  return {
+    entityType: values.entityType,
+    // The generated type predates `ConflictResolution`; see `AuditAction`.
+    action: values.action as AuditLogFilterDto["action"],
+    entityId: entityId || null,
+    userId: userId || null,
+    startDate: startDate ? `${startDate}T00:00:00Z` : null,
+    endDate: endDate ? `${endDate}T00:00:00Z` : null,
+    includeArchived: values.includeArchived,
+    pageNumber,
+    pageSize,
+  }
+}
@@ -0,0 +1,81 @@
+import { AuditActions, SampleStatuses, SampleTypes, TestMethods } from "@/services/api/enums"
+import type { AuditLogDto, SampleDto, TestResultDto } from "@/services/api/types"
+
+import { restoreSampleDto, restoreTestResultDto } from "./auditRestore"
+
+const SAMPLE: SampleDto = {
+  id: "s-1",
+  type: SampleTypes.byKey.groundwater,
+  locationLatitude: 34,
+  locationLongitude: -6.8,
+  collectionDate: "2026-03-02T09:00:00Z",
+  collectorName: "Amal",
+  notes: "Second visit",
+  status: SampleStatuses.byKey.completed,
+  version: 4,
+  labId: "lab-1",
+}
+
+function update(oldValue: object, newValue: object = {}): AuditLogDto {
+  return {
+    id: "a-1",
+    action: AuditActions.byKey.update,
+    oldValue: JSON.stringify(oldValue),
+    newValue: JSON.stringify(newValue),
+  }
+}
+
+describe("restoreSampleDto", () => {
+  it("puts back the recorded old values on top of the current sample", () => {
+    const entry = update(
+      { Status: 0, Notes: null, UpdatedAt: "2026-03-01T00:00:00Z" },
+      { Status: 1, Notes: "Second visit" },
+    )
+    expect(restoreSampleDto(SAMPLE, entry)).toEqual({
+      type: SampleTypes.byKey.groundwater,
+      locationLatitude: 34,
+      locationLongitude: -6.8,
+      locationDescription: null,
+      locationHierarchy: null,
+      collectionDate: "2026-03-02T09:00:00Z",
+      collectorName: "Amal",
+      notes: null,
+      status: SampleStatuses.byKey.pending,
+      version: 4,
+    })
+  })
+
+  it("refuses entries it can't restore faithfully", () => {
+    expect(restoreSampleDto(SAMPLE, update({ UpdatedAt: "2026-03-01T00:00:00Z" }))).toBeUndefined()
+    expect(restoreSampleDto(SAMPLE, update({ Notes: "Long...[TRUNCATED]" }))).toBeUndefined()
+    expect(restoreSampleDto(SAMPLE, update({ Status: 9 }))).toBeUndefined()
+    expect(
+      restoreSampleDto(SAMPLE, { ...update({ Status: 0 }), action: AuditActions.byKey.create }),
+    ).toBeUndefined()
+  })
+})
+
+describe("restoreTestResultDto", () => {
+  it("restores the audited test result fields", () => {
+    const result: TestResultDto = {
+      id: "t-1",
+      sampleId: "s-1",
+      parameterName: "pH",
+      value: 7.2,
+      unit: "pH",
+      testDate: "2026-03-02T10:00:00Z",
+      technicianName: "Youssef",
+      testMethod: TestMethods.byKey.electrode,
+      version: 2,
+    }
+    expect(restoreTestResultDto(result, update({ TechnicianName: "Amal" }))).toEqual({
+      parameterName: "pH",
+      value: 7.2,
+      unit: "pH",
+      testDate: "2026-03-02T10:00:00Z",
+      technicianName: "Amal",
+      testMethod: TestMethods.byKey.electrode,
+      version: 2,
+    })
+  })
+})
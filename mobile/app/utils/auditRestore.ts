@@ -0,0 +1,121 @@
+import { AuditActions, SampleStatuses, SampleTypes, TestMethods } from "@/services/api/enums"
+import type {
+  AuditLogDto,
+  SampleDto,
+  TestResultDto,
+  UpdateSampleDto,
+  UpdateTestResultDto,
+} from "@/services/api/types"
+
+import { formatAuditValue, parseAuditValues } from "./auditDiff"
+
+/** Checks a recorded value before it is written back; `undefined` rejects it. */
+type Restorer<T> = (value: unknown) => { value: T } | undefined
+
+const text: Restorer<string> = (value) => (typeof value === "string" ? { value } : undefined)
+
+const optionalText: Restorer<string | null> = (value) =>
+  value === null || typeof value === "string" ? { value } : undefined
+
+function oneOf<V extends number>(isValue: (value: number) => value is V): Restorer<V> {
+  return (value) => (typeof value === "number" && isValue(value) ? { value } : undefined)
+}
+
+/**
+ * Audited properties an update DTO can write back, keyed by the backend's property name.
+ * Location and the measurement are owned types whose changes the backend doesn't audit,
+ * so they can't be restored from history.
+ */
+const SAMPLE_RESTORERS = {
+  Type: ["type", oneOf(SampleTypes.isValue)],
+  Status: ["status", oneOf(SampleStatuses.isValue)],
+  CollectionDate: ["collectionDate", text],
+  CollectorName: ["collectorName", text],
+  Notes: ["notes", optionalText],
+} as const satisfies Record<string, readonly [keyof UpdateSampleDto, Restorer<unknown>]>
+
+const TEST_RESULT_RESTORERS = {
+  TestDate: ["testDate", text],
+  TechnicianName: ["technicianName", text],
+  TestMethod: ["testMethod", oneOf(TestMethods.isValue)],
+} as const satisfies Record<string, readonly [keyof UpdateTestResultDto, Restorer<unknown>]>
+
+/**
+ * The DTO fields an update entry's old values would put back. Values the backend cut
+ * short can't be restored faithfully, so their presence rules the whole entry out.
+ */
+function restoredFields(
+  entry: AuditLogDto,
+  restorers: Record<string, readonly [string, Restorer<unknown>]>,
+): Record<string, unknown> | undefined {
+  if (entry.action !== AuditActions.byKey.update) return undefined
+  const old = parseAuditValues(entry.oldValue)
+  if (!old) return undefined
+
+  const fields: Record<string, unknown> = {}
+  for (const [property, value] of Object.entries(old)) {
+    if (!Object.hasOwn(restorers, property)) continue
+    const [field, restore] = restorers[property]
+    const restored = restore(value)
+    if (!restored || formatAuditValue(value).truncated) return undefined
+    fields[field] = restored.value
+  }
+  return Object.keys(fields).length > 0 ? fields : undefined
+}
+
+export function sampleToUpdateDto(sample: SampleDto): UpdateSampleDto {
+  return {
+    type: sample.type ?? SampleTypes.byKey.drinkingWater,
+    locationLatitude: sample.locationLatitude ?? 0,
+    locationLongitude: sample.locationLongitude ?? 0,
+    locationDescription: sample.locationDescription ?? null,
+    locationHierarchy: sample.locationHierarchy ?? null,
+    collectionDate: sample.collectionDate ?? "",
+    collectorName: sample.collectorName ?? "",
+    notes: sample.notes ?? null,
+    status: sample.status ?? SampleStatuses.byKey.pending,
+    version: sample.version ?? 0,
+  }
+}
+
+export function testResultToUpdateDto(result: TestResultDto): UpdateTestResultDto {
+  return {
+    parameterName: result.parameterName ?? "",
+    value: result.value ?? 0,
+    unit: result.unit ?? "",
+    testDate: result.testDate ?? "",
+    technicianName: result.technicianName ?? "",
+    testMethod: result.testMethod ?? TestMethods.byKey.other,
+    version: result.version ?? 0,
+  }
+}
+
+/**
+ * The update that puts a sample back the way it was before `entry`, or `undefined` if
+ * the entry recorded nothing that can be restored. Fields the entry didn't touch keep
+ * their current values.
+ *
+ * @param sample The sample as it currently is on the server.
+ * @param entry An audit entry for the sample.
+ */
+export function restoreSampleDto(
+  sample: SampleDto,
+  entry: AuditLogDto,
+): UpdateSampleDto | undefined {
+  const fields = restoredFields(entry, SAMPLE_RESTORERS)
+  return fields && { ...sampleToUpdateDto(sample), ...fields }
+}
+
+/**
+ * The test result counterpart of `restoreSampleDto`.
+ *
+ * @param result The test result as it currently is on the server.
+ * @param entry An audit entry for the test result.
+ */
+export function restoreTestResultDto(
+  result: TestResultDto,
+  entry: AuditLogDto,
+): UpdateTestResultDto | undefined {
+  const fields = restoredFields(entry, TEST_RESULT_RESTORERS)
+  return fields && { ...testResultToUpdateDto(result), ...fields }
+}
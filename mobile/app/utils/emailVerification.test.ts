@@ -0,0 +1,36 @@
+import { needsNewLink, verificationStateOf } from "./emailVerification"
+
+describe("verificationStateOf", () => {
+  it("tells a fresh verification from a link that was already used", () => {
+    expect(
+      verificationStateOf({
+        kind: "ok",
+        data: { message: "Email verified successfully", alreadyVerified: false },
+      }),
+    ).toBe("verified")
+    expect(
+      verificationStateOf({
+        kind: "ok",
+        data: { message: "Email already verified", alreadyVerified: true },
+      }),
+    ).toBe("alreadyVerified")
+    expect(verificationStateOf({ kind: "ok", data: { message: "Email verified" } })).toBe(
+      "verified",
+    )
+  })
+
+  it("maps failures to the state the screen explains", () => {
+    expect(verificationStateOf({ kind: "rejected" })).toBe("invalidCode")
+    expect(verificationStateOf({ kind: "not-found" })).toBe("unknownUser")
+    expect(verificationStateOf({ kind: "rate-limited", temporary: true })).toBe("rateLimited")
+    expect(verificationStateOf({ kind: "cannot-connect", temporary: true })).toBe("failed")
+  })
+})
+
+describe("needsNewLink", () => {
+  it("offers a resend only when the link itself can't work", () => {
+    expect(needsNewLink("invalidCode")).toBe(true)
+    expect(needsNewLink("failed")).toBe(false)
+    expect(needsNewLink("verified")).toBe(false)
+  })
+})
@@ -0,0 +1,56 @@
+import type { TxKeyPath } from "@/i18n"
+import type { GeneralApiProblem } from "@/services/api/apiProblem"
+import type { VerifyEmailResponse } from "@/services/api/types"
+
+/** The backend allows five resends a minute per address; waiting a minute stays clear of it. */
+export const RESEND_COOLDOWN_SECONDS = 60
+
+export type VerificationState =
+  | "missingLink"
+  | "verifying"
+  | "verified"
+  | "alreadyVerified"
+  | "invalidCode"
+  | "unknownUser"
+  | "rateLimited"
+  | "failed"
+
+/**
+ * Reads the outcome of a verify call.
+ *
+ * @param result What `api.verifyEmail` returned.
+ */
+export function verificationStateOf(
+  result: { kind: "ok"; data: VerifyEmailResponse } | GeneralApiProblem,
+): VerificationState {
+  switch (result.kind) {
+    case "ok":
+      // Servers from before the flag leave it out; the address is verified either way.
+      return result.data?.alreadyVerified ? "alreadyVerified" : "verified"
+    case "rejected":
+    case "validation":
+      return "invalidCode"
+    case "not-found":
+      return "unknownUser"
+    case "rate-limited":
+      return "rateLimited"
+    default:
+      return "failed"
+  }
+}
+
+export const VERIFICATION_STATE_TX: Record<VerificationState, TxKeyPath> = {
+  missingLink: "verifyEmailScreen:states.missingLink",
+  verifying: "verifyEmailScreen:states.verifying",
+  verified: "verifyEmailScreen:states.verified",
+  alreadyVerified: "verifyEmailScreen:states.alreadyVerified",
+  invalidCode: "verifyEmailScreen:states.invalidCode",
+  unknownUser: "verifyEmailScreen:states.unknownUser",
+  rateLimited: "verifyEmailScreen:states.rateLimited",
+  failed: "verifyEmailScreen:states.failed",
+}
+
+/** The states that leave the user needing a new link. */
+export function needsNewLink(state: VerificationState): boolean {
+  return state === "missingLink" || state === "invalidCode" || state === "unknownUser"
+}
@@ -0,0 +1,49 @@
+import {
+  emptyLabForm,
+  type LabFormValues,
+  toggleLabActiveDto,
+  toUpdateLabDto,
+  validateLabForm,
+} from "./labForm"
+
+const VALID: LabFormValues = {
+  ...emptyLabForm(),
+  name: " Central Lab ",
+  location: "Rabat",
+}
+
+describe("validateLabForm", () => {
+  it("accepts a complete form without contact info", () => {
+    expect(validateLabForm(VALID)).toEqual({})
+  })
+
+  it("mirrors the backend rules", () => {
+    expect(
+      validateLabForm({ name: "x".repeat(201), location: " ", contactInfo: "x".repeat(501) }),
+    ).toEqual({
+      name: "labEditScreen:errors.tooLong",
+      location: "labEditScreen:errors.locationRequired",
+      contactInfo: "labEditScreen:errors.tooLong",
+    })
+  })
+})
+
+describe("lab DTOs", () => {
+  it("trims text and nulls blank contact info", () => {
+    expect(toUpdateLabDto({ ...VALID, contactInfo: "  " }, true)).toEqual({
+      name: "Central Lab",
+      location: "Rabat",
+      contactInfo: null,
+      isActive: true,
+    })
+  })
+
+  it("keeps everything but isActive when toggling", () => {
+    expect(
+      toggleLabActiveDto(
+        { id: "lab-1", name: "Central Lab", location: "Rabat", contactInfo: "x", isActive: true },
+        false,
+      ),
+    ).toEqual({ name: "Central Lab", location: "Rabat", contactInfo: "x", isActive: false })
+  })
+})
@@ -0,0 +1,76 @@
+import type { TxKeyPath } from "@/i18n"
+import type { CreateLabDto, LabDto, UpdateLabDto } from "@/services/api/types"
+
+/** Text-field friendly shape of a lab while it is being edited. */
+export type LabFormValues = {
+  name: string
+  location: string
+  contactInfo: string
+}
+
+export type LabFormErrors = Partial<Record<keyof LabFormValues, TxKeyPath>>
+
+export function emptyLabForm(): LabFormValues {
+  return { name: "", location: "", contactInfo: "" }
+}
+
+export function labToForm(lab: LabDto): LabFormValues {
+  return {
+    name: lab.name ?? "",
+    location: lab.location ?? "",
+    contactInfo: lab.contactInfo ?? "",
+  }
+}
+
+/**
+ * Mirrors the backend's `LabValidator`, which requires a location even though the DTOs
+ * mark it optional.
+ *
+ * @param values The form values.
+ */
+export function validateLabForm(values: LabFormValues): LabFormErrors {
+  const errors: LabFormErrors = {}
+
+  const name = values.name.trim()
+  if (!name) errors.name = "labEditScreen:errors.nameRequired"
+  else if (name.length > 200) errors.name = "labEditScreen:errors.tooLong"
+
+  const location = values.location.trim()
+  if (!location) errors.location = "labEditScreen:errors.locationRequired"
+  else if (location.length > 500) errors.location = "labEditScreen:errors.tooLong"
+
+  if (values.contactInfo.trim().length > 500) errors.contactInfo = "labEditScreen:errors.tooLong"
+
+  return errors
+}
+
+/** Call only after `validateLabForm` returned no errors. */
+export function toCreateLabDto(values: LabFormValues): CreateLabDto {
+  const contactInfo = values.contactInfo.trim()
+  return {
+    name: values.name.trim(),
+    location: values.location.trim(),
+    contactInfo: contactInfo === "" ? null : contactInfo,
+  }
+}
+
+/** Call only after `validateLabForm` returned no errors. */
+export function toUpdateLabDto(values: LabFormValues, isActive: boolean): UpdateLabDto {
+  return { ...toCreateLabDto(values), isActive }
+}
+
+/**
+ * The update that only flips whether the lab is active, keeping everything else as the
+ * server has it.
+ *
+ * @param lab The lab as loaded from the server.
+ * @param isActive Whether it should be active afterwards.
+ */
+export function toggleLabActiveDto(lab: LabDto, isActive: boolean): UpdateLabDto {
+  return {
+    name: lab.name ?? "",
+    location: lab.location ?? null,
+    contactInfo: lab.contactInfo ?? null,
+    isActive,
+  }
+}
@@ -0,0 +1,44 @@
+import { hasMorePages, mergePage } from "./pagedList"
+
+describe("mergePage", () => {
+  it("appends a page to the items loaded so far", () => {
+    expect(mergePage([{ id: "a" }], { items: [{ id: "b" }, { id: "c" }] })).toEqual([
+      { id: "a" },
+      { id: "b" },
+      { id: "c" },
+    ])
+  })
+
+  it("replaces records that moved onto the new page instead of repeating them", () => {
+    const loaded = [
+      { id: "a", name: "old" },
+      { id: "b", name: "b" },
+    ]
+    expect(
+      mergePage(loaded, {
+        items: [
+          { id: "a", name: "new" },
+          { id: "c", name: "c" },
+        ],
+      }),
+    ).toEqual([
+      { id: "a", name: "new" },
+      { id: "b", name: "b" },
+      { id: "c", name: "c" },
+    ])
+  })
+
+  it("keeps records without an id and tolerates a missing item list", () => {
+    expect(mergePage([{ id: null }], { items: [{}, { id: null }] })).toHaveLength(3)
+    expect(mergePage([{ id: "a" }], { items: null })).toEqual([{ id: "a" }])
+  })
+})
+
+describe("hasMorePages", () => {
+  it("prefers hasNextPage and falls back to totalPages", () => {
+    expect(hasMorePages({ hasNextPage: false, totalPages: 3 }, 1)).toBe(false)
+    expect(hasMorePages({ totalPages: 3 }, 2)).toBe(true)
+    expect(hasMorePages({ totalPages: 3 }, 3)).toBe(false)
+    expect(hasMorePages({}, 1)).toBe(false)
+  })
+})
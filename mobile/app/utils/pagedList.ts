@@ -0,0 +1,48 @@
+/** The shape shared by every `*PagedResult` the API returns. */
+export type PagedResult<T> = {
+  items?: T[] | null
+  totalCount?: number
+  pageNumber?: number
+  totalPages?: number
+  hasNextPage?: boolean
+}
+
+/** List items are told apart by `id`; records without one are kept as they come. */
+export type Identified = { id?: string | null }
+
+/**
+ * Adds a page to the items loaded so far. Records the server moved onto this page since
+ * an earlier one was loaded, e.g. because new ones were added in front, replace their
+ * earlier copy instead of showing up twice.
+ *
+ * @param loaded The items of the pages before this one.
+ * @param page The page that just arrived.
+ */
+export function mergePage<T extends Identified>(loaded: T[], page: PagedResult<T>): T[] {
+  const merged = [...loaded]
+  const indexById = new Map<string, number>()
+  merged.forEach((item, index) => item.id && indexById.set(item.id, index))
+
+  for (const item of page.items ?? []) {
+    const index = item.id ? indexById.get(item.id) : undefined
+    if (index !== undefined) {
+      merged[index] = item
+    } else {
+      if (item.id) indexById.set(item.id, merged.length)
+      merged.push(item)
+    }
+  }
+  return merged
+}
+
+/**
+ * Whether another page follows `pageNumber`. Prefers `hasNextPage`, falling back to
+ * `totalPages` for responses that leave it out.
+ *
+ * @param page The page that just arrived.
+ * @param pageNumber The page number it was requested as.
+ */
+export function hasMorePages(page: PagedResult<unknown>, pageNumber: number): boolean {
+  if (page.hasNextPage !== undefined) return page.hasNextPage
+  return page.totalPages !== undefined && pageNumber < page.totalPages
+}
@@ -0,0 +1,96 @@
+import {
+  emptyParameterForm,
+  limitsChanged,
+  type ParameterFormValues,
+  parameterToForm,
+  toggleActiveDto,
+  toUpdateParameterDto,
+  validateParameterForm,
+} from "./parameterForm"
+
+const VALID: ParameterFormValues = {
+  ...emptyParameterForm(),
+  name: " Nitrate ",
+  unit: "mg/L",
+  whoThreshold: "50",
+  minValue: "0",
+  maxValue: "100,5",
+}
+
+const NITRATE = {
+  id: "p-1",
+  name: "Nitrate",
+  unit: "mg/L",
+  whoThreshold: 50,
+  minValue: 0,
+  maxValue: 100.5,
+  description: null,
+  isActive: true,
+}
+
+describe("validateParameterForm", () => {
+  it("accepts a complete form", () => {
+    expect(validateParameterForm(VALID)).toEqual({})
+  })
+
+  it("accepts blank limits and an equal minimum and maximum", () => {
+    expect(
+      validateParameterForm({ ...VALID, whoThreshold: "", minValue: "5", maxValue: "5" }),
+    ).toEqual({})
+  })
+
+  it("mirrors the backend rules", () => {
+    expect(
+      validateParameterForm({
+        ...VALID,
+        name: " ",
+        unit: "x".repeat(21),
+        whoThreshold: "-1",
+        minValue: "abc",
+      }),
+    ).toEqual({
+      name: "parameterEditScreen:errors.nameRequired",
+      unit: "parameterEditScreen:errors.tooLong",
+      whoThreshold: "parameterEditScreen:errors.negativeThreshold",
+      minValue: "parameterEditScreen:errors.number",
+    })
+  })
+
+  it("rejects a minimum above the maximum", () => {
+    expect(validateParameterForm({ ...VALID, minValue: "10", maxValue: "9.5" })).toEqual({
+      maxValue: "parameterEditScreen:errors.minAboveMax",
+    })
+  })
+})
+
+describe("limitsChanged", () => {
+  it("ignores edits to anything but the limits", () => {
+    expect(limitsChanged(NITRATE, { ...parameterToForm(NITRATE), description: "Notes" })).toBe(
+      false,
+    )
+  })
+
+  it("detects a changed or cleared limit", () => {
+    expect(limitsChanged(NITRATE, { ...parameterToForm(NITRATE), whoThreshold: "45" })).toBe(true)
+    expect(limitsChanged(NITRATE, { ...parameterToForm(NITRATE), minValue: "" })).toBe(true)
+  })
+})
+
+describe("parameter DTOs", () => {
+  it("trims text and parses limits", () => {
+    expect(toUpdateParameterDto({ ...VALID, whoThreshold: "" }, false)).toEqual({
+      name: "Nitrate",
+      unit: "mg/L",
+      whoThreshold: null,
+      minValue: 0,
+      maxValue: 100.5,
+      description: null,
+      isActive: false,
+    })
+  })
+
+  it("keeps everything but isActive when toggling", () => {
+    const { id: _id, ...rest } = NITRATE
+    expect(toggleActiveDto(NITRATE, false)).toEqual({ ...rest, isActive: false })
+  })
+})
@@ -0,0 +1,126 @@
+import type { TxKeyPath } from "@/i18n"
+import type { CreateParameterDto, ParameterDto, UpdateParameterDto } from "@/services/api/types"
+
+/** Text-field friendly shape of a parameter while it is being edited. */
+export type ParameterFormValues = {
+  name: string
+  unit: string
+  whoThreshold: string
+  minValue: string
+  maxValue: string
+  description: string
+}
+
+export type ParameterFormErrors = Partial<Record<keyof ParameterFormValues, TxKeyPath>>
+
+export function emptyParameterForm(): ParameterFormValues {
+  return { name: "", unit: "", whoThreshold: "", minValue: "", maxValue: "", description: "" }
+}
+
+export function parameterToForm(parameter: ParameterDto): ParameterFormValues {
+  return {
+    name: parameter.name ?? "",
+    unit: parameter.unit ?? "",
+    whoThreshold: parameter.whoThreshold?.toString() ?? "",
+    minValue: parameter.minValue?.toString() ?? "",
+    maxValue: parameter.maxValue?.toString() ?? "",
+    description: parameter.description ?? "",
+  }
+}
+
+/** Parses a limit field, accepting a comma as the decimal separator. `null` when blank. */
+function parseLimit(value: string): number | null {
+  return value.trim() === "" ? null : Number(value.trim().replace(",", "."))
+}
+
+/**
+ * Mirrors the backend's `CreateParameterDtoValidator`, except that a minimum equal to
+ * the maximum is allowed here and left to the server to judge.
+ *
+ * @param values The form values.
+ */
+export function validateParameterForm(values: ParameterFormValues): ParameterFormErrors {
+  const errors: ParameterFormErrors = {}
+
+  const name = values.name.trim()
+  if (!name) errors.name = "parameterEditScreen:errors.nameRequired"
+  else if (name.length > 100) errors.name = "parameterEditScreen:errors.tooLong"
+
+  const unit = values.unit.trim()
+  if (!unit) errors.unit = "parameterEditScreen:errors.unitRequired"
+  else if (unit.length > 20) errors.unit = "parameterEditScreen:errors.tooLong"
+
+  const whoThreshold = parseLimit(values.whoThreshold)
+  if (whoThreshold !== null && isNaN(whoThreshold)) {
+    errors.whoThreshold = "parameterEditScreen:errors.number"
+  } else if (whoThreshold !== null && whoThreshold < 0) {
+    errors.whoThreshold = "parameterEditScreen:errors.negativeThreshold"
+  }
+
+  const minValue = parseLimit(values.minValue)
+  const maxValue = parseLimit(values.maxValue)
+  if (minValue !== null && isNaN(minValue)) errors.minValue = "parameterEditScreen:errors.number"
+  if (maxValue !== null && isNaN(maxValue)) errors.maxValue = "parameterEditScreen:errors.number"
+  if (!errors.minValue && !errors.maxValue && minValue !== null && maxValue !== null) {
+    if (minValue > maxValue) errors.maxValue = "parameterEditScreen:errors.minAboveMax"
+  }
+
+  if (values.description.length > 500) errors.description = "parameterEditScreen:errors.tooLong"
+
+  return errors
+}
+
+/**
+ * True when saving would change the limits compliance is judged against. Results keep the
+ * status they were recorded with, so the same value can be judged differently afterwards.
+ *
+ * @param original The parameter as loaded from the server.
+ * @param values The edited form values.
+ */
+export function limitsChanged(original: ParameterDto, values: ParameterFormValues): boolean {
+  return (
+    (original.whoThreshold ?? null) !== parseLimit(values.whoThreshold) ||
+    (original.minValue ?? null) !== parseLimit(values.minValue) ||
+    (original.maxValue ?? null) !== parseLimit(values.maxValue)
+  )
+}
+
+/** Call only after `validateParameterForm` returned no errors. */
+export function toCreateParameterDto(values: ParameterFormValues): CreateParameterDto {
+  const description = values.description.trim()
+  return {
+    name: values.name.trim(),
+    unit: values.unit.trim(),
+    whoThreshold: parseLimit(values.whoThreshold),
+    minValue: parseLimit(values.minValue),
+    maxValue: parseLimit(values.maxValue),
+    description: description === "" ? null : description,
+  }
+}
+
+/** Call only after `validateParameterForm` returned no errors. */
+export function toUpdateParameterDto(
+  values: ParameterFormValues,
+  isActive: boolean,
+): UpdateParameterDto {
+  return { ...toCreateParameterDto(values), isActive }
+}
+
+/**
+ * The update that only flips whether the parameter is offered for new results, keeping
+ * everything else as the server has it.
+ *
+ * @param parameter The parameter as loaded from the server.
+ * @param isActive Whether it should be active afterwards.
+ */
+export function toggleActiveDto(parameter: ParameterDto, isActive: boolean): UpdateParameterDto {
+  return {
+    name: parameter.name ?? "",
+    unit: parameter.unit ?? "",
+    whoThreshold: parameter.whoThreshold ?? null,
+    minValue: parameter.minValue ?? null,
+    maxValue: parameter.maxValue ?? null,
+    description: parameter.description ?? null,
+    isActive,
+  }
+}
@@ -0,0 +1,76 @@
+import {
+  emptyChangePasswordForm,
+  resetPasswordFormFrom,
+  toResetPasswordRequest,
+  validateChangePasswordForm,
+  validateResetPasswordForm,
+} from "./passwordForm"
+
+describe("validateChangePasswordForm", () => {
+  const VALID = {
+    currentPassword: "Old#Secret1",
+    newPassword: "New#Secret1",
+    confirmPassword: "New#Secret1",
+  }
+
+  it("accepts a complete form", () => {
+    expect(validateChangePasswordForm(VALID)).toEqual({})
+  })
+
+  it("requires the current password and a matching confirmation", () => {
+    expect(validateChangePasswordForm(emptyChangePasswordForm())).toEqual({
+      currentPassword: "passwordFields:errors.currentRequired",
+      newPassword: "userCreateScreen:errors.passwordTooShort",
+    })
+    expect(validateChangePasswordForm({ ...VALID, confirmPassword: "New#Secret2" })).toEqual({
+      confirmPassword: "passwordFields:errors.mismatch",
+    })
+  })
+
+  it("rejects reusing the current password", () => {
+    expect(
+      validateChangePasswordForm({
+        ...VALID,
+        newPassword: "Old#Secret1",
+        confirmPassword: "Old#Secret1",
+      }),
+    ).toEqual({ newPassword: "passwordFields:errors.unchanged" })
+  })
+})
+
+describe("validateResetPasswordForm", () => {
+  it("prefills the email and code from a reset link", () => {
+    expect(resetPasswordFormFrom({ email: "tech@example.org", code: "abc" })).toEqual({
+      email: "tech@example.org",
+      code: "abc",
+      newPassword: "",
+      confirmPassword: "",
+    })
+  })
+
+  it("requires an email, a code and a strong new password", () => {
+    expect(
+      validateResetPasswordForm({ ...resetPasswordFormFrom(), newPassword: "Secret1234" }),
+    ).toEqual({
+      email: "userCreateScreen:errors.email",
+      code: "passwordFields:errors.codeRequired",
+      newPassword: "userCreateScreen:errors.passwordWeak",
+      confirmPassword: "passwordFields:errors.mismatch",
+    })
+  })
+
+  it("trims the email and code but not the password", () => {
+    const values = {
+      email: " tech@example.org ",
+      code: " abc\n",
+      newPassword: " New#Secret1",
+      confirmPassword: " New#Secret1",
+    }
+    expect(validateResetPasswordForm(values)).toEqual({})
+    expect(toResetPasswordRequest(values)).toEqual({
+      email: "tech@example.org",
+      code: "abc",
+      newPassword: " New#Secret1",
+    })
+  })
+})
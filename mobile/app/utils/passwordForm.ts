@@ -0,0 +1,87 @@
+import type { TxKeyPath } from "@/i18n"
+import type { ChangePasswordRequest, ResetPasswordRequest } from "@/services/api/types"
+
+import { EMAIL_PATTERN, passwordError } from "./userForm"
+
+export type ChangePasswordFormValues = {
+  currentPassword: string
+  newPassword: string
+  confirmPassword: string
+}
+
+export type ResetPasswordFormValues = {
+  email: string
+  code: string
+  newPassword: string
+  confirmPassword: string
+}
+
+export type PasswordFormErrors<T> = Partial<Record<keyof T, TxKeyPath>>
+
+export function emptyChangePasswordForm(): ChangePasswordFormValues {
+  return { currentPassword: "", newPassword: "", confirmPassword: "" }
+}
+
+/**
+ * A reset link fills in the email and code; typed in by hand, both start out empty.
+ *
+ * @param params The `ResetPassword` route params.
+ */
+export function resetPasswordFormFrom(params?: {
+  email?: string
+  code?: string
+}): ResetPasswordFormValues {
+  return {
+    email: params?.email ?? "",
+    code: params?.code ?? "",
+    newPassword: "",
+    confirmPassword: "",
+  }
+}
+
+/** The rules a new password has to meet, shared by the change and reset forms. */
+function newPasswordErrors(values: { newPassword: string; confirmPassword: string }) {
+  const errors: PasswordFormErrors<{ newPassword: string; confirmPassword: string }> = {}
+  const weak = passwordError(values.newPassword)
+  if (weak) errors.newPassword = weak
+  if (values.confirmPassword !== values.newPassword) {
+    errors.confirmPassword = "passwordFields:errors.mismatch"
+  }
+  return errors
+}
+
+export function validateChangePasswordForm(
+  values: ChangePasswordFormValues,
+): PasswordFormErrors<ChangePasswordFormValues> {
+  const errors: PasswordFormErrors<ChangePasswordFormValues> = newPasswordErrors(values)
+  if (!values.currentPassword) errors.currentPassword = "passwordFields:errors.currentRequired"
+  else if (values.newPassword === values.currentPassword) {
+    errors.newPassword ??= "passwordFields:errors.unchanged"
+  }
+  return errors
+}
+
+/** Used on its own by the forgot-password screen, which asks only for the email. */
+export function emailError(email: string): TxKeyPath | undefined {
+  return EMAIL_PATTERN.test(email.trim()) ? undefined : "userCreateScreen:errors.email"
+}
+
+export function validateResetPasswordForm(
+  values: ResetPasswordFormValues,
+): PasswordFormErrors<ResetPasswordFormValues> {
+  const errors: PasswordFormErrors<ResetPasswordFormValues> = newPasswordErrors(values)
+  const email = emailError(values.email)
+  if (email) errors.email = email
+  if (!values.code.trim()) errors.code = "passwordFields:errors.codeRequired"
+  return errors
+}
+
+/** Call only after `validateChangePasswordForm` returned no errors. */
+export function toChangePasswordRequest(values: ChangePasswordFormValues): ChangePasswordRequest {
+  return { currentPassword: values.currentPassword, newPassword: values.newPassword }
+}
+
+/** Call only after `validateResetPasswordForm` returned no errors. */
+export function toResetPasswordRequest(values: ResetPasswordFormValues): ResetPasswordRequest {
+  return { email: values.email.trim(), code: values.code.trim(), newPassword: values.newPassword }
+}
@@ -0,0 +1,29 @@
+import { UserRoles } from "@/services/api/enums"
+
+import { can } from "./permissions"
+
+const { viewer, technician, admin } = UserRoles.byKey
+
+describe("can", () => {
+  it("keeps Viewers read-only", () => {
+    expect(can("sample:create", viewer)).toBe(false)
+    expect(can("testResult:edit", viewer)).toBe(false)
+  })
+
+  it("lets Technicians create and edit but not delete", () => {
+    expect(can("sample:edit", technician)).toBe(true)
+    expect(can("testResult:create", technician)).toBe(true)
+    expect(can("sample:delete", technician)).toBe(false)
+    expect(can("parameter:manage", technician)).toBe(false)
+  })
+
+  it("lets Admins do everything", () => {
+    expect(can("sample:delete", admin)).toBe(true)
+    expect(can("audit:view", admin)).toBe(true)
+  })
+
+  it("allows nothing without a role", () => {
+    expect(can("sample:create", undefined)).toBe(false)
+    expect(can("sample:create", null)).toBe(false)
+  })
+})
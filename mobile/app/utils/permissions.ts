@@ -0,0 +1,34 @@
+import { UserRoles } from "@/services/api/enums"
+import type { UserRole } from "@/services/api/types"
+
+/**
+ * The least role each action needs, mirroring the backend's authorization policies
+ * (`TechnicianOrAbove`, `AdminOnly`). Reading needs no permission: every lab member,
+ * including a Viewer, can see the lab's records.
+ */
+const MINIMUM_ROLE = {
+  "sample:create": UserRoles.byKey.technician,
+  "sample:edit": UserRoles.byKey.technician,
+  "sample:delete": UserRoles.byKey.admin,
+  "testResult:create": UserRoles.byKey.technician,
+  "testResult:edit": UserRoles.byKey.technician,
+  "testResult:delete": UserRoles.byKey.admin,
+  "parameter:manage": UserRoles.byKey.admin,
+  "lab:manage": UserRoles.byKey.admin,
+  "user:manage": UserRoles.byKey.admin,
+  "audit:view": UserRoles.byKey.admin,
+  "admin:view": UserRoles.byKey.admin,
+} as const satisfies Record<string, UserRole>
+
+export type Permission = keyof typeof MINIMUM_ROLE
+
+/**
+ * Whether `role` may perform `permission`. Roles are ordered Viewer < Technician < Admin.
+ * Without a role, e.g. before a lab is chosen, nothing is allowed.
+ *
+ * @param permission The action to check, e.g. `"sample:delete"`.
+ * @param role The user's role in the current lab.
+ */
+export function can(permission: Permission, role: UserRole | null | undefined): boolean {
+  return role != null && role >= MINIMUM_ROLE[permission]
+}
@@ -0,0 +1,74 @@
+import {
+  emptySampleForm,
+  type SampleFormValues,
+  toCreateSampleDto,
+  toUpdateSampleDto,
+  validateSampleForm,
+} from "./sampleForm"
+
+const NOW = new Date(2026, 0, 15, 12, 0)
+
+const VALID: SampleFormValues = {
+  ...emptySampleForm(NOW),
+  collectionDate: "2026-01-15 08:30",
+  collectorName: "  Field Collector ",
+  locationLatitude: "34,02",
+  locationLongitude: "-6.83",
+  locationDescription: "Well 4",
+}
+
+describe("validateSampleForm", () => {
+  it("accepts a complete form", () => {
+    expect(validateSampleForm(VALID, NOW)).toEqual({})
+  })
+
+  it("mirrors the backend rules", () => {
+    expect(
+      validateSampleForm(
+        {
+          ...VALID,
+          collectorName: " ",
+          locationLatitude: "91",
+          locationLongitude: "",
+          collectionDate: "2026-01-15 12:30",
+          notes: "x".repeat(1001),
+        },
+        NOW,
+      ),
+    ).toEqual({
+      collectorName: "sampleEditScreen:errors.collectorRequired",
+      locationLatitude: "sampleEditScreen:errors.latitude",
+      locationLongitude: "sampleEditScreen:errors.longitude",
+      collectionDate: "sampleEditScreen:errors.dateInFuture",
+      notes: "sampleEditScreen:errors.tooLong",
+    })
+  })
+
+  it("rejects dates it cannot parse", () => {
+    expect(validateSampleForm({ ...VALID, collectionDate: "15/01/2026" }, NOW)).toEqual({
+      collectionDate: "sampleEditScreen:errors.dateFormat",
+    })
+  })
+})
+
+describe("toCreateSampleDto / toUpdateSampleDto", () => {
+  it("trims text, parses coordinates and nulls empty optional fields", () => {
+    expect(toCreateSampleDto(VALID, "lab-1")).toEqual({
+      type: 0,
+      collectionDate: new Date(2026, 0, 15, 8, 30).toISOString(),
+      collectorName: "Field Collector",
+      locationLatitude: 34.02,
+      locationLongitude: -6.83,
+      locationDescription: "Well 4",
+      locationHierarchy: null,
+      notes: null,
+      labId: "lab-1",
+    })
+  })
+
+  it("carries status and version instead of the lab", () => {
+    const dto = toUpdateSampleDto({ ...VALID, status: 1 }, 7)
+    expect(dto).toMatchObject({ status: 1, version: 7, collectorName: "Field Collector" })
+    expect(dto).not.toHaveProperty("labId")
+  })
+})
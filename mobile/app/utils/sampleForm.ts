@@ -0,0 +1,134 @@
+import { format } from "date-fns/format"
+import { isValid } from "date-fns/isValid"
+import { parse } from "date-fns/parse"
+import { parseISO } from "date-fns/parseISO"
+
+import type { TxKeyPath } from "@/i18n"
+import { SampleStatuses, SampleTypes } from "@/services/api/enums"
+import type {
+  CreateSampleDto,
+  SampleDto,
+  SampleStatus,
+  SampleType,
+  UpdateSampleDto,
+} from "@/services/api/types"
+
+/** Format used for the collection date text field. */
+export const SAMPLE_DATE_FORMAT = "yyyy-MM-dd HH:mm"
+
+/** Text-field friendly shape of a sample while it is being edited. */
+export type SampleFormValues = {
+  type: SampleType
+  status: SampleStatus
+  collectionDate: string
+  collectorName: string
+  locationLatitude: string
+  locationLongitude: string
+  locationDescription: string
+  locationHierarchy: string
+  notes: string
+}
+
+export type SampleFormErrors = Partial<Record<keyof SampleFormValues, TxKeyPath>>
+
+export function emptySampleForm(now = new Date()): SampleFormValues {
+  return {
+    type: SampleTypes.byKey.drinkingWater,
+    status: SampleStatuses.byKey.pending,
+    collectionDate: format(now, SAMPLE_DATE_FORMAT),
+    collectorName: "",
+    locationLatitude: "",
+    locationLongitude: "",
+    locationDescription: "",
+    locationHierarchy: "",
+    notes: "",
+  }
+}
+
+export function sampleToForm(sample: SampleDto): SampleFormValues {
+  return {
+    type: sample.type ?? SampleTypes.byKey.drinkingWater,
+    status: sample.status ?? SampleStatuses.byKey.pending,
+    collectionDate: sample.collectionDate
+      ? format(parseISO(sample.collectionDate), SAMPLE_DATE_FORMAT)
+      : "",
+    collectorName: sample.collectorName ?? "",
+    locationLatitude: sample.locationLatitude?.toString() ?? "",
+    locationLongitude: sample.locationLongitude?.toString() ?? "",
+    locationDescription: sample.locationDescription ?? "",
+    locationHierarchy: sample.locationHierarchy ?? "",
+    notes: sample.notes ?? "",
+  }
+}
+
+function parseCollectionDate(value: string): Date {
+  return parse(value.trim(), SAMPLE_DATE_FORMAT, new Date())
+}
+
+function parseCoordinate(value: string): number {
+  return value.trim() === "" ? NaN : Number(value.trim().replace(",", "."))
+}
+
+/**
+ * Mirrors the backend's `CreateSampleDtoValidator` so mistakes are caught before
+ * the request (or the outbox) ever sees them.
+ *
+ * @param values The form values.
+ * @param now The current time, used to reject future collection dates.
+ */
+export function validateSampleForm(values: SampleFormValues, now = new Date()): SampleFormErrors {
+  const errors: SampleFormErrors = {}
+
+  const collectorName = values.collectorName.trim()
+  if (!collectorName) errors.collectorName = "sampleEditScreen:errors.collectorRequired"
+  else if (collectorName.length > 100) errors.collectorName = "sampleEditScreen:errors.tooLong"
+
+  const latitude = parseCoordinate(values.locationLatitude)
+  if (isNaN(latitude) || latitude < -90 || latitude > 90) {
+    errors.locationLatitude = "sampleEditScreen:errors.latitude"
+  }
+
+  const longitude = parseCoordinate(values.locationLongitude)
+  if (isNaN(longitude) || longitude < -180 || longitude > 180) {
+    errors.locationLongitude = "sampleEditScreen:errors.longitude"
+  }
+
+  const collectionDate = parseCollectionDate(values.collectionDate)
+  if (!isValid(collectionDate)) errors.collectionDate = "sampleEditScreen:errors.dateFormat"
+  else if (collectionDate > now) errors.collectionDate = "sampleEditScreen:errors.dateInFuture"
+
+  if (values.locationDescription.length > 200) {
+    errors.locationDescription = "sampleEditScreen:errors.tooLong"
+  }
+  if (values.locationHierarchy.length > 500) {
+    errors.locationHierarchy = "sampleEditScreen:errors.tooLong"
+  }
+  if (values.notes.length > 1000) errors.notes = "sampleEditScreen:errors.tooLong"
+
+  return errors
+}
+
+function optional(value: string): string | null {
+  return value.trim() === "" ? null : value.trim()
+}
+
+/** Call only after `validateSampleForm` returned no errors. */
+export function toCreateSampleDto(values: SampleFormValues, labId: string): CreateSampleDto {
+  return {
+    type: values.type,
+    collectionDate: parseCollectionDate(values.collectionDate).toISOString(),
+    collectorName: values.collectorName.trim(),
+    locationLatitude: parseCoordinate(values.locationLatitude),
+    locationLongitude: parseCoordinate(values.locationLongitude),
+    locationDescription: optional(values.locationDescription),
+    locationHierarchy: optional(values.locationHierarchy),
+    notes: optional(values.notes),
+    labId,
+  }
+}
+
+/** Call only after `validateSampleForm` returned no errors. */
+export function toUpdateSampleDto(values: SampleFormValues, version: number): UpdateSampleDto {
+  const { labId: _labId, ...dto } = toCreateSampleDto(values, "")
+  return { ...dto, status: values.status, version }
+}
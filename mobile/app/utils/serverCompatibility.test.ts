@@ -0,0 +1,37 @@
+import { parseVersion, serverCompatibility } from "./serverCompatibility"
+
+const SUPPORTED = { minVersion: "0.2.0", maxVersion: "1.0.0", apiVersion: "v1" }
+
+function server(version: string, apiVersion = "v1") {
+  return { version, apiVersion, buildDate: "unknown", environment: "Production" }
+}
+
+describe("parseVersion", () => {
+  it("ignores prerelease tags and build metadata", () => {
+    expect(parseVersion("0.1.0-alpha")).toEqual([0, 1, 0])
+    expect(parseVersion("1.4.2+3f2a9c")).toEqual([1, 4, 2])
+    expect(parseVersion("2.1")).toEqual([2, 1, 0])
+    expect(parseVersion("unknown")).toBeUndefined()
+  })
+})
+
+describe("serverCompatibility", () => {
+  it("accepts versions inside the range", () => {
+    expect(serverCompatibility(server("0.2.0-beta"), SUPPORTED)).toBe("compatible")
+    expect(serverCompatibility(server("0.9.12"), SUPPORTED)).toBe("compatible")
+  })
+
+  it("blocks servers older than the range and asks for an update above it", () => {
+    expect(serverCompatibility(server("0.1.9"), SUPPORTED)).toBe("serverIncompatible")
+    expect(serverCompatibility(server("1.0.0"), SUPPORTED)).toBe("updateRequired")
+  })
+
+  it("compares the API version first", () => {
+    expect(serverCompatibility(server("0.5.0", "v2"), SUPPORTED)).toBe("updateRequired")
+    expect(serverCompatibility(server("0.5.0", "v0"), SUPPORTED)).toBe("serverIncompatible")
+  })
+
+  it("doesn't block on a version it can't read", () => {
+    expect(serverCompatibility(server("dev-build"), SUPPORTED)).toBe("compatible")
+  })
+})
@@ -0,0 +1,55 @@
+import type { ConfigBaseProps } from "@/config/config.base"
+import type { VersionResponse } from "@/services/api/types"
+
+/**
+ * - `compatible`: the app can talk to the server.
+ * - `updateRequired`: the server is newer than this build supports; the app needs updating.
+ * - `serverIncompatible`: the server is older than this build needs, or speaks another API.
+ */
+export type ServerCompatibility = "compatible" | "updateRequired" | "serverIncompatible"
+
+export type SupportedServer = ConfigBaseProps["SUPPORTED_SERVER"]
+
+/**
+ * Reads `major.minor.patch`, dropping any prerelease tag or build metadata, so
+ * `0.1.0-alpha` counts as `0.1.0`. Missing parts are zero.
+ *
+ * @param version A version string such as the server's `version`.
+ */
+export function parseVersion(version: string): [number, number, number] | undefined {
+  const match = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:[-+].*)?$/.exec(version.trim())
+  if (!match) return undefined
+  return [Number(match[1]), Number(match[2] ?? 0), Number(match[3] ?? 0)]
+}
+
+function compareVersions(a: [number, number, number], b: [number, number, number]) {
+  return a[0] - b[0] || a[1] - b[1] || a[2] - b[2]
+}
+
+/**
+ * Compares the server's version to the range this build supports. A version that can't
+ * be read isn't a known mismatch, so it doesn't block the app.
+ *
+ * @param server What `/api/version` returned.
+ * @param supported The range from `Config.SUPPORTED_SERVER`.
+ */
+export function serverCompatibility(
+  server: VersionResponse,
+  supported: SupportedServer,
+): ServerCompatibility {
+  if (server.apiVersion !== supported.apiVersion) {
+    const serverApi = parseVersion(server.apiVersion ?? "")
+    const appApi = parseVersion(supported.apiVersion)
+    return serverApi && appApi && compareVersions(serverApi, appApi) > 0
+      ? "updateRequired"
+      : "serverIncompatible"
+  }
+
+  const version = parseVersion(server.version ?? "")
+  const min = parseVersion(supported.minVersion)
+  const max = parseVersion(supported.maxVersion)
+  if (!version) return "compatible"
+  if (min && compareVersions(version, min) < 0) return "serverIncompatible"
+  if (max && compareVersions(version, max) >= 0) return "updateRequired"
+  return "compatible"
+}
@@ -0,0 +1,58 @@
+import { diagnosticsReport, runCheck } from "./serverDiagnostics"
+
+function clock(...times: number[]) {
+  return () => times.shift() ?? 0
+}
+
+describe("runCheck", () => {
+  it("summarises a readiness answer with its checks", async () => {
+    const check = await runCheck(
+      "ready",
+      async () => ({
+        kind: "ok",
+        data: { status: "Healthy", checks: { database: "Connected", pendingMigrations: "None" } },
+      }),
+      clock(1000, 1042),
+    )
+    expect(check).toEqual({
+      name: "ready",
+      ok: true,
+      elapsedMs: 42,
+      detail: "Healthy · database: Connected · pendingMigrations: None",
+    })
+  })
+
+  it("reports the problem kind when the probe fails", async () => {
+    const check = await runCheck("ready", async () => ({ kind: "server" }), clock(0, 5))
+    expect(check).toEqual({ name: "ready", ok: false, elapsedMs: 5, detail: "server" })
+  })
+
+  it("shows the server version", async () => {
+    const check = await runCheck(
+      "version",
+      async () => ({
+        kind: "ok",
+        data: { version: "0.1.0-alpha", apiVersion: "v1", buildDate: "unknown", environment: "" },
+      }),
+      clock(0, 1),
+    )
+    expect(check.detail).toBe("0.1.0-alpha · v1")
+  })
+})
+
+describe("diagnosticsReport", () => {
+  it("lists every check after the context", () => {
+    const report = diagnosticsReport(
+      [{ name: "live", ok: true, elapsedMs: 12, detail: "Healthy" }],
+      { apiUrl: "https://lab.example.org", appVersion: "1.0.0", checkedAt: new Date(0) },
+    )
+    expect(report).toBe(
+      [
+        "Server: https://lab.example.org",
+        "App: 1.0.0",
+        "Checked: 1970-01-01T00:00:00.000Z",
+        "live: OK (12 ms) Healthy",
+      ].join("\n"),
+    )
+  })
+})
@@ -0,0 +1,66 @@
+import type { GeneralApiProblem } from "@/services/api/apiProblem"
+import type { HealthResponse, VersionResponse } from "@/services/api/types"
+
+export type DiagnosticCheckName = "live" | "startup" | "ready" | "version"
+
+export type DiagnosticCheck = {
+  name: DiagnosticCheckName
+  ok: boolean
+  /** How long the request took, retries included. */
+  elapsedMs: number
+  /** The status the server reported, or the kind of problem the request ran into. */
+  detail: string
+}
+
+/**
+ * Times one probe and summarises its answer.
+ *
+ * @param name Which probe this is.
+ * @param call Sends the request, e.g. `() => api.getReadiness()`.
+ * @param now The clock; tests pass their own.
+ */
+export async function runCheck(
+  name: DiagnosticCheckName,
+  call: () => Promise<{ kind: "ok"; data: HealthResponse | VersionResponse } | GeneralApiProblem>,
+  now: () => number = Date.now,
+): Promise<DiagnosticCheck> {
+  const started = now()
+  const result = await call()
+  const elapsedMs = now() - started
+
+  if (result.kind !== "ok") return { name, ok: false, elapsedMs, detail: result.kind }
+  return { name, ok: true, elapsedMs, detail: describe(result.data) }
+}
+
+function describe(data: HealthResponse | VersionResponse): string {
+  if ("version" in data) {
+    return [data.version, data.apiVersion, data.environment].filter(Boolean).join(" · ")
+  }
+  const checks = Object.entries(data.checks ?? {}).map(([name, value]) => {
+    const status =
+      typeof value === "object" && value !== null && "status" in value ? value.status : value
+    return `${name}: ${String(status)}`
+  })
+  return [data.status, ...checks].filter(Boolean).join(" · ")
+}
+
+/**
+ * The plain-text summary a user can send to support.
+ *
+ * @param checks The results of `runCheck`.
+ * @param context Where and when the checks ran.
+ */
+export function diagnosticsReport(
+  checks: DiagnosticCheck[],
+  context: { apiUrl: string; appVersion?: string | null; checkedAt: Date },
+): string {
+  return [
+    `Server: ${context.apiUrl}`,
+    `App: ${context.appVersion ?? "unknown"}`,
+    `Checked: ${context.checkedAt.toISOString()}`,
+    ...checks.map(
+      (check) =>
+        `${check.name}: ${check.ok ? "OK" : "FAILED"} (${check.elapsedMs} ms) ${check.detail}`,
+    ),
+  ].join("\n")
+}
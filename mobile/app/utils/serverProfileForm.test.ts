@@ -0,0 +1,43 @@
+import {
+  emptyServerProfileForm,
+  normalizeServerUrl,
+  toServerProfile,
+  validateServerProfileForm,
+} from "./serverProfileForm"
+
+const PROFILES = [{ id: "default", name: "Quater", url: "https://api.quater.test" }]
+
+describe("normalizeServerUrl", () => {
+  it("trims whitespace and trailing slashes", () => {
+    expect(normalizeServerUrl("  https://lab.example.org/ ")).toBe("https://lab.example.org")
+    expect(normalizeServerUrl("http://10.0.2.2:5000/quater//")).toBe("http://10.0.2.2:5000/quater")
+  })
+
+  it("rejects anything but absolute http(s) URLs", () => {
+    expect(normalizeServerUrl("lab.example.org")).toBeUndefined()
+    expect(normalizeServerUrl("ftp://lab.example.org")).toBeUndefined()
+    expect(normalizeServerUrl("https://lab.example.org?x=1")).toBeUndefined()
+    expect(normalizeServerUrl("")).toBeUndefined()
+  })
+})
+
+describe("validateServerProfileForm", () => {
+  it("requires a name and a URL", () => {
+    expect(validateServerProfileForm(emptyServerProfileForm(), PROFILES)).toEqual({
+      name: "serverSelectScreen:errors.nameRequired",
+      url: "serverSelectScreen:errors.url",
+    })
+  })
+
+  it("rejects a server that was already added", () => {
+    expect(
+      validateServerProfileForm({ name: "Again", url: "https://API.quater.test/" }, PROFILES),
+    ).toEqual({ url: "serverSelectScreen:errors.duplicate" })
+  })
+
+  it("builds the profile from a valid form", () => {
+    const values = { name: " Partner lab ", url: "https://partner.test/ " }
+    expect(validateServerProfileForm(values, PROFILES)).toEqual({})
+    expect(toServerProfile(values)).toEqual({ name: "Partner lab", url: "https://partner.test" })
+  })
+})
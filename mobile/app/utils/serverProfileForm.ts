@@ -0,0 +1,53 @@
+import type { TxKeyPath } from "@/i18n"
+import type { ServerProfile } from "@/stores/serverProfileStore"
+
+/** Shape of the add-server form. */
+export type ServerProfileFormValues = {
+  name: string
+  url: string
+}
+
+export type ServerProfileFormErrors = Partial<Record<keyof ServerProfileFormValues, TxKeyPath>>
+
+export function emptyServerProfileForm(): ServerProfileFormValues {
+  return { name: "", url: "" }
+}
+
+/**
+ * The URL as requests are built from it: trimmed and without trailing slashes, since
+ * routes start with one. `undefined` unless it is an absolute http(s) URL.
+ *
+ * @param url The URL as typed.
+ */
+export function normalizeServerUrl(url: string): string | undefined {
+  const trimmed = url.trim().replace(/\/+$/, "")
+  return /^https?:\/\/[^\s/?#]+(\/[^\s?#]*)?$/i.test(trimmed) ? trimmed : undefined
+}
+
+/**
+ * Catches what can be checked without contacting the server.
+ *
+ * @param values The form values.
+ * @param profiles The profiles already saved; a server can only be added once.
+ */
+export function validateServerProfileForm(
+  values: ServerProfileFormValues,
+  profiles: ServerProfile[],
+): ServerProfileFormErrors {
+  const errors: ServerProfileFormErrors = {}
+
+  if (!values.name.trim()) errors.name = "serverSelectScreen:errors.nameRequired"
+
+  const url = normalizeServerUrl(values.url)
+  if (!url) errors.url = "serverSelectScreen:errors.url"
+  else if (profiles.some((profile) => profile.url.toLowerCase() === url.toLowerCase())) {
+    errors.url = "serverSelectScreen:errors.duplicate"
+  }
+
+  return errors
+}
+
+/** Call only after `validateServerProfileForm` returned no errors. */
+export function toServerProfile(values: ServerProfileFormValues): Omit<ServerProfile, "id"> {
+  return { name: values.name.trim(), url: normalizeServerUrl(values.url) ?? "" }
+}
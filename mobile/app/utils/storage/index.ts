@@ -2,14 +2,21 @@ import { MMKV } from "react-native-mmkv"
 
 export const storage = new MMKV()
 
+/**
+ * The part of MMKV the helpers below use, so a store that only lives in memory can stand
+ * in for an instance.
+ */
+export type KeyValueStorage = Pick<MMKV, "getString" | "set" | "delete" | "clearAll" | "getAllKeys">
+
 /**
  * Loads a string from storage.
  *
  * @param key The key to fetch.
+ * @param instance The storage to use, e.g. `secureStorage`.
  */
-export function loadString(key: string): string | null {
+export function loadString(key: string, instance: KeyValueStorage = storage): string | null {
   try {
-    return storage.getString(key) ?? null
+    return instance.getString(key) ?? null
   } catch {
     // not sure why this would fail... even reading the RN docs I'm unclear
     return null
@@ -21,10 +28,15 @@ export function loadString(key: string): string | null {
  *
  * @param key The key to fetch.
  * @param value The value to store.
+ * @param instance The storage to use, e.g. `secureStorage`.
  */
-export function saveString(key: string, value: string): boolean {
+export function saveString(
+  key: string,
+  value: string,
+  instance: KeyValueStorage = storage,
+): boolean {
   try {
-    storage.set(key, value)
+    instance.set(key, value)
     return true
   } catch {
     return false
@@ -35,11 +47,12 @@ export function saveString(key: string, value: string): boolean {
  * Loads something from storage and runs it thru JSON.parse.
  *
  * @param key The key to fetch.
+ * @param instance The storage to use, e.g. `secureStorage`.
  */
-export function load<T>(key: string): T | null {
+export function load<T>(key: string, instance: KeyValueStorage = storage): T | null {
   let almostThere: string | null = null
   try {
-    almostThere = loadString(key)
+    almostThere = loadString(key, instance)
     return JSON.parse(almostThere ?? "") as T
   } catch {
     return (almostThere as T) ?? null
@@ -51,10 +64,11 @@ export function load<T>(key: string): T | null {
  *
  * @param key The key to fetch.
  * @param value The value to store.
+ * @param instance The storage to use, e.g. `secureStorage`.
  */
-export function save(key: string, value: unknown): boolean {
+export function save(key: string, value: unknown, instance: KeyValueStorage = storage): boolean {
   try {
-    saveString(key, JSON.stringify(value))
+    saveString(key, JSON.stringify(value), instance)
     return true
   } catch {
     return false
@@ -65,18 +79,21 @@ export function save(key: string, value: unknown): boolean {
  * Removes something from storage.
  *
  * @param key The key to kill.
+ * @param instance The storage to use, e.g. `secureStorage`.
  */
-export function remove(key: string): void {
+export function remove(key: string, instance: KeyValueStorage = storage): void {
   try {
-    storage.delete(key)
+    instance.delete(key)
   } catch {}
 }
 
 /**
  * Burn it all to the ground.
+ *
+ * @param instance The storage to use, e.g. `secureStorage`.
  */
-export function clear(): void {
+export function clear(instance: KeyValueStorage = storage): void {
   try {
-    storage.clearAll()
+    instance.clearAll()
   } catch {}
 }
@@ -0,0 +1,57 @@
+import type { MMKV } from "react-native-mmkv"
+
+import type { KeyValueStorage } from "./index"
+
+const mockGetItem = jest.fn<string | null, [string]>()
+const mockSetItem = jest.fn<void, [string, string]>()
+const mockGetRandomBytes = jest.fn<Uint8Array, [number]>()
+
+jest.mock("expo-secure-store", () => ({
+  AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY: 0,
+  getItem: (key: string) => mockGetItem(key),
+  setItem: (key: string, value: string) => mockSetItem(key, value),
+}))
+jest.mock("expo-crypto", () => ({
+  getRandomBytes: (count: number) => mockGetRandomBytes(count),
+}))
+
+/** Loads `secureStorage` afresh, as on a cold start, and says whether it is an MMKV instance. */
+function loadSecureStorage(): { secureStorage: KeyValueStorage; isMMKV: boolean } {
+  let loaded: { secureStorage: KeyValueStorage; isMMKV: boolean } | undefined
+  jest.isolateModules(() => {
+    const { secureStorage } = require("./secureStorage")
+    const { MMKV: IsolatedMMKV } = require("react-native-mmkv") as { MMKV: typeof MMKV }
+    loaded = { secureStorage, isMMKV: secureStorage instanceof IsolatedMMKV }
+  })
+  return loaded!
+}
+
+describe("secureStorage", () => {
+  beforeEach(() => {
+    jest.resetAllMocks()
+  })
+
+  it("creates an encryption key without favouring any character", () => {
+    mockGetItem.mockReturnValue(null)
+    // 248 and up would wrap around onto the start of the 62 character alphabet.
+    mockGetRandomBytes.mockReturnValue(Uint8Array.from({ length: 16 }, (_, i) => (i < 8 ? 250 : i)))
+
+    expect(loadSecureStorage().isMMKV).toBe(true)
+    expect(mockGetRandomBytes).toHaveBeenCalledTimes(2)
+    expect(mockSetItem).toHaveBeenCalledWith(expect.any(String), "IJKLMNOPIJKLMNOP")
+  })
+
+  it("keeps the session in memory only when the keystore is unavailable", () => {
+    mockGetItem.mockImplementation(() => {
+      throw new Error("Keystore unavailable")
+    })
+    jest.spyOn(console, "warn").mockImplementation(() => {})
+
+    const { secureStorage, isMMKV } = loadSecureStorage()
+    secureStorage.set("auth.accessToken", "access")
+
+    expect(isMMKV).toBe(false)
+    expect(secureStorage.getString("auth.accessToken")).toBe("access")
+    expect(loadSecureStorage().secureStorage.getString("auth.accessToken")).toBeUndefined()
+  })
+})
@@ -0,0 +1,82 @@
+import { Platform } from "react-native"
+import * as Crypto from "expo-crypto"
+import * as SecureStore from "expo-secure-store"
+import { MMKV } from "react-native-mmkv"
+
+import type { KeyValueStorage } from "./index"
+
+/** Name of the MMKV encryption key in the platform keystore (Keychain / Android Keystore). */
+const ENCRYPTION_KEY_NAME = "secureStorage.encryptionKey"
+
+const KEY_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789"
+
+/**
+ * MMKV accepts encryption keys of up to 16 bytes. Random bytes at or above the largest
+ * multiple of the alphabet's length are skipped, so every character is equally likely.
+ */
+function generateKey(): string {
+  const limit = 256 - (256 % KEY_ALPHABET.length)
+  let key = ""
+  while (key.length < 16) {
+    for (const byte of Crypto.getRandomBytes(16)) {
+      if (byte < limit && key.length < 16) key += KEY_ALPHABET[byte % KEY_ALPHABET.length]
+    }
+  }
+  return key
+}
+
+/**
+ * Loads the encryption key from the keystore, creating it on first launch. The key is
+ * tied to this device, so a restored backup starts signed out rather than failing to
+ * decrypt.
+ */
+function loadEncryptionKey(): string | null {
+  const options = { keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY }
+  try {
+    let key = SecureStore.getItem(ENCRYPTION_KEY_NAME, options)
+    if (!key) {
+      key = generateKey()
+      SecureStore.setItem(ENCRYPTION_KEY_NAME, key, options)
+    }
+    return key
+  } catch (error) {
+    if (__DEV__) console.warn("Secure storage is unavailable, keeping the session in memory", error)
+    return null
+  }
+}
+
+/** Forgets everything when the app closes; for when secrets can't be written encrypted. */
+function createMemoryStorage(): KeyValueStorage {
+  const values = new Map<string, string | boolean | number | ArrayBuffer>()
+  return {
+    getString: (key) => {
+      const value = values.get(key)
+      return typeof value === "string" ? value : undefined
+    },
+    set: (key, value) => {
+      values.set(key, value)
+    },
+    delete: (key) => {
+      values.delete(key)
+    },
+    clearAll: () => values.clear(),
+    getAllKeys: () => [...values.keys()],
+  }
+}
+
+function createSecureStorage(): KeyValueStorage {
+  // There is no keystore on web, and MMKV's localStorage backend can't encrypt anyway.
+  if (Platform.OS === "web") return new MMKV({ id: "secure" })
+
+  // Without the keystore, tokens are not written to disk at all: the user signs in again
+  // on every launch rather than having them stored in the clear.
+  const encryptionKey = loadEncryptionKey()
+  return encryptionKey ? new MMKV({ id: "secure", encryptionKey }) : createMemoryStorage()
+}
+
+/**
+ * A separate, encrypted MMKV instance for secrets such as auth tokens. It is kept apart
+ * from `storage` so it isn't shared with navigation state or shown in Reactotron.
+ * Use it through the `@/utils/storage` helpers, e.g. `loadString(key, secureStorage)`.
+ */
+export const secureStorage = createSecureStorage()
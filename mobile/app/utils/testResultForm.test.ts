@@ -0,0 +1,81 @@
+import type { ParameterDto } from "@/services/api/types"
+
+import {
+  emptyTestResultForm,
+  isOutOfRange,
+  predictCompliance,
+  toCreateTestResultDto,
+  validateTestResultForm,
+} from "./testResultForm"
+
+const NOW = new Date(2026, 0, 15, 12, 0)
+
+const NITRATE: ParameterDto = {
+  id: "param-1",
+  name: "Nitrate",
+  unit: "mg/L",
+  whoThreshold: 50,
+  minValue: 0,
+  maxValue: 100,
+}
+
+describe("predictCompliance", () => {
+  it("passes values within range and under the WHO threshold", () => {
+    expect(predictCompliance(12.5, NITRATE)).toBe(0)
+    expect(predictCompliance(50, NITRATE)).toBe(0)
+  })
+
+  it("fails values above the WHO threshold or outside min/max", () => {
+    expect(predictCompliance(50.1, NITRATE)).toBe(1)
+    expect(predictCompliance(-1, NITRATE)).toBe(1)
+    expect(predictCompliance(101, { ...NITRATE, whoThreshold: null })).toBe(1)
+  })
+
+  it("warns when the parameter is unknown", () => {
+    expect(predictCompliance(12.5, undefined)).toBe(2)
+  })
+})
+
+describe("isOutOfRange", () => {
+  it("only flags values outside min/max", () => {
+    expect(isOutOfRange(75, NITRATE)).toBe(false)
+    expect(isOutOfRange(150, NITRATE)).toBe(true)
+    expect(isOutOfRange(150, { ...NITRATE, maxValue: null })).toBe(false)
+  })
+})
+
+describe("validateTestResultForm", () => {
+  it("mirrors the backend rules", () => {
+    expect(
+      validateTestResultForm(
+        { ...emptyTestResultForm("", NOW), testDate: "2026-01-16 09:00", value: "abc" },
+        NOW,
+      ),
+    ).toEqual({
+      parameterName: "testResultEntryScreen:errors.parameterRequired",
+      value: "testResultEntryScreen:errors.valueRequired",
+      unit: "testResultEntryScreen:errors.unitRequired",
+      technicianName: "testResultEntryScreen:errors.technicianRequired",
+      testDate: "testResultEntryScreen:errors.dateInFuture",
+    })
+  })
+
+  it("builds the create payload from a valid form", () => {
+    const values = {
+      ...emptyTestResultForm(" Lab Tech ", NOW),
+      parameterName: "Nitrate",
+      value: "12,5",
+      unit: "mg/L",
+    }
+    expect(validateTestResultForm(values, NOW)).toEqual({})
+    expect(toCreateTestResultDto(values, "sample-1")).toEqual({
+      sampleId: "sample-1",
+      parameterName: "Nitrate",
+      value: 12.5,
+      unit: "mg/L",
+      testDate: new Date(2026, 0, 15, 12, 0).toISOString(),
+      technicianName: "Lab Tech",
+      testMethod: 0,
+    })
+  })
+})
@@ -0,0 +1,130 @@
+import { format } from "date-fns/format"
+import { isValid } from "date-fns/isValid"
+import { parse } from "date-fns/parse"
+
+import type { TxKeyPath } from "@/i18n"
+import { ComplianceStatuses, TestMethods } from "@/services/api/enums"
+import type {
+  ComplianceStatus,
+  CreateTestResultDto,
+  ParameterDto,
+  TestMethod,
+} from "@/services/api/types"
+
+/** Format used for the test date text field. */
+export const TEST_DATE_FORMAT = "yyyy-MM-dd HH:mm"
+
+/** Text-field friendly shape of a test result while it is being entered. */
+export type TestResultFormValues = {
+  parameterName: string
+  value: string
+  unit: string
+  testDate: string
+  technicianName: string
+  testMethod: TestMethod
+}
+
+export type TestResultFormErrors = Partial<Record<keyof TestResultFormValues, TxKeyPath>>
+
+export function emptyTestResultForm(technicianName = "", now = new Date()): TestResultFormValues {
+  return {
+    parameterName: "",
+    value: "",
+    unit: "",
+    testDate: format(now, TEST_DATE_FORMAT),
+    technicianName,
+    testMethod: TestMethods.byKey.titration,
+  }
+}
+
+/** Parses the value field, accepting a comma as the decimal separator. NaN when blank. */
+export function parseResultValue(value: string): number {
+  return value.trim() === "" ? NaN : Number(value.trim().replace(",", "."))
+}
+
+function parseTestDate(value: string): Date {
+  return parse(value.trim(), TEST_DATE_FORMAT, new Date())
+}
+
+/**
+ * Predicts the `ComplianceStatus` the server will assign, mirroring the backend's
+ * `ComplianceCalculator`: a value outside the parameter's min/max or above its WHO
+ * threshold fails, and an unknown parameter is a warning.
+ *
+ * @param value The measured value.
+ * @param parameter The active parameter the value was measured for, if known.
+ */
+export function predictCompliance(value: number, parameter?: ParameterDto): ComplianceStatus {
+  const { pass, fail, warning } = ComplianceStatuses.byKey
+  if (!parameter) return warning
+
+  const { minValue, maxValue, whoThreshold } = parameter
+  if (minValue != null && value < minValue) return fail
+  if (maxValue != null && value > maxValue) return fail
+  if (whoThreshold != null && value > whoThreshold) return fail
+
+  return pass
+}
+
+/**
+ * True when the value falls outside the parameter's accepted min/max. The server still
+ * accepts such values (and marks them as failing), so this only drives a hint.
+ */
+export function isOutOfRange(value: number, parameter?: ParameterDto): boolean {
+  if (!parameter || isNaN(value)) return false
+  return (
+    (parameter.minValue != null && value < parameter.minValue) ||
+    (parameter.maxValue != null && value > parameter.maxValue)
+  )
+}
+
+/**
+ * Mirrors the backend's `CreateTestResultDtoValidator`.
+ *
+ * @param values The form values.
+ * @param now The current time, used to reject future test dates.
+ */
+export function validateTestResultForm(
+  values: TestResultFormValues,
+  now = new Date(),
+): TestResultFormErrors {
+  const errors: TestResultFormErrors = {}
+
+  if (!values.parameterName) errors.parameterName = "testResultEntryScreen:errors.parameterRequired"
+
+  if (!isFinite(parseResultValue(values.value))) {
+    errors.value = "testResultEntryScreen:errors.valueRequired"
+  }
+
+  const unit = values.unit.trim()
+  if (!unit) errors.unit = "testResultEntryScreen:errors.unitRequired"
+  else if (unit.length > 20) errors.unit = "testResultEntryScreen:errors.tooLong"
+
+  const testDate = parseTestDate(values.testDate)
+  if (!isValid(testDate)) errors.testDate = "testResultEntryScreen:errors.dateFormat"
+  else if (testDate > now) errors.testDate = "testResultEntryScreen:errors.dateInFuture"
+
+  const technicianName = values.technicianName.trim()
+  if (!technicianName) errors.technicianName = "testResultEntryScreen:errors.technicianRequired"
+  else if (technicianName.length > 100) {
+    errors.technicianName = "testResultEntryScreen:errors.tooLong"
+  }
+
+  return errors
+}
+
+/** Call only after `validateTestResultForm` returned no errors. */
+export function toCreateTestResultDto(
+  values: TestResultFormValues,
+  sampleId: string,
+): CreateTestResultDto {
+  return {
+    sampleId,
+    parameterName: values.parameterName,
+    value: parseResultValue(values.value),
+    unit: values.unit.trim(),
+    testDate: parseTestDate(values.testDate).toISOString(),
+    technicianName: values.technicianName.trim(),
+    testMethod: values.testMethod,
+  }
+}
@@ -0,0 +1,102 @@
+import NetInfo, { type NetInfoState } from "@react-native-community/netinfo"
+
+import type { TokenRefreshResult } from "@/services/api"
+
+import { createRefreshScheduler, msUntilRefresh, REFRESH_LEAD_TIME } from "./tokenRefresh"
+
+describe("msUntilRefresh", () => {
+  const now = Date.UTC(2026, 0, 1)
+
+  it("refreshes the lead time before expiry", () => {
+    expect(msUntilRefresh(now + 60 * 60 * 1000, now)).toBe(60 * 60 * 1000 - REFRESH_LEAD_TIME)
+  })
+
+  it("refreshes right away once inside the lead time or expired", () => {
+    expect(msUntilRefresh(now + REFRESH_LEAD_TIME / 2, now)).toBe(0)
+    expect(msUntilRefresh(now - 1000, now)).toBe(0)
+  })
+
+  it("stays within what setTimeout supports", () => {
+    expect(msUntilRefresh(now + 365 * 24 * 60 * 60 * 1000, now)).toBe(2 ** 31 - 1)
+  })
+})
+
+describe("createRefreshScheduler", () => {
+  const now = Date.UTC(2026, 0, 1)
+  const expiry = now + REFRESH_LEAD_TIME + 10_000
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now })
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it("refreshes once, shortly before expiry", async () => {
+    const refresh = jest.fn(async (): Promise<TokenRefreshResult> => ({ kind: "ok" }))
+    createRefreshScheduler(expiry, refresh).arm()
+
+    await jest.advanceTimersByTimeAsync(9_999)
+    expect(refresh).not.toHaveBeenCalled()
+    await jest.advanceTimersByTimeAsync(1)
+    expect(refresh).toHaveBeenCalledTimes(1)
+
+    await jest.advanceTimersByTimeAsync(60 * 60 * 1000)
+    expect(refresh).toHaveBeenCalledTimes(1)
+  })
+
+  it("backs off while the refresh fails for a temporary reason", async () => {
+    const refresh = jest.fn(
+      async (): Promise<TokenRefreshResult> => ({ kind: "cannot-connect", temporary: true }),
+    )
+    refresh.mockResolvedValueOnce({ kind: "server" })
+    createRefreshScheduler(expiry, refresh).arm()
+
+    await jest.advanceTimersByTimeAsync(10_000)
+    expect(refresh).toHaveBeenCalledTimes(1)
+    await jest.advanceTimersByTimeAsync(5_000)
+    expect(refresh).toHaveBeenCalledTimes(2)
+    await jest.advanceTimersByTimeAsync(9_999)
+    expect(refresh).toHaveBeenCalledTimes(2)
+    await jest.advanceTimersByTimeAsync(1)
+    expect(refresh).toHaveBeenCalledTimes(3)
+  })
+
+  it("skips the refresh while offline and tries again once re-armed", async () => {
+    const refresh = jest.fn(async (): Promise<TokenRefreshResult> => ({ kind: "ok" }))
+    jest
+      .mocked(NetInfo.fetch)
+      .mockResolvedValueOnce({ isConnected: false, isInternetReachable: false } as NetInfoState)
+    const scheduler = createRefreshScheduler(expiry, refresh)
+    scheduler.arm()
+
+    await jest.advanceTimersByTimeAsync(60 * 60 * 1000)
+    expect(refresh).not.toHaveBeenCalled()
+
+    scheduler.arm()
+    await jest.advanceTimersByTimeAsync(0)
+    expect(refresh).toHaveBeenCalledTimes(1)
+  })
+
+  it("gives up once the server rejects the refresh", async () => {
+    const refresh = jest.fn(async (): Promise<TokenRefreshResult> => ({ kind: "unauthorized" }))
+    createRefreshScheduler(expiry, refresh).arm()
+
+    await jest.advanceTimersByTimeAsync(60 * 60 * 1000)
+    expect(refresh).toHaveBeenCalledTimes(1)
+  })
+
+  it("stops retrying when cancelled", async () => {
+    const refresh = jest.fn(
+      async (): Promise<TokenRefreshResult> => ({ kind: "timeout", temporary: true }),
+    )
+    const scheduler = createRefreshScheduler(expiry, refresh)
+    scheduler.arm()
+
+    await jest.advanceTimersByTimeAsync(10_000)
+    scheduler.cancel()
+    await jest.advanceTimersByTimeAsync(60 * 60 * 1000)
+    expect(refresh).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,79 @@
+import NetInfo from "@react-native-community/netinfo"
+
+import type { TokenRefreshResult } from "@/services/api"
+import { isRejection } from "@/services/api/apiProblem"
+
+/** How long before the access token expires to refresh it. */
+export const REFRESH_LEAD_TIME = 60 * 1000
+
+/** `setTimeout` overflows above this and fires immediately. */
+const MAX_TIMEOUT = 2 ** 31 - 1
+
+/**
+ * How long to wait before proactively refreshing the access token. Zero when the token
+ * is already inside the lead time, or expired while the app was in the background.
+ *
+ * @param tokenExpiry Unix timestamp (ms) when the access token expires.
+ * @param now The current time in ms.
+ */
+export function msUntilRefresh(tokenExpiry: number, now = Date.now()): number {
+  return Math.min(MAX_TIMEOUT, Math.max(0, tokenExpiry - REFRESH_LEAD_TIME - now))
+}
+
+/** Wait before trying again after a refresh that failed for a temporary reason. */
+const FIRST_RETRY_DELAY = 5 * 1000
+/** Retries back off up to this, so an outage doesn't keep the radio busy. */
+const MAX_RETRY_DELAY = 5 * 60 * 1000
+
+async function isOnline(): Promise<boolean> {
+  const state = await NetInfo.fetch()
+  return !!state.isConnected && state.isInternetReachable !== false
+}
+
+export type RefreshScheduler = {
+  /** Starts the wait over, e.g. when the app comes back to the foreground or online. */
+  arm: () => void
+  cancel: () => void
+}
+
+/**
+ * Calls `refresh` shortly before `tokenExpiry`. A refresh that fails because the server
+ * couldn't be reached or failed on its end is tried again with exponential backoff; one the
+ * server rejects is left to end the session and isn't retried. While the device is offline
+ * nothing is tried; `arm` again once it is back. Nothing runs until `arm`.
+ *
+ * @param tokenExpiry Unix timestamp (ms) when the access token expires.
+ * @param refresh Refreshes the access token, e.g. `api.refreshAccessToken`.
+ */
+export function createRefreshScheduler(
+  tokenExpiry: number,
+  refresh: () => Promise<TokenRefreshResult>,
+): RefreshScheduler {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let failures = 0
+  let cancelled = false
+
+  const wait = (ms: number) => {
+    clearTimeout(timer)
+    timer = setTimeout(run, ms)
+  }
+
+  async function run() {
+    if (!(await isOnline()) || cancelled) return
+    const result = await refresh()
+    if (cancelled || result.kind === "ok" || isRejection(result)) return
+    failures += 1
+    wait(Math.min(MAX_RETRY_DELAY, FIRST_RETRY_DELAY * 2 ** (failures - 1)))
+  }
+
+  return {
+    arm() {
+      failures = 0
+      wait(msUntilRefresh(tokenExpiry))
+    },
+    cancel() {
+      cancelled = true
+      clearTimeout(timer)
+    },
+  }
+}
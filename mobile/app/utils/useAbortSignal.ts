@@ -0,0 +1,22 @@
+import { useCallback, useEffect, useRef } from "react"
+
+/**
+ * Aborts the requests a screen started once it unmounts, so pending API retries stop
+ * instead of running on for a screen nobody is looking at.
+ * @returns {() => AbortSignal} - A function that returns the signal for the current mount.
+ */
+export function useAbortSignal() {
+  const controller = useRef<AbortController | null>(null)
+
+  useEffect(() => {
+    return () => {
+      controller.current?.abort()
+      controller.current = null
+    }
+  }, [])
+
+  return useCallback(() => {
+    controller.current ??= new AbortController()
+    return controller.current.signal
+  }, [])
+}
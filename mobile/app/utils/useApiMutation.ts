@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+
+import { queryCache, type QueryKey } from "@/services/query/queryCache"
+
+import { useIsMounted } from "./useIsMounted"
+
+export type UseApiMutationOptions<TVariables, TResult> = {
+  /**
+   * The queries the write changed. Each key is a prefix, so `["getTestResultsBySample", id]`
+   * covers every page of that sample's results.
+   */
+  invalidates?: (variables: TVariables, result: TResult) => QueryKey[]
+}
+
+/**
+ * Wraps a write, e.g. `api.createParameter` or one of `useSync`'s mutations, and
+ * invalidates the cached queries it affects once it succeeds. Writes queued in the outbox
+ * count as succeeded: screens merge pending records in themselves.
+ *
+ * @param mutate Performs the write.
+ * @param options See `UseApiMutationOptions`.
+ * @example
+ * const { mutate: create, isPending } = useApiMutation(createTestResult, {
+ *   invalidates: (dto) => [["getTestResultsBySample", dto.sampleId]],
+ * })
+ */
+export function useApiMutation<TVariables, TResult extends { kind: string }>(
+  mutate: (variables: TVariables) => Promise<TResult>,
+  options: UseApiMutationOptions<TVariables, TResult> = {},
+) {
+  const [isPending, setIsPending] = useState(false)
+  const isMounted = useIsMounted()
+
+  const latest = useRef({ mutate, options })
+  useEffect(() => {
+    latest.current = { mutate, options }
+  })
+
+  const run = useCallback(
+    async (variables: TVariables): Promise<TResult> => {
+      setIsPending(true)
+      const result = await latest.current.mutate(variables)
+      if (isMounted()) setIsPending(false)
+
+      if (result.kind === "ok" || result.kind === "queued") {
+        const keys = latest.current.options.invalidates?.(variables, result) ?? []
+        keys.forEach((key) => void queryCache.invalidate(key))
+      }
+      return result
+    },
+    [isMounted],
+  )
+
+  return { mutate: run, isPending }
+}
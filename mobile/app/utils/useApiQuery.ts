@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from "react"
+
+import {
+  hashQueryKey,
+  queryCache,
+  type QueryFetcher,
+  type QueryKey,
+} from "@/services/query/queryCache"
+
+export type UseApiQueryOptions = {
+  /** How long, in ms, data is shown without refetching when a screen mounts. Defaults to 30s. */
+  staleTime?: number
+  /** Keeps the data across cold starts, for lookups worth having before the network is. */
+  persist?: boolean
+  /** Set to false to hold off fetching, e.g. until an id is known. */
+  enabled?: boolean
+}
+
+/**
+ * Reads `key` from the shared query cache and fetches it with `fetcher` when it is
+ * missing or stale. Cached data is returned straight away while the refetch runs, so a
+ * screen only shows a spinner the first time.
+ *
+ * @param key The `Api` method and its arguments, e.g. `["getSampleById", sampleId]`.
+ * @param fetcher Calls that method; pass the options on so the request can be cancelled.
+ * @param options See `UseApiQueryOptions`.
+ * @example
+ * const { data, problem, isLoading, refetch } = useApiQuery(
+ *   ["getSampleById", sampleId],
+ *   (options) => api.getSampleById(sampleId, options),
+ * )
+ */
+export function useApiQuery<T>(
+  key: QueryKey,
+  fetcher: QueryFetcher<T>,
+  { staleTime = 30_000, persist = false, enabled = true }: UseApiQueryOptions = {},
+) {
+  const hash = hashQueryKey(key)
+  // Callers build the key inline; only its contents matter.
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const stableKey = useMemo(() => key, [hash])
+
+  // Always the latest render's closure, without refetching whenever it changes.
+  const fetcherRef = useRef(fetcher)
+  useEffect(() => {
+    fetcherRef.current = fetcher
+  })
+  const fetchLatest = useCallback<QueryFetcher<T>>((options) => fetcherRef.current(options), [])
+
+  const state = useSyncExternalStore(
+    useCallback((onChange) => queryCache.subscribe(stableKey, onChange), [stableKey]),
+    useCallback(() => queryCache.getState<T>(stableKey), [stableKey]),
+  )
+
+  useEffect(() => {
+    if (enabled) void queryCache.fetch(stableKey, fetchLatest, { staleTime, persist })
+  }, [enabled, fetchLatest, persist, stableKey, staleTime])
+
+  /** Fetches unless the data is fresh, sharing a fetch already out; e.g. on screen focus. */
+  const revalidate = useCallback(
+    () => queryCache.fetch(stableKey, fetchLatest, { staleTime, persist }),
+    [fetchLatest, persist, stableKey, staleTime],
+  )
+
+  /** Fetches even if the data is fresh, e.g. for pull-to-refresh. */
+  const refetch = useCallback(
+    () => queryCache.fetch(stableKey, fetchLatest, { force: true, persist }),
+    [fetchLatest, persist, stableKey],
+  )
+
+  return {
+    data: state.data,
+    problem: state.problem,
+    /** Nothing to show yet; with cached data, `isFetching` alone reports the refresh. */
+    isLoading: state.data === undefined && (state.isFetching || (enabled && !state.problem)),
+    isFetching: state.isFetching,
+    updatedAt: state.updatedAt,
+    revalidate,
+    refetch,
+  }
+}
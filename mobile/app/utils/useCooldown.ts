@@ -0,0 +1,20 @@
+import { useCallback, useEffect, useState } from "react"
+
+/**
+ * Counts down once a second after `start` is called, e.g. to hold off resending an email.
+ * @param {number} seconds - How long the cooldown lasts.
+ * @returns {readonly [number, () => void]} - The seconds left, 0 once it is over, and `start`.
+ */
+export function useCooldown(seconds: number) {
+  const [remaining, setRemaining] = useState(0)
+
+  useEffect(() => {
+    if (remaining <= 0) return undefined
+    const timer = setTimeout(() => setRemaining((left) => left - 1), 1000)
+    return () => clearTimeout(timer)
+  }, [remaining])
+
+  const start = useCallback(() => setRemaining(seconds), [seconds])
+
+  return [remaining, start] as const
+}
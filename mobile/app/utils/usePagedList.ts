@@ -0,0 +1,108 @@
+import { useCallback, useRef, useState } from "react"
+import { useFocusEffect } from "@react-navigation/native"
+
+import type { GeneralApiProblem } from "@/services/api/apiProblem"
+import type { CallOptions } from "@/services/api/request"
+
+import { hasMorePages, type Identified, mergePage, type PagedResult } from "./pagedList"
+import { useAbortSignal } from "./useAbortSignal"
+
+/** Loads one page; pass `options` on so the request is cancelled with the screen. */
+export type PageFetcher<T> = (
+  pageNumber: number,
+  pageSize: number,
+  options: CallOptions,
+) => Promise<{ kind: "ok"; data: PagedResult<T> } | GeneralApiProblem>
+
+export type UsePagedListOptions = {
+  pageSize?: number
+  /** Set to false to hold off loading, e.g. until a lab is chosen. */
+  enabled?: boolean
+}
+
+/**
+ * The pages of a `*PagedResult` endpoint loaded so far, as one list. The first page loads
+ * whenever the screen gains focus and whenever `fetchPage` changes, so wrap it in
+ * `useCallback` with its filters as dependencies. Render it with `PagedList`.
+ *
+ * @param fetchPage Calls the endpoint for one page.
+ * @param options See `UsePagedListOptions`.
+ * @example
+ * const list = usePagedList(
+ *   useCallback((page, size, options) => api.getLabs(page, size, options), []),
+ * )
+ */
+export function usePagedList<T extends Identified>(
+  fetchPage: PageFetcher<T>,
+  { pageSize = 50, enabled = true }: UsePagedListOptions = {},
+) {
+  const [items, setItems] = useState<T[]>([])
+  /** The last page loaded; 0 until the first one arrives. */
+  const [pageNumber, setPageNumber] = useState(0)
+  const [totalCount, setTotalCount] = useState<number | undefined>()
+  const [hasNextPage, setHasNextPage] = useState(false)
+  const [problem, setProblem] = useState<GeneralApiProblem | undefined>()
+  /** Which page is on its way, if any. */
+  const [loadingPage, setLoadingPage] = useState<number | undefined>()
+  const loadingRef = useRef(false)
+  /** Bumped by every refresh, so responses for the list it replaced are dropped. */
+  const generation = useRef(0)
+  const signal = useAbortSignal()
+
+  const loadPage = useCallback(
+    async (page: number) => {
+      if (page === 1) generation.current += 1
+      else if (loadingRef.current) return
+      const run = generation.current
+      loadingRef.current = true
+      setLoadingPage(page)
+
+      const result = await fetchPage(page, pageSize, { signal: signal() })
+      if (run !== generation.current) return
+      loadingRef.current = false
+      setLoadingPage(undefined)
+
+      if (result.kind !== "ok") {
+        if (result.kind !== "cancelled") setProblem(result)
+        return
+      }
+      setProblem(undefined)
+      setItems((loaded) => mergePage(page === 1 ? [] : loaded, result.data))
+      setPageNumber(page)
+      setTotalCount(result.data.totalCount)
+      setHasNextPage(hasMorePages(result.data, page))
+    },
+    [fetchPage, pageSize, signal],
+  )
+
+  /** Starts over from the first page, e.g. for pull-to-refresh. */
+  const refresh = useCallback(() => loadPage(1), [loadPage])
+
+  useFocusEffect(
+    useCallback(() => {
+      if (enabled) void refresh()
+    }, [enabled, refresh]),
+  )
+
+  /** Loads the next page, unless there is none or one is already on its way. */
+  const loadMore = useCallback(() => {
+    if (hasNextPage && !problem && pageNumber > 0 && !loadingRef.current) {
+      void loadPage(pageNumber + 1)
+    }
+  }, [hasNextPage, loadPage, pageNumber, problem])
+
+  return {
+    items,
+    totalCount,
+    hasNextPage,
+    problem,
+    /** The first page is loading, e.g. on pull-to-refresh. */
+    isRefreshing: loadingPage === 1,
+    /** A page after the first is loading. */
+    isLoadingMore: loadingPage !== undefined && loadingPage > 1,
+    refresh,
+    loadMore,
+  }
+}
+
+export type PagedListState<T extends Identified> = ReturnType<typeof usePagedList<T>>
@@ -0,0 +1,13 @@
+import { useAuth } from "@/context/AuthContext"
+
+import { can, type Permission } from "./permissions"
+
+/**
+ * Whether the user's role in the current lab allows `permission`.
+ * @param {Permission} permission - The action to check, e.g. `"sample:delete"`.
+ * @returns {boolean} - True if the action is allowed.
+ */
+export function usePermission(permission: Permission) {
+  const { labRole } = useAuth()
+  return can(permission, labRole)
+}
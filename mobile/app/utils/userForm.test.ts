@@ -0,0 +1,62 @@
+import { UserRoles } from "@/services/api/enums"
+
+import {
+  emptyUserForm,
+  membershipIn,
+  passwordError,
+  toCreateUserDto,
+  type UserFormValues,
+  validateUserForm,
+} from "./userForm"
+
+const VALID: UserFormValues = {
+  ...emptyUserForm(),
+  userName: " tech.one ",
+  email: "tech@example.org ",
+  password: "Secret#123",
+  role: UserRoles.byKey.technician,
+}
+
+describe("validateUserForm", () => {
+  it("accepts a complete form", () => {
+    expect(validateUserForm(VALID)).toEqual({})
+  })
+
+  it("rejects blank names, malformed emails and weak passwords", () => {
+    expect(
+      validateUserForm({ ...VALID, userName: " ", email: "tech@", password: "secret" }),
+    ).toEqual({
+      userName: "userCreateScreen:errors.userNameRequired",
+      email: "userCreateScreen:errors.email",
+      password: "userCreateScreen:errors.passwordTooShort",
+    })
+  })
+})
+
+describe("passwordError", () => {
+  it("requires every character class", () => {
+    expect(passwordError("Secret1234")).toBe("userCreateScreen:errors.passwordWeak")
+    expect(passwordError("secret#123")).toBe("userCreateScreen:errors.passwordWeak")
+    expect(passwordError("Secret#123")).toBeUndefined()
+  })
+})
+
+describe("toCreateUserDto", () => {
+  it("trims the name and email but not the password", () => {
+    expect(toCreateUserDto({ ...VALID, password: " Secret#123" }, "lab-1")).toEqual({
+      userName: "tech.one",
+      email: "tech@example.org",
+      password: " Secret#123",
+      role: UserRoles.byKey.technician,
+      labId: "lab-1",
+    })
+  })
+})
+
+describe("membershipIn", () => {
+  it("finds the membership for a lab", () => {
+    const member = { labId: "lab-2", labName: "North", role: UserRoles.byKey.admin }
+    expect(membershipIn({ id: "u-1", labs: [member] }, "lab-2")).toBe(member)
+    expect(membershipIn({ id: "u-1", labs: null }, "lab-2")).toBeUndefined()
+  })
+})
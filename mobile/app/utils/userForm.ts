@@ -0,0 +1,75 @@
+import type { TxKeyPath } from "@/i18n"
+import { UserRoles } from "@/services/api/enums"
+import type { CreateUserDto, UserDto, UserLabDto, UserRole } from "@/services/api/types"
+
+/** Shape of the new-user form. The lab is always the admin's current lab. */
+export type UserFormValues = {
+  userName: string
+  email: string
+  password: string
+  role: UserRole
+}
+
+export type UserFormErrors = Partial<Record<keyof UserFormValues, TxKeyPath>>
+
+export function emptyUserForm(): UserFormValues {
+  return { userName: "", email: "", password: "", role: UserRoles.byKey.viewer }
+}
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+/**
+ * Mirrors ASP.NET Identity's default password options, which the backend keeps: at least
+ * 8 characters with a lowercase and an uppercase letter, a digit and a symbol.
+ *
+ * @param password The password to check.
+ */
+export function passwordError(password: string): TxKeyPath | undefined {
+  if (password.length < 8) return "userCreateScreen:errors.passwordTooShort"
+  const classes = [/[a-z]/, /[A-Z]/, /\d/, /[^a-zA-Z0-9]/]
+  if (!classes.every((pattern) => pattern.test(password))) {
+    return "userCreateScreen:errors.passwordWeak"
+  }
+  return undefined
+}
+
+/**
+ * Catches the mistakes the backend would reject before the user is created.
+ *
+ * @param values The form values.
+ */
+export function validateUserForm(values: UserFormValues): UserFormErrors {
+  const errors: UserFormErrors = {}
+
+  const userName = values.userName.trim()
+  if (!userName) errors.userName = "userCreateScreen:errors.userNameRequired"
+  else if (/\s/.test(userName)) errors.userName = "userCreateScreen:errors.userNameSpaces"
+
+  if (!EMAIL_PATTERN.test(values.email.trim())) errors.email = "userCreateScreen:errors.email"
+
+  const password = passwordError(values.password)
+  if (password) errors.password = password
+
+  return errors
+}
+
+/** Call only after `validateUserForm` returned no errors. */
+export function toCreateUserDto(values: UserFormValues, labId: string): CreateUserDto {
+  return {
+    userName: values.userName.trim(),
+    email: values.email.trim(),
+    password: values.password,
+    role: values.role,
+    labId,
+  }
+}
+
+/**
+ * The user's membership in `labId`, if they have one.
+ *
+ * @param user The user, with their memberships.
+ * @param labId The lab to look for.
+ */
+export function membershipIn(user: UserDto, labId: string | undefined): UserLabDto | undefined {
+  return user.labs?.find((membership) => membership.labId === labId)
+}